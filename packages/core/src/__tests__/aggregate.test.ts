@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { createAggregator } from '../aggregate'
+
+const ordersTable = defineTable()
+  .column('id', 'number')
+  .column('status', 'string')
+  .column('amount', 'number')
+  .column('placedAt', 'date')
+  .column('meta', 'json')
+  .primaryKey('id')
+  .indexes('status')
+  .build()
+
+const day = (d: number) => new Date(Date.UTC(2024, 0, d))
+const orders = [
+  { status: 'paid', amount: 30, placedAt: day(4), meta: { channel: 'web' } },
+  { status: 'open', amount: 10, placedAt: day(2), meta: { channel: 'store' } },
+  { status: 'paid', amount: 20, placedAt: day(1), meta: { channel: 'web' } },
+  { status: 'refunded', amount: 5, placedAt: day(3), meta: { channel: 'web' } },
+]
+
+describe('createAggregator', () => {
+  it('groups rows and reduces metrics per group', () => {
+    const aggregator = createAggregator({
+      groupBy: 'meta.channel',
+      metrics: { rows: 'count', total: { fn: 'sum', field: 'amount' }, first: { fn: 'min', field: 'placedAt' } }
+    })
+    orders.forEach(order => aggregator.add(order))
+
+    expect(aggregator.results()).toEqual([
+      { group: { 'meta.channel': 'store' }, metrics: { rows: 1, total: 10, first: day(2) } },
+      { group: { 'meta.channel': 'web' }, metrics: { rows: 3, total: 55, first: day(1) } },
+    ])
+  })
+
+  it('reports an empty match set as a single zero row', () => {
+    const aggregator = createAggregator({ metrics: { n: 'count', avg: { fn: 'avg', field: 'amount' } } })
+
+    expect(aggregator.results()).toEqual([{ group: {}, metrics: { n: 0, avg: null } }])
+  })
+
+  it('rejects metrics without a field', () => {
+    expect(() => createAggregator({ metrics: { total: { fn: 'sum' } } })).toThrow(/requires a field/)
+  })
+})
+
+describe('ColumnistDB.aggregate', () => {
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase('aggregate-test')
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  it('aggregates matching rows through the cursor', async () => {
+    const db = await Columnist.init('aggregate-test', {
+      databaseName: 'aggregate-test',
+      autoInitialize: false,
+      schema: { orders: ordersTable }
+    })
+    for (const order of orders) await db.insert(order, 'orders')
+
+    expect(await db.aggregate({ table: 'orders' })).toEqual([{ group: {}, metrics: { count: 4 } }])
+
+    const byStatus = await db.aggregate({
+      table: 'orders',
+      where: { status: { $in: ['paid', 'open'] } },
+      groupBy: 'status',
+      metrics: { orders: 'count', revenue: { fn: 'sum', field: 'amount' }, avg: { fn: 'avg', field: 'amount' } }
+    })
+    expect(byStatus).toEqual([
+      { group: { status: 'open' }, metrics: { orders: 1, revenue: 10, avg: 10 } },
+      { group: { status: 'paid' }, metrics: { orders: 2, revenue: 50, avg: 25 } },
+    ])
+
+    const latest = await db.aggregate({
+      table: 'orders',
+      where: { 'meta.channel': 'web' },
+      metrics: { latest: { fn: 'max', field: 'placedAt' } }
+    })
+    expect(latest[0].metrics.latest).toEqual(day(4))
+  })
+})
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { createAnalyzer, registerAnalyzer, resolveAnalyzer } from '../analyzers'
+import { porterStem } from '../porter-stemmer'
+
+describe('porterStem', () => {
+  it('strips English suffixes', () => {
+    const words = ['caresses', 'ponies', 'running', 'hopping', 'relational', 'generalizations', 'happy', 'agreed', 'controll', 'yelling']
+    expect(words.map(porterStem)).toEqual(['caress', 'poni', 'run', 'hop', 'relat', 'gener', 'happi', 'agre', 'control', 'yell'])
+    expect(porterStem('42nd')).toBe('42nd')
+  })
+})
+
+describe('analyzers', () => {
+  it('folds, drops stop words and stems with the english analyzer', () => {
+    expect(resolveAnalyzer('english').analyze('The Cafés were RUNNING into the Crêpes')).toEqual(['cafe', 'were', 'run', 'crepe'])
+    expect(resolveAnalyzer('english').normalize!('Cafés runn')).toEqual(['cafes', 'runn'])
+  })
+
+  it('splits CJK runs into bigrams and words into n-grams', () => {
+    expect(resolveAnalyzer('cjk').analyze('東京都 tower')).toEqual(['東京', '京都', 'tower'])
+    expect(createAnalyzer({ tokenizer: 'ngram', ngram: { min: 2, max: 2 } }).analyze('abcd e')).toEqual(['ab', 'bc', 'cd', 'e'])
+  })
+
+  it('rejects unknown analyzer names', () => {
+    expect(() => resolveAnalyzer('klingon')).toThrow('Unknown analyzer "klingon"')
+  })
+})
+
+describe('ColumnistDB analyzers', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  function posts(analyzer?: string) {
+    const builder = defineTable().column('id', 'number').column('body', 'string').primaryKey('id').searchable('body')
+    return (analyzer ? builder.analyzer(analyzer) : builder).build()
+  }
+
+  it('matches stemmed queries against stemmed documents', async () => {
+    dbName = 'analyzer-english-test'
+    const db = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { posts: posts('english') } })
+    await db.insert({ body: 'She runs every morning' }, 'posts')
+    await db.insert({ body: 'The café opens at nine' }, 'posts')
+
+    expect((await db.search<{ body: string }>('running', { table: 'posts' })).map(hit => hit.body)).toEqual(['She runs every morning'])
+    expect((await db.search<{ body: string }>('cafe', { table: 'posts' })).map(hit => hit.body)).toEqual(['The café opens at nine'])
+    expect(await db.search('the', { table: 'posts' })).toHaveLength(2)
+
+    const [hit] = await db.search('running', { table: 'posts', highlight: {} })
+    expect(hit.highlights).toEqual({ body: ['She <mark>runs</mark> every morning'] })
+  })
+
+  it('reindexes a table when its analyzer changes', async () => {
+    dbName = 'analyzer-change-test'
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const first = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { posts: posts() } })
+    await first.insert({ body: '東京都の天気' }, 'posts')
+    expect(await first.search('東京', { table: 'posts' })).toEqual([])
+
+    const second = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { posts: posts('cjk') } })
+    expect((await second.search('東京', { table: 'posts' })).map(hit => hit.id)).toEqual([1])
+    expect(await second.diffSchema()).toMatchObject({ tables: [] })
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('uses registered analyzers', async () => {
+    dbName = 'analyzer-custom-test'
+    registerAnalyzer('reversed', { analyze: text => text.split(/\s+/).filter(Boolean).map(word => [...word].reverse().join('')) })
+    const db = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { posts: posts('reversed') } })
+    await db.insert({ body: 'hello world' }, 'posts')
+
+    expect((await db.search('hello', { table: 'posts' })).map(hit => hit.id)).toEqual([1])
+    expect(await db.getStats('posts')).toMatchObject({ fieldLengths: { body: 2 } })
+  })
+})
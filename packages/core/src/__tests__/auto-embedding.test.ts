@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { EmbeddingQueue, type EmbeddingJob } from '../embedding-queue'
+
+const notes = defineTable()
+  .column('id', 'number')
+  .column('text', 'string')
+  .column('pinned', 'boolean')
+  .primaryKey('id')
+  .vector({ field: 'text', dims: 2 })
+  .build()
+
+// "x y" -> [x, y]
+function parse(text: string): Float32Array {
+  return new Float32Array(text.split(' ').map(Number))
+}
+
+describe('EmbeddingQueue', () => {
+  const request = (id: number, text = `${id} 0`) => ({ key: 'notes', table: 'notes', field: 'text', id, text })
+
+  it('runs queued jobs in batches once the current task is done', async () => {
+    const batches: number[][] = []
+    const queue = new EmbeddingQueue(async (_key, jobs) => {
+      batches.push(jobs.map(job => job.id))
+      return jobs.map(() => null)
+    }, { batchSize: 2 })
+    for (let id = 1; id <= 5; id++) queue.enqueue(request(id))
+    // A row queued again keeps only its newest text
+    queue.enqueue(request(3, '9 9'))
+
+    expect(queue.status('notes').pending).toEqual([1, 2, 3, 4, 5])
+    await queue.settled()
+    expect(batches).toEqual([[1, 2], [3, 4], [5]])
+    expect(queue.status('notes')).toEqual({ pending: [], failed: [] })
+  })
+
+  it('retries failed jobs and reports them once out of attempts', async () => {
+    const attempts = new Map<number, number>()
+    const queue = new EmbeddingQueue(async (_key, jobs: EmbeddingJob[]) => jobs.map(job => {
+      attempts.set(job.id, (attempts.get(job.id) ?? 0) + 1)
+      return job.id === 2 || attempts.get(job.id)! < 2 ? new Error(`failed ${job.id}`) : null
+    }), { maxAttempts: 3, retryDelay: 1 })
+    queue.enqueue(request(1))
+    queue.enqueue(request(2))
+
+    await queue.settled()
+    expect(Object.fromEntries(attempts)).toEqual({ 1: 2, 2: 3 })
+    expect(queue.status('notes')).toEqual({ pending: [], failed: [{ id: 2, error: 'failed 2', attempts: 3 }] })
+  })
+})
+
+describe('ColumnistDB automatic embedding', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function open(name: string) {
+    dbName = name
+    return Columnist.init(name, {
+      databaseName: name,
+      autoInitialize: false,
+      schema: { notes },
+      embedding: { retryDelay: 1, maxAttempts: 2 }
+    })
+  }
+
+  it('embeds in the background without blocking writes', async () => {
+    const db = await open('auto-embedding-background-test')
+    let release!: () => void
+    const gate = new Promise<void>(resolve => { release = resolve })
+    db.registerEmbedder('notes', async text => {
+      await gate
+      return parse(text)
+    })
+
+    const { id } = await db.insert({ text: '1 0', pinned: false }, 'notes')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(db.getEmbeddingStatus('notes').pending).toEqual([id])
+    // Searches don't wait for the queue; they see the vectors stored so far
+    expect(await db.vectorSearch('notes', new Float32Array([1, 0]), { limit: 1 })).toEqual([])
+
+    release()
+    await db.flushEmbeddings()
+    const hits = await db.vectorSearch('notes', new Float32Array([1, 0]), { limit: 1 })
+    expect(hits.map(hit => hit.id)).toEqual([id])
+    expect(db.getEmbeddingStatus('notes')).toEqual({ pending: [], failed: [] })
+  })
+
+  it('embeds bulk inserts and imports, and re-embeds only changed sources', async () => {
+    const db = await open('auto-embedding-writes-test')
+    const embedded: string[] = []
+    db.registerEmbedder('notes', async text => {
+      embedded.push(text)
+      return parse(text)
+    })
+
+    await db.bulkInsert([{ text: '1 0', pinned: false }, { text: '0 1', pinned: false }], 'notes')
+    await db.import({ notes: [{ id: 3, text: '1 1', pinned: true }] })
+    await db.flushEmbeddings()
+    expect(embedded).toEqual(['1 0', '0 1', '1 1'])
+
+    await db.update(1, { pinned: true }, 'notes')
+    await db.update(2, { text: '-1 0' }, 'notes')
+    await db.flushEmbeddings()
+    expect(embedded).toEqual(['1 0', '0 1', '1 1', '-1 0'])
+
+    const hits = await db.vectorSearch('notes', new Float32Array([-1, 0]), { limit: 1 })
+    expect(hits.map(hit => hit.id)).toEqual([2])
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({ totalVectors: 3 })
+  })
+
+  it('hands whole batches to a batch embedder', async () => {
+    const db = await open('auto-embedding-batch-test')
+    const calls: string[][] = []
+    db.registerBatchEmbedder('notes', async texts => {
+      calls.push(texts)
+      return texts.map(parse)
+    })
+
+    await db.bulkInsert([{ text: '1 0', pinned: false }, { text: '0 1', pinned: false }, { text: '1 1', pinned: false }], 'notes')
+    await db.flushEmbeddings()
+    expect(calls).toEqual([['1 0', '0 1', '1 1']])
+
+    // Query text goes through the same embedder as a batch of one
+    const hits = await db.vectorSearchText('notes', '0 1', { limit: 1 })
+    expect(hits.map(hit => hit.id)).toEqual([2])
+    expect(calls[1]).toEqual(['0 1'])
+  })
+
+  it('drops embeddings of rows updated or deleted while they were embedded', async () => {
+    const db = await open('auto-embedding-stale-test')
+    db.registerEmbedder('notes', async text => {
+      await new Promise(resolve => setTimeout(resolve, 5))
+      return parse(text)
+    })
+
+    await db.insert({ text: '1 0', pinned: false }, 'notes')
+    await db.insert({ text: '0 1', pinned: false }, 'notes')
+    await new Promise(resolve => setTimeout(resolve, 1))
+    await db.update(1, { text: '-1 0' }, 'notes')
+    await db.delete(2, 'notes')
+    await db.flushEmbeddings()
+
+    const hits = await db.vectorSearch('notes', new Float32Array([-1, 0]), { metric: 'euclidean', limit: 5 })
+    expect(hits.map(hit => hit.id)).toEqual([1])
+    expect(hits[0].score).toBeCloseTo(0)
+  })
+
+  it('queues rows left without an embedding once an embedder is registered again', async () => {
+    const before = await open('auto-embedding-restart-test')
+    // The session ends before its queued jobs run
+    before.registerEmbedder('notes', () => new Promise<Float32Array>(() => undefined))
+    await before.bulkInsert([{ text: '1 0', pinned: false }, { text: '0 1', pinned: false }, { text: '', pinned: false }], 'notes')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(before.getEmbeddingStatus('notes').pending).toEqual([1, 2])
+
+    const db = await open('auto-embedding-restart-test')
+    const embedded: string[] = []
+    db.registerEmbedder('notes', async text => {
+      embedded.push(text)
+      return parse(text)
+    })
+    await db.flushEmbeddings()
+    // Rows without a source stay without a vector
+    expect(embedded).toEqual(['1 0', '0 1'])
+    const hits = await db.vectorSearch('notes', new Float32Array([0, 1]), { limit: 1 })
+    expect(hits.map(hit => hit.id)).toEqual([2])
+
+    // Registering again finds nothing missing
+    db.registerEmbedder('notes', async text => parse(text))
+    await db.flushEmbeddings()
+    expect(embedded).toHaveLength(2)
+  })
+
+  it('reports rows whose embedding failed and retries them on request', async () => {
+    const db = await open('auto-embedding-failure-test')
+    let available = false
+    db.registerEmbedder('notes', async text => {
+      if (!available) throw new Error('model unavailable')
+      return parse(text)
+    })
+
+    const { id } = await db.insert({ text: '1 0', pinned: false }, 'notes')
+    await db.flushEmbeddings()
+    expect(db.getEmbeddingStatus('notes')).toEqual({
+      pending: [],
+      failed: [{ id, error: 'model unavailable', attempts: 2 }]
+    })
+
+    available = true
+    db.retryFailedEmbeddings('notes')
+    await db.flushEmbeddings()
+    expect(db.getEmbeddingStatus('notes').failed).toEqual([])
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({ totalVectors: 1 })
+  })
+})
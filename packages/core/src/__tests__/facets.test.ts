@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { createFacetCounter } from '../facets'
+
+describe('createFacetCounter', () => {
+  it('counts values, array elements once per record, and ranges', () => {
+    const counter = createFacetCounter([
+      'status',
+      { field: 'tags', size: 2 },
+      { field: 'createdAt', ranges: [{ label: 'old', to: '2024-01-01' }, { from: '2024-01-01' }] }
+    ])
+    counter.add({ status: 'open', tags: ['ui', 'bug', 'ui'], createdAt: new Date('2023-06-01') })
+    counter.add({ status: 'done', tags: ['bug'], createdAt: new Date('2024-02-01') })
+    counter.add({ status: 'open', tags: [], createdAt: new Date('2024-03-01') })
+    counter.add({ status: null, tags: ['docs'] })
+
+    expect(counter.results()).toEqual({
+      status: [{ value: 'open', count: 2 }, { value: 'done', count: 1 }],
+      tags: [{ value: 'bug', count: 2 }, { value: 'docs', count: 1 }],
+      createdAt: [{ value: 'old', count: 1 }, { value: '2024-01-01..', count: 2 }]
+    })
+  })
+})
+
+describe('ColumnistDB facets', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  const issues = defineTable()
+    .column('id', 'number')
+    .column('title', 'string')
+    .column('status', 'string')
+    .column('priority', 'number')
+    .column('tags', 'json')
+    .primaryKey('id')
+    .searchable('title')
+    .indexes('status')
+    .build()
+
+  async function seed(name: string) {
+    dbName = name
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { issues } })
+    await db.insert({ title: 'Crash on save', status: 'open', priority: 1, tags: ['bug', 'editor'] }, 'issues')
+    await db.insert({ title: 'Slow save on large files', status: 'open', priority: 2, tags: ['perf', 'editor'] }, 'issues')
+    await db.insert({ title: 'Save button misaligned', status: 'done', priority: 3, tags: ['bug', 'ui'] }, 'issues')
+    await db.insert({ title: 'Dark mode', status: 'open', priority: 3, tags: ['ui'] }, 'issues')
+    return db
+  }
+
+  it('counts every find() match regardless of the limit', async () => {
+    const db = await seed('facets-find-test')
+    const rows = await db.find({ table: 'issues', where: { status: 'open' }, orderBy: 'status', limit: 1, facets: ['priority', 'tags'] })
+
+    expect(rows).toHaveLength(1)
+    expect(rows.facets).toEqual({
+      priority: [{ value: 1, count: 1 }, { value: 2, count: 1 }, { value: 3, count: 1 }],
+      tags: [{ value: 'editor', count: 2 }, { value: 'bug', count: 1 }, { value: 'perf', count: 1 }, { value: 'ui', count: 1 }]
+    })
+    expect((await db.find({ table: 'issues' })).facets).toBeUndefined()
+  })
+
+  it('counts every search() match regardless of the limit', async () => {
+    const db = await seed('facets-search-test')
+    const hits = await db.search('save', { table: 'issues', limit: 1, facets: ['status', { field: 'priority', ranges: [{ to: 2 }, { from: 2 }] }] })
+
+    expect(hits).toHaveLength(1)
+    expect(hits.facets).toEqual({
+      status: [{ value: 'open', count: 2 }, { value: 'done', count: 1 }],
+      priority: [{ value: '..2', count: 1 }, { value: '2..', count: 2 }]
+    })
+  })
+
+  it('returns facets with every findPage() page', async () => {
+    const db = await seed('facets-page-test')
+    const first = await db.findPage({ table: 'issues', limit: 2, facets: ['status'] })
+    const second = await db.findPage({ table: 'issues', limit: 2, cursor: first.nextCursor!, facets: ['status'] })
+    const expected = { status: [{ value: 'open', count: 3 }, { value: 'done', count: 1 }] }
+
+    expect(first.facets).toEqual(expected)
+    expect(second.facets).toEqual(expected)
+  })
+})
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+
+const eventsTable = defineTable()
+  .column('id', 'number')
+  .column('kind', 'string')
+  .column('score', 'number')
+  .column('label', 'string')
+  .primaryKey('id')
+  .indexes('score', ['kind', 'score'])
+  .build()
+
+type Event = { kind: string; score: number; label: string }
+
+describe('ColumnistDB.findPage', () => {
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase('find-page-test')
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  it('pages forward and backward without skipping or repeating rows', async () => {
+    const db = await Columnist.init('find-page-test', {
+      databaseName: 'find-page-test',
+      autoInitialize: false,
+      schema: { events: eventsTable }
+    })
+
+    // Repeated scores make the primary key the tie-breaker
+    const scores = [5, 3, 5, 1, 3, 5, 2, 4]
+    for (const [i, score] of scores.entries()) {
+      await db.insert({ kind: i % 2 ? 'odd' : 'even', score, label: `e${i}` }, 'events')
+    }
+
+    const collect = async (orderBy: string | { field: string; direction: 'asc' | 'desc' }, where = {}) => {
+      const labels: string[][] = []
+      let cursor: string | undefined
+      let prevCursor: string | null = null
+      do {
+        const page = await db.findPage<Event>({ table: 'events', where, orderBy, limit: 3, cursor })
+        labels.push(page.data.map(e => e.label))
+        cursor = page.nextCursor ?? undefined
+        prevCursor = page.prevCursor
+      } while (cursor)
+
+      // Walking back from the last page revisits the previous one
+      const back = prevCursor
+        ? await db.findPage<Event>({ table: 'events', where, orderBy, limit: 3, cursor: prevCursor })
+        : null
+      return { labels, back: back?.data.map(e => e.label) }
+    }
+
+    const ascending = await collect('score')
+    expect(ascending.labels).toEqual([['e3', 'e6', 'e1'], ['e4', 'e7', 'e0'], ['e2', 'e5']])
+    expect(ascending.back).toEqual(['e4', 'e7', 'e0'])
+
+    const descending = await collect({ field: 'score', direction: 'desc' })
+    expect(descending.labels).toEqual([['e5', 'e2', 'e0'], ['e7', 'e4', 'e1'], ['e6', 'e3']])
+    expect(descending.back).toEqual(['e7', 'e4', 'e1'])
+
+    // Unindexed sort fields page over the sorted match set
+    const byLabel = await collect({ field: 'label', direction: 'desc' }, { kind: 'even' })
+    expect(byLabel.labels).toEqual([['e6', 'e4', 'e2'], ['e0']])
+    expect(byLabel.back).toEqual(['e6', 'e4', 'e2'])
+
+    const first = await db.findPage<Event>({ table: 'events', where: { kind: 'odd' }, orderBy: 'score', limit: 10 })
+    expect(first.data.map(e => e.label)).toEqual(['e3', 'e1', 'e7', 'e5'])
+    expect(first.nextCursor).toBeNull()
+    expect(first.prevCursor).toBeNull()
+  })
+})
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { createHNSWMeta, insertNode, markDeleted, needsRepair, repairGraph, searchGraph, type HNSWNode, type HNSWStore } from '../hnsw'
+
+// Deterministic Math.random for node levels and test data
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+function memoryGraph(vectors: Map<number, number[]>): HNSWStore & { nodes: Map<number, HNSWNode> } {
+  const nodes = new Map<number, HNSWNode>()
+  return {
+    nodes,
+    get: async id => nodes.get(id),
+    put: async node => {
+      nodes.set(node.key, node)
+    },
+    delete: async id => {
+      nodes.delete(id)
+    },
+    vector: async id => vectors.get(id)
+  }
+}
+
+function bruteForce(vectors: Map<number, number[]>, query: number[], k: number): number[] {
+  const distance = (v: number[]) => Math.hypot(...v.map((x, i) => x - query[i]))
+  return [...vectors.keys()].sort((a, b) => distance(vectors.get(a)!) - distance(vectors.get(b)!)).slice(0, k)
+}
+
+describe('hnsw graph', () => {
+  const random = seededRandom(7)
+  const vectors = new Map<number, number[]>()
+  for (let id = 1; id <= 200; id++) vectors.set(id, Array.from({ length: 8 }, () => random()))
+  const query = Array.from({ length: 8 }, () => random())
+
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(42))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function build(m = 8) {
+    const graph = memoryGraph(vectors)
+    const meta = createHNSWMeta({ m, efConstruction: 64 })
+    for (const [id, vector] of vectors) await insertNode(graph, meta, id, vector)
+    return { graph, meta }
+  }
+
+  it('finds the nearest neighbors of incrementally inserted vectors', async () => {
+    const { graph, meta } = await build()
+    const found = await searchGraph(graph, meta, query, 10, 64)
+
+    expect(meta.nodes).toBe(200)
+    expect(graph.nodes.get(meta.entryPoint!)!.level).toBe(meta.maxLevel)
+    // Nodes refer to the stored vectors
+    expect(graph.nodes.get(1)).not.toHaveProperty('vector')
+    expect(found.map(node => node.key)).toEqual(bruteForce(vectors, query, 10))
+  })
+
+  it('skips deleted nodes and drops them on repair', async () => {
+    const { graph, meta } = await build()
+    const nearest = bruteForce(vectors, query, 30)
+    for (const id of nearest.slice(0, 20)) await markDeleted(graph, meta, id)
+    expect(graph.nodes.get(nearest[0])!.vector).toEqual(vectors.get(nearest[0]))
+    const remaining = new Map([...vectors].filter(([id]) => !nearest.slice(0, 20).includes(id)))
+
+    expect(needsRepair(meta)).toBe(true)
+    expect((await searchGraph(graph, meta, query, 5, 64)).map(node => node.key)).toEqual(bruteForce(remaining, query, 5))
+
+    await repairGraph(graph, meta, [...vectors.keys()], nearest.slice(0, 20))
+    expect(meta).toMatchObject({ nodes: 180, tombstones: 0 })
+    expect(graph.nodes.size).toBe(180)
+    for (const node of graph.nodes.values()) {
+      expect(node.neighbors.flat().every(id => graph.nodes.has(id))).toBe(true)
+    }
+    expect((await searchGraph(graph, meta, query, 5, 64)).map(node => node.key)).toEqual(bruteForce(remaining, query, 5))
+  })
+})
+
+describe('ColumnistDB HNSW maintenance', () => {
+  let dbName = ''
+
+  const points = defineTable()
+    .column('id', 'number')
+    .column('coords', 'string')
+    .primaryKey('id')
+    .vector({ field: 'coords', dims: 2 })
+    .build()
+
+  // "x y" -> [x, y]
+  async function embed(text: string): Promise<Float32Array> {
+    return new Float32Array(text.split(' ').map(Number))
+  }
+
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(3))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function open(name: string) {
+    dbName = name
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { points } })
+    db.registerEmbedder('points', embed)
+    return db
+  }
+
+  // Searches the vectors embedded from every write so far
+  const nearestIds = async (db: Awaited<ReturnType<typeof open>>, query: number[], limit: number) => {
+    await db.flushEmbeddings()
+    return (await db.vectorSearch('points', new Float32Array(query), { metric: 'euclidean', limit })).map(hit => hit.id)
+  }
+
+  it('keeps the graph current through inserts, updates and deletes', async () => {
+    const db = await open('hnsw-maintenance-test')
+    await db.buildHNSWIndex('points')
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) await db.insert({ coords: `${x} ${y}` }, 'points')
+    }
+    // (0, 0) is id 1, (0, 1) id 2 and (1, 0) id 9
+    expect(await nearestIds(db, [0.1, 0.2], 3)).toEqual([1, 2, 9])
+
+    await db.update(64, { coords: '0.2 0.2' }, 'points')
+    expect(await nearestIds(db, [0.1, 0.3], 2)).toEqual([64, 1])
+
+    await db.delete(1, 'points')
+    expect(await nearestIds(db, [0.1, 0.3], 2)).toEqual([64, 2])
+  })
+
+  it('repairs the graph after deletes and keeps it across reopening', async () => {
+    const db = await open('hnsw-repair-test')
+    for (let x = 0; x < 6; x++) {
+      for (let y = 0; y < 6; y++) await db.insert({ coords: `${x} ${y}` }, 'points')
+    }
+    await db.flushEmbeddings()
+    await db.buildHNSWIndex('points')
+    for (let id = 1; id <= 6; id++) await db.delete(id, 'points')
+    await db.repairHNSWIndex('points')
+
+    const reopened = await open('hnsw-repair-test')
+    const hits = await reopened.vectorSearch('points', new Float32Array([0, 0]), { metric: 'euclidean', limit: 2 })
+    expect(hits.map(hit => hit.id)).toEqual([7, 8])
+    expect(await reopened.getVectorSearchStats('points')).toMatchObject({ totalVectors: 30, hasHNSWIndex: true })
+  })
+})
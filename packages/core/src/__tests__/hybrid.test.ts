@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { fuseRankings, normalizeScores } from '../fusion'
+
+const docs = defineTable()
+  .column('id', 'number')
+  .column('body', 'string')
+  .column('kind', 'string')
+  .primaryKey('id')
+  .searchable('body')
+  .vector({ field: 'body', dims: 3 })
+  .build()
+
+type Doc = { body: string; kind: string }
+
+// One dimension per topic, so similarity follows the topics a text mentions
+async function embed(text: string): Promise<Float32Array> {
+  const lower = text.toLowerCase()
+  return new Float32Array(['kitten', 'puppy', 'engine'].map(topic => (lower.includes(topic) ? 1 : 0.01)))
+}
+
+describe('fuseRankings', () => {
+  const text = [{ id: 1, score: 9 }, { id: 2, score: 3 }]
+  const vector = [{ id: 2, score: 0.9 }, { id: 3, score: 0.8 }]
+
+  it('sums weighted reciprocal ranks', () => {
+    const fused = fuseRankings([{ hits: text, weight: 1 }, { hits: vector, weight: 2 }], 'rrf', 10)
+    expect(fused.get(1)).toBeCloseTo(1 / 11)
+    expect(fused.get(2)).toBeCloseTo(1 / 12 + 2 / 11)
+    expect(fused.get(3)).toBeCloseTo(2 / 12)
+  })
+
+  it('sums weighted min-max normalized scores', () => {
+    expect(normalizeScores([{ id: 1, score: 5 }, { id: 2, score: 5 }])).toEqual(new Map([[1, 1], [2, 1]]))
+    const fused = fuseRankings([{ hits: text, weight: 1 }, { hits: vector, weight: 1 }], 'linear')
+    expect([...fused]).toEqual([[1, 1], [2, 1], [3, 0]])
+  })
+})
+
+describe('ColumnistDB.hybridSearch', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function seed(name: string) {
+    dbName = name
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { docs } })
+    db.registerEmbedder('docs', embed)
+    await db.insert({ body: 'A kitten asleep on the engine block', kind: 'photo' }, 'docs')
+    await db.insert({ body: 'Kitten care basics', kind: 'guide' }, 'docs')
+    await db.insert({ body: 'Puppy training for beginners', kind: 'guide' }, 'docs')
+    await db.insert({ body: 'Tuning a small engine', kind: 'guide' }, 'docs')
+    await db.flushEmbeddings()
+    return db
+  }
+
+  it('ranks records found by both text and vector first', async () => {
+    const db = await seed('hybrid-rrf-test')
+    const hits = await db.hybridSearch<Doc>('docs', { text: 'engine', vectorText: 'kitten', limit: 3, useHNSW: false })
+
+    expect(hits[0].body).toBe('A kitten asleep on the engine block')
+    expect(hits[0].textScore).toBeGreaterThan(0)
+    expect(hits[0].vectorScore).toBeGreaterThan(0)
+    expect(hits).toHaveLength(3)
+  })
+
+  it('applies where before cutting to the limit', async () => {
+    const db = await seed('hybrid-where-test')
+    const hits = await db.hybridSearch<Doc>('docs', {
+      text: 'engine',
+      vector: await embed('kitten'),
+      fusion: 'linear',
+      useHNSW: false,
+      where: { kind: 'guide' },
+      limit: 2
+    })
+
+    expect(hits.map(hit => hit.body)).toEqual(['Kitten care basics', 'Tuning a small engine'])
+    expect(hits.every(hit => hit.kind === 'guide')).toBe(true)
+  })
+
+  it('requires a text or vector query', async () => {
+    const db = await seed('hybrid-empty-test')
+    await expect(db.hybridSearch('docs', { text: ' ' })).rejects.toThrow('hybridSearch needs text, vector or vectorText')
+  })
+})
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { convertValue, defineMigration, migrateRow, type RowCodec } from '../migrations'
+
+const identity: RowCodec = {
+  decode: row => row,
+  encode: row => row,
+  encodeValue: value => value
+}
+
+const notesV1 = defineTable()
+  .column('id', 'number')
+  .column('title', 'string')
+  .column('score', 'string')
+  .column('draft', 'boolean')
+  .primaryKey('id')
+  .searchable('title')
+  .indexes('score')
+  .build()
+
+const notesV2 = defineTable()
+  .column('id', 'number')
+  .column('heading', 'string')
+  .column('score', 'number')
+  .column('tag', 'string')
+  .column('createdAt', 'date')
+  .primaryKey('id')
+  .searchable('heading')
+  .build()
+
+const toV2 = defineMigration('split notes')
+  .renameColumn('notes', 'title', 'heading')
+  .changeType('notes', 'score', 'number')
+  .addColumn('notes', 'tag', 'string', { default: 'inbox' })
+  .addColumn('notes', 'createdAt', 'date', { default: new Date('2024-01-01T00:00:00.000Z') })
+  .dropIndex('notes', 'score')
+  .transformRows('notes', row => {
+    if (row.draft) return null
+    const next: Record<string, unknown> = { ...row, heading: String(row.heading).toUpperCase() }
+    delete next.draft
+    return next
+  })
+  .build()
+
+type NoteV2 = { id: number; heading: string; score: number; tag: string; createdAt: Date }
+
+describe('migrateRow', () => {
+  it('applies steps in order and converts values', () => {
+    const steps = defineMigration()
+      .renameColumn('t', 'a', 'b')
+      .changeType('t', 'b', 'number')
+      .dropColumn('t', 'c')
+      .addColumn('t', 'd', 'boolean', { default: false })
+      .build().steps
+
+    expect(migrateRow({ id: 1, a: '42', c: 'x' }, steps, identity)).toEqual({ id: 1, b: 42, d: false })
+    expect(migrateRow({ id: 2, a: 'x', d: true }, steps, identity)).toEqual({ id: 2, b: null, d: true })
+  })
+
+  it('deletes rows when a transform returns null', () => {
+    const steps = defineMigration().transformRows('t', row => (row.keep ? { ...row, seen: true } : null)).build().steps
+
+    expect(migrateRow({ id: 1, keep: true }, steps, identity)).toEqual({ id: 1, keep: true, seen: true })
+    expect(migrateRow({ id: 2 }, steps, identity)).toBeNull()
+  })
+
+  it('converts between column types on a best-effort basis', () => {
+    expect(convertValue('false', 'boolean')).toBe(false)
+    expect(convertValue(7, 'string')).toBe('7')
+    expect(convertValue('{"a":1}', 'json')).toEqual({ a: 1 })
+    expect(convertValue('2024-02-03T00:00:00.000Z', 'date')).toEqual(new Date('2024-02-03T00:00:00.000Z'))
+  })
+})
+
+describe('ColumnistDB declarative migrations', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function seed(name: string) {
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { notes: notesV1 } })
+    await db.insert({ title: 'alpha note', score: '3', draft: false }, 'notes')
+    await db.insert({ title: 'beta note', score: '5', draft: true }, 'notes')
+    await db.insert({ title: 'gamma note', score: '8', draft: false }, 'notes')
+    return db
+  }
+
+  async function upgrade(name: string) {
+    return Columnist.init(name, {
+      databaseName: name,
+      autoInitialize: false,
+      version: 2,
+      schema: { notes: notesV2 },
+      migrations: { 2: toV2 }
+    })
+  }
+
+  it('rewrites rows, indexes and stats inside the IndexedDB upgrade', async () => {
+    dbName = 'migrations-idb-test'
+    await seed(dbName)
+    const db = await upgrade(dbName)
+
+    const rows = await db.getAll<NoteV2>('notes')
+    expect(rows.map(r => [r.heading, r.score, r.tag])).toEqual([['ALPHA NOTE', 3, 'inbox'], ['GAMMA NOTE', 8, 'inbox']])
+    expect(rows[0].createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'))
+    expect(rows[0]).not.toHaveProperty('draft')
+
+    const hits = await db.search<NoteV2>('gamma', { table: 'notes' })
+    expect(hits.map(r => r.heading)).toEqual(['GAMMA NOTE'])
+    expect(await db.getStats('notes')).toMatchObject({ count: 2 })
+    expect(db.explain({ table: 'notes', where: { score: 3 } }).strategy).toBe('fullScan')
+
+    const history = await db.getMigrationHistory()
+    expect(history).toHaveLength(1)
+    expect(history[0]).toMatchObject({ version: 2, description: 'split notes' })
+    expect(history[0].steps.map(step => step.op)).toEqual([
+      'renameColumn', 'changeType', 'addColumn', 'addColumn', 'dropIndex', 'transformRows'
+    ])
+  })
+
+  it('embeds rows again whose vector source a migration changed', async () => {
+    dbName = 'migrations-vector-source-test'
+    const docs = defineTable()
+      .column('id', 'number')
+      .column('text', 'string')
+      .primaryKey('id')
+      .vector({ field: 'text', dims: 2 })
+      .build()
+    // "x y" -> [x, y]
+    const embed = async (text: string) => new Float32Array(text.split(' ').map(Number))
+
+    const before = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { docs } })
+    before.registerEmbedder('docs', embed)
+    await before.bulkInsert([{ text: '1 0' }, { text: '0 1' }], 'docs')
+    await before.flushEmbeddings()
+
+    const flip = defineMigration('flip row 1')
+      .transformRows('docs', row => (row.id === 1 ? { ...row, text: '0 -1' } : row))
+      .build()
+    const db = await Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      version: 2,
+      schema: { docs },
+      migrations: { 2: flip }
+    })
+    expect(await db.getVectorSearchStats('docs')).toMatchObject({ totalVectors: 1 })
+
+    const embedded: string[] = []
+    db.registerEmbedder('docs', async text => {
+      embedded.push(text)
+      return embed(text)
+    })
+    await db.flushEmbeddings()
+    expect(embedded).toEqual(['0 -1'])
+    const hits = await db.vectorSearch('docs', new Float32Array([0, -1]), { limit: 1 })
+    expect(hits.map(hit => hit.id)).toEqual([1])
+  })
+
+  it('fails the upgrade when a migration references an unknown table', async () => {
+    dbName = 'migrations-unknown-table-test'
+    await seed(dbName)
+
+    await expect(Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      version: 2,
+      schema: { notes: notesV1 },
+      migrations: { 2: defineMigration().dropColumn('missing', 'x').build() }
+    })).rejects.toThrow('unknown table "missing"')
+  })
+
+  it('runs the same migrations against the in-memory fallback', async () => {
+    vi.stubGlobal('window', undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    dbName = 'migrations-memory-test'
+    await seed(dbName)
+    const db = await upgrade(dbName)
+
+    const rows = await db.find<NoteV2>({ table: 'notes', orderBy: 'score' })
+    expect(rows.map(r => [r.heading, r.score, r.tag])).toEqual([['ALPHA NOTE', 3, 'inbox'], ['GAMMA NOTE', 8, 'inbox']])
+    expect(rows[1].createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'))
+    expect((await db.getMigrationHistory()).map(m => m.version)).toEqual([2])
+  })
+})
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { selectMMR } from '../mmr'
+
+// Scored by cosine similarity to [1, 0]: two near-duplicates, and one hit
+// in another direction
+const hits = [
+  { id: 1, score: 1, vector: [1, 0] },
+  { id: 2, score: 0.995, vector: [0.99, 0.1] },
+  { id: 3, score: 0.707, vector: [0.7, 0.7] }
+]
+
+describe('selectMMR', () => {
+  const select = (lambda: number, limit = 2) =>
+    selectMMR(hits, hit => hit.score, hit => hit.vector, limit, lambda).map(hit => hit.id)
+
+  it('keeps the ranking with lambda 1 and skips near-duplicates with lower values', () => {
+    expect(select(1)).toEqual([1, 2])
+    expect(select(0.3)).toEqual([1, 3])
+    expect(select(0.3, 5)).toEqual([1, 3, 2])
+  })
+
+  it('treats hits without a vector as unlike the others', () => {
+    const picked = selectMMR(hits, hit => hit.score, hit => (hit.id === 2 ? undefined : hit.vector), 2, 0.5)
+    expect(picked.map(hit => hit.id)).toEqual([1, 2])
+  })
+})
+
+describe('ColumnistDB mmr', () => {
+  const dbName = 'mmr-search-test'
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  it('diversifies vector and hybrid search results', async () => {
+    const chunks = defineTable()
+      .column('id', 'number')
+      .column('text', 'string')
+      .primaryKey('id')
+      .searchable('text')
+      .vector({ field: 'text', dims: 2 })
+      .build()
+    const db = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { chunks } })
+    // "x y words" -> [x, y]
+    db.registerEmbedder('chunks', async text => new Float32Array(text.split(' ').slice(0, 2).map(Number)))
+    for (const text of ['1 0 vector search', '0.99 0.1 vector search', '0.7 0.7 vector search', '0 1 cooking']) {
+      await db.insert({ text }, 'chunks')
+    }
+    await db.flushEmbeddings()
+
+    const query = new Float32Array([1, 0])
+    expect((await db.vectorSearch('chunks', query, { limit: 2 })).map(hit => hit.id)).toEqual([1, 2])
+    // The best fetchK hits are diversified; the unrelated row is not among them
+    const diverse = await db.vectorSearch('chunks', query, { limit: 2, mmr: { lambda: 0.3, fetchK: 3 } })
+    expect(diverse.map(hit => hit.id)).toEqual([1, 3])
+    // Hits keep their similarity scores
+    expect(diverse[1].score).toBeCloseTo(Math.SQRT1_2)
+
+    const hybrid = await db.hybridSearch('chunks', { text: 'vector', vector: query, limit: 2, mmr: { lambda: 0.3, fetchK: 3 } })
+    expect(hybrid.map(hit => hit.id)).toEqual([1, 3])
+
+    await expect(db.vectorSearch('chunks', query, { mmr: { lambda: 2 } })).rejects.toThrow('between 0 and 1')
+  })
+})
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { createInt8Quantizer, createPQQuantizer, quantizationOptions, trainPQ } from '../quantization'
+
+// Deterministic vectors for the codebook and search tests
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+const random = seededRandom(11)
+const vectors = Array.from({ length: 300 }, () => Array.from({ length: 16 }, () => random() * 2 - 1))
+
+const cosine = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return dot / Math.sqrt(na * nb)
+}
+
+describe('quantization', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(5))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('fills in defaults and rejects subvectors that do not divide the dimensions', () => {
+    expect(quantizationOptions('pq', 16)).toEqual({ type: 'pq', subvectors: 2, rerank: 4, keepOriginals: false })
+    expect(quantizationOptions({ type: 'int8', rerank: 2 }, 16)).toMatchObject({ type: 'int8', rerank: 2 })
+    expect(() => quantizationOptions({ type: 'pq', subvectors: 5 }, 16)).toThrow('subvectors')
+  })
+
+  it('round-trips int8 codes within one step', () => {
+    const quantizer = createInt8Quantizer(16)
+    const code = quantizer.encode(vectors[0])
+    const decoded = quantizer.decode(code)
+
+    expect(code.code).toBeInstanceOf(Int8Array)
+    decoded.forEach((value, i) => expect(Math.abs(value - vectors[0][i])).toBeLessThanOrEqual(code.scale!))
+    expect(quantizer.scorer(vectors[1], 'cosine')(code)).toBeCloseTo(cosine(vectors[1], vectors[0]), 2)
+  })
+
+  it('scores pq codes close to the vectors they encode', () => {
+    const codebook = trainPQ(vectors, 16, 4)
+    const quantizer = createPQQuantizer(codebook)
+    const code = quantizer.encode(vectors[5])
+
+    expect(codebook.centroids).toHaveLength(4)
+    expect(codebook.centroids[0]).toHaveLength(256)
+    expect(code.code).toHaveLength(4)
+    expect(quantizer.codeBytes).toBe(4)
+    // The scorer reads lookup tables but agrees with scoring the decoded vector
+    expect(quantizer.scorer(vectors[9], 'dot')(code)).toBeCloseTo(
+      Array.from(quantizer.decode(code)).reduce((sum, value, i) => sum + value * vectors[9][i], 0)
+    )
+  })
+})
+
+describe('ColumnistDB vector quantization', () => {
+  let dbName = ''
+
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(5))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  // Vectors are stored as comma-separated text and embedded as they are
+  async function embed(text: string): Promise<Float32Array> {
+    return new Float32Array(text.split(',').map(Number))
+  }
+
+  async function seed(name: string, quantization: 'int8' | 'pq' | { type: 'int8' | 'pq'; keepOriginals?: boolean }) {
+    dbName = name
+    const items = defineTable()
+      .column('id', 'number')
+      .column('embedding', 'string')
+      .primaryKey('id')
+      .vector({ field: 'embedding', dims: 16, quantization })
+      .build()
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { items } })
+    db.registerEmbedder('items', embed)
+    for (const vector of vectors.slice(0, 100)) await db.insert({ embedding: vector.join(',') }, 'items')
+    await db.flushEmbeddings()
+    return db
+  }
+
+  // Ids of the exact nearest of the first `stored` vectors by cosine
+  const exactTop = (query: number[], limit: number, stored = 100) =>
+    vectors.slice(0, stored)
+      .map((vector, i) => ({ id: i + 1, score: cosine(query, vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+
+  it('searches int8 codes and re-ranks with the original vectors', async () => {
+    const db = await seed('quantization-int8-test', { type: 'int8', keepOriginals: true })
+    const query = vectors[200]
+    const hits = await db.vectorSearch('items', new Float32Array(query), { limit: 5 })
+
+    const exact = exactTop(query, 5)
+    expect(hits.map(hit => hit.id)).toEqual(exact.map(hit => hit.id))
+    hits.forEach((hit, i) => expect(hit.score).toBeCloseTo(exact[i].score, 5))
+    expect(await db.getVectorSearchStats('items')).toMatchObject({
+      totalVectors: 100,
+      quantization: 'int8',
+      // The originals are stored next to the codes
+      compressionRatio: 64 / (64 + 20),
+      quantizedVectors: 100
+    })
+  })
+
+  it('trains a pq codebook on demand and keeps it across reopening', async () => {
+    // Two-byte codes are too coarse to rank by; the originals re-rank them
+    const db = await seed('quantization-pq-test', { type: 'pq', keepOriginals: true })
+    expect(await db.getVectorSearchStats('items')).toMatchObject({ quantization: 'pq', compressionRatio: 1, quantizedVectors: 0 })
+
+    await db.quantizeVectors('items')
+    expect(await db.getVectorSearchStats('items')).toMatchObject({ compressionRatio: 64 / (64 + 2), quantizedVectors: 100 })
+
+    const reopened = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: db.getSchema() })
+    reopened.registerEmbedder('items', embed)
+    await reopened.insert({ embedding: vectors[100].join(',') }, 'items')
+    await reopened.flushEmbeddings()
+    expect(await reopened.getVectorSearchStats('items')).toMatchObject({ totalVectors: 101, quantizedVectors: 101 })
+
+    const query = vectors[200]
+    const hits = await reopened.vectorSearch('items', new Float32Array(query), { limit: 3 })
+    const [nearest] = exactTop(query, 1, 101)
+    expect(hits[0].id).toBe(nearest.id)
+    expect(hits[0].score).toBeCloseTo(nearest.score, 5)
+  })
+
+  it('searches codes alone without the original vectors', async () => {
+    const db = await seed('quantization-codes-only-test', 'int8')
+    const query = vectors[201]
+    const hits = await db.vectorSearch('items', new Float32Array(query), { limit: 3 })
+
+    expect(hits.map(hit => hit.id)).toEqual(exactTop(query, 3).map(hit => hit.id))
+    // Scores come from the codes
+    expect(hits[0].score).toBeCloseTo(exactTop(query, 1)[0].score, 2)
+    expect(await db.getVectorSearchStats('items')).toMatchObject({ compressionRatio: 64 / 20 })
+
+    // HNSW nodes refer to the stored codes
+    await db.buildHNSWIndex('items')
+    expect(await db.getVectorSearchStats('items')).toMatchObject({ hasHNSWIndex: true, compressionRatio: 64 / 20 })
+    const graphHits = await db.vectorSearch('items', new Float32Array(query), { limit: 3 })
+    expect(graphHits.map(hit => hit.id)).toEqual(hits.map(hit => hit.id))
+  })
+})
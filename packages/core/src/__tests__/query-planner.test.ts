@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { planQuery } from '../query-planner'
+
+const tasksTable = defineTable()
+  .column('id', 'number')
+  .column('title', 'string')
+  .column('status', 'string')
+  .column('priority', 'string')
+  .column('dueDate', 'date')
+  .primaryKey('id')
+  .indexes('priority', 'dueDate', ['status', 'dueDate'])
+  .build()
+
+describe('planQuery', () => {
+  it('prefers a compound index that covers the filter and the sort', () => {
+    const plan = planQuery('tasks', tasksTable, { status: 'todo' }, 'dueDate')
+
+    expect(plan.strategy).toBe('index')
+    expect(plan.index).toBe('status+dueDate')
+    expect(plan.equalityFields).toEqual(['status'])
+    expect(plan.orderSatisfied).toBe(true)
+    expect(plan.residualFields).toEqual([])
+  })
+
+  it('binds a range on the key part following the equality prefix', () => {
+    const from = new Date('2024-01-01T00:00:00.000Z')
+    const plan = planQuery('tasks', tasksTable, { status: 'todo', dueDate: { $gte: from } })
+
+    expect(plan.index).toBe('status+dueDate')
+    expect(plan.rangeField).toBe('dueDate')
+    expect(plan.ranges[0].lower).toEqual(['todo', from.toISOString()])
+  })
+
+  it('expands a multi-value $in into one key range per value', () => {
+    const plan = planQuery('tasks', tasksTable, { status: { $in: ['todo', 'done', 'todo'] } }, 'dueDate')
+
+    expect(plan.index).toBe('status+dueDate')
+    expect(plan.ranges.map(range => range.lower)).toEqual([['done'], ['todo']])
+    // Two sorted runs of dueDate are not one sorted run
+    expect(plan.orderSatisfied).toBe(false)
+  })
+
+  it('turns string prefixes into key ranges', () => {
+    const plan = planQuery('tasks', tasksTable, { priority: { $regex: '^hi' } })
+
+    expect(plan.index).toBe('priority')
+    expect(plan.ranges).toEqual([{ lower: 'hi', upper: 'hi\uffff', lowerOpen: false, upperOpen: false }])
+  })
+
+  it('leaves optional literals and alternatives out of regex prefixes', () => {
+    const optional = planQuery('tasks', tasksTable, { priority: { $regex: '^hig?h' } })
+    expect(optional.ranges).toEqual([{ lower: 'hi', upper: 'hi\uffff', lowerOpen: false, upperOpen: false }])
+
+    expect(planQuery('tasks', tasksTable, { priority: { $regex: '^h|ow' } }).strategy).toBe('fullScan')
+  })
+
+  it('only plans against conditions every match must satisfy', () => {
+    const plan = planQuery('tasks', tasksTable, { $or: [{ priority: 'high' }, { status: 'todo' }] })
+
+    expect(plan.strategy).toBe('fullScan')
+  })
+
+  it('uses dotted paths into json columns but not whole json values', () => {
+    const docs = defineTable()
+      .column('id', 'number')
+      .column('metadata', 'json')
+      .primaryKey('id')
+      .indexes('metadata', 'metadata.documentId')
+      .build()
+
+    expect(planQuery('docs', docs, { 'metadata.documentId': 7 }).index).toBe('metadata.documentId')
+    expect(planQuery('docs', docs, { metadata: { $contains: 'x' } }).strategy).toBe('fullScan')
+  })
+
+  it('falls back to a full scan when nothing is indexable', () => {
+    const plan = planQuery('tasks', tasksTable, { title: 'x' }, 'title')
+
+    expect(plan.strategy).toBe('fullScan')
+    expect(plan.orderSatisfied).toBe(false)
+    expect(plan.residualFields).toEqual(['title'])
+  })
+})
+
+describe('ColumnistDB.find with compound indexes', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  it('returns the earliest matching rows when filtering and sorting on different fields', async () => {
+    dbName = 'query-planner-test'
+    const db = await Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      schema: { tasks: tasksTable }
+    })
+
+    const day = (d: number) => new Date(Date.UTC(2024, 0, d))
+    const rows = [
+      { title: 'a', status: 'done', priority: 'low', dueDate: day(1) },
+      { title: 'b', status: 'todo', priority: 'high', dueDate: day(9) },
+      { title: 'c', status: 'todo', priority: 'low', dueDate: day(3) },
+      { title: 'd', status: 'done', priority: 'high', dueDate: day(2) },
+      { title: 'e', status: 'todo', priority: 'low', dueDate: day(5) },
+    ]
+    for (const row of rows) await db.insert(row, 'tasks')
+
+    const options = { table: 'tasks', where: { status: 'todo' }, orderBy: 'dueDate', limit: 2 }
+    expect(db.explain(options).index).toBe('status+dueDate')
+
+    const result = await db.find<{ title: string }>(options)
+    expect(result.map(r => r.title)).toEqual(['c', 'e'])
+
+    // Filtering on an index that does not provide the order still sorts the full match set
+    const byPriority = await db.find<{ title: string }>({
+      table: 'tasks',
+      where: { priority: 'low' },
+      orderBy: { field: 'dueDate', direction: 'desc' },
+      limit: 2
+    })
+    expect(byPriority.map(r => r.title)).toEqual(['e', 'c'])
+  })
+
+  it('combines multi-value $in lookups with logical operators', async () => {
+    dbName = 'query-planner-operators-test'
+    const db = await Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      schema: { tasks: tasksTable }
+    })
+
+    const day = (d: number) => new Date(Date.UTC(2024, 0, d))
+    const rows = [
+      { title: 'a', status: 'done', priority: 'low', dueDate: day(1) },
+      { title: 'b', status: 'todo', priority: 'high', dueDate: day(9) },
+      { title: 'c', status: 'blocked', priority: 'low', dueDate: day(3) },
+      { title: 'd', status: 'done', priority: 'high', dueDate: day(2) },
+      { title: 'e', status: 'todo', priority: 'urgent', dueDate: day(5) },
+    ]
+    for (const row of rows) await db.insert(row, 'tasks')
+
+    const inStatus = await db.find<{ title: string }>({
+      table: 'tasks',
+      where: { status: { $in: ['todo', 'blocked'] }, $not: { priority: 'high' } },
+      orderBy: 'dueDate'
+    })
+    expect(inStatus.map(r => r.title)).toEqual(['c', 'e'])
+
+    const prefixed = await db.find<{ title: string }>({
+      table: 'tasks',
+      where: { $or: [{ priority: { $prefix: 'ur' } }, { dueDate: { $lt: day(2) } }] }
+    })
+    expect(prefixed.map(r => r.title).sort()).toEqual(['a', 'e'])
+  })
+
+  it('finds every match of a regex with optional literals or alternatives', async () => {
+    dbName = 'query-planner-regex-test'
+    const db = await Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      schema: { tasks: tasksTable }
+    })
+
+    for (const priority of ['colour', 'color', 'xour', 'cool']) {
+      await db.insert({ title: priority, status: 'todo', priority, dueDate: new Date() }, 'tasks')
+    }
+
+    const optional = { table: 'tasks', where: { priority: { $regex: '^colou?r' } } }
+    expect(db.explain(optional).ranges).toEqual([{ lower: 'colo', upper: 'colo\uffff', lowerOpen: false, upperOpen: false }])
+    expect((await db.find<{ title: string }>(optional)).map(r => r.title).sort()).toEqual(['color', 'colour'])
+
+    const alternatives = { table: 'tasks', where: { priority: { $regex: '^c|our' } } }
+    expect(db.explain(alternatives).strategy).toBe('fullScan')
+    expect((await db.find<{ title: string }>(alternatives)).map(r => r.title).sort()).toEqual(['color', 'colour', 'cool', 'xour'])
+  })
+
+  it('filters, sorts and indexes on paths nested in json columns', async () => {
+    dbName = 'query-planner-nested-test'
+    const chunksTable = defineTable()
+      .column('id', 'number')
+      .column('content', 'string')
+      .column('metadata', 'json')
+      .primaryKey('id')
+      .indexes(['metadata.documentId', 'metadata.chunkIndex'])
+      .build()
+    const db = await Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      schema: { chunks: chunksTable }
+    })
+
+    const rows = [
+      { content: 'a1', metadata: { documentId: 1, chunkIndex: 1 } },
+      { content: 'b0', metadata: { documentId: 2, chunkIndex: 0 } },
+      { content: 'a0', metadata: { documentId: 1, chunkIndex: 0 } },
+      { content: 'a2', metadata: { documentId: 1, chunkIndex: 2, draft: true } },
+    ]
+    for (const row of rows) await db.insert(row, 'chunks')
+
+    const options = {
+      table: 'chunks',
+      where: { 'metadata.documentId': 1, 'metadata.draft': { $exists: false } },
+      orderBy: 'metadata.chunkIndex'
+    }
+    const plan = db.explain(options)
+    expect(plan.index).toBe('metadata.documentId+metadata.chunkIndex')
+    expect(plan.orderSatisfied).toBe(true)
+
+    const result = await db.find<{ content: string }>(options)
+    expect(result.map(r => r.content)).toEqual(['a0', 'a1'])
+  })
+})
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import type { ReembedProgress } from '../types'
+
+const notes = (dims: number) => defineTable()
+  .column('id', 'number')
+  .column('text', 'string')
+  .primaryKey('id')
+  .vector({ field: 'text', dims })
+  .build()
+
+// "x y" -> [x, y], padded with ones up to dims; sign -1 stands for another model
+const model = (dims: number, sign = 1) => async (text: string) => {
+  const values = text.split(' ').map(value => sign * Number(value))
+  while (values.length < dims) values.push(1)
+  return new Float32Array(values)
+}
+
+describe('ColumnistDB embedding models', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function seed(name: string, embedding?: { maxAttempts: number }) {
+    dbName = name
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { notes: notes(2) }, embedding })
+    db.registerEmbedder('notes', model(2), { model: 'v1' })
+    for (const text of ['1 0', '0 1', '1 1']) await db.insert({ text }, 'notes')
+    await db.flushEmbeddings()
+    await db.buildHNSWIndex('notes')
+    return db
+  }
+
+  it('searches only vectors of the registered model until they are re-embedded', async () => {
+    const db = await seed('reembed-model-test')
+    db.registerEmbedder('notes', model(2, -1), { model: 'v2' })
+    await db.insert({ text: '0 1' }, 'notes')
+    await db.flushEmbeddings()
+
+    // Only the row embedded by v2 is found
+    const before = await db.vectorSearch('notes', new Float32Array([0, -1]), { limit: 5 })
+    expect(before.map(hit => hit.id)).toEqual([4])
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({ totalVectors: 4, model: 'v2', staleVectors: 3 })
+
+    const events: ReembedProgress[] = []
+    const result = await db.reembed('notes', { batchSize: 2, onProgress: progress => events.push(progress) })
+    expect(events.map(({ done, total }) => [done, total])).toEqual([[0, 3], [2, 3], [3, 3]])
+    expect(result).toEqual({ model: 'v2', done: 3, total: 3, failed: 0 })
+
+    const after = await db.vectorSearch('notes', new Float32Array([0, -1]), { limit: 2 })
+    expect(after.map(hit => hit.id).sort()).toEqual([2, 4])
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({ staleVectors: 0, reembedding: null, hasHNSWIndex: true })
+  })
+
+  it('re-embeds vectors of other dims after the schema changes them', async () => {
+    await seed('reembed-dims-test')
+    const db = await Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      version: 2,
+      schema: { notes: notes(3) }
+    })
+    db.registerEmbedder('notes', model(3), { model: 'v1-3d' })
+
+    // The 2-d vectors are skipped instead of failing the search
+    expect(await db.vectorSearch('notes', new Float32Array([1, 0, 1]))).toEqual([])
+    await db.reembed('notes')
+
+    const hits = await db.vectorSearch('notes', new Float32Array([1, 0, 1]), { limit: 1 })
+    expect(hits.map(hit => hit.id)).toEqual([1])
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({ totalVectors: 3, staleVectors: 0 })
+  })
+
+  it('keeps the progress of a job with failed rows and resumes it', async () => {
+    const db = await seed('reembed-resume-test', { maxAttempts: 1 })
+    let available = false
+    db.registerEmbedder('notes', async text => {
+      if (text === '0 1' && !available) throw new Error('model unavailable')
+      return model(2, -1)(text)
+    }, { model: 'v2' })
+
+    expect(await db.reembed('notes')).toEqual({ model: 'v2', done: 2, total: 3, failed: 1 })
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({
+      staleVectors: 1,
+      reembedding: { model: 'v2', done: 2, total: 3, failed: 1 }
+    })
+
+    available = true
+    expect(await db.reembed('notes')).toEqual({ model: 'v2', done: 3, total: 3, failed: 0 })
+    expect(await db.getVectorSearchStats('notes')).toMatchObject({ staleVectors: 0, reembedding: null })
+  })
+})
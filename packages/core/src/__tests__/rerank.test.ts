@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { createCrossEncoderReranker, createLexicalReranker } from '../rerank'
+import type { RerankCandidate, Reranker } from '../types'
+
+const candidate = (id: number, text: string): RerankCandidate => ({ id, text, score: 0, record: {} })
+
+describe('built-in rerankers', () => {
+  it('scores the share of query terms a candidate contains', async () => {
+    const reranker = createLexicalReranker()
+    const scores = await reranker.rerank('indexing vectors', [
+      candidate(1, 'Vectors are indexed with HNSW'),
+      candidate(2, 'Vectors of any size'),
+      candidate(3, 'Cooking pasta')
+    ])
+    expect(scores).toEqual([1, 0.5, 0])
+  })
+
+  it('hands texts to a cross-encoder in batches', async () => {
+    const batches: string[][] = []
+    const reranker = createCrossEncoderReranker(async (query, texts) => {
+      batches.push(texts)
+      return texts.map(text => text.length)
+    }, { batchSize: 2, maxLength: 3 })
+
+    const scores = await reranker.rerank('q', [candidate(1, 'a'), candidate(2, 'bbbb'), candidate(3, 'cc')])
+    expect(batches).toEqual([['a', 'bbb'], ['cc']])
+    expect(scores).toEqual([1, 3, 2])
+
+    const broken = createCrossEncoderReranker(async () => [1])
+    await expect(broken.rerank('q', [candidate(1, 'a'), candidate(2, 'b')])).rejects.toThrow('1 scores for 2 texts')
+  })
+})
+
+describe('ColumnistDB rerankers', () => {
+  const dbName = 'rerank-search-test'
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function seed() {
+    const notes = defineTable()
+      .column('id', 'number')
+      .column('text', 'string')
+      .primaryKey('id')
+      .searchable('text')
+      .vector({ field: 'text', dims: 2 })
+      .build()
+    const db = await Columnist.init(dbName, { databaseName: dbName, autoInitialize: false, schema: { notes } })
+    // "x y words" -> [x, y]
+    db.registerEmbedder('notes', async text => new Float32Array(text.split(' ').slice(0, 2).map(Number)))
+    for (const text of ['1 0 apple', '0.9 0.1 apple banana', '0.5 0.5 banana', '0 1 cherry']) {
+      await db.insert({ text }, 'notes')
+    }
+    await db.flushEmbeddings()
+    return db
+  }
+
+  // Ranks texts mentioning banana first, and records what it was given
+  function bananaFirst() {
+    const calls: { query: string; ids: (number | string)[] }[] = []
+    const reranker: Reranker = {
+      rerank(query, candidates) {
+        calls.push({ query, ids: candidates.map(c => c.id) })
+        return candidates.map(c => (c.text.includes('banana') ? 1 : 0))
+      }
+    }
+    return { reranker, calls }
+  }
+
+  it('reranks over-fetched hits of search, vectorSearch and hybridSearch', async () => {
+    const db = await seed()
+    const { reranker, calls } = bananaFirst()
+    db.registerReranker('notes', reranker)
+
+    const hits = await db.search('apple', { table: 'notes', limit: 1 })
+    expect(hits.map(hit => [hit.id, hit.score])).toEqual([[2, 1]])
+    expect(calls.pop()).toEqual({ query: 'apple', ids: expect.arrayContaining([1, 2]) })
+
+    // Plain vector queries have no text and are left as ranked
+    const query = new Float32Array([1, 0])
+    expect((await db.vectorSearch('notes', query, { limit: 1 })).map(hit => hit.id)).toEqual([1])
+    expect(calls).toEqual([])
+    await expect(db.vectorSearch('notes', query, { rerank: {} })).rejects.toThrow('rerank.query')
+
+    const near = await db.vectorSearchText('notes', '1 0', { limit: 2, rerank: { candidates: 3 } })
+    expect(near.map(hit => hit.id)).toEqual([2, 3])
+    expect(calls.pop()).toEqual({ query: '1 0', ids: [1, 2, 3] })
+
+    const hybrid = await db.hybridSearch('notes', { text: 'apple', vector: query, limit: 1 })
+    expect(hybrid.map(hit => hit.id)).toEqual([2])
+
+    // Opting out, or removing the reranker, keeps the retrieval ranking
+    expect((await db.vectorSearchText('notes', '1 0', { limit: 1, rerank: false })).map(hit => hit.id)).toEqual([1])
+    db.registerReranker('notes', null)
+    expect((await db.hybridSearch('notes', { text: 'apple', vector: query, limit: 1 })).map(hit => hit.id)).toEqual([1])
+  })
+
+  it('rejects a reranker returning the wrong number of scores', async () => {
+    const db = await seed()
+    db.registerReranker('notes', { rerank: () => [1] })
+    await expect(db.search('apple', { table: 'notes' })).rejects.toThrow('1 scores for 2 candidates')
+  })
+})
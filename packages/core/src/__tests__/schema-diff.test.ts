@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { diffSchemas, formatSchemaDiff, migrationForDiff } from '../schema-diff'
+import type { MigrationDefinition, SchemaDiff, TableDefinition } from '../types'
+
+const postsV1 = defineTable()
+  .column('id', 'number')
+  .column('title', 'string')
+  .column('views', 'string')
+  .column('legacy', 'string')
+  .primaryKey('id')
+  .searchable('title')
+  .indexes('views')
+  .build()
+
+const postsV2 = defineTable()
+  .column('id', 'number')
+  .column('title', 'string')
+  .column('views', 'number')
+  .column('body', 'string')
+  .primaryKey('id')
+  .searchable('title', 'body')
+  .indexes(['views', 'title'])
+  .build()
+
+describe('diffSchemas', () => {
+  it('reports column, index, searchable and vector changes', () => {
+    const embedded = { ...postsV2, vector: { field: 'body', dims: 384 } }
+    const diff = diffSchemas({ posts: postsV1, old: postsV1 }, { posts: embedded, fresh: postsV1 })
+
+    expect(diff.addedTables).toEqual(['fresh'])
+    expect(diff.removedTables).toEqual(['old'])
+    expect(diff.tables).toEqual([{
+      table: 'posts',
+      addedColumns: [{ column: 'body', type: 'string' }],
+      removedColumns: [{ column: 'legacy', type: 'string' }],
+      changedColumns: [{ column: 'views', from: 'string', to: 'number' }],
+      addedIndexes: [['views', 'title']],
+      removedIndexes: ['views'],
+      addedSearchableFields: ['body'],
+      removedSearchableFields: [],
+      vector: { from: null, to: { field: 'body', dims: 384 } }
+    }])
+    expect(formatSchemaDiff(diff)).toContain('posts: +column body string, -column legacy, column views string -> number')
+  })
+
+  it('generates the migration that reconciles a diff', () => {
+    const diff = diffSchemas({ posts: postsV1 }, { posts: postsV2 })
+
+    expect(migrationForDiff(diff).steps.map(step => step.op)).toEqual([
+      'dropColumn', 'addColumn', 'changeType', 'dropIndex', 'addIndex'
+    ])
+    const reindex = diffSchemas({ posts: postsV1 }, { posts: { ...postsV1, searchableFields: ['legacy'] } })
+    expect(migrationForDiff(reindex).steps.map(step => step.op)).toEqual(['transformRows'])
+  })
+})
+
+describe('ColumnistDB schema drift detection', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  function open(schema: TableDefinition, options: Record<string, unknown> = {}) {
+    return Columnist.init(dbName, {
+      databaseName: dbName,
+      autoInitialize: false,
+      schema: { posts: schema },
+      ...options
+    })
+  }
+
+  it('reports drift on every open until a migration records the new schema', async () => {
+    dbName = 'schema-drift-test'
+    const v1 = await open(postsV1)
+    await v1.insert({ title: 'hello', views: '12', legacy: 'x' }, 'posts')
+    expect(await v1.diffSchema()).toEqual({ addedTables: [], removedTables: [], tables: [] })
+
+    const onSchemaDrift = vi.fn<(diff: SchemaDiff, migration: MigrationDefinition) => void>()
+    await open(postsV2, { onSchemaDrift })
+    await open(postsV2, { onSchemaDrift })
+    expect(onSchemaDrift).toHaveBeenCalledTimes(2)
+    const [diff, migration] = onSchemaDrift.mock.calls[0]
+    expect(diff.tables[0].changedColumns).toEqual([{ column: 'views', from: 'string', to: 'number' }])
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    await open(postsV2)
+    expect(warn.mock.calls[0][0]).toContain('Bump the version to 2')
+
+    const v2 = await open(postsV2, { version: 2, migrations: { 2: migration }, onSchemaDrift })
+    expect(onSchemaDrift).toHaveBeenCalledTimes(2)
+    expect((await v2.diffSchema()).tables).toEqual([])
+    const rows = await v2.getAll<{ views: number; legacy?: string }>('posts')
+    expect(rows).toEqual([{ id: 1, title: 'hello', views: 12 }])
+  })
+
+  it('refuses to open in strict mode', async () => {
+    dbName = 'schema-drift-strict-test'
+    await open(postsV1)
+
+    await expect(open(postsV2, { strictSchema: true })).rejects.toMatchObject({ code: 'SCHEMA_DRIFT' })
+    await expect(open(postsV1, { strictSchema: true })).resolves.toBeDefined()
+  })
+})
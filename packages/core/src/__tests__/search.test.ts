@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { highlightText } from '../highlight'
+import { editDistance, parseSearchQuery } from '../search-query'
+import { resolveAnalyzer } from '../analyzers'
+import { analyzeDocument, addPosting, scoreBM25, type InvertedIndexEntry } from '../text-index'
+
+const articles = defineTable()
+  .column('id', 'number')
+  .column('title', 'string')
+  .column('description', 'string')
+  .primaryKey('id')
+  .searchable({ title: 3, description: 1 })
+  .build()
+
+type Article = { title: string; description: string }
+
+function indexOf(docs: Record<number, Record<string, unknown>>, fields: string[]) {
+  const index = new Map<string, InvertedIndexEntry>()
+  const fieldLengths: Record<string, number> = {}
+  for (const [id, doc] of Object.entries(docs)) {
+    const { terms, lengths } = analyzeDocument(doc, fields)
+    for (const [token, postings] of terms) index.set(token, addPosting(index.get(token), token, Number(id), postings))
+    for (const [field, length] of Object.entries(lengths)) fieldLengths[field] = (fieldLengths[field] ?? 0) + length
+  }
+  return { index, fieldLengths, totalDocs: Object.keys(docs).length }
+}
+
+describe('scoreBM25', () => {
+  it('favours repeated terms and shorter fields', () => {
+    const { index, fieldLengths, totalDocs } = indexOf({
+      1: { body: 'cache cache cache' },
+      2: { body: 'cache' },
+      3: { body: 'cache and a great many other words about unrelated things' },
+      4: { body: 'nothing relevant' }
+    }, ['body'])
+
+    const scores = scoreBM25([index.get('cache')!], { totalDocs, fieldLengths })
+    expect(scores.get(1)).toBeGreaterThan(scores.get(2)!)
+    expect(scores.get(2)).toBeGreaterThan(scores.get(3)!)
+    expect(scores.has(4)).toBe(false)
+  })
+
+  it('gives rarer terms more weight', () => {
+    const { index, fieldLengths, totalDocs } = indexOf({
+      1: { body: 'common rare' },
+      2: { body: 'common words' },
+      3: { body: 'common again' }
+    }, ['body'])
+
+    const common = scoreBM25([index.get('common')!], { totalDocs, fieldLengths })
+    const rare = scoreBM25([index.get('rare')!], { totalDocs, fieldLengths })
+    expect(rare.get(1)).toBeGreaterThan(common.get(1)!)
+  })
+})
+
+describe('parseSearchQuery', () => {
+  it('reads phrases, prefixes, fuzzy terms, modifiers and fields', () => {
+    expect(parseSearchQuery('+"Exact Phrase" pre* -skip title:cat colour~ teh~1 re: e-mail', ['title'])).toEqual([
+      { kind: 'phrase', occur: 'must', field: undefined, tokens: ['exact', 'phrase'] },
+      { kind: 'prefix', occur: 'should', field: undefined, prefix: 'pre' },
+      { kind: 'term', occur: 'mustNot', field: undefined, token: 'skip' },
+      { kind: 'term', occur: 'should', field: 'title', token: 'cat' },
+      { kind: 'fuzzy', occur: 'should', field: undefined, token: 'colour', distance: 2 },
+      { kind: 'fuzzy', occur: 'should', field: undefined, token: 'teh', distance: 1 },
+      { kind: 'term', occur: 'should', field: undefined, token: 're' },
+      { kind: 'phrase', occur: 'should', field: undefined, tokens: ['e', 'mail'] }
+    ])
+  })
+
+  it('bounds the edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2)
+  })
+})
+
+describe('highlightText', () => {
+  const text = 'Columnist keeps notes offline. Search runs over an inverted index, and results are ranked with BM25 so that the best notes come first.'
+
+  it('cuts fragments around matches at word boundaries', () => {
+    expect(highlightText(text, 'notes', { fragmentSize: 40 })).toEqual([
+      'Columnist keeps <mark>notes</mark> offline. Search',
+      'BM25 so that the best <mark>notes</mark> come first.'
+    ])
+    expect(highlightText(text, 'invert* "ranked with"', { fragmentSize: 0, preTag: '[', postTag: ']' })).toEqual([
+      'Columnist keeps notes offline. Search runs over an [inverted] index, and results are [ranked] [with] BM25 so that the best notes come first.'
+    ])
+  })
+
+  it('marks the part of a CJK run that matched', () => {
+    expect(highlightText('今日は東京都に行く', '東京', {}, resolveAnalyzer('cjk'))).toEqual(['今日は<mark>東京</mark>都に行く'])
+  })
+})
+
+describe('ColumnistDB search ranking', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function open(name: string) {
+    dbName = name
+    return Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { articles } })
+  }
+
+  it('ranks a title match above a passing mention in a long description', async () => {
+    const db = await open('search-boost-test')
+    await db.insert({
+      title: 'Weekly notes',
+      description: 'A long roundup that covers releases, hiring, the offsite, budgets and, briefly, indexeddb quirks'
+    }, 'articles')
+    await db.insert({ title: 'IndexedDB', description: 'Storage' }, 'articles')
+    await db.insert({ title: 'Gardening', description: 'Tomatoes and beans' }, 'articles')
+
+    const hits = await db.search<Article>('indexeddb', { table: 'articles' })
+    expect(hits.map(hit => hit.title)).toEqual(['IndexedDB', 'Weekly notes'])
+    expect(hits[0].score).toBeGreaterThan(hits[1].score)
+  })
+
+  it('keeps postings and field lengths in step with updates and deletes', async () => {
+    const db = await open('search-maintenance-test')
+    const { id: first } = await db.insert({ title: 'Alpha', description: 'alpha beta' }, 'articles')
+    const { id: second } = await db.insert({ title: 'Gamma', description: 'beta' }, 'articles')
+
+    await db.update(first, { description: 'delta' }, 'articles')
+    expect((await db.search<Article>('beta', { table: 'articles' })).map(hit => hit.id)).toEqual([second])
+    expect((await db.search<Article>('delta', { table: 'articles' })).map(hit => hit.id)).toEqual([first])
+
+    await db.delete(second, 'articles')
+    expect((await db.search<Article>('alpha beta', { table: 'articles' })).map(hit => hit.id)).toEqual([first])
+    expect(await db.getStats('articles')).toMatchObject({ count: 1, fieldLengths: { title: 1, description: 1 } })
+  })
+  it('supports the query syntax', async () => {
+    const db = await open('search-syntax-test')
+    const { id: quick } = await db.insert({ title: 'Quick start', description: 'the quick brown fox jumps' }, 'articles')
+    const { id: brown } = await db.insert({ title: 'Brown bread', description: 'quick recipes for bread' }, 'articles')
+    const { id: colour } = await db.insert({ title: 'Colour theory', description: 'fox hues and browns' }, 'articles')
+    const ids = async (query: string) => (await db.search<Article>(query, { table: 'articles' })).map(hit => hit.id).sort()
+
+    expect(await ids('"quick brown"')).toEqual([quick])
+    expect(await ids('"brown quick"')).toEqual([])
+    expect(await ids('brow*')).toEqual([quick, brown, colour])
+    expect(await ids('quick -bread')).toEqual([quick])
+    expect(await ids('+fox +brown')).toEqual([quick])
+    expect(await ids('title:brown')).toEqual([brown])
+    expect(await ids('-fox')).toEqual([brown])
+    expect(await ids('colr~')).toEqual([])
+    expect(await ids('colur~')).toEqual([colour])
+    expect(await ids('nothing')).toEqual([])
+  })
+  it('returns highlights for the requested fields', async () => {
+    const db = await open('search-highlight-test')
+    await db.insert({ title: 'Running notes', description: 'Notes on the runner' }, 'articles')
+
+    const [hit] = await db.search<Article>('notes', { table: 'articles', highlight: { fields: ['description'], preTag: '*', postTag: '*' } })
+    expect(hit.highlights).toEqual({ description: ['*Notes* on the runner'] })
+
+    const [both] = await db.search<Article>('title:run*', { table: 'articles', highlight: {} })
+    expect(both.highlights).toEqual({ title: ['<mark>Running</mark> notes'] })
+  })
+})
@@ -0,0 +1,196 @@
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { MemoryStorageEngine, type StorageDatabase, type StorageRequest } from '../storage'
+import { FileStorageEngine, fileStorageFor } from '../storage/file'
+
+function request<T>(req: StorageRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function openItems(engine: MemoryStorageEngine, name = 'items'): Promise<StorageDatabase> {
+  return engine.open(name, 1, (db) => {
+    const store = db.createObjectStore('items', { keyPath: 'id', autoIncrement: true })
+    store.createIndex('by_tag', 'tag', { unique: false })
+  })
+}
+
+const notesTable = defineTable()
+  .column('id', 'number')
+  .column('body', 'string')
+  .column('createdAt', 'date')
+  .primaryKey('id')
+  .searchable('body')
+  .indexes('createdAt')
+  .build()
+
+describe('MemoryStorageEngine', () => {
+  it('orders keys like IndexedDB and walks indexes in both directions', async () => {
+    const engine = new MemoryStorageEngine()
+    const db = await openItems(engine)
+
+    const tx = db.transaction('items', 'readwrite')
+    const store = tx.objectStore('items')
+    for (const tag of ['b', 'a', 'c', 'a']) void store.add({ tag })
+    expect(await request(store.add({ tag: 'z', id: 10 }))).toBe(10)
+    expect(await request(store.add({ tag: 'y' }))).toBe(11)
+
+    const tags = await request(store.index('by_tag').getAll<{ tag: string; id: number }>(engine.keyRange.bound('a', 'c')))
+    expect(tags.map(row => [row.tag, row.id])).toEqual([['a', 2], ['a', 4], ['b', 1], ['c', 3]])
+
+    const unique: string[] = []
+    await new Promise<void>((resolve, reject) => {
+      const req = store.index('by_tag').openCursor(null, 'prevunique')
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor) return resolve()
+        unique.push(cursor.key as string)
+        cursor.continue()
+      }
+      req.onerror = () => reject(req.error)
+    })
+    expect(unique).toEqual(['z', 'y', 'c', 'b', 'a'])
+
+    expect([new Date(0), 'a', [1], 5].sort((a, b) => engine.cmp(a, b))).toEqual([5, new Date(0), 'a', [1]])
+  })
+
+  it('rolls back an aborted transaction', async () => {
+    const engine = new MemoryStorageEngine()
+    const db = await openItems(engine)
+
+    const tx = db.transaction('items', 'readwrite')
+    await request(tx.objectStore('items').add({ tag: 'kept' }))
+    await new Promise(resolve => { tx.oncomplete = resolve })
+
+    const failing = db.transaction('items', 'readwrite')
+    const aborted = new Promise(resolve => { failing.onabort = resolve })
+    await request(failing.objectStore('items').put({ id: 1, tag: 'changed' }))
+    await expect(request(failing.objectStore('items').add({ id: 1, tag: 'duplicate' }))).rejects.toThrow()
+    await aborted
+
+    const rows = await request(db.transaction('items').objectStore('items').getAll())
+    expect(rows).toEqual([{ id: 1, tag: 'kept' }])
+  })
+
+  it('backs ColumnistDB through the storage option', async () => {
+    const db = await Columnist.init('storage-memory-test', {
+      databaseName: 'storage-memory-test',
+      autoInitialize: false,
+      storage: new MemoryStorageEngine(),
+      schema: { notes: notesTable }
+    })
+    await db.insert({ body: 'first note', createdAt: new Date('2024-01-02') }, 'notes')
+    await db.insert({ body: 'second note', createdAt: new Date('2024-01-01') }, 'notes')
+
+    const rows = await db.find<{ body: string }>({ table: 'notes', orderBy: 'createdAt' })
+    expect(rows.map(row => row.body)).toEqual(['second note', 'first note'])
+    expect((await db.search<{ body: string }>('second', { table: 'notes' })).map(row => row.body)).toEqual(['second note'])
+  })
+})
+
+describe('FileStorageEngine', () => {
+  let dir = ''
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  async function addItem(db: StorageDatabase, value: Record<string, unknown>) {
+    const tx = db.transaction('items', 'readwrite')
+    void tx.objectStore('items').put(value)
+    await new Promise(resolve => { tx.oncomplete = resolve })
+  }
+
+  it('persists a ColumnistDB between engine instances', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'columnist-'))
+    const open = () => Columnist.init('notes db', {
+      databaseName: 'notes db',
+      autoInitialize: false,
+      storage: new FileStorageEngine(dir),
+      schema: { notes: notesTable }
+    })
+
+    const first = await open()
+    await first.insert({ body: 'remember the milk', createdAt: new Date('2024-03-04T05:06:07.000Z') }, 'notes')
+    await first.insert({ body: 'water the plants', createdAt: new Date('2024-03-05T00:00:00.000Z') }, 'notes')
+    await first.delete(2, 'notes')
+
+    const second = await open()
+    const rows = await second.getAll<{ body: string; createdAt: Date }>('notes')
+    expect(rows).toHaveLength(1)
+    expect(rows[0].createdAt).toEqual(new Date('2024-03-04T05:06:07.000Z'))
+    expect((await second.search('milk', { table: 'notes' })).map(row => row.id)).toEqual([1])
+    expect(await second.getStats('notes')).toMatchObject({ count: 1 })
+    expect(readdirSync(dir)).toEqual(['notes%20db.log'])
+  })
+
+  it('drops a transaction whose log line was cut short', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'columnist-'))
+    const db = await openItems(new FileStorageEngine(dir))
+    const tx = db.transaction('items', 'readwrite')
+    void tx.objectStore('items').add({ tag: 'saved' })
+    await new Promise(resolve => { tx.oncomplete = resolve })
+    appendFileSync(join(dir, 'items.log'), '[{"op":"put","store":"items"')
+
+    const reopened = await openItems(new FileStorageEngine(dir))
+    const rows = await request(reopened.transaction('items').objectStore('items').getAll())
+    expect(rows).toEqual([{ id: 1, tag: 'saved' }])
+  })
+
+  it('compacts the log into a snapshot and keeps generated keys unique', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'columnist-'))
+    const engine = new FileStorageEngine(dir, { maxLogBytes: 200, compactionInterval: 0 })
+    const db = await openItems(engine)
+    for (const tag of ['a', 'b', 'c', 'd']) await addItem(db, { tag })
+    const tx = db.transaction('items', 'readwrite')
+    void tx.objectStore('items').delete(4)
+    await new Promise(resolve => { tx.oncomplete = resolve })
+    engine.compact()
+    engine.close()
+
+    expect(readdirSync(dir).sort()).toEqual(['items.log', 'items.snapshot'])
+    expect(readFileSync(join(dir, 'items.log'), 'utf8')).toBe('')
+
+    const reopened = await openItems(new FileStorageEngine(dir, { compactionInterval: 0 }))
+    await addItem(reopened, { tag: 'e' })
+    const rows = await request(reopened.transaction('items').objectStore('items').getAll<{ tag: string; id: number }>())
+    expect(rows.map(row => [row.id, row.tag])).toEqual([[1, 'a'], [2, 'b'], [3, 'c'], [5, 'e']])
+  })
+
+  it('skips log lines already folded into the snapshot', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'columnist-'))
+    const engine = new FileStorageEngine(dir, { compactionInterval: 0 })
+    const db = await openItems(engine)
+    await addItem(db, { id: 1, tag: 'old' })
+    const staleLog = readFileSync(join(dir, 'items.log'), 'utf8')
+    await addItem(db, { id: 1, tag: 'new' })
+    engine.compact()
+    engine.close()
+    // A crash between writing the snapshot and emptying the log
+    writeFileSync(join(dir, 'items.log'), staleLog)
+
+    const reopened = await openItems(new FileStorageEngine(dir, { compactionInterval: 0 }))
+    const rows = await request(reopened.transaction('items').objectStore('items').getAll())
+    expect(rows).toEqual([{ id: 1, tag: 'new' }])
+  })
+
+  it('reloads the Node fallback from the persistence directory', async () => {
+    vi.stubGlobal('window', undefined)
+    dir = mkdtempSync(join(tmpdir(), 'columnist-'))
+    const options = { databaseName: 'agent', autoInitialize: false, schema: { notes: notesTable } }
+
+    const db = await Columnist.init('agent', { ...options, persistence: { directory: dir, compactionInterval: 0 } })
+    await db.insert({ body: 'survives a restart', createdAt: new Date('2024-05-06') }, 'notes')
+    fileStorageFor(dir).close()
+
+    // A fresh engine reads only what reached the disk
+    const restarted = await Columnist.init('agent', { ...options, storage: new FileStorageEngine(dir, { compactionInterval: 0 }) })
+    expect((await restarted.getAll<{ body: string }>('notes')).map(row => row.body)).toEqual(['survives a restart'])
+  })
+})
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+
+const accountsTable = defineTable()
+  .column('id', 'number')
+  .column('owner', 'string')
+  .column('balance', 'number')
+  .primaryKey('id')
+  .searchable('owner')
+  .indexes('owner')
+  .build()
+
+type Account = { owner: string; balance: number }
+
+async function openDb(name: string) {
+  return Columnist.init(name, {
+    databaseName: name,
+    autoInitialize: false,
+    schema: { accounts: accountsTable }
+  })
+}
+
+async function transfer(db: Awaited<ReturnType<typeof openDb>>, from: number, to: number, amount: number) {
+  return db.transaction(async (tx) => {
+    const source = await tx.get<Account>(from, 'accounts')
+    const target = await tx.get<Account>(to, 'accounts')
+    if (!source || !target) throw new Error('Unknown account')
+    await tx.update(from, { balance: source.balance - amount }, 'accounts')
+    await tx.update(to, { balance: target.balance + amount }, 'accounts')
+    const overdrawn = await tx.find<Account>({ table: 'accounts', where: { balance: { $lt: 0 } } })
+    if (overdrawn.length > 0) throw new Error('Insufficient funds')
+    return amount
+  })
+}
+
+describe('ColumnistDB.transaction', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  it('commits reads and writes together and notifies after commit', async () => {
+    dbName = 'transaction-commit-test'
+    const db = await openDb(dbName)
+    const events: string[] = []
+    db.subscribe('accounts', (event) => events.push(event.type))
+
+    const ids = await db.transaction(async (tx) => {
+      const a = await tx.insert({ owner: 'ada', balance: 100 }, 'accounts')
+      const b = await tx.upsert({ owner: 'bob', balance: 0 }, 'accounts')
+      expect(events).toEqual([])
+      return [a.id, b.id]
+    })
+    expect(events).toEqual(['insert', 'insert'])
+
+    await expect(transfer(db, ids[0], ids[1], 30)).resolves.toBe(30)
+    const balances = await db.find<Account>({ table: 'accounts', orderBy: 'owner' })
+    expect(balances.map(a => a.balance)).toEqual([70, 30])
+    expect(events).toEqual(['insert', 'insert', 'update', 'update'])
+  })
+
+  it('rolls back every change when the callback throws', async () => {
+    dbName = 'transaction-rollback-test'
+    const db = await openDb(dbName)
+    const { id: ada } = await db.insert({ owner: 'ada', balance: 10 }, 'accounts')
+    const { id: bob } = await db.insert({ owner: 'bob', balance: 0 }, 'accounts')
+    const events: string[] = []
+    db.subscribe('accounts', (event) => events.push(event.type))
+
+    await expect(transfer(db, ada, bob, 50)).rejects.toThrow('Insufficient funds')
+    await expect(db.transaction(async (tx) => {
+      await tx.insert({ owner: 'carol', balance: 5 }, 'accounts')
+      await tx.delete(ada, 'accounts')
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+
+    const balances = await db.find<Account>({ table: 'accounts', orderBy: 'owner' })
+    expect(balances.map(a => [a.owner, a.balance])).toEqual([['ada', 10], ['bob', 0]])
+    expect(await db.getStats('accounts')).toMatchObject({ count: 2 })
+    expect(events).toEqual([])
+  })
+
+  it('restores the in-memory store from a snapshot on rollback', async () => {
+    vi.stubGlobal('window', undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    dbName = 'transaction-memory-test'
+    const db = await openDb(dbName)
+    const { id } = await db.insert({ owner: 'ada', balance: 10 }, 'accounts')
+
+    await expect(db.transaction(async (tx) => {
+      await tx.update(id, { balance: 99 }, 'accounts')
+      await tx.insert({ owner: 'bob', balance: 1 }, 'accounts')
+      expect((await tx.get<Account>(id, 'accounts'))?.balance).toBe(99)
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+
+    const rows = await db.find<Account>({ table: 'accounts', where: { owner: { $in: ['ada', 'bob'] } } })
+    expect(rows.map(a => [a.owner, a.balance])).toEqual([['ada', 10]])
+  })
+})
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { diffSchemas, formatSchemaDiff } from '../schema-diff'
+
+const papers = defineTable()
+  .column('id', 'number')
+  .column('title', 'string')
+  .column('abstract', 'string')
+  .primaryKey('id')
+  .vectors({
+    title: { field: 'title', dims: 2 },
+    abstract: { field: 'abstract', dims: 3, metric: 'euclidean' }
+  })
+  .build()
+
+// "x y" -> [x, y]; the abstract model appends a constant third dimension
+async function embedTitle(text: string): Promise<Float32Array> {
+  return new Float32Array(text.split(' ').map(Number))
+}
+
+async function embedAbstract(text: string): Promise<Float32Array> {
+  return new Float32Array([...text.split(' ').map(Number), 1])
+}
+
+describe('ColumnistDB named vector fields', () => {
+  let dbName = ''
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  async function seed(name: string) {
+    dbName = name
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, schema: { papers } })
+    db.registerEmbedder('papers', embedTitle, 'title')
+    db.registerEmbedder('papers', embedAbstract, 'abstract')
+    await db.insert({ title: '1 0', abstract: '5 5' }, 'papers')
+    await db.insert({ title: '0 1', abstract: '0 0' }, 'papers')
+    await db.flushEmbeddings()
+    return db
+  }
+
+  it('embeds and searches each field separately', async () => {
+    const db = await seed('vector-fields-search-test')
+
+    const byTitle = await db.vectorSearch('papers', new Float32Array([1, 0]), { field: 'title', limit: 1 })
+    const byAbstract = await db.vectorSearch('papers', new Float32Array([0, 0, 1]), { field: 'abstract', limit: 1 })
+    expect(byTitle.map(hit => hit.id)).toEqual([1])
+    // The abstract vector defaults to its own metric: euclidean scores the
+    // exact match 0, where cosine would score it 1
+    expect(byAbstract.map(hit => hit.id)).toEqual([2])
+    expect(byAbstract[0].score).toBeCloseTo(0)
+
+    // Without field the first vector is searched
+    expect((await db.vectorSearch('papers', new Float32Array([0, 1]), { limit: 1 }))[0].id).toBe(2)
+    await expect(db.vectorSearch('papers', new Float32Array([1, 0]), { field: 'body' })).rejects.toThrow('no vector field body')
+    await expect(db.vectorSearch('papers', new Float32Array([1, 0]), { field: 'abstract' })).rejects.toThrow('dimension mismatch')
+  })
+
+  it('re-embeds only the fields that changed and drops every embedding on delete', async () => {
+    const db = await seed('vector-fields-write-test')
+    await db.buildHNSWIndex('papers', 4, 16, 'abstract')
+
+    await db.update(1, { abstract: '0 0.5' }, 'papers')
+    await db.flushEmbeddings()
+    const byAbstract = await db.vectorSearch('papers', new Float32Array([0, 0.4, 1]), { field: 'abstract', limit: 2 })
+    expect(byAbstract.map(hit => hit.id)).toEqual([1, 2])
+    expect((await db.vectorSearch('papers', new Float32Array([1, 0]), { field: 'title', limit: 1 }))[0].id).toBe(1)
+
+    await db.delete(2, 'papers')
+    expect(await db.getVectorSearchStats('papers', 'title')).toMatchObject({ totalVectors: 1, hasHNSWIndex: false })
+    expect(await db.getVectorSearchStats('papers', 'abstract')).toMatchObject({ totalVectors: 1, hasHNSWIndex: true })
+  })
+
+  it('embeds query text with the field\'s embedder', async () => {
+    const db = await seed('vector-fields-text-test')
+    const hits = await db.vectorSearchText('papers', '5 4', { field: 'abstract', limit: 1 })
+
+    expect(hits[0].id).toBe(1)
+  })
+
+  it('reports named vectors in schema diffs', () => {
+    const retitled = { ...papers, vectors: { ...papers.vectors, title: { field: 'title', dims: 4 } } }
+    const diff = diffSchemas({ papers }, { papers: retitled })
+
+    expect(diff.tables[0].vectors).toEqual([{ name: 'title', from: { field: 'title', dims: 2 }, to: { field: 'title', dims: 4 } }])
+    expect(formatSchemaDiff(diff)).toBe('papers: vector title title(2) -> title(4)')
+  })
+})
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Columnist, defineTable } from '../columnist'
+import { MemoryStorageEngine } from '../storage'
+
+const points = defineTable()
+  .column('id', 'number')
+  .column('coords', 'string')
+  .column('group', 'string')
+  .column('kind', 'string')
+  .primaryKey('id')
+  .indexes('group')
+  .vector({ field: 'coords', dims: 2 })
+  .build()
+
+type Point = { coords: string; group: string; kind: string }
+
+// "x y" -> [x, y]
+async function embed(text: string): Promise<Float32Array> {
+  return new Float32Array(text.split(' ').map(Number))
+}
+
+describe.each([
+  ['IndexedDB', () => undefined],
+  ['memory storage', () => new MemoryStorageEngine()]
+])('ColumnistDB.vectorSearch with where (%s)', (_label, storage) => {
+  let dbName = ''
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(dbName)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  // Forty points along the unit circle's first quadrant; only the two
+  // furthest from the query direction (1, 0) are "rare"
+  async function seed(name: string) {
+    dbName = name
+    const db = await Columnist.init(name, { databaseName: name, autoInitialize: false, storage: storage(), schema: { points } })
+    db.registerEmbedder('points', embed)
+    for (let i = 0; i < 40; i++) {
+      const angle = (i / 39) * (Math.PI / 2)
+      await db.insert({
+        coords: `${Math.cos(angle)} ${Math.sin(angle)}`,
+        group: i % 10 === 0 ? 'a' : 'b',
+        kind: i >= 38 ? 'rare' : 'common'
+      }, 'points')
+    }
+    await db.flushEmbeddings()
+    return db
+  }
+
+  it('scores every match of a selective indexed filter', async () => {
+    const db = await seed('vector-prefilter-test')
+    const hits = await db.vectorSearch<Point>('points', new Float32Array([1, 0]), { where: { group: 'a' }, limit: 3 })
+
+    expect(hits.map(hit => hit.id)).toEqual([1, 11, 21])
+  })
+
+  it('widens the HNSW search until enough neighbors pass the filter', async () => {
+    const db = await seed('vector-hnsw-filter-test')
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    await db.buildHNSWIndex('points', 4, 8)
+
+    const hits = await db.vectorSearch<Point>('points', new Float32Array([1, 0]), { where: { kind: 'rare' }, limit: 2 })
+    expect(hits.map(hit => hit.id)).toEqual([39, 40])
+  })
+
+  it('probes further IVF clusters until enough vectors pass the filter', async () => {
+    const db = await seed('vector-ivf-filter-test')
+    await db.buildIVFIndex('points', 8)
+
+    const hits = await db.vectorSearch<Point>('points', new Float32Array([1, 0]), {
+      where: { kind: 'rare' },
+      limit: 2,
+      useHNSW: false,
+      useIVF: true
+    })
+    expect(hits.map(hit => hit.id)).toEqual([39, 40])
+  })
+
+  it('falls back to scoring every vector when there is no index', async () => {
+    const db = await seed('vector-scan-filter-test')
+    const hits = await db.vectorSearch<Point>('points', new Float32Array([0, 1]), { where: { kind: 'common' }, limit: 2 })
+
+    expect(hits.map(hit => hit.id)).toEqual([38, 37])
+    expect(hits.every(hit => hit.kind === 'common')).toBe(true)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { getFieldValue, literalRegexPrefix, matchesWhere, requiredFieldConditions } from '../where'
+
+const note = {
+  title: 'Draft: release notes',
+  status: 'open',
+  views: 12,
+  tags: ['release', 'docs'],
+  archivedAt: null,
+  createdAt: new Date('2024-03-01T00:00:00.000Z'),
+  settings: { theme: { mode: 'dark' }, pinned: true },
+}
+
+describe('matchesWhere', () => {
+  it('supports comparison and membership operators', () => {
+    expect(matchesWhere(note, { status: { $ne: 'closed' }, views: { $gte: 10, $lt: 20 } })).toBe(true)
+    expect(matchesWhere(note, { status: { $nin: ['open', 'closed'] } })).toBe(false)
+    expect(matchesWhere(note, { createdAt: new Date('2024-03-01T00:00:00.000Z') })).toBe(true)
+  })
+
+  it('treats array fields element-wise', () => {
+    expect(matchesWhere(note, { tags: { $contains: 'docs' } })).toBe(true)
+    expect(matchesWhere(note, { tags: { $contains: ['docs', 'api'] } })).toBe(false)
+    expect(matchesWhere(note, { tags: { $in: ['api', 'release'] } })).toBe(true)
+  })
+
+  it('checks presence and string patterns', () => {
+    expect(matchesWhere(note, { archivedAt: { $exists: false }, views: { $exists: true } })).toBe(true)
+    expect(matchesWhere(note, { title: { $prefix: 'Draft' } })).toBe(true)
+    expect(matchesWhere(note, { title: { $regex: 'RELEASE', $options: 'i' } })).toBe(true)
+    expect(matchesWhere(note, { title: /^final/ })).toBe(false)
+  })
+
+  it('combines clauses with $and, $or and $not', () => {
+    expect(matchesWhere(note, {
+      $or: [{ status: 'closed' }, { views: { $gt: 10 } }],
+      $not: { tags: { $contains: 'internal' } },
+    })).toBe(true)
+    expect(matchesWhere(note, { $and: [{ status: 'open' }, { views: { $not: { $gt: 5 } } }] })).toBe(false)
+  })
+})
+
+describe('dotted field paths', () => {
+  it('reads values nested in json columns', () => {
+    expect(getFieldValue(note, 'settings.theme.mode')).toBe('dark')
+    expect(getFieldValue(note, 'settings.theme.size')).toBeUndefined()
+    expect(getFieldValue(note, 'title.length')).toBeUndefined()
+    expect(getFieldValue({ 'a.b': 1, a: { b: 2 } }, 'a.b')).toBe(1)
+  })
+
+  it('matches conditions on nested paths', () => {
+    expect(matchesWhere(note, { 'settings.theme.mode': 'dark', 'settings.pinned': { $exists: true } })).toBe(true)
+    expect(matchesWhere(note, { $or: [{ 'settings.theme.mode': 'light' }, { 'settings.size': { $gt: 1 } }] })).toBe(false)
+  })
+})
+
+describe('planner helpers', () => {
+  it('extracts literal prefixes from anchored patterns only', () => {
+    expect(literalRegexPrefix('^draft\\-2024')).toBe('draft-2024')
+    expect(literalRegexPrefix(/^draft/i)).toBeNull()
+    expect(literalRegexPrefix('draft')).toBeNull()
+    // The literal before a quantifier may be absent
+    expect(literalRegexPrefix('^colou?r')).toBe('colo')
+    expect(literalRegexPrefix('^ab*c')).toBe('a')
+    expect(literalRegexPrefix('^ab{0,2}')).toBe('a')
+    expect(literalRegexPrefix('^ab+?')).toBe('a')
+    expect(literalRegexPrefix('^a?')).toBeNull()
+    expect(literalRegexPrefix('^ab+')).toBe('ab')
+    // Top-level alternation is not anchored; alternation inside a group is
+    expect(literalRegexPrefix('^c|our')).toBeNull()
+    expect(literalRegexPrefix('^c(a|o)t')).toBe('c')
+    expect(literalRegexPrefix('^c[|]')).toBe('c')
+  })
+
+  it('collects field conditions required by every match', () => {
+    expect(requiredFieldConditions({
+      status: 'open',
+      $and: [{ views: { $gt: 1 } }],
+      $or: [{ title: 'x' }],
+    })).toEqual({ status: 'open', views: { $gt: 1 } })
+  })
+})
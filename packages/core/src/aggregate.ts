@@ -0,0 +1,125 @@
+// Streaming aggregation for ColumnistDB.aggregate
+//
+// Records are fed one at a time (from an IndexedDB cursor or the in-memory
+// store), so memory use is bounded by the number of groups rather than the
+// number of rows.
+
+import type { AggregateMetric, AggregateOptions, AggregateRow } from "./types"
+import { getFieldValue } from "./where"
+import { compareValues } from "./query-planner"
+
+interface MetricState {
+  count: number
+  sum: number
+  min: unknown
+  max: unknown
+}
+
+interface GroupState {
+  group: Record<string, unknown>
+  metrics: Record<string, MetricState>
+}
+
+const DEFAULT_METRICS: Record<string, AggregateMetric> = { count: "count" }
+
+function normalizeMetric(metric: AggregateMetric): { fn: string; field?: string } {
+  return typeof metric === "string" ? { fn: metric } : metric
+}
+
+// Dates group by instant, everything else by its JSON form
+function groupKey(values: unknown[]): string {
+  return JSON.stringify(values.map(value => value instanceof Date ? { $date: value.getTime() } : value ?? null))
+}
+
+export function groupByFields(groupBy: AggregateOptions["groupBy"]): string[] {
+  if (!groupBy) return []
+  return Array.isArray(groupBy) ? groupBy : [groupBy]
+}
+
+// True when the result is a plain row count, which a store can answer
+// without reading any record
+export function isCountOnly(options: AggregateOptions): boolean {
+  const metrics = Object.values(options.metrics || DEFAULT_METRICS)
+  return groupByFields(options.groupBy).length === 0 &&
+    metrics.every(metric => {
+      const { fn, field } = normalizeMetric(metric)
+      return fn === "count" && !field
+    })
+}
+
+export function createAggregator(options: AggregateOptions) {
+  const fields = groupByFields(options.groupBy)
+  const metrics = Object.entries(options.metrics || DEFAULT_METRICS).map(([name, metric]) => {
+    const { fn, field } = normalizeMetric(metric)
+    if (!["count", "sum", "avg", "min", "max"].includes(fn)) {
+      throw new Error(`Unknown aggregate function "${fn}" for metric "${name}"`)
+    }
+    if (fn !== "count" && !field) {
+      throw new Error(`Aggregate metric "${name}" (${fn}) requires a field`)
+    }
+    return { name, fn, field }
+  })
+  const groups = new Map<string, GroupState>()
+
+  const add = (record: Record<string, unknown>): void => {
+    const values = fields.map(field => getFieldValue(record, field))
+    const key = groupKey(values)
+    let state = groups.get(key)
+    if (!state) {
+      const group: Record<string, unknown> = {}
+      fields.forEach((field, i) => { group[field] = values[i] ?? null })
+      state = { group, metrics: {} }
+      for (const { name } of metrics) state.metrics[name] = { count: 0, sum: 0, min: null, max: null }
+      groups.set(key, state)
+    }
+
+    for (const { name, fn, field } of metrics) {
+      const metric = state.metrics[name]
+      if (!field) {
+        metric.count++
+        continue
+      }
+      const value = getFieldValue(record, field)
+      if (value === undefined || value === null) continue
+      if ((fn === "sum" || fn === "avg") && typeof value !== "number") continue
+      metric.count++
+      if (typeof value === "number") metric.sum += value
+      if (metric.min === null || compareValues(value, metric.min) < 0) metric.min = value
+      if (metric.max === null || compareValues(value, metric.max) > 0) metric.max = value
+    }
+  }
+
+  const results = (): AggregateRow[] => {
+    const rows: AggregateRow[] = []
+    for (const state of groups.values()) {
+      const out: Record<string, unknown> = {}
+      for (const { name, fn } of metrics) {
+        const metric = state.metrics[name]
+        switch (fn) {
+          case "count": out[name] = metric.count; break
+          case "sum": out[name] = metric.sum; break
+          case "avg": out[name] = metric.count > 0 ? metric.sum / metric.count : null; break
+          case "min": out[name] = metric.min; break
+          case "max": out[name] = metric.max; break
+        }
+      }
+      rows.push({ group: state.group, metrics: out })
+    }
+    // Without groupBy an empty table still reports one row of zero counts
+    if (fields.length === 0 && rows.length === 0) {
+      const out: Record<string, unknown> = {}
+      for (const { name, fn } of metrics) out[name] = fn === "count" || fn === "sum" ? 0 : null
+      rows.push({ group: {}, metrics: out })
+    }
+    // Groups come back ordered by their key values
+    return rows.sort((a, b) => {
+      for (const field of fields) {
+        const comparison = compareValues(a.group[field], b.group[field])
+        if (comparison !== 0) return comparison
+      }
+      return 0
+    })
+  }
+
+  return { add, results }
+}
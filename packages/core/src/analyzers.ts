@@ -0,0 +1,122 @@
+// Text analysis for full-text search
+//
+// An analyzer turns the value of a searchable field, and the words of a
+// query, into the tokens stored in and looked up from the inverted index.
+// Tables choose one with TableSchemaBuilder.analyzer(); load() rebuilds the
+// index of a table whose analyzer changed since the last run.
+
+import { porterStem } from "./porter-stemmer"
+import { tokenize } from "./text-index"
+import type { AnalyzerConfig, AnalyzerOptions } from "./types"
+
+export interface Analyzer {
+  // Tokens in the order they occur; phrase queries match on their positions
+  analyze(text: string): string[]
+  // Tokens for prefix and fuzzy query terms, which are matched against
+  // indexed tokens as typed: normalized, but not stemmed or split into grams.
+  // Falls back to analyze().
+  normalize?(text: string): string[]
+}
+
+// Lucene's English stop words
+export const ENGLISH_STOPWORDS = [
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "if", "in", "into", "is", "it",
+  "no", "not", "of", "on", "or", "such", "that", "the", "their", "then", "there", "these",
+  "they", "this", "to", "was", "will", "with"
+]
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu
+const IS_CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+// Letters that do not decompose into a base letter and a diacritic
+const FOLDED: Record<string, string> = {
+  ß: "ss", æ: "ae", œ: "oe", ø: "o", đ: "d", ð: "d", þ: "th", ł: "l", ı: "i"
+}
+
+export function foldToAscii(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/(\p{Script=Latin})\p{M}+/gu, "$1")
+    .normalize("NFC")
+    .replace(/[ßæœøđðþłı]/g, letter => FOLDED[letter])
+}
+
+// Overlapping bigrams of each CJK run, which have no spaces between words;
+// other text in the token is kept whole
+function cjkBigrams(token: string): string[] {
+  if (!IS_CJK.test(token)) return [token]
+  const out: string[] = []
+  for (const run of token.match(CJK_RUN) ?? []) {
+    const chars = Array.from(run)
+    if (!IS_CJK.test(run) || chars.length === 1) {
+      out.push(run)
+      continue
+    }
+    for (let i = 0; i < chars.length - 1; i++) out.push(chars[i] + chars[i + 1])
+  }
+  return out
+}
+
+function ngrams(token: string, min: number, max: number): string[] {
+  const chars = Array.from(token)
+  if (chars.length <= min) return [token]
+  const out: string[] = []
+  for (let start = 0; start < chars.length; start++) {
+    for (let length = min; length <= max && start + length <= chars.length; length++) {
+      out.push(chars.slice(start, start + length).join(""))
+    }
+  }
+  return out
+}
+
+/**
+ * Build an analyzer from pipeline options. Words are lowercased, optionally
+ * folded to ASCII, filtered for stop words and stemmed, then the tokenizer
+ * splits them further into CJK bigrams or n-grams.
+ */
+export function createAnalyzer(options: AnalyzerOptions = {}): Analyzer {
+  const { tokenizer = "standard", asciiFolding = false, stemmer } = options
+  const { min, max } = options.ngram ?? { min: 2, max: 3 }
+  const stopwords = new Set(
+    options.stopwords === true ? ENGLISH_STOPWORDS : Array.isArray(options.stopwords) ? options.stopwords : []
+  )
+
+  const normalize = (text: string) => tokenize(asciiFolding ? foldToAscii(text) : text)
+  const split = (token: string) =>
+    tokenizer === "cjk" ? cjkBigrams(token) : tokenizer === "ngram" ? ngrams(token, min, max) : [token]
+
+  return {
+    analyze: text => normalize(text)
+      .filter(token => !stopwords.has(token))
+      .map(token => (stemmer === "english" ? porterStem(token) : token))
+      .flatMap(split),
+    normalize: text => normalize(text).flatMap(token => (tokenizer === "cjk" ? cjkBigrams(token) : [token]))
+  }
+}
+
+const registry = new Map<string, Analyzer>([
+  ["standard", createAnalyzer()],
+  ["english", createAnalyzer({ asciiFolding: true, stopwords: true, stemmer: "english" })],
+  ["cjk", createAnalyzer({ tokenizer: "cjk" })],
+  ["ngram", createAnalyzer({ tokenizer: "ngram" })]
+])
+
+/**
+ * Make an analyzer available to tables by name. Tables record only the name,
+ * so call ColumnistDB.reindex() for them after changing what it produces.
+ */
+export function registerAnalyzer(name: string, analyzer: Analyzer): void {
+  registry.set(name, analyzer)
+}
+
+export function resolveAnalyzer(config: AnalyzerConfig = "standard"): Analyzer {
+  if (typeof config !== "string") return createAnalyzer(config)
+  const analyzer = registry.get(config)
+  if (!analyzer) throw new Error(`Unknown analyzer "${config}"; register it with registerAnalyzer() first`)
+  return analyzer
+}
+
+// Whether two configs analyze alike, as far as their description tells
+export function sameAnalyzer(a: AnalyzerConfig | undefined, b: AnalyzerConfig | undefined): boolean {
+  return JSON.stringify(a ?? "standard") === JSON.stringify(b ?? "standard")
+}
@@ -5,15 +5,33 @@
 // subscriptions, transactions, and lightweight stats.
 //
 // Important notes:
-// - Prefers browser environment with IndexedDB, falls back to in-memory storage
+// - Storage goes through a StorageEngine: IndexedDB in the browser, an
+//   in-memory engine elsewhere, or any engine passed as options.storage
 // - Supports both client-side and server-side usage
 
 // Node.js compatibility (will be handled by build process)
 
 import { z } from "zod"
 import { SyncManager } from "./sync"
-import type { ColumnType, TableDefinition, InferTableType, ColumnistDBOptions } from "./types"
+import type { AnalyzerConfig, SearchHit, HybridSearchOptions, HybridHit, ColumnType, TableDefinition, InferTableType, ColumnistDBOptions, PersistenceOptions, SearchOptions, WhereCondition, FindOptions, FindPageOptions, PageResult, TransactionHandle, FieldPath, Migration, MigrationDefinition, MigrationStep, AppliedMigration, SchemaDiff, AggregateOptions, AggregateRow, Faceted, FacetResults, VectorFieldConfig, EmbeddingStatus, EmbedderOptions, ReembedOptions, ReembedProgress, MMROptions, Reranker, RerankerOptions, RerankOptions } from "./types"
 import { createTableCodec, dateCodec, jsonCodec } from "./codecs"
+import { matchesWhere as evaluateWhere, getFieldValue } from "./where"
+import { createAggregator, isCountOnly } from "./aggregate"
+import { diffSchemas, formatSchemaDiff, isSchemaDiffEmpty, migrationForDiff } from "./schema-diff"
+import { MIGRATION_LOG_KEY, affectedTables, describeMigration, isMigrationDefinition, migrateRow, type RowCodec } from "./migrations"
+import { IndexedDBEngine, isIndexedDBAvailable, MemoryStorageEngine, type StorageDatabase, type StorageEngine, type StorageKey, type StorageObjectStore, type StorageRequest, type StorageTransaction } from "./storage"
+import { addFieldLengths, addPosting, analyzeDocument, removePosting, searchableFieldsOf, type InvertedIndexEntry } from "./text-index"
+import { matchQuery, parseSearchQuery, type TokenSource } from "./search-query"
+import { resolveAnalyzer, sameAnalyzer } from "./analyzers"
+import { highlightRecord, matcherFor } from "./highlight"
+import { fuseRankings } from "./fusion"
+import { cosineSimilarity, mmrLambda, selectMMR } from "./mmr"
+import { rerankHits } from "./rerank"
+import { createFacetCounter } from "./facets"
+import { EmbeddingQueue, type EmbeddingJob, type EmbeddingRequest } from "./embedding-queue"
+import { createInt8Quantizer, createPQQuantizer, quantizationOptions, trainPQ, type PQCodebook, type QuantizedVector, type Quantizer } from "./quantization"
+import { createHNSWMeta, HNSW_META_KEY, insertNode, markDeleted, needsRepair, repairGraph, searchGraph, type HNSWMeta, type HNSWNode, type HNSWStore } from "./hnsw"
+import { planQuery, indexName, indexKeyPath, keyRangeForBounds, boundsFrom, compareValues, parseOrderBy, type QueryPlan } from "./query-planner"
 
 // Error recovery and resilience mechanisms
 interface RetryConfig {
@@ -225,13 +243,35 @@ export class TableSchemaBuilder<T extends Record<string, ColumnType> = {}> {
     return this
   }
 
-  searchable(...fields: (keyof T)[]): this {
-    this.def.searchableFields = fields as string[]
+  // Fields indexed for search(). Pass weights instead to boost matches in
+  // some fields, e.g. .searchable({ title: 3, description: 1 })
+  searchable(...fields: (keyof T)[]): this
+  searchable(weights: Partial<Record<keyof T, number>>): this
+  searchable(...fields: (keyof T)[] | [Partial<Record<keyof T, number>>]): this {
+    const [first] = fields
+    if (fields.length === 1 && typeof first === "object" && first !== null) {
+      const weights = first as Record<string, number>
+      this.def.searchableFields = Object.keys(weights)
+      this.def.fieldBoosts = weights
+    } else {
+      this.def.searchableFields = fields as string[]
+      this.def.fieldBoosts = undefined
+    }
+    return this
+  }
+
+  // Analyzer for the searchable fields: a built-in or registered name, or
+  // options for the built-in pipeline, e.g. .analyzer("english")
+  analyzer(config: AnalyzerConfig): this {
+    this.def.analyzer = config
     return this
   }
 
-  indexes(...fields: (keyof T)[]): this {
-    this.def.secondaryIndexes = fields as string[]
+  // Each argument is a field name or an array of field names for a compound
+  // index, e.g. .indexes("createdAt", ["status", "dueDate"]). Dotted paths
+  // index values nested in json columns, e.g. .indexes("metadata.documentId")
+  indexes(...fields: (FieldPath<keyof T & string> | FieldPath<keyof T & string>[])[]): this {
+    this.def.secondaryIndexes = fields as (string | string[])[]
     return this
   }
 
@@ -250,19 +290,28 @@ export class TableSchemaBuilder<T extends Record<string, ColumnType> = {}> {
     return createTableCodec(columnTypes, this.def.validation)
   }
 
-  vector(config: { field: string; dims: number }): this {
+  vector(config: VectorFieldConfig): this {
     this.def.vector = config
     return this
   }
 
+  // Named embeddings, each searched on its own with vectorSearch({ field })
+  vectors(config: Record<string, VectorFieldConfig>): this {
+    this.def.vectors = { ...this.def.vectors, ...config }
+    return this
+  }
+
   build(): TableDefinition & { columns: T } {
     return {
       columns: this.def.columns as T,
       primaryKey: this.def.primaryKey,
       searchableFields: this.def.searchableFields,
+      fieldBoosts: this.def.fieldBoosts,
+      analyzer: this.def.analyzer,
       secondaryIndexes: this.def.secondaryIndexes,
       validation: this.def.validation,
-      vector: this.def.vector
+      vector: this.def.vector,
+      vectors: this.def.vectors
     }
   }
 }
@@ -273,6 +322,7 @@ export function defineTable(): TableSchemaBuilder {
 }
 
 export type SchemaDefinition = Record<string, TableDefinition>
+export type { SearchOptions, WhereCondition, FindOptions }
 
 // Device table schema for cross-device synchronization
 export const DeviceTableSchema: TableDefinition = {
@@ -295,27 +345,6 @@ export const DeviceTableSchema: TableDefinition = {
   secondaryIndexes: ["createdAt", "lastSeen"]
 };
 
-export interface SearchOptions {
-  table?: string
-  limit?: number
-  timeRange?: [Date | string, Date | string]
-  // Any additional key:value provided here is treated as an equality filter on records
-  // (except the reserved keys above)
-  [key: string]: unknown
-}
-
-export interface WhereCondition {
-  [field: string]: unknown | { $gt?: unknown; $gte?: unknown; $lt?: unknown; $lte?: unknown; $in?: unknown[] }
-}
-
-export interface FindOptions {
-  table?: string
-  where?: WhereCondition
-  orderBy?: string | { field: string; direction?: "asc" | "desc" }
-  limit?: number
-  offset?: number
-}
-
 export interface InsertResult {
   id: number
 }
@@ -325,9 +354,29 @@ export interface BulkOperationResult {
   errors: Array<{ error: Error; record: any }>
 }
 
+// A record of a _vec store: the embedding, its code when the table is
+// quantized, or both
+interface StoredVector extends Partial<QuantizedVector> {
+  id: number
+  vector?: number[]
+  // Model that embedded the vector, when the embedder named one, and its
+  // dims; absent on vectors stored before models were tracked
+  model?: string
+  dims?: number
+}
+
+// A centroid of the IVF index and the ids of the vectors closest to it
+interface IVFCluster {
+  centroidId: number
+  centroid: number[]
+  vectorIds: number[]
+}
+
 interface TableStats {
   count: number
   totalBytes: number
+  // Field -> summed length in tokens over all records, for BM25
+  fieldLengths?: Record<string, number>
 }
 
 interface ChangeEvent<T = unknown> {
@@ -339,14 +388,25 @@ interface ChangeEvent<T = unknown> {
 
 type Subscriber = (event: ChangeEvent) => void
 
+// A change whose subscriber notification and sync tracking wait until the
+// write that produced it has committed
+interface PendingChange {
+  event: ChangeEvent
+  syncRecord: Record<string, unknown>
+  // Queued once the change has committed
+  embeddings?: EmbeddingRequest[]
+}
+
 const META_SCHEMA_STORE = "_meta_schema"
 const META_STATS_STORE = "_meta_stats"
 const DEFAULT_TABLE = "messages"
+// Filtered vector searches score every match exhaustively up to this many
+const PREFILTER_MAX_MATCHES = 1000
 
 const SENSITIVE_FIELD_PATTERNS = [/password/i, /secret/i, /key/i, /token/i, /auth/i]
 
-// Utility to wrap IDBRequest in a Promise
-function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+// Utility to wrap a storage request in a Promise
+function requestToPromise<T>(req: StorageRequest<T>): Promise<T> {
   return new Promise((resolve, reject) => {
     req.onsuccess = () => resolve(req.result)
     req.onerror = () => reject(req.error)
@@ -354,7 +414,7 @@ function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
 }
 
 // Utility to await transaction completion
-function awaitTransaction(tx: IDBTransaction): Promise<void> {
+function awaitTransaction(tx: StorageTransaction): Promise<void> {
   return new Promise((resolve, reject) => {
     tx.oncomplete = () => resolve()
     tx.onerror = () => reject(tx.error)
@@ -362,6 +422,30 @@ function awaitTransaction(tx: IDBTransaction): Promise<void> {
   })
 }
 
+// IndexedDB commits a transaction once no request is pending, so awaiting other
+// async work (encryption, embedders) inside one would end it early. Keep a
+// cheap read in flight until the work settles and resume from that read's
+// callback, where the transaction accepts new requests again.
+function keepTransactionAlive<T>(tx: StorageTransaction, storeName: string, work: Promise<T>): Promise<T> {
+  let outcome: { value: T } | { error: unknown } | null = null
+  work.then(value => { outcome = { value } }, error => { outcome = { error } })
+
+  return new Promise((resolve, reject) => {
+    const store = tx.objectStore(storeName)
+    const poll = () => {
+      const req = store.get([])
+      req.onsuccess = () => {
+        const settled = outcome as { value: T } | { error: unknown } | null
+        if (!settled) poll()
+        else if ("error" in settled) reject(settled.error)
+        else resolve(settled.value)
+      }
+      req.onerror = () => reject(req.error)
+    }
+    poll()
+  })
+}
+
 function toISO(value: unknown): unknown {
   if (value instanceof Date) return value.toISOString()
   return value
@@ -372,14 +456,6 @@ function fromISO(type: ColumnType, value: unknown): unknown {
   return value
 }
 
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
-    .split(/\s+/)
-    .filter(Boolean)
-}
-
 function dot(a: Float32Array, b: Float32Array): number {
   let s = 0
   for (let i = 0; i < a.length; i++) s += a[i] * b[i]
@@ -410,6 +486,31 @@ function encodeCursor(obj: unknown): string {
   }
 }
 
+// Page cursors carry sort and index keys, which may hold Dates
+function encodeCursorValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() }
+  if (Array.isArray(value)) return value.map(encodeCursorValue)
+  return value
+}
+
+function decodeCursorValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeCursorValue)
+  if (value && typeof value === "object" && typeof (value as { $date?: unknown }).$date === "string") {
+    return new Date((value as { $date: string }).$date)
+  }
+  return value
+}
+
+interface PageCursor {
+  // Sort field value and primary key of the row the page starts after
+  lastValue?: unknown
+  lastId: number | string
+  // Index key of that row, present when the page was read from an index
+  key?: unknown
+  // Page towards the start instead of the end
+  backward?: boolean
+}
+
 function decodeCursor<T>(s: string): T | null {
   try {
     return JSON.parse(atob(s)) as T
@@ -422,173 +523,84 @@ function decodeCursor<T>(s: string): T | null {
   }
 }
 
-function isClientIndexedDBAvailable(): boolean {
-  return typeof window !== "undefined" && typeof indexedDB !== "undefined"
-}
+// One memory engine per process, so reopening a database by name in the same
+// process sees its rows, as it would on IndexedDB
+let sharedMemoryEngine: MemoryStorageEngine | null = null
 
-function suggestNodeJSCompatibility(): string {
-  if (typeof process !== 'undefined' && process.versions && process.versions.node) {
-    return 'For Node.js usage, install fake-indexeddb: npm install --save-dev fake-indexeddb';
-  }
-  return 'This appears to be a non-browser environment. Columnist requires IndexedDB.';
+function defaultStorageEngine(): StorageEngine {
+  if (isIndexedDBAvailable()) return new IndexedDBEngine()
+  if (!sharedMemoryEngine) sharedMemoryEngine = new MemoryStorageEngine()
+  return sharedMemoryEngine
 }
 
-// In-memory storage fallback for Node.js environments
-interface InMemoryStore {
-  data: Map<number | string, any>;
-  indexes: Map<string, Map<any, Set<number | string>>>;
+// Loaded on demand so browser bundles never pull in node:fs
+async function fileStorage({ directory, ...options }: PersistenceOptions): Promise<StorageEngine> {
+  const { fileStorageFor } = await import("./storage/file")
+  return fileStorageFor(directory, options)
 }
 
-class InMemoryStorage {
-  private stores: Map<string, InMemoryStore> = new Map();
-
-  createStore(name: string): void {
-    if (!this.stores.has(name)) {
-      this.stores.set(name, {
-        data: new Map(),
-        indexes: new Map()
-      });
-    }
-  }
-
-  put(storeName: string, key: number | string, value: any): void {
-    const store = this.stores.get(storeName);
-    if (!store) throw new Error(`Store ${storeName} not found`);
-    store.data.set(key, value);
-  }
-
-  get(storeName: string, key: number | string): any {
-    const store = this.stores.get(storeName);
-    return store?.data.get(key);
-  }
-
-  getAll(storeName: string): any[] {
-    const store = this.stores.get(storeName);
-    return store ? Array.from(store.data.values()) : [];
-  }
-
-  delete(storeName: string, key: number | string): void {
-    const store = this.stores.get(storeName);
-    store?.data.delete(key);
-  }
-
-  clear(storeName: string): void {
-    const store = this.stores.get(storeName);
-    store?.data.clear();
-  }
-
-  // New methods for database operations
-  add(storeName: string, value: any): number {
-    const store = this.stores.get(storeName);
-    if (!store) throw new Error(`Store ${storeName} not found`);
-
-    // Auto-generate ID if not provided
-    let id = value.id;
-    if (id === undefined || id === null) {
-      id = Date.now() + Math.floor(Math.random() * 1000);
-    }
-
-    store.data.set(id, { ...value, id });
-    return id;
-  }
-
-  openCursor(storeName: string, callback: (cursor: { value: any; primaryKey: number | string; continue: () => void }) => void): void {
-    const store = this.stores.get(storeName);
-    if (!store) return;
-
-    const entries = Array.from(store.data.entries());
-    let index = 0;
-
-    const processNext = () => {
-      if (index < entries.length) {
-        const [primaryKey, value] = entries[index];
-        callback({
-          value,
-          primaryKey,
-          continue: () => {
-            index++;
-            processNext();
-          }
-        });
-      }
-    };
-
-    processNext();
-  }
-
-  openKeyCursor(storeName: string, callback: (cursor: { primaryKey: number | string; continue: () => void }) => void): void {
-    const store = this.stores.get(storeName);
-    if (!store) return;
-
-    const keys = Array.from(store.data.keys());
-    let index = 0;
-
-    const processNext = () => {
-      if (index < keys.length) {
-        const primaryKey = keys[index];
-        callback({
-          primaryKey,
-          continue: () => {
-            index++;
-            processNext();
-          }
-        });
-      }
-    };
-
-    processNext();
-  }
-
-  count(storeName: string): number {
-    const store = this.stores.get(storeName);
-    return store ? store.data.size : 0;
-  }
+// Build an object store name for the inverted index of a table
+function indexStoreName(table: string): string {
+  return `_ii_${table}`
 }
 
-// Global in-memory storage instance for Node.js
-let inMemoryStorage: InMemoryStorage | null = null;
+// Vector store name, by vector key
+function vectorStoreName(key: string): string {
+  return `_vec_${key}`
+}
 
-function getInMemoryStorage(): InMemoryStorage {
-  if (!inMemoryStorage) {
-    inMemoryStorage = new InMemoryStorage();
-  }
-  return inMemoryStorage;
+// IVF index store name, by vector key
+function ivfStoreName(key: string): string {
+  return `_ivf_${key}`
 }
 
-// Helper functions for in-memory operations
-function inMemoryRequestToPromise<T>(operation: () => T): Promise<T> {
-  return new Promise((resolve, reject) => {
-    try {
-      const result = operation();
-      resolve(result);
-    } catch (error) {
-      reject(error);
-    }
-  });
+// HNSW index store name, by vector key
+function hnswStoreName(key: string): string {
+  return `_hnsw_${key}`
 }
 
-function inMemoryAwaitTransaction(): Promise<void> {
-  return Promise.resolve(); // In-memory operations are synchronous
+// One embedding of a table. Its key names its stores, embedder and
+// quantizer: the table for the `vector` one, so its stores keep their
+// names, and "<table>.<name>" for named ones.
+// A reranker applied to one query: the hits fetched for it and the text they
+// are scored against
+interface Reranking {
+  reranker: Reranker
+  fields: string[]
+  candidates: number
+  query: string
 }
 
-// Build an object store name for the inverted index of a table
-function indexStoreName(table: string): string {
-  return `_ii_${table}`
+interface VectorSlot {
+  name: string
+  key: string
+  config: VectorFieldConfig
 }
 
-// Per-table vector store name
-function vectorStoreName(table: string): string {
-  return `_vec_${table}`
+// The `vector` embedding first, named after its source field, then the
+// named ones in declaration order
+function vectorSlots(table: string, def: TableDefinition): VectorSlot[] {
+  const slots: VectorSlot[] = def.vector ? [{ name: def.vector.field, key: table, config: def.vector }] : []
+  for (const [name, config] of Object.entries(def.vectors ?? {})) {
+    slots.push({ name, key: `${table}.${name}`, config })
+  }
+  return slots
 }
 
-// IVF index store name
-function ivfStoreName(table: string): string {
-  return `_ivf_${table}`
+// The embedding a vector operation targets, the first one by default
+function vectorSlot(table: string, def: TableDefinition, name?: string): VectorSlot {
+  const slots = vectorSlots(table, def)
+  if (slots.length === 0) throw new Error(`Table ${table} has no vector configuration`)
+  if (name === undefined) return slots[0]
+  const slot = slots.find(candidate => candidate.name === name)
+  if (!slot) throw new Error(`Table ${table} has no vector field ${name}`)
+  return slot
 }
 
-// HNSW index store name
-function hnswStoreName(table: string): string {
-  return `_hnsw_${table}`
+// Stores written along with the rows of a table with vectors: the
+// embeddings and the ANN indexes over them
+function vectorStoreNames(table: string, def: TableDefinition): string[] {
+  return vectorSlots(table, def).flatMap(({ key }) => [vectorStoreName(key), ivfStoreName(key), hnswStoreName(key)])
 }
 
 // Build a compound key to persist schema/meta entries by key
@@ -596,10 +608,30 @@ function metaKeyFor(table: string): string {
   return `schema:${table}`
 }
 
+// Product quantization codebook of a vector, next to the schema entries
+function quantizerKeyFor(key: string): string {
+  return `quantizer:${key}`
+}
+
+// Progress of an unfinished reembed() of a vector
+function reembedKeyFor(key: string): string {
+  return `reembed:${key}`
+}
+
 function statsKeyFor(table: string): string {
   return `stats:${table}`
 }
 
+function statsForRows(rows: Array<{ row: Record<string, unknown> }>): TableStats {
+  let totalBytes = 0
+  for (const { row } of rows) totalBytes += JSON.stringify(row).length
+  return { count: rows.length, totalBytes }
+}
+
+function stepsFor(migration: MigrationDefinition, table: string): MigrationStep[] {
+  return migration.steps.filter(step => step.table === table)
+}
+
 // Strongly typed database interface
 export interface TypedColumnistDB<Schema extends SchemaDefinition> {
   // Insert with proper typing
@@ -662,19 +694,32 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   private name: string
   private version: number
   private schema: SchemaDefinition
-  private db: IDBDatabase | null = null
+  private db: StorageDatabase | null = null
   private subscribers: Map<string, Set<Subscriber>> = new Map()
   private vectorEmbedders: Map<string, (input: string) => Promise<Float32Array>> = new Map()
-  private migrations?: Record<number, (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void>
+  private batchEmbedders: Map<string, (inputs: string[]) => Promise<Float32Array[]>> = new Map()
+  // Model of each vector's embedder, when it named one
+  private embedderModels: Map<string, string> = new Map()
+  // Vectors whose stored embeddings were all found current. Until then
+  // searches skip the ANN indexes, which may lead to stale vectors.
+  private currentVectors: Set<string> = new Set()
+  // Rerankers by table, with the fields candidate text is read from
+  private rerankers: Map<string, { reranker: Reranker; fields: string[] }> = new Map()
+  private migrations?: Record<number, Migration>
   private vectorCache: Map<string, { vector: Float32Array; lastAccessed: number }> = new Map()
+  // Encoders of quantized vector tables; pq tables only once trained
+  private quantizers: Map<string, Quantizer> = new Map()
+  // Background HNSW repairs in flight, by table
+  private hnswRepairs: Map<string, Promise<void>> = new Map()
+  private embeddingScans: Map<string, Promise<void>> = new Map()
+  private embeddingQueue: EmbeddingQueue
   private encryptionKey: CryptoKey | null = null
   private encryptionSalt: Uint8Array | null = null
   private authHooks: Map<string, (operation: string, table: string, data?: any) => boolean> = new Map()
   private authAttempts: Map<string, { count: number; lastAttempt: number }> = new Map()
   private syncManager: SyncManager | null = null
   private options: ColumnistDBOptions
-  private useInMemory: boolean = false
-  private inMemoryStorage: InMemoryStorage | null = null
+  private engine: StorageEngine
 
   // Memory management configuration
   private memoryConfig = {
@@ -759,12 +804,14 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
   private errorRecoveryManager: ErrorRecoveryManager = new ErrorRecoveryManager()
 
-  private constructor(name: string, schema: SchemaDefinition, version: number, options: ColumnistDBOptions, migrations?: Record<number, (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void>) {
+  private constructor(name: string, schema: SchemaDefinition, version: number, options: ColumnistDBOptions, migrations?: Record<number, Migration>) {
     this.name = name
     this.schema = schema
     this.version = version
     this.migrations = migrations
     this.options = options
+    this.engine = options.storage ?? defaultStorageEngine()
+    this.embeddingQueue = new EmbeddingQueue((key, jobs) => this.runEmbeddingJobs(key, jobs), options.embedding)
     // Sync manager will be initialized lazily when needed
     this.syncManager = null
 
@@ -781,11 +828,14 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
   static #instance: ColumnistDB | null = null
 
-  static async init(name: string, opts?: ColumnistDBOptions & { schema?: SchemaDefinition; migrations?: Record<number, (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void> }): Promise<ColumnistDB> {
-    const useInMemory = !isClientIndexedDBAvailable();
-    
-    if (useInMemory) {
-      console.warn("IndexedDB not available. Falling back to in-memory storage. Data will not persist.");
+  static async init(name: string, opts?: ColumnistDBOptions & { schema?: SchemaDefinition; migrations?: Record<number, Migration> }): Promise<ColumnistDB> {
+    let storage = opts?.storage
+    if (!storage && !isIndexedDBAvailable()) {
+      if (opts?.persistence) {
+        storage = await fileStorage(opts.persistence)
+      } else {
+        console.warn("IndexedDB not available. Falling back to in-memory storage. Data will not persist.");
+      }
     }
 
     // Merge provided tables with default schema
@@ -806,7 +856,8 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
     const defaultOptions: ColumnistDBOptions = {
       databaseName: name,
-      ...opts
+      ...opts,
+      storage
     };
     const instance = new ColumnistDB(name, schema, version, defaultOptions, opts?.migrations)
 
@@ -877,12 +928,6 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       return
     }
 
-    if (this.useInMemory) {
-      this.inMemoryStorage?.createStore('devices')
-      this.inMemoryStorage?.createStore(indexStoreName('devices'))
-      return
-    }
-
     if (!this.db) {
       return
     }
@@ -897,30 +942,10 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   }
 
   async load(): Promise<void> {
-    if (!isClientIndexedDBAvailable()) {
-      // Fall back to in-memory storage when IndexedDB is unavailable
-      console.warn("IndexedDB not available. Falling back to in-memory storage. Data will not persist.")
-      this.useInMemory = true
-      this.inMemoryStorage = getInMemoryStorage()
-
-      // Initialize in-memory stores for all tables
-      for (const table of Object.keys(this.schema)) {
-        this.inMemoryStorage.createStore(table)
-        this.inMemoryStorage.createStore(indexStoreName(table))
-        this.inMemoryStorage.createStore(vectorStoreName(table))
-        this.inMemoryStorage.createStore(ivfStoreName(table))
-      }
-      this.inMemoryStorage.createStore(META_SCHEMA_STORE)
-      this.inMemoryStorage.createStore(META_STATS_STORE)
-
-      return
-    }
+    let upgraded = false
 
-    const openReq = indexedDB.open(this.name, this.version)
-
-    openReq.onupgradeneeded = (event) => {
-      const db = openReq.result
-      const oldVersion = (event as IDBVersionChangeEvent).oldVersion || 0
+    this.db = await this.engine.open(this.name, this.version, (db, tx, oldVersion) => {
+      upgraded = true
       // Ensure meta stores exist
       if (!db.objectStoreNames.contains(META_SCHEMA_STORE)) {
         db.createObjectStore(META_SCHEMA_STORE, { keyPath: "key" })
@@ -936,21 +961,23 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
         if (!db.objectStoreNames.contains(table)) {
           const store = db.createObjectStore(table, { keyPath, autoIncrement })
-          // Secondary indexes
+          // Secondary indexes (compound indexes use an array keyPath)
           for (const idx of def.secondaryIndexes || []) {
+            const keyPath = indexKeyPath(idx)
             try {
-              store.createIndex(idx, idx, { unique: false })
+              store.createIndex(indexName(idx), keyPath.length === 1 ? keyPath[0] : keyPath, { unique: false })
             } catch {
               // If invalid, skip index creation (e.g., field not present yet)
             }
           }
         } else {
           // Upgrade path: add missing indexes if any
-          const store = (openReq.transaction as IDBTransaction).objectStore(table)
+          const store = tx.objectStore(table)
           for (const idx of def.secondaryIndexes || []) {
-            if (!Array.from(store.indexNames).includes(idx)) {
+            if (!Array.from(store.indexNames).includes(indexName(idx))) {
+              const keyPath = indexKeyPath(idx)
               try {
-                store.createIndex(idx, idx, { unique: false })
+                store.createIndex(indexName(idx), keyPath.length === 1 ? keyPath[0] : keyPath, { unique: false })
               } catch {
                 // Skip if creation fails
               }
@@ -964,46 +991,75 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           db.createObjectStore(iiStore, { keyPath: "token" })
         }
 
-        // Create a per-table vector store if vector config present
-        if (def.vector) {
-          const vs = vectorStoreName(table)
+        // Create the stores of each vector of the table
+        for (const { key } of vectorSlots(table, def)) {
+          const vs = vectorStoreName(key)
           if (!db.objectStoreNames.contains(vs)) {
             db.createObjectStore(vs, { keyPath: "id" })
           }
           
           // Create IVF index store for approximate nearest neighbor search
-          const ivf = ivfStoreName(table)
+          const ivf = ivfStoreName(key)
           if (!db.objectStoreNames.contains(ivf)) {
             db.createObjectStore(ivf, { keyPath: "centroidId" })
           }
 
-          // Create HNSW index store for modern ANN search
-          const hnsw = hnswStoreName(table)
+          // Create HNSW index store for modern ANN search. Stores keyed by
+          // layer hold graphs from before nodes were stored one per record;
+          // those are dropped and have to be rebuilt.
+          const hnsw = hnswStoreName(key)
+          if (db.objectStoreNames.contains(hnsw) && tx.objectStore(hnsw).keyPath !== "key") {
+            db.deleteObjectStore(hnsw)
+          }
           if (!db.objectStoreNames.contains(hnsw)) {
-            db.createObjectStore(hnsw, { keyPath: "layer" })
+            db.createObjectStore(hnsw, { keyPath: "key" })
           }
         }
       }
 
-      // Run user-defined migrations for each version step
-      if (this.migrations) {
-        const tx = (openReq.transaction as IDBTransaction)
-        for (let v = oldVersion + 1; v <= this.version; v++) {
-          const mig = this.migrations[v]
-          if (mig) {
-            try {
-              mig(db, tx, oldVersion)
-            } catch (e) {
-              console.error("Migration failed for version", v, e)
-              throw e
-            }
-          }
+      // Run user-defined migrations for each version step; a failing step
+      // aborts the upgrade and rejects open() with its error
+      return this.migrations ? this.runUpgradeMigrations(db, tx, oldVersion) : undefined
+    })
+
+    // Let a newer version of the schema (another tab or instance) upgrade
+    const db = this.db
+    db.onversionchange = () => db.close()
+
+    for (const table of this.legacyHNSWTables()) {
+      console.warn(`[ColumnistDB] The HNSW index of ${table} uses the old per-layer layout and is ignored. Bump the version to ${this.version + 1} to replace it, then rebuild it with buildHNSWIndex().`)
+    }
+
+    await this.loadQuantizers()
+    this.currentVectors.clear()
+    await this.reindexChangedAnalyzers()
+
+    // Without a version bump the persisted definitions should match the schema.
+    // On drift they are left in place, so it is reported until a migration runs.
+    if (!upgraded) {
+      const diff = await this.diffSchema()
+      if (!isSchemaDiffEmpty(diff)) {
+        if (this.options.strictSchema) {
+          db.close()
+          this.db = null
+          throw new ColumnistDBError(
+            `Schema changed without a version bump:\n${formatSchemaDiff(diff)}`,
+            'SCHEMA_DRIFT'
+          )
+        }
+        const migration = migrationForDiff(diff)
+        if (this.options.onSchemaDrift) {
+          this.options.onSchemaDrift(diff, migration)
+        } else {
+          console.warn(
+            `[ColumnistDB] Schema changed without a version bump. Bump the version to ${this.version + 1} ` +
+            `and add a migration for:\n${formatSchemaDiff(diff)}`
+          )
         }
+        return
       }
     }
 
-    this.db = await requestToPromise(openReq)
-
     // Write schema to meta (exclude validation functions which can't be cloned)
     const tx = this.db.transaction([META_SCHEMA_STORE], "readwrite")
     const metaStore = tx.objectStore(META_SCHEMA_STORE)
@@ -1014,6 +1070,264 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     await awaitTransaction(tx)
   }
 
+  /**
+   * Compare the table definitions persisted by the last load() with the
+   * current schema.
+   */
+  async diffSchema(): Promise<SchemaDiff> {
+    this.ensureDb()
+    return diffSchemas(await this.readPersistedSchema(), this.schema)
+  }
+
+  private async readPersistedSchema(): Promise<Record<string, TableDefinition>> {
+    const tx = this.db!.transaction([META_SCHEMA_STORE], "readonly")
+    const entries = await requestToPromise<Array<{ key: string; value: unknown }>>(tx.objectStore(META_SCHEMA_STORE).getAll())
+    const persisted: Record<string, TableDefinition> = {}
+    const prefix = metaKeyFor("")
+    for (const entry of entries) {
+      if (typeof entry.key === "string" && entry.key.startsWith(prefix)) {
+        persisted[entry.key.slice(prefix.length)] = entry.value as TableDefinition
+      }
+    }
+    return persisted
+  }
+
+  // Tokens written by a previous analyzer are not what queries look up any
+  // more, so tables whose analyzer changed are reindexed on load
+  private async reindexChangedAnalyzers(): Promise<void> {
+    const persisted = await this.readPersistedSchema()
+    for (const [table, def] of Object.entries(this.schema)) {
+      const stored = persisted[table]
+      if (!stored || sameAnalyzer(stored.analyzer, def.analyzer)) continue
+      await this.reindex(table)
+      // Record just the analyzer; any other drift is still reported
+      const tx = this.db!.transaction([META_SCHEMA_STORE], "readwrite")
+      void tx.objectStore(META_SCHEMA_STORE).put({ key: metaKeyFor(table), value: { ...stored, analyzer: def.analyzer } })
+      await awaitTransaction(tx)
+    }
+  }
+
+  /**
+   * Rebuild the full-text index of a table from its rows. load() does this
+   * when the analyzer config of a table changes; call it yourself after
+   * changing what a registered analyzer produces.
+   */
+  async reindex(table: string): Promise<void> {
+    this.ensureDb()
+    const def = this.ensureTable(table)
+    const tx = this.db!.transaction([table, indexStoreName(table), META_STATS_STORE], "readwrite")
+    const rows: Array<{ id: number; row: Record<string, unknown> }> = []
+    await new Promise<void>((resolve, reject) => {
+      const req = tx.objectStore(table).openCursor<Record<string, unknown>>()
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor) return resolve()
+        rows.push({ id: cursor.primaryKey as number, row: cursor.value })
+        cursor.continue()
+      }
+      req.onerror = () => reject(req.error)
+    })
+    await this.rebuildTokenIndex(tx, table, def, rows)
+    await awaitTransaction(tx)
+  }
+
+  // Run migrations oldVersion+1..version inside the upgrade transaction.
+  // Declarative steps chain requests on tx, so they must not await anything else.
+  private async runUpgradeMigrations(db: StorageDatabase, tx: StorageTransaction, oldVersion: number): Promise<void> {
+    const metaStore = tx.objectStore(META_SCHEMA_STORE)
+    const logEntry = await requestToPromise<{ key: string; value: AppliedMigration[] } | undefined>(metaStore.get(MIGRATION_LOG_KEY))
+    const log = logEntry?.value ?? []
+
+    for (let v = oldVersion + 1; v <= this.version; v++) {
+      const migration = this.migrations?.[v]
+      if (!migration) continue
+      if (!isMigrationDefinition(migration)) {
+        migration(db, tx, oldVersion)
+        continue
+      }
+
+      for (const step of migration.steps) {
+        if (step.op !== "addIndex" && step.op !== "dropIndex") continue
+        this.requireMigrationTable(v, step.table)
+        const store = tx.objectStore(step.table)
+        const name = indexName(step.index)
+        if (step.op === "addIndex" && !store.indexNames.contains(name)) {
+          const keyPath = indexKeyPath(step.index)
+          store.createIndex(name, keyPath.length === 1 ? keyPath[0] : keyPath, { unique: false })
+        } else if (step.op === "dropIndex" && store.indexNames.contains(name)) {
+          store.deleteIndex(name)
+        }
+      }
+
+      for (const table of affectedTables(migration)) {
+        const def = this.requireMigrationTable(v, table)
+        await this.migrateIndexedRows(tx, table, def, stepsFor(migration, table))
+      }
+      log.push(describeMigration(v, migration))
+    }
+
+    await requestToPromise(metaStore.put({ key: MIGRATION_LOG_KEY, value: log }))
+  }
+
+  // Rewrite every row of table, then rebuild what derives from row contents
+  private async migrateIndexedRows(tx: StorageTransaction, table: string, def: TableDefinition, steps: MigrationStep[]): Promise<void> {
+    const codec = this.migrationCodec(def)
+    const rows: Array<{ id: number; row: Record<string, unknown> }> = []
+    const slots = vectorSlots(table, def)
+    const staleVectors = new Map(slots.map(slot => [slot, [] as number[]]))
+    const store = tx.objectStore(table)
+
+    await new Promise<void>((resolve, reject) => {
+      const req = store.openCursor()
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor) {
+          resolve()
+          return
+        }
+        const id = cursor.primaryKey as number
+        const before = cursor.value as Record<string, unknown>
+        const after = migrateRow(before, steps, codec)
+        if (after) {
+          cursor.update(after)
+          rows.push({ id, row: after })
+        } else {
+          cursor.delete()
+        }
+        for (const slot of slots) {
+          if (!after || after[slot.config.field] !== before[slot.config.field]) staleVectors.get(slot)!.push(id)
+        }
+        cursor.continue()
+      }
+      req.onerror = () => reject(req.error)
+    })
+
+    await this.rebuildTokenIndex(tx, table, def, rows)
+
+    // Embeddings of removed or re-sourced rows are dropped, and ANN indexes
+    // built over them are cleared until the next build. Re-sourced rows are
+    // embedded again once their vector's embedder is registered.
+    for (const [{ key }, ids] of staleVectors) {
+      if (ids.length === 0) continue
+      const vStore = tx.objectStore(vectorStoreName(key))
+      for (const id of ids) await requestToPromise(vStore.delete(id))
+      for (const name of [ivfStoreName(key), hnswStoreName(key)]) {
+        if (tx.objectStoreNames.contains(name)) await requestToPromise(tx.objectStore(name).clear())
+      }
+    }
+  }
+
+  private requireMigrationTable(version: number, table: string): TableDefinition {
+    const def = this.schema[table]
+    if (!def) {
+      throw new ColumnistDBError(`Migration ${version} references unknown table "${table}"`, 'MIGRATION_FAILED')
+    }
+    return def
+  }
+
+  // Dates are stored as ISO strings; migrations convert between the two
+  private migrationCodec(def: TableDefinition): RowCodec {
+    const columnTypes = Object.entries(def.columns)
+      .filter((entry): entry is [string, ColumnType] => typeof entry[1] === "string")
+    return {
+      decode: row => {
+        const out = { ...row }
+        for (const [col, type] of columnTypes) out[col] = fromISO(type, row[col])
+        return out
+      },
+      encode: row => {
+        const out = { ...row }
+        for (const [col, type] of columnTypes) {
+          if (type === "date") out[col] = toISO(row[col])
+        }
+        return out
+      },
+      encodeValue: (value, type) => type === "date" ? toISO(value) : value
+    }
+  }
+
+  // Replace the inverted index and stats of a table with those of rows
+  private async rebuildTokenIndex(
+    tx: StorageTransaction,
+    table: string,
+    def: TableDefinition,
+    rows: Array<{ id: number; row: Record<string, unknown> }>
+  ): Promise<void> {
+    const iiStore = tx.objectStore(indexStoreName(table))
+    await requestToPromise(iiStore.clear())
+    const { entries, fieldLengths } = this.buildTokenIndex(def, rows)
+    for (const entry of entries) {
+      await requestToPromise(iiStore.put(entry))
+    }
+
+    const stats: TableStats = { ...statsForRows(rows), fieldLengths }
+    await requestToPromise(tx.objectStore(META_STATS_STORE).put({ key: statsKeyFor(table), value: stats }))
+  }
+
+  private buildTokenIndex(
+    def: TableDefinition,
+    rows: Array<{ id: number; row: Record<string, unknown> }>
+  ): { entries: InvertedIndexEntry[]; fieldLengths: Record<string, number> } {
+    const fields = searchableFieldsOf(def)
+    const analyzer = resolveAnalyzer(def.analyzer)
+    const index = new Map<string, InvertedIndexEntry>()
+    let fieldLengths: Record<string, number> = {}
+    for (const { id, row } of rows) {
+      const { terms, lengths } = analyzeDocument(row, fields, analyzer)
+      for (const [token, postings] of terms) {
+        index.set(token, addPosting(index.get(token), token, id, postings))
+      }
+      fieldLengths = addFieldLengths(fieldLengths, lengths)
+    }
+    return { entries: Array.from(index.values()), fieldLengths }
+  }
+
+  // Replace the postings of one record in the inverted index. before and
+  // after are the record's values (null when it did not or will not exist);
+  // the field lengths of both are returned for the table stats.
+  private async reindexText(
+    tx: StorageTransaction,
+    tableName: string,
+    def: TableDefinition,
+    id: number,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ): Promise<{ before: Record<string, number>; after: Record<string, number> }> {
+    const fields = searchableFieldsOf(def)
+    const analyzer = resolveAnalyzer(def.analyzer)
+    const previous = before ? analyzeDocument(before, fields, analyzer) : null
+    const next = after ? analyzeDocument(after, fields, analyzer) : null
+    const iiStore = tx.objectStore(indexStoreName(tableName))
+
+    for (const token of previous?.terms.keys() ?? []) {
+      if (next?.terms.has(token)) continue
+      const entry = await requestToPromise<InvertedIndexEntry | undefined>(iiStore.get(token))
+      if (!entry) continue
+      const remaining = removePosting(entry, id)
+      if (remaining) await requestToPromise(iiStore.put(remaining))
+      else await requestToPromise(iiStore.delete(token))
+    }
+    for (const [token, postings] of next?.terms ?? []) {
+      const entry = await requestToPromise<InvertedIndexEntry | undefined>(iiStore.get(token))
+      await requestToPromise(iiStore.put(addPosting(entry, token, id, postings)))
+    }
+
+    return { before: previous?.lengths ?? {}, after: next?.lengths ?? {} }
+  }
+
+  /**
+   * Versions applied by declarative migrations, oldest first, as recorded in
+   * _meta_schema.
+   */
+  async getMigrationHistory(): Promise<AppliedMigration[]> {
+    this.ensureDb()
+    const tx = this.db!.transaction([META_SCHEMA_STORE], "readonly")
+    const entry = await requestToPromise<{ key: string; value: AppliedMigration[] } | undefined>(
+      tx.objectStore(META_SCHEMA_STORE).get(MIGRATION_LOG_KEY)
+    )
+    return entry?.value ?? []
+  }
+
   // Validation helpers with codec support
   private validateRecord(record: Record<string, unknown>, def: TableDefinition): Record<string, unknown> {
     // Auto-generate schema from column definitions if no custom validation
@@ -1139,28 +1453,19 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       throw new Error('Update operation not authorized')
     }
 
-    // Handle in-memory storage
-    if (this.useInMemory) {
-      return this.updateInMemory(id, updates as Record<string, unknown>, tableName, def);
-    }
+    const normalizedUpdates = await this.prepareUpdate(updates as Record<string, unknown>, def)
 
     const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
-    if (def.vector) stores.push(vectorStoreName(tableName))
+    stores.push(...vectorStoreNames(tableName, def))
     const tx = this.db!.transaction(stores, "readwrite")
-    const store = tx.objectStore(tableName)
-    
-    // Get the existing record
-    const existing: any = await requestToPromise(store.get(id))
-    if (!existing) {
-      throw new Error(`Record with id ${id} not found in table ${tableName}`)
-    }
+    const change = await this.applyUpdate(tx, id, updates as Record<string, unknown>, normalizedUpdates, tableName, def)
+    await awaitTransaction(tx)
 
-    // Denormalize existing record for comparison
-    const oldRecord: Record<string, unknown> = { ...existing }
-    for (const [col, type] of Object.entries(def.columns)) {
-      oldRecord[col] = fromISO(type as ColumnType, existing[col])
-    }
+    this.emitChanges([change])
+  }
 
+  // Validate, encrypt and encode a partial record for an update
+  private async prepareUpdate(updates: Record<string, unknown>, def: TableDefinition): Promise<Record<string, unknown>> {
     // Validate updates (partial validation for updates)
     if (def.validation) {
       // For updates, make all fields optional
@@ -1171,67 +1476,48 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       }
     }
 
+    // Encrypt sensitive fields before storage
+    const encryptedUpdates = await this.encryptSensitiveFields(updates, def)
+
     // Normalize updates for storage using codec if available
-    const normalizedUpdates = this.encodeRecordForStorage(updates as Record<string, unknown>, def)
+    return this.encodeRecordForStorage(encryptedUpdates, def)
+  }
 
-    // Merge updates into existing record
-    const updated = { ...existing, ...normalizedUpdates }
-    await requestToPromise(store.put(updated))
+  // Apply a prepared update inside tx: record, inverted index and stats
+  private async applyUpdate(
+    tx: StorageTransaction,
+    id: number,
+    updates: Record<string, unknown>,
+    normalizedUpdates: Record<string, unknown>,
+    tableName: string,
+    def: TableDefinition
+  ): Promise<PendingChange> {
+    const store = tx.objectStore(tableName)
 
-    // Update inverted index - remove old tokens, add new ones
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
+    // Get the existing record
+    const existing: any = await requestToPromise(store.get(id))
+    if (!existing) {
+      throw new Error(`Record with id ${id} not found in table ${tableName}`)
+    }
 
-    const iiStore = tx.objectStore(indexStoreName(tableName))
-    
-    // Get old and new tokens for searchable fields
-    const oldTokens = new Set<string>()
-    const newTokens = new Set<string>()
-    
-    for (const field of searchable) {
-      // Old tokens
-      const oldRaw = oldRecord[field]
-      if (typeof oldRaw === "string") {
-        for (const tok of tokenize(oldRaw)) oldTokens.add(tok)
-      }
-      
-      // New tokens (use updated value if provided, otherwise keep old)
-      const newRaw = field in updates ? (updates as any)[field] : oldRecord[field]
-      if (typeof newRaw === "string") {
-        for (const tok of tokenize(newRaw)) newTokens.add(tok)
-      }
+    // Denormalize existing record for comparison
+    const oldRecord: Record<string, unknown> = { ...existing }
+    for (const [col, type] of Object.entries(def.columns)) {
+      oldRecord[col] = fromISO(type as ColumnType, existing[col])
     }
 
-    // Remove id from tokens that are no longer present
-    const removedTokens = new Set([...oldTokens].filter(tok => !newTokens.has(tok)))
-    for (const token of removedTokens) {
-      const entry = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(token))
-      if (entry) {
-        entry.ids = entry.ids.filter(recordId => recordId !== id)
-        if (entry.ids.length === 0) {
-          await requestToPromise(iiStore.delete(token))
-        } else {
-          await requestToPromise(iiStore.put(entry))
-        }
-      }
-    }
+    // Merge updates into existing record
+    const updated = { ...existing, ...normalizedUpdates }
+    await requestToPromise(store.put(updated))
 
-    // Add id to new tokens
-    const addedTokens = new Set([...newTokens].filter(tok => !oldTokens.has(tok)))
-    for (const token of addedTokens) {
-      const entry = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(token))
-      if (entry) {
-        if (!entry.ids.includes(id)) {
-          entry.ids.push(id)
-          await requestToPromise(iiStore.put(entry))
-        }
-      } else {
-        await requestToPromise(iiStore.put({ token, ids: [id] }))
-      }
-    }
+    // Update inverted index with the merged values
+    const lengths = await this.reindexText(tx, tableName, def, id, oldRecord, { ...oldRecord, ...updates })
+
+    // Re-embed the vectors whose source changed
+    const changedVectors = vectorSlots(tableName, def).filter(({ config: { field } }) =>
+      field in updates && updates[field] !== oldRecord[field]
+    )
+    const embeddings = await this.planEmbeddings(tx, tableName, changedVectors, id, updates)
 
     // Update stats (byte difference)
     const statsStore = tx.objectStore(META_STATS_STORE)
@@ -1244,28 +1530,337 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       const nextStats: TableStats = {
         count: prev.value.count, // Count stays the same
         totalBytes: prev.value.totalBytes + byteDiff,
+        fieldLengths: addFieldLengths(addFieldLengths(prev.value.fieldLengths, lengths.before, -1), lengths.after),
       }
       await requestToPromise(statsStore.put({ key, value: nextStats }))
     }
 
-    await awaitTransaction(tx)
-
     // Denormalize updated record for event
     const updatedRecord: Record<string, unknown> = { ...updated }
     for (const [col, type] of Object.entries(def.columns)) {
       updatedRecord[col] = fromISO(type as ColumnType, updated[col])
     }
 
-    // Notify subscribers
-    this.notify(tableName, { 
-      table: tableName, 
-      type: "update", 
-      record: { ...(updatedRecord as any), id },
-      oldRecord: { ...(oldRecord as any), id }
-    })
+    return {
+      event: {
+        table: tableName,
+        type: "update",
+        record: { ...(updatedRecord as any), id },
+        oldRecord: { ...(oldRecord as any), id }
+      },
+      syncRecord: { ...(updatedRecord as any), id },
+      embeddings
+    }
+  }
+
+  // Embedding jobs for the vectors of a row that have an embedder. Writes
+  // don't wait for the embedder: the jobs run in the background once the
+  // write has committed. An empty source removes the embedding right away.
+  private async planEmbeddings(
+    tx: StorageTransaction,
+    tableName: string,
+    slots: VectorSlot[],
+    id: number,
+    record: Record<string, unknown>
+  ): Promise<EmbeddingRequest[]> {
+    const jobs: EmbeddingRequest[] = []
+    for (const slot of slots) {
+      if (!this.vectorEmbedders.has(slot.key)) continue
+      const source = record[slot.config.field]
+      if (typeof source === "string" && source.trim().length > 0) {
+        jobs.push({ key: slot.key, table: tableName, field: slot.name, id, text: source })
+      } else {
+        await this.removeEmbedding(tx, tableName, slot, id)
+      }
+    }
+    return jobs
+  }
+
+  // Embed a batch of one vector's jobs and store the results in one
+  // transaction, with the ANN indexes kept in step. Rows deleted or
+  // re-sourced since their job was queued are skipped.
+  private async runEmbeddingJobs(key: string, jobs: EmbeddingJob[]): Promise<(unknown | null)[]> {
+    this.ensureDb()
+    const { table, field } = jobs[0]
+    const slot = vectorSlot(table, this.ensureTable(table), field)
+    const embedder = this.vectorEmbedders.get(key)
+    // A batch embedder gets the texts of the whole batch in one call
+    const batchEmbedder = this.batchEmbedders.get(key)
+    const batch = batchEmbedder ? batchEmbedder(jobs.map(job => job.text)) : null
+    const outcomes = await Promise.all(jobs.map(async (job, i) => {
+      try {
+        if (!embedder) throw new Error(`No embedder registered for ${key}`)
+        const vector = batch ? (await batch)[i] : await embedder(job.text)
+        if (!(vector instanceof Float32Array) || vector.length !== slot.config.dims) {
+          throw new Error(`Embedding dimension mismatch for ${field} of table ${table}. Expected ${slot.config.dims}, got ${vector?.length}`)
+        }
+        return { vector }
+      } catch (error) {
+        return { error }
+      }
+    }))
+
+    const tx = this.db!.transaction([table, vectorStoreName(key), ivfStoreName(key), hnswStoreName(key)], "readwrite")
+    const tStore = tx.objectStore(table)
+    const vStore = tx.objectStore(vectorStoreName(key))
+    for (let i = 0; i < jobs.length; i++) {
+      const { vector } = outcomes[i]
+      if (!vector || !this.embeddingQueue.isCurrent(jobs[i])) continue
+      if (await requestToPromise(tStore.get(jobs[i].id)) === undefined) continue
+      await requestToPromise(vStore.put(this.vectorRecord(slot, jobs[i].id, vector)))
+      await this.indexVector(tx, key, jobs[i].id, vector)
+    }
+    await awaitTransaction(tx)
+    return outcomes.map(outcome => (outcome.vector ? null : outcome.error ?? new Error("Embedding failed")))
+  }
+
+  // Rows of a table's vector (its first one by default) still waiting for an
+  // embedding, and those whose embedding failed for good
+  getEmbeddingStatus(table: string, field?: string): EmbeddingStatus {
+    return this.embeddingQueue.status(vectorSlot(table, this.ensureTable(table), field).key)
+  }
+
+  // Queue the failed embeddings of a table's vector again
+  retryFailedEmbeddings(table: string, field?: string): void {
+    this.embeddingQueue.retryFailed(vectorSlot(table, this.ensureTable(table), field).key)
+  }
+
+  // Resolves once every queued embedding, including rows found missing one
+  // when an embedder was registered, has been stored or has failed. Searches don't wait for the queue: they see the vectors stored so far.
+  async flushEmbeddings(): Promise<void> {
+    await Promise.all(this.embeddingScans.values())
+    await this.embeddingQueue.settled()
+  }
+
+  /**
+   * Re-embed the stale vectors of a table's vector (its first one by
+   * default): those embedded by another model than the registered embedder
+   * names, or at other dims. Searches leave them out meanwhile. Progress is
+   * saved after every batch, so a job cut short, or with rows that failed,
+   * continues from there when called again.
+   */
+  async reembed(table: string, options: ReembedOptions = {}): Promise<ReembedProgress> {
+    this.ensureDb()
+    const def = this.ensureTable(table)
+    const slot = vectorSlot(table, def, options.field)
+    const { key, config } = slot
+    if (!this.vectorEmbedders.has(key)) throw new Error(`No embedder registered for ${key}`)
+    const batchSize = options.batchSize ?? 100
+    await this.embeddingQueue.settled(key)
+
+    const tx = this.db!.transaction([vectorStoreName(key), ivfStoreName(key), hnswStoreName(key), META_SCHEMA_STORE], "readwrite")
+    const metaStore = tx.objectStore(META_SCHEMA_STORE)
+    const entries = await requestToPromise<StoredVector[]>(tx.objectStore(vectorStoreName(key)).getAll())
+    const stale = entries.filter(entry => !this.isCurrentVector(slot, entry)).map(entry => entry.id)
+    // The graph and clusters can't hold vectors of two sizes: they are
+    // refilled with the current vectors, and the others as they are re-embedded
+    if (entries.some(entry => (entry.dims ?? entry.vector?.length ?? config.dims) !== config.dims)) {
+      await this.emptyVectorIndexes(tx, key)
+      for (const entry of entries) {
+        const vector = this.isCurrentVector(slot, entry) && this.storedVector(key, entry)
+        if (vector) await this.indexVector(tx, key, entry.id, vector)
+      }
+    }
+
+    const model = this.embedderModels.get(key) ?? null
+    const saved = await requestToPromise<{ key: string; value: ReembedProgress } | undefined>(metaStore.get(reembedKeyFor(key)))
+    const done = saved?.value.model === model ? saved.value.done : 0
+    const progress: ReembedProgress = { model, done, total: done + stale.length, failed: 0 }
+    await requestToPromise(metaStore.put({ key: reembedKeyFor(key), value: progress }))
+    await awaitTransaction(tx)
+    options.onProgress?.({ ...progress })
+
+    for (let start = 0; start < stale.length; start += batchSize) {
+      const ids = stale.slice(start, start + batchSize)
+      const readTx = this.db!.transaction([table], "readonly")
+      const store = readTx.objectStore(table)
+      const rows = await Promise.all(ids.map(id => requestToPromise<Record<string, unknown> | undefined>(store.get(id))))
+      await awaitTransaction(readTx)
+
+      // Rows whose source is gone lose their stale vector
+      const orphaned: number[] = []
+      for (const [i, id] of ids.entries()) {
+        const row = rows[i] && await this.decryptSensitiveFields(this.decodeRecordFromStorage({ ...rows[i], id }, def), def)
+        const source = row?.[config.field]
+        if (typeof source === "string" && source.trim().length > 0) {
+          this.embeddingQueue.enqueue({ key, table, field: slot.name, id, text: source })
+        } else {
+          orphaned.push(id)
+        }
+      }
+      if (orphaned.length > 0) {
+        const removeTx = this.db!.transaction([vectorStoreName(key), hnswStoreName(key)], "readwrite")
+        for (const id of orphaned) await this.removeEmbedding(removeTx, table, slot, id)
+        await awaitTransaction(removeTx)
+      }
+      await this.embeddingQueue.settled(key)
+
+      const failed = new Set(this.embeddingQueue.status(key).failed.map(failure => failure.id))
+      const failedHere = ids.filter(id => failed.has(id)).length
+      progress.done += ids.length - failedHere
+      progress.failed += failedHere
+      const saveTx = this.db!.transaction([META_SCHEMA_STORE], "readwrite")
+      await requestToPromise(saveTx.objectStore(META_SCHEMA_STORE).put({ key: reembedKeyFor(key), value: progress }))
+      await awaitTransaction(saveTx)
+      options.onProgress?.({ ...progress })
+    }
+
+    if (progress.failed === 0) {
+      const doneTx = this.db!.transaction([META_SCHEMA_STORE], "readwrite")
+      await requestToPromise(doneTx.objectStore(META_SCHEMA_STORE).delete(reembedKeyFor(key)))
+      await awaitTransaction(doneTx)
+    }
+    return progress
+  }
+
+  // The _vec record of an embedding, encoded when the vector is quantized
+  // and tagged with the model that embedded it
+  private vectorRecord(
+    slot: VectorSlot,
+    id: number,
+    vector: ArrayLike<number>,
+    quantizer = this.quantizers.get(slot.key),
+    model = this.embedderModels.get(slot.key)
+  ): StoredVector {
+    const tags = { ...(model !== undefined ? { model } : {}), dims: vector.length }
+    if (!quantizer) return { id, vector: Array.from(vector), ...tags }
+    const { keepOriginals } = quantizationOptions(slot.config.quantization!, slot.config.dims)
+    return { id, ...(keepOriginals ? { vector: Array.from(vector) } : {}), ...quantizer.encode(vector), ...tags }
+  }
+
+  // Whether a stored vector has the vector's dims and, once its embedder
+  // names a model, was embedded by that model. Searches only see current
+  // vectors; reembed() replaces the others.
+  private isCurrentVector(slot: VectorSlot, entry: StoredVector): boolean {
+    const model = this.embedderModels.get(slot.key)
+    const dims = entry.dims ?? entry.vector?.length ?? slot.config.dims
+    return dims === slot.config.dims && (model === undefined || entry.model === model)
+  }
+
+  // The original embedding of a _vec record, or else its decoded code
+  private storedVector(key: string, entry: StoredVector): Float32Array | null {
+    if (entry.vector) return new Float32Array(entry.vector)
+    const quantizer = this.quantizers.get(key)
+    return quantizer && entry.quantized === quantizer.type ? quantizer.decode(entry as QuantizedVector) : null
+  }
+
+  // int8 needs nothing but the schema; pq needs the codebook that
+  // quantizeVectors() trained
+  private async loadQuantizers(): Promise<void> {
+    this.quantizers.clear()
+    const tx = this.db!.transaction([META_SCHEMA_STORE], "readonly")
+    const metaStore = tx.objectStore(META_SCHEMA_STORE)
+    for (const [table, def] of Object.entries(this.schema)) {
+      for (const { key, config } of vectorSlots(table, def)) {
+        if (!config.quantization) continue
+        const options = quantizationOptions(config.quantization, config.dims)
+        if (options.type === "int8") {
+          this.quantizers.set(key, createInt8Quantizer(config.dims))
+          continue
+        }
+        const entry = await requestToPromise<{ key: string; value: PQCodebook } | undefined>(metaStore.get(quantizerKeyFor(key)))
+        const codebook = entry?.value
+        if (codebook && codebook.dims === config.dims && codebook.centroids.length === options.subvectors) {
+          this.quantizers.set(key, createPQQuantizer(codebook))
+        }
+      }
+    }
+  }
+
+  // Add (or move) a vector in the HNSW graph and IVF clusters, when built
+  private async indexVector(tx: StorageTransaction, key: string, id: number, vector: ArrayLike<number>): Promise<void> {
+    const hnswStore = tx.objectStore(hnswStoreName(key))
+    const meta = await this.readHNSWMeta(hnswStore)
+    if (meta) {
+      await insertNode(this.hnswGraph(tx, key), meta, id, vector)
+      await requestToPromise(hnswStore.put(meta))
+    }
+
+    // New vectors join the cluster of the nearest centroid
+    const ivfStore = tx.objectStore(ivfStoreName(key))
+    const clusters = await requestToPromise<IVFCluster[]>(ivfStore.getAll())
+    let nearest: IVFCluster | null = null
+    let nearestDistance = Infinity
+    for (const cluster of clusters) {
+      const distance = euclideanDistance(new Float32Array(vector), new Float32Array(cluster.centroid))
+      if (distance < nearestDistance) {
+        nearest = cluster
+        nearestDistance = distance
+      }
+    }
+    for (const cluster of clusters) {
+      const member = cluster.vectorIds.includes(id)
+      if (cluster === nearest && !member) cluster.vectorIds.push(id)
+      else if (cluster !== nearest && member) cluster.vectorIds = cluster.vectorIds.filter(other => other !== id)
+      else continue
+      await requestToPromise(ivfStore.put(cluster))
+    }
+  }
 
-    // Track change for synchronization
-    this.trackSyncChange(tableName, 'update', { ...(updatedRecord as any), id })
+  // Drop a row's embedding. Its HNSW node is only marked deleted; the graph
+  // is repaired in the background once enough nodes are. IVF clusters keep
+  // the id, which no longer resolves to a vector.
+  private async removeEmbedding(tx: StorageTransaction, tableName: string, slot: VectorSlot, id: number): Promise<void> {
+    this.embeddingQueue.cancel(slot.key, id)
+    // The node copies the vector before it is deleted
+    const hnswStore = tx.objectStore(hnswStoreName(slot.key))
+    const meta = await this.readHNSWMeta(hnswStore)
+    if (meta && await markDeleted(this.hnswGraph(tx, slot.key), meta, id)) {
+      await requestToPromise(hnswStore.put(meta))
+      if (needsRepair(meta)) this.scheduleHNSWRepair(tableName, slot)
+    }
+    await requestToPromise(tx.objectStore(vectorStoreName(slot.key)).delete(id))
+  }
+
+  // The HNSW graph of a vector; tx must cover its graph and vector stores
+  private hnswGraph(tx: StorageTransaction, key: string): HNSWStore {
+    const store = tx.objectStore(hnswStoreName(key))
+    const vStore = tx.objectStore(vectorStoreName(key))
+    return {
+      get: id => requestToPromise<HNSWNode | undefined>(store.get(id)),
+      put: async node => {
+        await requestToPromise(store.put(node))
+      },
+      delete: async id => {
+        await requestToPromise(store.delete(id))
+      },
+      vector: async id => {
+        const entry = await requestToPromise<StoredVector | undefined>(vStore.get(id))
+        return (entry && this.storedVector(key, entry)) ?? undefined
+      }
+    }
+  }
+
+  // Graph metadata, absent until buildHNSWIndex() ran (or for stores in the
+  // old per-layer layout)
+  private async readHNSWMeta(store: StorageObjectStore): Promise<HNSWMeta | undefined> {
+    if (store.keyPath !== "key") return undefined
+    return requestToPromise<HNSWMeta | undefined>(store.get(HNSW_META_KEY))
+  }
+
+  // Remove every vector from the ANN indexes of a vector but keep them
+  // built: an empty graph with the same parameters, centroids without members
+  private async emptyVectorIndexes(tx: StorageTransaction, key: string): Promise<void> {
+    const hnswStore = tx.objectStore(hnswStoreName(key))
+    const meta = await this.readHNSWMeta(hnswStore)
+    if (meta) {
+      await requestToPromise(hnswStore.clear())
+      await requestToPromise(hnswStore.put(createHNSWMeta(meta)))
+    }
+    const ivfStore = tx.objectStore(ivfStoreName(key))
+    for (const cluster of await requestToPromise<IVFCluster[]>(ivfStore.getAll())) {
+      await requestToPromise(ivfStore.put({ ...cluster, vectorIds: [] }))
+    }
+  }
+
+  // Tables whose HNSW store predates per-node records; an upgrade replaces them
+  private legacyHNSWTables(): string[] {
+    const tables = Object.keys(this.schema).filter(table =>
+      this.schema[table].vector && this.db!.objectStoreNames.contains(hnswStoreName(table))
+    )
+    if (tables.length === 0) return []
+    const tx = this.db!.transaction(tables.map(hnswStoreName), "readonly")
+    return tables.filter(table => tx.objectStore(hnswStoreName(table)).keyPath !== "key")
   }
 
   async delete(id: number, table?: string): Promise<void> {
@@ -1278,14 +1873,22 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       throw new Error('Delete operation not authorized')
     }
 
-    // Handle in-memory storage
-    if (this.useInMemory) {
-      return this.deleteInMemory(id, tableName, def);
-    }
-
     const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
-    if (def.vector) stores.push(vectorStoreName(tableName))
+    stores.push(...vectorStoreNames(tableName, def))
     const tx = this.db!.transaction(stores, "readwrite")
+    const change = await this.applyDelete(tx, id, tableName, def)
+    await awaitTransaction(tx)
+
+    this.emitChanges([change])
+  }
+
+  // Delete a record inside tx along with its index, vector and stats entries
+  private async applyDelete(
+    tx: StorageTransaction,
+    id: number,
+    tableName: string,
+    def: TableDefinition
+  ): Promise<PendingChange> {
     const store = tx.objectStore(tableName)
     
     // Get the existing record before deletion
@@ -1298,41 +1901,11 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     await requestToPromise(store.delete(id))
 
     // Remove from inverted index
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
+    const lengths = await this.reindexText(tx, tableName, def, id, existing, null)
 
-    const iiStore = tx.objectStore(indexStoreName(tableName))
-    const tokens = new Set<string>()
-    
-    for (const field of searchable) {
-      const raw = existing[field]
-      if (typeof raw === "string") {
-        for (const tok of tokenize(raw)) tokens.add(tok)
-      }
-    }
-
-    // Remove id from all tokens
-    for (const token of tokens) {
-      const entry = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(token))
-      if (entry) {
-        entry.ids = entry.ids.filter(recordId => recordId !== id)
-        if (entry.ids.length === 0) {
-          await requestToPromise(iiStore.delete(token))
-        } else {
-          await requestToPromise(iiStore.put(entry))
-        }
-      }
-    }
-
-    // Remove any vector entry
-    if (def.vector) {
-      const vStore = tx.objectStore(vectorStoreName(tableName))
-      try {
-        await requestToPromise(vStore.delete(id))
-      } catch {}
+    // Remove any vector entries
+    for (const slot of vectorSlots(tableName, def)) {
+      await this.removeEmbedding(tx, tableName, slot, id)
     }
 
     // Update stats
@@ -1344,27 +1917,25 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       const nextStats: TableStats = {
         count: prev.value.count - 1,
         totalBytes: Math.max(0, prev.value.totalBytes - bytes),
+        fieldLengths: addFieldLengths(prev.value.fieldLengths, lengths.before, -1),
       }
       await requestToPromise(statsStore.put({ key, value: nextStats }))
     }
 
-    await awaitTransaction(tx)
-
     // Denormalize deleted record for event
     const deletedRecord: Record<string, unknown> = { ...existing }
     for (const [col, type] of Object.entries(def.columns)) {
       deletedRecord[col] = fromISO(type as ColumnType, existing[col])
     }
 
-    // Notify subscribers
-    this.notify(tableName, { 
-      table: tableName, 
-      type: "delete", 
-      record: { ...(deletedRecord as any), id }
-    })
-
-    // Track change for synchronization
-    this.trackSyncChange(tableName, 'delete', { id })
+    return {
+      event: {
+        table: tableName,
+        type: "delete",
+        record: { ...(deletedRecord as any), id }
+      },
+      syncRecord: { id }
+    }
   }
 
   async upsert<T extends Record<string, unknown>>(record: T, table?: string): Promise<InsertResult> {
@@ -1410,17 +1981,11 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     }
     
     const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
-    if (def.vector) stores.push(vectorStoreName(tableName))
+    stores.push(...vectorStoreNames(tableName, def))
     const tx = this.db!.transaction(stores, "readwrite")
     const store = tx.objectStore(tableName)
-    const iiStore = tx.objectStore(indexStoreName(tableName))
     const statsStore = tx.objectStore(META_STATS_STORE)
-    
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
+    const embeddings: EmbeddingRequest[] = []
     
     for (const record of records) {
       try {
@@ -1441,23 +2006,10 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
         const id = await requestToPromise(store.add(normalized as any)) as unknown as number
         
         // Build inverted index
-        const tokens = new Set<string>()
-        for (const field of searchable) {
-          const raw = (record as any)[field]
-          if (typeof raw === "string") {
-            for (const tok of tokenize(raw)) tokens.add(tok)
-          }
-        }
-        
-        for (const token of tokens) {
-          const existing = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(token))
-          if (existing) {
-            if (!existing.ids.includes(id)) existing.ids.push(id)
-            await requestToPromise(iiStore.put(existing))
-          } else {
-            await requestToPromise(iiStore.put({ token, ids: [id] }))
-          }
-        }
+        const lengths = await this.reindexText(tx, tableName, def, id, null, record)
+
+        // Embed once the whole batch has committed
+        embeddings.push(...await this.planEmbeddings(tx, tableName, vectorSlots(tableName, def), id, record))
         
         // Update stats
         const key = statsKeyFor(tableName)
@@ -1466,6 +2018,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
         const nextStats: TableStats = {
           count: (prev?.value.count ?? 0) + 1,
           totalBytes: (prev?.value.totalBytes ?? 0) + bytes,
+          fieldLengths: addFieldLengths(prev?.value.fieldLengths, lengths.after),
         }
         await requestToPromise(statsStore.put({ key, value: nextStats }))
         
@@ -1481,6 +2034,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     }
     
     await awaitTransaction(tx)
+    for (const job of embeddings) this.embeddingQueue.enqueue(job)
     return result
   }
 
@@ -1502,7 +2056,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     }
     
     const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
-    if (def.vector) stores.push(vectorStoreName(tableName))
+    stores.push(...vectorStoreNames(tableName, def))
     const tx = this.db!.transaction(stores, "readwrite")
     const store = tx.objectStore(tableName)
     
@@ -1534,7 +2088,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     }
     
     const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
-    if (def.vector) stores.push(vectorStoreName(tableName))
+    stores.push(...vectorStoreNames(tableName, def))
     const tx = this.db!.transaction(stores, "readwrite")
     const store = tx.objectStore(tableName)
     
@@ -1565,775 +2119,113 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           throw new Error('Insert operation not authorized')
         }
 
-        // Handle in-memory storage
-        if (this.useInMemory) {
-          return this.insertInMemory(record, tableName, def);
-        }
-
-        // Original IndexedDB implementation
-        // Validate record
-        const validatedRecord = this.validateRecord(record, def)
-
-        // Encrypt sensitive fields before storage
-        const encryptedRecord = await this.encryptSensitiveFields(validatedRecord, def)
-
-        // Normalize record for storage using codec if available
-        const normalized = this.encodeRecordForStorage(encryptedRecord, def)
-
-        const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
-        if (def.vector) stores.push(vectorStoreName(tableName))
-        const tx = this.db!.transaction(stores, "readwrite")
-        const store = tx.objectStore(tableName)
-        const id = await requestToPromise(store.add(normalized as any)) as unknown as number
-
-        // Build/update inverted index for searchable fields
-        const searchable = (def.searchableFields && def.searchableFields.length > 0)
-          ? def.searchableFields
-          : Object.entries(def.columns)
-              .filter(([, t]) => t === "string")
-              .map(([name]) => name)
-
-        const iiStore = tx.objectStore(indexStoreName(tableName))
-        const tokens = new Set<string>()
-        for (const field of searchable) {
-          const raw = (record as any)[field]
-          if (typeof raw === "string") {
-            for (const tok of tokenize(raw)) tokens.add(tok)
-          }
-        }
-
-        for (const token of tokens) {
-          const existing = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(token))
-          if (existing) {
-            if (!existing.ids.includes(id)) existing.ids.push(id)
-            await requestToPromise(iiStore.put(existing))
-          } else {
-            await requestToPromise(iiStore.put({ token, ids: [id] }))
-          }
-        }
-
-        // Persist vector embedding if configured
-        if (def.vector) {
-          const embedder = this.vectorEmbedders.get(tableName)
-          if (embedder) {
-            const source = (record as any)[def.vector.field]
-            if (typeof source === "string" && source.trim().length > 0) {
-              const vec = await embedder(source)
-              if (!(vec instanceof Float32Array) || vec.length !== def.vector.dims) {
-                throw new Error(`Embedding dimension mismatch for table ${tableName}. Expected ${def.vector.dims}, got ${vec.length}`)
-              }
-              const vStore = tx.objectStore(vectorStoreName(tableName))
-              await requestToPromise(vStore.put({ id, vector: Array.from(vec) }))
-            }
-          }
-        }
-
-        // Update stats
-        const statsStore = tx.objectStore(META_STATS_STORE)
-        const key = statsKeyFor(tableName)
-        const prev = await requestToPromise<{ key: string; value: TableStats } | undefined>(statsStore.get(key))
-        const bytes = JSON.stringify(normalized).length
-        const nextStats: TableStats = {
-          count: (prev?.value.count ?? 0) + 1,
-          totalBytes: (prev?.value.totalBytes ?? 0) + bytes,
-        }
-        await requestToPromise(statsStore.put({ key, value: nextStats }))
-
-        await awaitTransaction(tx)
-
-        // Notify subscribers
-        this.notify(tableName, { table: tableName, type: "insert", record: { ...(record as any), id } })
-
-        // Track change for synchronization
-        this.trackSyncChange(tableName, 'insert', { ...(record as any), id })
-
-        return { id }
-      },
-      'insert',
-      async () => {
-        // Fallback to in-memory storage
-        console.warn('Falling back to in-memory storage for insert operation')
-        const def = this.ensureTable(tableName)
-        return await this.insertInMemory(record, tableName, def)
-      }
-    )
-  }
-
-  // In-memory implementation of insert
-  private async insertInMemory<T extends Record<string, unknown>>(
-    record: T,
-    tableName: string,
-    def: TableDefinition
-  ): Promise<InsertResult> {
-    // Validate record
-    const validatedRecord = this.validateRecord(record, def)
-
-    // Encrypt sensitive fields before storage
-    const encryptedRecord = await this.encryptSensitiveFields(validatedRecord, def)
-
-    // Normalize record for storage using codec if available
-    const normalized = this.encodeRecordForStorage(encryptedRecord, def)
-
-    // Insert into main table
-    const id = this.inMemoryStorage!.add(tableName, normalized)
-
-    // Build/update inverted index for searchable fields
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
-
-    const iiStoreName = indexStoreName(tableName)
-    const tokens = new Set<string>()
-    for (const field of searchable) {
-      const raw = (record as any)[field]
-      if (typeof raw === "string") {
-        for (const tok of tokenize(raw)) tokens.add(tok)
-      }
-    }
-
-    for (const token of tokens) {
-      const existing = this.inMemoryStorage!.get(iiStoreName, token)
-      if (existing) {
-        if (!existing.ids.includes(id)) existing.ids.push(id)
-        this.inMemoryStorage!.put(iiStoreName, token, existing)
-      } else {
-        this.inMemoryStorage!.put(iiStoreName, token, { token, ids: [id] })
-      }
-    }
-
-    // Persist vector embedding if configured
-    if (def.vector) {
-      const embedder = this.vectorEmbedders.get(tableName)
-      if (embedder) {
-        const source = (record as any)[def.vector.field]
-        if (typeof source === "string" && source.trim().length > 0) {
-          const vec = await embedder(source)
-          if (!(vec instanceof Float32Array) || vec.length !== def.vector.dims) {
-            throw new Error(`Embedding dimension mismatch for table ${tableName}. Expected ${def.vector.dims}, got ${vec.length}`)
-          }
-          const vStoreName = vectorStoreName(tableName)
-          this.inMemoryStorage!.put(vStoreName, id, { id, vector: Array.from(vec) })
-        }
-      }
-    }
-
-    // Update stats
-    const statsKey = statsKeyFor(tableName)
-    const prev = this.inMemoryStorage!.get(META_STATS_STORE, statsKey)
-    const bytes = JSON.stringify(normalized).length
-    const nextStats: TableStats = {
-      count: (prev?.value.count ?? 0) + 1,
-      totalBytes: (prev?.value.totalBytes ?? 0) + bytes,
-    }
-    this.inMemoryStorage!.put(META_STATS_STORE, statsKey, { key: statsKey, value: nextStats })
-
-    // Notify subscribers
-    this.notify(tableName, { table: tableName, type: "insert", record: { ...(record as any), id } })
-
-    // Track change for synchronization
-    this.trackSyncChange(tableName, 'insert', { ...(record as any), id })
-
-    return { id }
-  }
-
-  async getAll<T = unknown>(table: string, limit = 1000): Promise<(T & { id: number })[]> {
-    this.ensureDb()
-    const def = this.ensureTable(table)
-
-    // Check authentication with rate limiting
-    if (!this.checkAuthWithRateLimit('read', table)) {
-      throw new Error('Read operation not authorized')
-    }
-
-    // Handle in-memory storage
-    if (this.useInMemory) {
-      return this.getAllInMemory(table, def, limit);
-    }
-
-    // Original IndexedDB implementation
-    const out: (T & { id: number })[] = []
-    const tx = this.db!.transaction([table], "readonly")
-    const store = tx.objectStore(table)
-    const req = store.openCursor()
-    return new Promise((resolve, reject) => {
-      req.onsuccess = async () => {
-        const cursor = req.result
-        if (cursor) {
-          const value: any = cursor.value
-          value.id = cursor.primaryKey as number
-
-          // Decrypt sensitive fields after retrieval
-          const decryptedValue = await this.decryptSensitiveFields(value, def)
-          // Decode from storage format using codec if available
-          const decodedValue = this.decodeRecordFromStorage(decryptedValue, def)
-          out.push(decodedValue as T & { id: number })
-
-          if (out.length >= limit) {
-            resolve(out)
-            return
-          }
-          cursor.continue()
-        } else {
-          resolve(out)
-        }
-      }
-      req.onerror = () => reject(req.error)
-    })
-  }
-
-  // In-memory implementation of getAll
-  private async getAllInMemory<T = unknown>(
-    table: string,
-    def: TableDefinition,
-    limit: number
-  ): Promise<(T & { id: number })[]> {
-    const out: (T & { id: number })[] = []
-    let count = 0
-
-    this.inMemoryStorage!.openCursor(table, async (cursor) => {
-      const value: any = cursor.value
-      value.id = cursor.primaryKey as number
-
-      // Decrypt sensitive fields after retrieval
-      const decryptedValue = await this.decryptSensitiveFields(value, def)
-      // Decode from storage format using codec if available
-      const decodedValue = this.decodeRecordFromStorage(decryptedValue, def)
-      out.push(decodedValue as T & { id: number })
-
-      count++
-      if (count >= limit) {
-        return
-      }
-      cursor.continue()
-    })
-
-    return out
-  }
-
-  // In-memory implementation of update
-  private async updateInMemory(
-    id: number,
-    updates: Record<string, unknown>,
-    tableName: string,
-    def: TableDefinition
-  ): Promise<void> {
-    // Get the existing record
-    const existing = this.inMemoryStorage!.get(tableName, id)
-    if (!existing) {
-      throw new Error(`Record with id ${id} not found in table ${tableName}`)
-    }
-
-    // Denormalize existing record for comparison
-    const oldRecord: Record<string, unknown> = { ...existing }
-    for (const [col, type] of Object.entries(def.columns)) {
-      oldRecord[col] = fromISO(type as ColumnType, existing[col])
-    }
-
-    // Validate updates (partial validation for updates)
-    if (def.validation) {
-      // For updates, make all fields optional
-      const updateSchema = (def.validation as any).partial()
-      const result = updateSchema.safeParse(updates)
-      if (!result.success) {
-        throw new Error(`Validation failed: ${result.error.message}`)
-      }
-    }
-
-    // Normalize updates for storage using codec if available
-    const normalizedUpdates = this.encodeRecordForStorage(updates, def)
-
-    // Merge updates into existing record
-    const updated = { ...existing, ...normalizedUpdates }
-    this.inMemoryStorage!.put(tableName, id, updated)
-
-    // Update inverted index - remove old tokens, add new ones
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
-
-    const iiStoreName = indexStoreName(tableName)
-
-    // Get old and new tokens for searchable fields
-    const oldTokens = new Set<string>()
-    const newTokens = new Set<string>()
-
-    for (const field of searchable) {
-      // Old tokens
-      const oldRaw = oldRecord[field]
-      if (typeof oldRaw === "string") {
-        for (const tok of tokenize(oldRaw)) oldTokens.add(tok)
-      }
-
-      // New tokens (use updated value if provided, otherwise keep old)
-      const newRaw = field in updates ? (updates as any)[field] : oldRecord[field]
-      if (typeof newRaw === "string") {
-        for (const tok of tokenize(newRaw)) newTokens.add(tok)
-      }
-    }
-
-    // Remove id from tokens that are no longer present
-    const removedTokens = new Set([...oldTokens].filter(tok => !newTokens.has(tok)))
-    for (const token of removedTokens) {
-      const entry = this.inMemoryStorage!.get(iiStoreName, token)
-      if (entry) {
-        entry.ids = entry.ids.filter((recordId: number) => recordId !== id)
-        if (entry.ids.length === 0) {
-          this.inMemoryStorage!.delete(iiStoreName, token)
-        } else {
-          this.inMemoryStorage!.put(iiStoreName, token, entry)
-        }
-      }
-    }
-
-    // Add id to new tokens
-    const addedTokens = new Set([...newTokens].filter(tok => !oldTokens.has(tok)))
-    for (const token of addedTokens) {
-      const entry = this.inMemoryStorage!.get(iiStoreName, token)
-      if (entry) {
-        if (!entry.ids.includes(id)) {
-          entry.ids.push(id)
-          this.inMemoryStorage!.put(iiStoreName, token, entry)
-        }
-      } else {
-        this.inMemoryStorage!.put(iiStoreName, token, { token, ids: [id] })
-      }
-    }
-
-    // Update stats
-    const statsKey = statsKeyFor(tableName)
-    const prev = this.inMemoryStorage!.get(META_STATS_STORE, statsKey)
-    if (prev) {
-      const oldBytes = JSON.stringify(existing).length
-      const newBytes = JSON.stringify(updated).length
-      const byteDiff = newBytes - oldBytes
-      const nextStats: TableStats = {
-        count: prev.value.count, // Count stays the same
-        totalBytes: prev.value.totalBytes + byteDiff,
-      }
-      this.inMemoryStorage!.put(META_STATS_STORE, statsKey, { key: statsKey, value: nextStats })
-    }
-
-    // Denormalize updated record for event
-    const updatedRecord: Record<string, unknown> = { ...updated }
-    for (const [col, type] of Object.entries(def.columns)) {
-      updatedRecord[col] = fromISO(type as ColumnType, updated[col])
-    }
-
-    // Notify subscribers
-    this.notify(tableName, {
-      table: tableName,
-      type: "update",
-      record: { ...(updatedRecord as any), id },
-      oldRecord: { ...(oldRecord as any), id }
-    })
-
-    // Track change for synchronization
-    this.trackSyncChange(tableName, 'update', { ...(updatedRecord as any), id })
-  }
-
-  // In-memory implementation of delete
-  private async deleteInMemory(
-    id: number,
-    tableName: string,
-    def: TableDefinition
-  ): Promise<void> {
-    // Get the existing record before deletion
-    const existing = this.inMemoryStorage!.get(tableName, id)
-    if (!existing) {
-      throw new Error(`Record with id ${id} not found in table ${tableName}`)
-    }
-
-    // Delete the record
-    this.inMemoryStorage!.delete(tableName, id)
-
-    // Remove from inverted index
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
-
-    const iiStoreName = indexStoreName(tableName)
-    const tokens = new Set<string>()
-
-    for (const field of searchable) {
-      const raw = existing[field]
-      if (typeof raw === "string") {
-        for (const tok of tokenize(raw)) tokens.add(tok)
-      }
-    }
-
-    // Remove id from all tokens
-    for (const token of tokens) {
-      const entry = this.inMemoryStorage!.get(iiStoreName, token)
-      if (entry) {
-        entry.ids = entry.ids.filter((recordId: number) => recordId !== id)
-        if (entry.ids.length === 0) {
-          this.inMemoryStorage!.delete(iiStoreName, token)
-        } else {
-          this.inMemoryStorage!.put(iiStoreName, token, entry)
-        }
-      }
-    }
-
-    // Remove any vector entry
-    if (def.vector) {
-      const vStoreName = vectorStoreName(tableName)
-      try {
-        this.inMemoryStorage!.delete(vStoreName, id)
-      } catch {}
-    }
-
-    // Update stats
-    const statsKey = statsKeyFor(tableName)
-    const prev = this.inMemoryStorage!.get(META_STATS_STORE, statsKey)
-    if (prev) {
-      const bytes = JSON.stringify(existing).length
-      const nextStats: TableStats = {
-        count: prev.value.count - 1,
-        totalBytes: Math.max(0, prev.value.totalBytes - bytes),
-      }
-      this.inMemoryStorage!.put(META_STATS_STORE, statsKey, { key: statsKey, value: nextStats })
-    }
-
-    // Denormalize deleted record for event
-    const deletedRecord: Record<string, unknown> = { ...existing }
-    for (const [col, type] of Object.entries(def.columns)) {
-      deletedRecord[col] = fromISO(type as ColumnType, existing[col])
-    }
-
-    // Notify subscribers
-    this.notify(tableName, {
-      table: tableName,
-      type: "delete",
-      record: { ...(deletedRecord as any), id }
-    })
-
-    // Track change for synchronization
-    this.trackSyncChange(tableName, 'delete', { id })
-  }
-
-  // In-memory implementation of find
-  private async findInMemory<T = any>(
-    options: FindOptions,
-    tableName: string,
-    def: TableDefinition
-  ): Promise<(T & { id: number })[]> {
-    const limit = options.limit || 1000
-    const offset = options.offset || 0
-    const where = options.where || {}
-
-    // Get all records from the table
-    const allRecords = await this.getAllInMemory<T>(tableName, def, Number.MAX_SAFE_INTEGER)
-
-    // Apply where conditions
-    let filtered = allRecords.filter(record => this.matchesWhere(record, where))
-
-    // Apply ordering
-    if (options.orderBy) {
-      let orderField: string
-      let orderDirection: "asc" | "desc" = "asc"
-
-      if (typeof options.orderBy === "string") {
-        orderField = options.orderBy
-      } else {
-        orderField = options.orderBy.field
-        orderDirection = options.orderBy.direction || "asc"
-      }
-
-      filtered.sort((a, b) => {
-        const aVal = (a as any)[orderField]
-        const bVal = (b as any)[orderField]
-        const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0
-        return orderDirection === "desc" ? -comparison : comparison
-      })
-    }
-
-    // Apply offset and limit
-    const result = filtered.slice(offset, offset + limit)
-    return result
-  }
-
-  // In-memory implementation of search
-  private async searchInMemory<T = any>(
-    query: string,
-    options: SearchOptions,
-    tableName: string,
-    def: TableDefinition
-  ): Promise<(T & { id: number; score: number })[]> {
-    const limit = typeof options.limit === "number" ? options.limit : 50
-    const tokens = tokenize(query)
-
-    // Get stats for IDF calculation
-    const statsKey = statsKeyFor(tableName)
-    const statsEntry = this.inMemoryStorage!.get(META_STATS_STORE, statsKey)
-    const totalDocs = statsEntry?.value.count ?? 0
-
-    const idToScore = new Map<number, number>()
-    const iiStoreName = indexStoreName(tableName)
-
-    // Calculate TF-IDF scores
-    for (const tok of tokens) {
-      const entry = this.inMemoryStorage!.get(iiStoreName, tok)
-      const ids = entry?.ids || []
-      const df = ids.length || 1
-      const idf = Math.log((totalDocs + 1) / df)
-      for (const id of ids) {
-        idToScore.set(id, (idToScore.get(id) || 0) + idf)
-      }
-    }
-
-    // Convert equality filters from options
-    const reserved = new Set(["table", "limit", "timeRange"]) as Set<string>
-    const equalityFilters: Record<string, unknown> = {}
-    for (const [k, v] of Object.entries(options)) {
-      if (!reserved.has(k)) equalityFilters[k] = v
-    }
-
-    // Handle time range
-    const range = options.timeRange
-    let start: number | null = null
-    let end: number | null = null
-    if (range) {
-      const s = range[0] instanceof Date ? (range[0] as Date) : new Date(range[0] as string)
-      const e = range[1] instanceof Date ? (range[1] as Date) : new Date(range[1] as string)
-      start = s.getTime()
-      end = e.getTime()
-    }
-
-    // Get candidate IDs
-    const candidateIds = idToScore.size > 0 ? Array.from(idToScore.keys()) :
-      Array.from(this.inMemoryStorage!.getAll(tableName).map((record: any) => record.id))
-
-    const results: (T & { id: number; score: number })[] = []
-
-    // Process all candidate records
-    for (const id of candidateIds) {
-      const record = this.inMemoryStorage!.get(tableName, id)
-      if (!record) continue
-
-      // Decode record
-      const decodedRecord = this.decodeRecordFromStorage(record, def)
-
-      if (this.passesFilters(decodedRecord, equalityFilters) &&
-          this.passesTimeRange(decodedRecord, def, start, end)) {
-        const score = idToScore.get(id) || 0
-        results.push({ ...(decodedRecord as T), score, id })
-      }
-    }
-
-    // Sort by score and limit
-    results.sort((a, b) => b.score - a.score)
-    return results.slice(0, limit)
-  }
-
-  // In-memory implementation of vector search
-  private async vectorSearchInMemory<T = any>(
-    table: string,
-    inputVector: Float32Array,
-    opts?: { metric?: "cosine" | "dot" | "euclidean"; limit?: number; where?: WhereCondition }
-  ): Promise<(T & { id: number; score: number })[]> {
-    const def = this.ensureTable(table)
-    if (!def.vector) throw new Error(`Table ${table} has no vector configuration`)
-    if (inputVector.length !== def.vector.dims) throw new Error(`Vector dimension mismatch. Expected ${def.vector.dims}`)
-
-    const limit = opts?.limit ?? 50
-    const metric = opts?.metric ?? "cosine"
-
-    const vStoreName = vectorStoreName(table)
-    const inputNorm = metric === "cosine" ? norm(inputVector) : 1
-    const results: { id: number; score: number }[] = []
-
-    // Get all vectors from in-memory storage
-    const allVectors = this.inMemoryStorage!.getAll(vStoreName)
-
-    // Calculate similarity scores for all vectors
-    for (const vecEntry of allVectors) {
-      const { id, vector } = vecEntry
-      const v = new Float32Array(vector)
-      let score = 0
-
-      if (metric === "cosine") score = dot(inputVector, v) / (inputNorm * norm(v) || 1)
-      else if (metric === "dot") score = dot(inputVector, v)
-      else if (metric === "euclidean") score = -euclideanDistance(inputVector, v)
-
-      results.push({ id, score })
-    }
-
-    // Sort by score and take top results
-    results.sort((a, b) => b.score - a.score)
-    const topResults = results.slice(0, limit * 2) // Get more than needed for filtering
-
-    // Fetch records and apply where filters
-    const out: (T & { id: number; score: number })[] = []
-    for (const { id, score } of topResults) {
-      const record = this.inMemoryStorage!.get(table, id)
-      if (!record) continue
-
-      // Decode record
-      const decodedRecord = this.decodeRecordFromStorage(record, def)
-
-      // Apply where filters if specified
-      if (opts?.where && !this.matchesWhere(decodedRecord, opts.where)) continue
-
-      out.push({ ...(decodedRecord as T), id, score })
-
-      if (out.length >= limit) break
-    }
-
-    return out.slice(0, limit)
-  }
-
-  // In-memory implementation of bulk operations
-  private async bulkInsertInMemory<T extends Record<string, unknown>>(
-    records: T[],
-    tableName: string,
-    def: TableDefinition
-  ): Promise<BulkOperationResult> {
-    const result: BulkOperationResult = { success: 0, errors: [] }
-
-    if (records.length === 0) {
-      return result
-    }
-
-    const searchable = (def.searchableFields && def.searchableFields.length > 0)
-      ? def.searchableFields
-      : Object.entries(def.columns)
-          .filter(([, t]) => t === "string")
-          .map(([name]) => name)
-
-    for (const record of records) {
-      try {
-        // Check authentication with rate limiting
-        if (!this.checkAuthWithRateLimit('insert', tableName, record)) {
-          throw new Error('Insert operation not authorized')
-        }
-
-        // Validate record
-        const validatedRecord = this.validateRecord(record, def)
-
-        // Encrypt sensitive fields
-        const encryptedRecord = await this.encryptSensitiveFields(validatedRecord, def)
-
-        // Normalize for storage using codec if available
-        const normalized = this.encodeRecordForStorage(encryptedRecord, def)
-
-        // Insert into main table
-        const id = this.inMemoryStorage!.add(tableName, normalized)
-
-        // Build inverted index
-        const tokens = new Set<string>()
-        for (const field of searchable) {
-          const raw = (record as any)[field]
-          if (typeof raw === "string") {
-            for (const tok of tokenize(raw)) tokens.add(tok)
-          }
-        }
-
-        const iiStoreName = indexStoreName(tableName)
-        for (const token of tokens) {
-          const existing = this.inMemoryStorage!.get(iiStoreName, token)
-          if (existing) {
-            if (!existing.ids.includes(id)) existing.ids.push(id)
-            this.inMemoryStorage!.put(iiStoreName, token, existing)
-          } else {
-            this.inMemoryStorage!.put(iiStoreName, token, { token, ids: [id] })
-          }
-        }
-
-        // Persist vector embedding if configured
-        if (def.vector) {
-          const embedder = this.vectorEmbedders.get(tableName)
-          if (embedder) {
-            const source = (record as any)[def.vector.field]
-            if (typeof source === "string" && source.trim().length > 0) {
-              const vec = await embedder(source)
-              if (!(vec instanceof Float32Array) || vec.length !== def.vector.dims) {
-                throw new Error(`Embedding dimension mismatch for table ${tableName}. Expected ${def.vector.dims}, got ${vec.length}`)
-              }
-              const vStoreName = vectorStoreName(tableName)
-              this.inMemoryStorage!.put(vStoreName, id, { id, vector: Array.from(vec) })
-            }
-          }
-        }
-
-        // Update stats
-        const statsKey = statsKeyFor(tableName)
-        const prev = this.inMemoryStorage!.get(META_STATS_STORE, statsKey)
-        const bytes = JSON.stringify(normalized).length
-        const nextStats: TableStats = {
-          count: (prev?.value.count ?? 0) + 1,
-          totalBytes: (prev?.value.totalBytes ?? 0) + bytes,
-        }
-        this.inMemoryStorage!.put(META_STATS_STORE, statsKey, { key: statsKey, value: nextStats })
+        const normalized = await this.prepareInsert(record, def)
 
-        result.success++
+        const stores = [tableName, indexStoreName(tableName), META_STATS_STORE]
+        stores.push(...vectorStoreNames(tableName, def))
+        const tx = this.db!.transaction(stores, "readwrite")
+        const { id, change } = await this.applyInsert(tx, record, normalized, tableName, def)
+        await awaitTransaction(tx)
 
-        // Notify subscribers
-        this.notify(tableName, { table: tableName, type: "insert", record: { ...(record as any), id } })
-        this.trackSyncChange(tableName, 'insert', { ...(record as any), id })
+        this.emitChanges([change])
 
-      } catch (error) {
-        result.errors.push({ error: error as Error, record })
-      }
-    }
+        return { id }
+      },
+      'insert'
+    )
+  }
 
-    return result
+  // Validate, encrypt and encode a record for insertion
+  private async prepareInsert(record: Record<string, unknown>, def: TableDefinition): Promise<Record<string, unknown>> {
+    // Validate record
+    const validatedRecord = this.validateRecord(record, def)
+
+    // Encrypt sensitive fields before storage
+    const encryptedRecord = await this.encryptSensitiveFields(validatedRecord, def)
+
+    // Normalize record for storage using codec if available
+    return this.encodeRecordForStorage(encryptedRecord, def)
   }
 
-  // In-memory implementation of bulk update
-  private async bulkUpdateInMemory<T extends Record<string, unknown>>(
-    updates: Array<{ id: number; updates: Partial<T> }>,
+  // Add a prepared record inside tx with its inverted index, vector and stats entries
+  private async applyInsert(
+    tx: StorageTransaction,
+    record: Record<string, unknown>,
+    normalized: Record<string, unknown>,
     tableName: string,
     def: TableDefinition
-  ): Promise<BulkOperationResult> {
-    const result: BulkOperationResult = { success: 0, errors: [] }
+  ): Promise<{ id: number; change: PendingChange }> {
+    const store = tx.objectStore(tableName)
+    const id = await requestToPromise(store.add(normalized as any)) as unknown as number
 
-    if (updates.length === 0) {
-      return result
+    // Build/update inverted index for searchable fields
+    const lengths = await this.reindexText(tx, tableName, def, id, null, record)
+
+    // Embed each configured vector once the insert has committed
+    const embeddings = await this.planEmbeddings(tx, tableName, vectorSlots(tableName, def), id, record)
+
+    // Update stats
+    const statsStore = tx.objectStore(META_STATS_STORE)
+    const key = statsKeyFor(tableName)
+    const prev = await requestToPromise<{ key: string; value: TableStats } | undefined>(statsStore.get(key))
+    const bytes = JSON.stringify(normalized).length
+    const nextStats: TableStats = {
+      count: (prev?.value.count ?? 0) + 1,
+      totalBytes: (prev?.value.totalBytes ?? 0) + bytes,
+      fieldLengths: addFieldLengths(prev?.value.fieldLengths, lengths.after),
     }
+    await requestToPromise(statsStore.put({ key, value: nextStats }))
 
-    for (const { id, updates: updateData } of updates) {
-      try {
-        await this.updateInMemory(id, updateData as Record<string, unknown>, tableName, def)
-        result.success++
-      } catch (error) {
-        result.errors.push({ error: error as Error, record: { id, updates: updateData } })
+    return {
+      id,
+      change: {
+        event: { table: tableName, type: "insert", record: { ...(record as any), id } },
+        syncRecord: { ...(record as any), id },
+        embeddings
       }
     }
-
-    return result
   }
 
-  // In-memory implementation of bulk delete
-  private async bulkDeleteInMemory(
-    ids: number[],
-    tableName: string,
-    def: TableDefinition
-  ): Promise<BulkOperationResult> {
-    const result: BulkOperationResult = { success: 0, errors: [] }
+  async getAll<T = unknown>(table: string, limit = 1000): Promise<(T & { id: number })[]> {
+    this.ensureDb()
+    const def = this.ensureTable(table)
 
-    if (ids.length === 0) {
-      return result
+    // Check authentication with rate limiting
+    if (!this.checkAuthWithRateLimit('read', table)) {
+      throw new Error('Read operation not authorized')
     }
 
-    for (const id of ids) {
-      try {
-        await this.deleteInMemory(id, tableName, def)
-        result.success++
-      } catch (error) {
-        result.errors.push({ error: error as Error, record: { id } })
+    // Read the rows before decrypting: decryption is async, and awaiting it
+    // from a cursor callback would let the transaction commit mid-walk
+    const rows: any[] = []
+    const tx = this.db!.transaction([table], "readonly")
+    const store = tx.objectStore(table)
+    await new Promise<void>((resolve, reject) => {
+      const req = store.openCursor<Record<string, unknown>>()
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor || rows.length >= limit) {
+          resolve()
+          return
+        }
+        rows.push({ ...cursor.value, id: cursor.primaryKey })
+        cursor.continue()
       }
-    }
+      req.onerror = () => reject(req.error)
+    })
 
-    return result
+    const out: (T & { id: number })[] = []
+    for (const value of rows) {
+      // Decrypt sensitive fields after retrieval
+      const decryptedValue = await this.decryptSensitiveFields(value, def)
+      // Decode from storage format using codec if available
+      const decodedValue = this.decodeRecordFromStorage(decryptedValue, def)
+      out.push(decodedValue as T & { id: number })
+    }
+    return out
   }
 
-  async find<T = any>(options: FindOptions = {}): Promise<(T & { id: number })[]> {
+  async find<T = any>(options: FindOptions = {}): Promise<Faceted<(T & { id: number })[]>> {
     this.ensureDb()
     const tableName = options.table || DEFAULT_TABLE
     const def = this.ensureTable(tableName)
@@ -2343,151 +2235,184 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       throw new Error('Read operation not authorized')
     }
 
-    // Handle in-memory storage
-    if (this.useInMemory) {
-      return this.findInMemory<T>(options, tableName, def);
-    }
+    return this.findIndexed<T>(options, tableName, def)
+  }
+
+  // IndexedDB implementation of find, optionally inside an open transaction
+  private async findIndexed<T = any>(
+    options: FindOptions,
+    tableName: string,
+    def: TableDefinition,
+    tx?: StorageTransaction
+  ): Promise<Faceted<(T & { id: number })[]>> {
     const limit = options.limit || 1000
     const offset = options.offset || 0
+    const where = options.where || {}
+    const order = parseOrderBy(options.orderBy)
+    const plan = planQuery(tableName, def, where, options.orderBy)
+    const facets = options.facets ? createFacetCounter(options.facets) : null
+
+    // When the cursor already yields rows in the requested order we can stop
+    // after offset + limit matches; otherwise every match has to be collected
+    // and sorted before paging. Facets count every match, so they keep the
+    // scan going past the page.
+    const results: (T & { id: number })[] = []
+    let skipped = 0
 
-    const tx = this.db!.transaction([tableName], "readonly")
-    const store = tx.objectStore(tableName)
-
-    // Parse orderBy
-    let orderField: string | null = null
-    let orderDirection: "asc" | "desc" = "asc"
-    if (options.orderBy) {
-      if (typeof options.orderBy === "string") {
-        orderField = options.orderBy
-      } else {
-        orderField = options.orderBy.field
-        orderDirection = options.orderBy.direction || "asc"
+    await this.scanPlan(tableName, def, plan, where, record => {
+      facets?.add(record)
+      const pageFull = plan.orderSatisfied && results.length >= limit
+      if (!pageFull) {
+        if (!plan.orderSatisfied || skipped >= offset) {
+          results.push(record as T & { id: number })
+        } else {
+          skipped++
+        }
       }
-    }
+      return facets !== null || !(plan.orderSatisfied && results.length >= limit)
+    }, tx)
 
-    // Parse where conditions
-    const where = options.where || {}
-    const whereFields = Object.keys(where)
-
-    // Determine best query strategy
-    let useIndex = false
-    let indexField: string | null = null
-    let indexRange: IDBKeyRange | undefined = undefined
-
-    // Check if we can use an index for ordering or filtering
-    if (orderField && this.hasIndex(def, orderField)) {
-      useIndex = true
-      indexField = orderField
-    } else if (whereFields.length > 0) {
-      // Find first where field that has an index
-      for (const field of whereFields) {
-        if (this.hasIndex(def, field)) {
-          useIndex = true
-          indexField = field
-          indexRange = this.buildKeyRange(where[field])
-          break
-        }
+    let page = results
+    if (!plan.orderSatisfied) {
+      if (order.field) {
+        const orderField = order.field
+        results.sort((a, b) => {
+          const comparison = compareValues(getFieldValue(a, orderField), getFieldValue(b, orderField))
+          return order.direction === "desc" ? -comparison : comparison
+        })
       }
+      page = results.slice(offset, offset + limit)
     }
+    return facets ? Object.assign(page, { facets: facets.results() }) : page
+  }
 
-    const results: (T & { id: number })[] = []
-    let skipped = 0
+  /**
+   * Describe how find() would execute a query: the chosen index, key ranges,
+   * whether index order satisfies orderBy, and the scored candidates.
+   */
+  explain(options: FindOptions = {}): QueryPlan {
+    const tableName = options.table || DEFAULT_TABLE
+    const def = this.ensureTable(tableName)
+    return planQuery(tableName, def, options.where || {}, options.orderBy, { useIndexes: true })
+  }
 
-    if (useIndex && indexField) {
-      // Use index-optimized query
-      const index = indexField === (def.primaryKey || "id") 
-        ? store 
-        : store.index(indexField)
-      
-      const direction = orderDirection === "desc" ? "prev" : "next"
-      const cursorReq = index.openCursor(indexRange, direction)
+  // Walk the key ranges of a plan, decoding each row and passing those that
+  // match the where clause to visit; visit returns false to stop the scan
+  private async scanPlan(
+    tableName: string,
+    def: TableDefinition,
+    plan: QueryPlan,
+    where: WhereCondition,
+    visit: (record: Record<string, unknown>, key: StorageKey, primaryKey: StorageKey) => boolean,
+    tx: StorageTransaction = this.db!.transaction([tableName], "readonly")
+  ): Promise<void> {
+    const store = tx.objectStore(tableName)
+    const source = plan.index ? store.index(plan.index) : store
+    // Multi-value $in plans scan several disjoint key ranges one after another
+    const ranges = plan.ranges.length > 0 ? plan.ranges : [null]
 
-      await new Promise<void>((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
+      let rangeIndex = 0
+      let done = false
+      const openNext = () => {
+        const cursorReq = source.openCursor(keyRangeForBounds(ranges[rangeIndex++], this.engine.keyRange), plan.direction)
         cursorReq.onsuccess = async () => {
           const cursor = cursorReq.result
-          if (!cursor || results.length >= limit) {
+          if (done) {
             resolve()
             return
           }
+          if (!cursor) {
+            if (rangeIndex < ranges.length) openNext()
+            else resolve()
+            return
+          }
 
           const record: any = cursor.value
           const id = typeof cursor.primaryKey === "number" ? cursor.primaryKey : (record.id as number)
           record.id = id
 
-          // Decrypt sensitive fields
-          const decryptedRecord = await this.decryptSensitiveFields(record, def)
+          // Decrypt sensitive fields (without letting the transaction lapse)
+          const decryptedRecord = this.encryptionKey
+            ? await keepTransactionAlive(tx, tableName, this.decryptSensitiveFields(record, def))
+            : record
           // Decode from storage format using codec if available
           const decodedRecord = this.decodeRecordFromStorage(decryptedRecord, def)
 
-          // Apply remaining where conditions
-          if (this.matchesWhere(decodedRecord, where)) {
-            if (skipped >= offset) {
-              results.push(decodedRecord as T & { id: number })
-            } else {
-              skipped++
-            }
+          // Key ranges only narrow the scan; the full where clause decides
+          if (this.matchesWhere(decodedRecord, where) && !visit(decodedRecord, cursor.key, cursor.primaryKey)) {
+            done = true
           }
 
           cursor.continue()
         }
         cursorReq.onerror = () => reject(cursorReq.error)
-      })
-    } else {
-      // Fallback to full table scan
-      const cursorReq = store.openCursor()
-      
-      await new Promise<void>((resolve, reject) => {
-        cursorReq.onsuccess = async () => {
-          const cursor = cursorReq.result
-          if (!cursor || results.length >= limit) {
-            resolve()
-            return
-          }
-
-          const record: any = cursor.value
-          const id = cursor.primaryKey as number
-          record.id = id
+      }
+      openNext()
+    })
+  }
 
-          // Decrypt sensitive fields
-          const decryptedRecord = await this.decryptSensitiveFields(record, def)
-          // Decode from storage format using codec if available
-          const decodedRecord = this.decodeRecordFromStorage(decryptedRecord, def)
+  /**
+   * Compute count/sum/avg/min/max over the rows matching where, optionally
+   * grouped by one or more fields. Rows are streamed from a cursor over the
+   * best index for the where clause; plain counts use the store's count().
+   *
+   * @example
+   * ```ts
+   * await db.aggregate({
+   *   table: "tasks",
+   *   where: { status: { $ne: "done" } },
+   *   groupBy: "priority",
+   *   metrics: { open: "count", earliest: { fn: "min", field: "dueDate" } }
+   * })
+   * ```
+   */
+  async aggregate(options: AggregateOptions = {}): Promise<AggregateRow[]> {
+    this.ensureDb()
+    const tableName = options.table || DEFAULT_TABLE
+    const def = this.ensureTable(tableName)
 
-          // Apply where conditions
-          if (this.matchesWhere(decodedRecord, where)) {
-            if (skipped >= offset) {
-              results.push(decodedRecord as T & { id: number })
-            } else {
-              skipped++
-            }
-          }
+    // Check authentication with rate limiting
+    if (!this.checkAuthWithRateLimit('read', tableName)) {
+      throw new Error('Read operation not authorized')
+    }
 
-          cursor.continue()
-        }
-        cursorReq.onerror = () => reject(cursorReq.error)
-      })
+    const where = options.where || {}
+    const aggregator = createAggregator(options)
 
-      // Sort if needed and no index was used
-      if (orderField && !useIndex) {
-        results.sort((a, b) => {
-          const aVal = (a as any)[orderField!]
-          const bVal = (b as any)[orderField!]
-          const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0
-          return orderDirection === "desc" ? -comparison : comparison
-        })
-      }
+    if (Object.keys(where).length === 0 && isCountOnly(options)) {
+      const tx = this.db!.transaction([tableName], "readonly")
+      const total = await requestToPromise<number>(tx.objectStore(tableName).count())
+      const metrics: Record<string, unknown> = {}
+      for (const name of Object.keys(options.metrics || { count: "count" })) metrics[name] = total
+      return [{ group: {}, metrics }]
     }
 
-    return results
+    const plan = planQuery(tableName, def, where)
+    await this.scanPlan(tableName, def, plan, where, record => {
+      aggregator.add(record)
+      return true
+    })
+    return aggregator.results()
   }
 
-  async search<T = any>(query: string, options: SearchOptions = {}): Promise<(T & { id: number; score: number })[]> {
+  // Full-text search; the query syntax (phrases, prefix*, fuzzy~, +required,
+  // -excluded, field:value) is described in search-query.ts
+  async search<T = any>(query: string, options: SearchOptions = {}): Promise<Faceted<SearchHit<T>[]>> {
+    const table = (options.table as string) || DEFAULT_TABLE
+    const limit = typeof options.limit === "number" ? options.limit : 50
+    const reranking = this.rerankingFor(table, options.rerank, limit, query)
+    if (reranking) {
+      const hits = await this.searchOptimized<T>(query, { ...options, limit: reranking.candidates, rerank: false })
+      const reranked = await this.rerankHits(reranking, hits, limit)
+      return hits.facets ? Object.assign(reranked, { facets: hits.facets }) : reranked
+    }
     // Use optimized search for better performance
     return this.searchOptimized<T>(query, options)
   }
 
   // Optimized search implementation with batch processing
-  private async searchOptimized<T = any>(query: string, options: SearchOptions = {}): Promise<(T & { id: number; score: number })[]> {
+  private async searchOptimized<T = any>(query: string, options: SearchOptions = {}, where?: WhereCondition): Promise<Faceted<SearchHit<T>[]>> {
     this.ensureDb()
     const table = (options.table as string) || DEFAULT_TABLE
     const def = this.ensureTable(table)
@@ -2496,27 +2421,41 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     const tx = this.db!.transaction([table, indexStoreName(table), META_STATS_STORE], "readonly")
     const iiStore = tx.objectStore(indexStoreName(table))
     const tableStore = tx.objectStore(table)
-    const tokens = tokenize(query)
+    const analyzer = resolveAnalyzer(def.analyzer)
+    const clauses = parseSearchQuery(query, searchableFieldsOf(def), analyzer)
 
-    // Read stats for IDF
+    // Read stats for IDF and average field lengths
     const statsStore = tx.objectStore(META_STATS_STORE)
     const statsKey = statsKeyFor(table)
     const statsEntry = await requestToPromise<{ key: string; value: TableStats } | undefined>(statsStore.get(statsKey))
-    const totalDocs = statsEntry?.value.count ?? 0
-
-    const idToScore = new Map<number, number>()
-    for (const tok of tokens) {
-      const entry = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(tok))
-      const ids = entry?.ids || []
-      const df = ids.length || 1
-      const idf = Math.log((totalDocs + 1) / df)
-      for (const id of ids) {
-        idToScore.set(id, (idToScore.get(id) || 0) + idf)
-      }
+
+    // Prefix and fuzzy clauses walk the sorted tokens of the index
+    const source: TokenSource = {
+      get: token => requestToPromise<InvertedIndexEntry | undefined>(iiStore.get(token)),
+      withPrefix: prefix => requestToPromise<InvertedIndexEntry[]>(iiStore.getAll(this.engine.keyRange.bound(prefix, prefix + "\uffff"))),
+      tokens: () => new Promise<string[]>((resolve, reject) => {
+        const keys: string[] = []
+        const req = iiStore.openKeyCursor()
+        req.onsuccess = () => {
+          const cursor = req.result
+          if (!cursor) return resolve(keys)
+          keys.push(cursor.key as string)
+          cursor.continue()
+        }
+        req.onerror = () => reject(req.error)
+      })
     }
 
+    // Rank with BM25, weighting fields by the table's boosts
+    const match = await matchQuery(clauses, source, {
+      totalDocs: statsEntry?.value.count ?? 0,
+      fieldLengths: statsEntry?.value.fieldLengths ?? {},
+      boosts: def.fieldBoosts
+    })
+    const idToScore = match.scores
+
     // Convert equality filters from options (exclude reserved keys)
-    const reserved = new Set(["table", "limit", "timeRange"]) as Set<string>
+    const reserved = new Set(["table", "limit", "timeRange", "highlight", "facets", "rerank"]) as Set<string>
     const equalityFilters: Record<string, unknown> = {}
     for (const [k, v] of Object.entries(options)) {
       if (!reserved.has(k)) equalityFilters[k] = v
@@ -2532,10 +2471,13 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       end = e.getTime()
     }
 
-    // Gather candidate ids. If no tokens, consider full scan.
-    const candidateIds = idToScore.size > 0 ? Array.from(idToScore.keys()) : await this.collectAllIds(table)
+    // Gather candidate ids. A query that selects nothing (empty, or only
+    // exclusions) scans the whole table.
+    const candidateIds = match.matchAll
+      ? (await this.collectAllIds(table)).filter(id => !match.excluded.has(id))
+      : Array.from(idToScore.keys())
 
-    const results: (T & { id: number; score: number })[] = []
+    const results: SearchHit<T>[] = []
 
     // Process records in batches within a single transaction for optimal performance
     const batchSize = 100
@@ -2557,7 +2499,11 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           rec[col] = fromISO(type as ColumnType, rec[col])
         }
 
-        if (this.passesFilters(rec, equalityFilters) && this.passesTimeRange(rec, def, start, end)) {
+        if (
+          this.passesFilters(rec, equalityFilters) &&
+          this.passesTimeRange(rec, def, start, end) &&
+          (!where || this.matchesWhere(rec, where))
+        ) {
           const score = idToScore.get(id) || 0
           results.push({ ...(rec as T), score, id })
         }
@@ -2568,13 +2514,143 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     }
 
     results.sort((a, b) => b.score - a.score)
-    return results.slice(0, limit)
+    const hits = results.slice(0, limit)
+
+    // Highlight with the analyzer the index was built with, so fragments mark
+    // exactly the words that matched
+    if (options.highlight) {
+      const fields = options.highlight.fields ?? searchableFieldsOf(def)
+      const matches = matcherFor(clauses)
+      for (const hit of hits) {
+        hit.highlights = highlightRecord(hit as Record<string, unknown>, fields, matches, options.highlight, analyzer)
+      }
+    }
+
+    // Facets count every match, not only the hits within the limit
+    if (options.facets) {
+      const counter = createFacetCounter(options.facets)
+      for (const result of results) counter.add(result as Record<string, unknown>)
+      return Object.assign(hits, { facets: counter.results() })
+    }
+    return hits
+  }
+
+  // Register an embedder function for a table's first vector, or the one
+  // named by field (or options.field). The embedder must return Float32Array
+  // of length dims.
+  registerEmbedder(table: string, embedder: (input: string) => Promise<Float32Array>, options?: string | EmbedderOptions): void {
+    const key = this.useEmbedder(table, embedder, options)
+    this.batchEmbedders.delete(key)
+  }
+
+  // Register an embedder that takes many texts at once, returning their
+  // vectors in order. Background embedding hands it whole queue batches;
+  // query text is embedded as a batch of one.
+  registerBatchEmbedder(table: string, embedder: (inputs: string[]) => Promise<Float32Array[]>, options?: string | EmbedderOptions): void {
+    const key = this.useEmbedder(table, async input => (await embedder([input]))[0], options)
+    this.batchEmbedders.set(key, embedder)
+  }
+
+  // Set the embedder of a vector and the model it runs; returns the key
+  private useEmbedder(table: string, embedder: (input: string) => Promise<Float32Array>, options: string | EmbedderOptions = {}): string {
+    const { field, model } = typeof options === "string" ? { field: options, model: undefined } : options
+    const def = this.ensureTable(table)
+    const hasVectors = vectorSlots(table, def).length > 0
+    const key = hasVectors || field !== undefined ? vectorSlot(table, def, field).key : table
+    this.vectorEmbedders.set(key, embedder)
+    if (model !== this.embedderModels.get(key)) {
+      if (model === undefined) this.embedderModels.delete(key)
+      else this.embedderModels.set(key, model)
+      this.currentVectors.delete(key)
+    }
+    // Query vectors cached from the previous embedder
+    for (const cacheKey of this.vectorCache.keys()) {
+      if (cacheKey.startsWith(`${key}:`)) this.vectorCache.delete(cacheKey)
+    }
+    if (hasVectors && this.db) this.scheduleEmbeddingScan(table, vectorSlot(table, def, field))
+    return key
+  }
+
+  // Queue the rows of a vector that have a source but no stored embedding:
+  // rows whose jobs were still queued when the last session ended, and rows
+  // a migration re-sourced. The queue lives in memory, so this runs whenever
+  // an embedder is registered.
+  private scheduleEmbeddingScan(table: string, slot: VectorSlot): void {
+    const { key } = slot
+    if (this.embeddingScans.has(key)) return
+    const scan = this.queueMissingEmbeddings(table, slot)
+      .catch(error => console.warn(`Embedding scan of ${key} failed:`, error))
+      .finally(() => this.embeddingScans.delete(key))
+    this.embeddingScans.set(key, scan)
+  }
+
+  private async queueMissingEmbeddings(table: string, { name, key, config }: VectorSlot): Promise<void> {
+    const def = this.ensureTable(table)
+    // Jobs are queued before the transaction ends: no embedding is stored
+    // meanwhile, and rows written after it queue newer jobs
+    const tx = this.db!.transaction([table, vectorStoreName(key)], "readonly")
+    const embedded = new Set(await this.collectAllIds(vectorStoreName(key), tx))
+    const missing = (await this.collectAllIds(table, tx)).filter(id => !embedded.has(id))
+    const store = tx.objectStore(table)
+    const rows = await Promise.all(missing.map(id => requestToPromise<Record<string, unknown> | undefined>(store.get(id))))
+    const sources = await keepTransactionAlive(tx, table, Promise.all(missing.map(async (id, i) => {
+      const row = rows[i] && await this.decryptSensitiveFields(this.decodeRecordFromStorage({ ...rows[i], id }, def), def)
+      return row?.[config.field]
+    })))
+
+    // Rows still in the queue keep their jobs
+    const { pending, failed } = this.embeddingQueue.status(key)
+    const queued = new Set([...pending, ...failed.map(failure => failure.id)])
+    for (const [i, id] of missing.entries()) {
+      const source = sources[i]
+      if (queued.has(id) || typeof source !== "string" || source.trim().length === 0) continue
+      this.embeddingQueue.enqueue({ key, table, field: name, id, text: source })
+    }
+    await awaitTransaction(tx)
+  }
+
+  /**
+   * Rerank the hits of search, vectorSearch and hybridSearch on a table.
+   * Each query fetches rerank.candidates hits (default 4 x limit), the
+   * reranker rescores them against the query text and the best limit are
+   * returned with the reranker's scores. Pass null to remove it.
+   */
+  registerReranker(table: string, reranker: Reranker | null, options: RerankerOptions = {}): void {
+    if (!reranker) {
+      this.rerankers.delete(table)
+      return
+    }
+    const def = this.ensureTable(table)
+    const searchable = searchableFieldsOf(def)
+    const fields = options.fields ??
+      (searchable.length > 0 ? searchable : vectorSlots(table, def).map(slot => slot.config.field))
+    if (fields.length === 0) {
+      throw new Error(`Table ${table} has no text fields to rerank by; pass options.fields`)
+    }
+    this.rerankers.set(table, { reranker, fields })
+  }
+
+  // The reranker a query uses, unless it opted out or has no text to rerank
+  // against
+  private rerankingFor(table: string, rerank: false | RerankOptions | undefined, limit: number, query?: string): Reranking | null {
+    const entry = this.rerankers.get(table)
+    if (!entry || rerank === false) return null
+    const text = rerank?.query ?? query
+    if (text === undefined) {
+      // A plain vector query is left alone unless reranking was asked for
+      if (rerank) throw new Error("rerank.query is required to rerank a vector query")
+      return null
+    }
+    return { ...entry, candidates: Math.max(rerank?.candidates ?? limit * 4, limit), query: text }
   }
 
-  // Register an embedder function for a table. The embedder must return Float32Array of length dims.
-  registerEmbedder(table: string, embedder: (input: string) => Promise<Float32Array>): void {
-    this.ensureTable(table)
-    this.vectorEmbedders.set(table, embedder)
+  private rerankHits<H extends { id: number; score: number }>(reranking: Reranking, hits: H[], limit: number): Promise<H[]> {
+    const textOf = (hit: H) => reranking.fields
+      .map(field => getFieldValue(hit as Record<string, unknown>, field))
+      .filter(value => value !== undefined && value !== null)
+      .map(value => (typeof value === "string" ? value : JSON.stringify(value)))
+      .join("\n")
+    return rerankHits(reranking.reranker, reranking.query, hits, textOf, limit)
   }
 
   // Security audit: Check for potential security issues
@@ -2795,16 +2871,12 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       return
     }
 
-    if (this.useInMemory) {
-      await this.reencryptInMemoryStores(tables, oldKey, newKey)
-      return
-    }
-
     this.ensureDb()
 
-    for (const [tableName, def] of tables) {
+    for (const [tableName] of tables) {
       const tx = this.db!.transaction([tableName], 'readwrite')
       const store = tx.objectStore(tableName)
+      const rows: Record<string, unknown>[] = []
 
       await new Promise<void>((resolve, reject) => {
         const cursorRequest = store.openCursor()
@@ -2815,45 +2887,19 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
             resolve()
             return
           }
-
-          const record = cursor.value as Record<string, unknown>
-          ;(async () => {
-            try {
-              const decrypted = await this.decryptSensitiveFieldsWithKey(record, oldKey)
-              const reencrypted = await this.encryptSensitiveFieldsWithKey(decrypted, newKey)
-              await requestToPromise(cursor.update(reencrypted as any))
-              cursor.continue()
-            } catch (error) {
-              reject(error instanceof Error ? error : new Error(String(error)))
-            }
-          })()
+          rows.push(cursor.value as Record<string, unknown>)
+          cursor.continue()
         }
       })
 
-      await awaitTransaction(tx)
-    }
-  }
-
-  private async reencryptInMemoryStores(
-    tables: Array<[string, TableDefinition]>,
-    oldKey: CryptoKey,
-    newKey: CryptoKey
-  ): Promise<void> {
-    if (!this.inMemoryStorage) return
-
-    for (const [tableName, def] of tables) {
-      const updates: Array<{ primaryKey: number | string; value: Record<string, unknown> }> = []
-
-      this.inMemoryStorage.openCursor(tableName, (cursor) => {
-        updates.push({ primaryKey: cursor.primaryKey, value: { ...(cursor.value as Record<string, unknown>) } })
-        cursor.continue()
-      })
-
-      for (const { primaryKey, value } of updates) {
+      // Crypto is async, so keep the transaction open while it runs
+      const reencrypted = await keepTransactionAlive(tx, tableName, Promise.all(rows.map(async value => {
         const decrypted = await this.decryptSensitiveFieldsWithKey(value, oldKey)
-        const reencrypted = await this.encryptSensitiveFieldsWithKey(decrypted, newKey)
-        this.inMemoryStorage.put(tableName, primaryKey, reencrypted)
-      }
+        return this.encryptSensitiveFieldsWithKey(decrypted, newKey)
+      })))
+      for (const value of reencrypted) void store.put(value)
+
+      await awaitTransaction(tx)
     }
   }
 
@@ -2971,27 +3017,27 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   }
 
   // Build IVF index for approximate nearest neighbor search
-  async buildIVFIndex(table: string, numCentroids: number = 16): Promise<void> {
+  async buildIVFIndex(table: string, numCentroids: number = 16, field?: string): Promise<void> {
     this.ensureDb()
     const def = this.ensureTable(table)
-    if (!def.vector) throw new Error(`Table ${table} has no vector configuration`)
+    const { key, config } = vectorSlot(table, def, field)
     
-    const tx = this.db!.transaction([vectorStoreName(table), ivfStoreName(table)], "readwrite")
-    const vStore = tx.objectStore(vectorStoreName(table))
-    const ivfStore = tx.objectStore(ivfStoreName(table))
+    const tx = this.db!.transaction([vectorStoreName(key), ivfStoreName(key)], "readwrite")
+    const vStore = tx.objectStore(vectorStoreName(key))
+    const ivfStore = tx.objectStore(ivfStoreName(key))
     
     // Collect all vectors
     const allVectors: { id: number; vector: Float32Array }[] = []
     await new Promise<void>((resolve, reject) => {
-      const req = vStore.openCursor()
+      const req = vStore.openCursor<StoredVector>()
       req.onsuccess = () => {
         const cursor = req.result
         if (!cursor) {
           resolve()
           return
         }
-        const { id, vector } = cursor.value
-        allVectors.push({ id, vector: new Float32Array(vector) })
+        const vector = this.storedVector(key, cursor.value)
+        if (vector) allVectors.push({ id: cursor.value.id, vector })
         cursor.continue()
       }
       req.onerror = () => reject(req.error)
@@ -3000,7 +3046,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     if (allVectors.length === 0) return
     
     // Simple k-means clustering for centroids
-    const dims = def.vector.dims
+    const dims = config.dims
     const centroids: Float32Array[] = []
     
     // Initialize centroids with random vectors
@@ -3076,22 +3122,113 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
         }))
       }
     }
-    
+    
+    await awaitTransaction(tx)
+  }
+
+  /**
+   * Build (or rebuild) the HNSW graph over every stored vector, with node
+   * levels capped below maxLayers. From then on inserts, updates and deletes
+   * maintain the graph, so it only needs building once.
+   */
+  async buildHNSWIndex(table: string, maxLayers: number = 16, efConstruction: number = 200, field?: string): Promise<void> {
+    this.ensureDb()
+    const def = this.ensureTable(table)
+    const { key } = vectorSlot(table, def, field)
+
+    const tx = this.db!.transaction([vectorStoreName(key), hnswStoreName(key)], "readwrite")
+    const vStore = tx.objectStore(vectorStoreName(key))
+    const hnswStore = tx.objectStore(hnswStoreName(key))
+    if (hnswStore.keyPath !== "key") {
+      throw new ColumnistDBError(`The HNSW store of ${table} uses the old per-layer layout; bump the version to replace it`, "LEGACY_INDEX")
+    }
+
+    // Vectors are read one at a time as they are inserted
+    const ids: number[] = []
+    await new Promise<void>((resolve, reject) => {
+      const req = vStore.openKeyCursor()
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor) {
+          resolve()
+          return
+        }
+        ids.push(cursor.primaryKey as number)
+        cursor.continue()
+      }
+      req.onerror = () => reject(req.error)
+    })
+
+    await requestToPromise(hnswStore.clear())
+    const meta = createHNSWMeta({ efConstruction, levelCap: Math.max(0, maxLayers - 1) })
+    const graph = this.hnswGraph(tx, key)
+    for (const id of ids) {
+      const entry = await requestToPromise<StoredVector | undefined>(vStore.get(id))
+      const vector = entry && this.storedVector(key, entry)
+      if (vector) await insertNode(graph, meta, id, vector)
+    }
+    await requestToPromise(hnswStore.put(meta))
+
+    await awaitTransaction(tx)
+  }
+
+  /**
+   * Drop the nodes of deleted vectors from the HNSW graph, relinking their
+   * neighbors. Runs by itself in the background once a tenth of the nodes
+   * are deleted.
+   */
+  async repairHNSWIndex(table: string, field?: string): Promise<void> {
+    this.ensureDb()
+    const def = this.ensureTable(table)
+    const { key } = vectorSlot(table, def, field)
+
+    const tx = this.db!.transaction([hnswStoreName(key), vectorStoreName(key)], "readwrite")
+    const hnswStore = tx.objectStore(hnswStoreName(key))
+    const meta = await this.readHNSWMeta(hnswStore)
+    if (meta && meta.tombstones > 0) {
+      const nodeIds: number[] = []
+      const tombstones: number[] = []
+      await new Promise<void>((resolve, reject) => {
+        const req = hnswStore.openCursor()
+        req.onsuccess = () => {
+          const cursor = req.result
+          if (!cursor) {
+            resolve()
+            return
+          }
+          const node = cursor.value as HNSWNode | HNSWMeta
+          if (node.key !== HNSW_META_KEY) {
+            nodeIds.push(node.key)
+            if ((node as HNSWNode).deleted) tombstones.push(node.key)
+          }
+          cursor.continue()
+        }
+        req.onerror = () => reject(req.error)
+      })
+      await repairGraph(this.hnswGraph(tx, key), meta, nodeIds, tombstones)
+      await requestToPromise(hnswStore.put(meta))
+    }
     await awaitTransaction(tx)
   }
 
-  // Build HNSW index for modern approximate nearest neighbor search
-  async buildHNSWIndex(table: string, maxLayers: number = 16, efConstruction: number = 200): Promise<void> {
+  /**
+   * Encode the stored vectors of a quantized table. pq tables first train
+   * their codebook on up to sampleSize vectors; until then they are searched
+   * unquantized. Run again to retrain after the data has changed a lot;
+   * without keepOriginals, retraining works from the decoded codes.
+   */
+  async quantizeVectors(table: string, options: { sampleSize?: number; field?: string } = {}): Promise<void> {
     this.ensureDb()
     const def = this.ensureTable(table)
-    if (!def.vector) throw new Error(`Table ${table} has no vector configuration`)
-
-    const tx = this.db!.transaction([vectorStoreName(table), hnswStoreName(table)], "readwrite")
-    const vStore = tx.objectStore(vectorStoreName(table))
-    const hnswStore = tx.objectStore(hnswStoreName(table))
-
-    // Collect all vectors
-    const allVectors: { id: number; vector: Float32Array }[] = []
+    const slot = vectorSlot(table, def, options.field)
+    const { key, config } = slot
+    if (!config.quantization) throw new Error(`Vector ${slot.name} of table ${table} has no quantization`)
+    const { type, subvectors } = quantizationOptions(config.quantization, config.dims)
+    const sampleSize = options.sampleSize ?? 10000
+
+    const tx = this.db!.transaction([vectorStoreName(key), META_SCHEMA_STORE], "readwrite")
+    const vStore = tx.objectStore(vectorStoreName(key))
+    const entries: { entry: StoredVector; vector: Float32Array }[] = []
     await new Promise<void>((resolve, reject) => {
       const req = vStore.openCursor()
       req.onsuccess = () => {
@@ -3100,125 +3237,52 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           resolve()
           return
         }
-        const { id, vector } = cursor.value
-        allVectors.push({ id, vector: new Float32Array(vector) })
+        const entry = cursor.value as StoredVector
+        const vector = this.storedVector(key, entry)
+        // Vectors of other dims wait for reembed()
+        if (vector && vector.length === config.dims) entries.push({ entry, vector })
         cursor.continue()
       }
       req.onerror = () => reject(req.error)
     })
 
-    if (allVectors.length === 0) return
-
-    // Simple HNSW implementation
-    const dims = def.vector.dims
-    const layers: Map<number, { id: number; vector: Float32Array; neighbors: Map<number, number> }>[] = []
-
-    // Initialize layers
-    for (let layer = 0; layer < maxLayers; layer++) {
-      layers.push(new Map())
-    }
-
-    // Insert vectors into HNSW graph
-    for (const { id, vector } of allVectors) {
-      const entryLayer = Math.floor(-Math.log(Math.random()) * (maxLayers / Math.log(allVectors.length)))
-
-      for (let layer = 0; layer <= entryLayer; layer++) {
-        const layerGraph = layers[layer]
-
-        if (layerGraph.size === 0) {
-          // First node in layer
-          layerGraph.set(id, { id, vector, neighbors: new Map() })
-        } else {
-          // Find nearest neighbors in current layer
-          const nearest = this.findHNSWNeighbors(layerGraph, vector, efConstruction)
-
-          // Add current node to layer
-          const newNode = { id, vector, neighbors: new Map() }
-          layerGraph.set(id, newNode)
-
-          // Connect to nearest neighbors
-          for (const neighborId of nearest) {
-            const neighbor = layerGraph.get(neighborId)
-            if (neighbor) {
-              const distance = this.euclideanDistance(vector, neighbor.vector)
-              newNode.neighbors.set(neighborId, distance)
-              neighbor.neighbors.set(id, distance)
-            }
-          }
-        }
+    let quantizer = this.quantizers.get(key)
+    if (type === "pq") {
+      if (entries.length === 0) {
+        await awaitTransaction(tx)
+        return
       }
-    }
-
-    // Store HNSW layers
-    for (let layer = 0; layer < layers.length; layer++) {
-      const layerData = layers[layer]
-      if (layerData.size > 0) {
-        const serializedLayer = {
-          layer,
-          nodes: Array.from(layerData.entries()).map(([id, node]) => ({
-            id,
-            vector: Array.from(node.vector),
-            neighbors: Array.from(node.neighbors.entries())
-          }))
+      // Reservoir sample, so every vector is equally likely to be picked
+      const samples: Float32Array[] = []
+      entries.forEach(({ vector }, i) => {
+        if (samples.length < sampleSize) samples.push(vector)
+        else {
+          const j = Math.floor(Math.random() * (i + 1))
+          if (j < sampleSize) samples[j] = vector
         }
-        await requestToPromise(hnswStore.put(serializedLayer))
-      }
+      })
+      const codebook = trainPQ(samples, config.dims, subvectors)
+      await requestToPromise(tx.objectStore(META_SCHEMA_STORE).put({ key: quantizerKeyFor(key), value: codebook }))
+      quantizer = createPQQuantizer(codebook)
     }
 
+    for (const { entry, vector } of entries) {
+      // int8 codes never go stale; pq codes do with every new codebook
+      if (type === "int8" && entry.quantized === "int8") continue
+      await requestToPromise(vStore.put(this.vectorRecord(slot, entry.id, vector, quantizer, entry.model)))
+    }
     await awaitTransaction(tx)
+    this.quantizers.set(key, quantizer!)
   }
 
-  // Find nearest neighbors using HNSW graph
-  private findHNSWNeighbors(
-    layerGraph: Map<number, { id: number; vector: Float32Array; neighbors: Map<number, number> }>,
-    query: Float32Array,
-    ef: number
-  ): number[] {
-    if (layerGraph.size === 0) return []
-
-    // Start from a random entry point
-    const entryPoints = Array.from(layerGraph.keys())
-    const startId = entryPoints[Math.floor(Math.random() * entryPoints.length)]
-
-    const visited = new Set<number>()
-    const candidates = new Set<number>([startId])
-    const results: { id: number; distance: number }[] = []
-
-    while (candidates.size > 0 && results.length < ef) {
-      const currentId = Array.from(candidates).reduce((best, id) => {
-        if (!visited.has(id)) {
-          const node = layerGraph.get(id)
-          if (node) {
-            const distance = this.euclideanDistance(query, node.vector)
-            if (!best || distance < best.distance) {
-              return { id, distance }
-            }
-          }
-        }
-        return best
-      }, null as { id: number; distance: number } | null)
-
-      if (!currentId) break
-
-      visited.add(currentId.id)
-      results.push(currentId)
-
-      // Add neighbors to candidates
-      const currentNode = layerGraph.get(currentId.id)
-      if (currentNode) {
-        for (const neighborId of currentNode.neighbors.keys()) {
-          if (!visited.has(neighborId)) {
-            candidates.add(neighborId)
-          }
-        }
-      }
-    }
-
-    // Sort by distance and return top results
-    return results
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, ef)
-      .map(r => r.id)
+  // Repair after the current write has committed, at most once at a time
+  private scheduleHNSWRepair(table: string, { name, key }: VectorSlot): void {
+    if (this.hnswRepairs.has(key)) return
+    const repair = new Promise(resolve => setTimeout(resolve, 0))
+      .then(() => this.repairHNSWIndex(table, name))
+      .catch(error => console.warn(`HNSW repair of ${key} failed:`, error))
+      .finally(() => this.hnswRepairs.delete(key))
+    this.hnswRepairs.set(key, repair)
   }
 
   // Cache vector for faster repeated queries
@@ -3237,9 +3301,9 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     this.cleanupVectorCache();
   }
 
-  // Get cached vector or compute and cache
-  private async getCachedVector(table: string, text: string): Promise<Float32Array> {
-    const cacheKey = `${table}:${text}`;
+  // Get cached vector or compute and cache, by vector key
+  private async getCachedVector(key: string, text: string): Promise<Float32Array> {
+    const cacheKey = `${key}:${text}`;
     const cached = this.vectorCache.get(cacheKey);
     if (cached) {
       // Update access time for LRU
@@ -3247,8 +3311,8 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       return cached.vector;
     }
 
-    const embedder = this.vectorEmbedders.get(table);
-    if (!embedder) throw new Error(`No embedder registered for table ${table}`);
+    const embedder = this.vectorEmbedders.get(key);
+    if (!embedder) throw new Error(`No embedder registered for ${key}`);
 
     const vector = await embedder(text);
     this.cacheVector(cacheKey, vector);
@@ -3259,104 +3323,153 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   async vectorSearchText<T = any>(
     table: string,
     queryText: string,
-    opts?: { metric?: "cosine" | "dot" | "euclidean"; limit?: number; where?: WhereCondition }
+    opts?: { metric?: "cosine" | "dot" | "euclidean"; limit?: number; where?: WhereCondition; field?: string; mmr?: MMROptions; rerank?: false | RerankOptions }
   ): Promise<(T & { id: number; score: number })[]> {
-    const vector = await this.getCachedVector(table, queryText);
-    return this.vectorSearch(table, vector, opts);
+    const { key } = vectorSlot(table, this.ensureTable(table), opts?.field);
+    const vector = await this.getCachedVector(key, queryText);
+    // The reranker scores against the query text
+    const rerank = opts?.rerank === false ? false : { ...opts?.rerank, query: opts?.rerank?.query ?? queryText };
+    return this.vectorSearch(table, vector, { ...opts, rerank });
   }
 
-  // Vector search using cosine similarity (default) or dot/euclidean
+  // Vector search using cosine similarity (default) or dot/euclidean, over
+  // the table's first vector or the one named by field. With mmr the best
+  // fetchK hits are diversified down to limit. With a registered reranker
+  // and rerank.query the hits are reranked against that text.
   async vectorSearch<T = any>(
     table: string,
     inputVector: Float32Array,
-    opts?: { metric?: "cosine" | "dot" | "euclidean"; limit?: number; where?: WhereCondition; useIVF?: boolean; useHNSW?: boolean }
+    opts?: {
+      metric?: "cosine" | "dot" | "euclidean"
+      limit?: number
+      where?: WhereCondition
+      useIVF?: boolean
+      useHNSW?: boolean
+      field?: string
+      mmr?: MMROptions
+      rerank?: false | RerankOptions
+    }
   ): Promise<(T & { id: number; score: number })[]> {
     this.ensureDb()
     const def = this.ensureTable(table)
-    if (!def.vector) throw new Error(`Table ${table} has no vector configuration`)
-    if (inputVector.length !== def.vector.dims) throw new Error(`Vector dimension mismatch. Expected ${def.vector.dims}`)
+    const slot = vectorSlot(table, def, opts?.field)
+    const { key, config } = slot
+    if (inputVector.length !== config.dims) throw new Error(`Vector dimension mismatch. Expected ${config.dims}`)
+    // While some vectors may be stale the indexes are skipped, and only the
+    // current vectors are scored
+    const mixed = !this.currentVectors.has(key)
+    let stale = 0
 
     const limit = opts?.limit ?? 50
-    const metric = opts?.metric ?? "cosine"
+    const reranking = this.rerankingFor(table, opts?.rerank, limit)
+    if (reranking) {
+      const hits = await this.vectorSearch<T>(table, inputVector, { ...opts, limit: reranking.candidates, rerank: false })
+      return this.rerankHits(reranking, hits, limit)
+    }
+    if (opts?.mmr) {
+      const { mmr, ...rest } = opts
+      const lambda = mmrLambda(mmr)
+      const hits = await this.vectorSearch<T>(table, inputVector, { ...rest, limit: Math.max(mmr.fetchK ?? limit * 4, limit) })
+      const vectors = await this.readVectors(key, hits.map(hit => hit.id))
+      // Relevance is the cosine similarity to the query, whatever the metric
+      const relevance = (hit: { id: number; score: number }) => {
+        const vector = vectors.get(hit.id)
+        return vector ? cosineSimilarity(inputVector, vector) : 0
+      }
+      return selectMMR(hits, relevance, hit => vectors.get(hit.id), limit, lambda)
+    }
+    const metric = opts?.metric ?? config.metric ?? "cosine"
     const useIVF = opts?.useIVF ?? false
     const useHNSW = opts?.useHNSW ?? true // Default to HNSW for better performance
 
-    const tx = this.db!.transaction([table, vectorStoreName(table), ivfStoreName(table), hnswStoreName(table)], "readonly")
-    const vStore = tx.objectStore(vectorStoreName(table))
-    const tStore = tx.objectStore(table)
-    const ivfStore = tx.objectStore(ivfStoreName(table))
-    const hnswStore = tx.objectStore(hnswStoreName(table))
+    const where = opts?.where && Object.keys(opts.where).length > 0 ? opts.where : undefined
 
     const inputNorm = metric === "cosine" ? norm(inputVector) : 1
-    const results: { id: number; score: number }[] = []
+    const scoreOf = (vector: ArrayLike<number>): number => {
+      const v = vector instanceof Float32Array ? vector : new Float32Array(vector)
+      if (metric === "dot") return dot(inputVector, v)
+      if (metric === "euclidean") return -euclideanDistance(inputVector, v)
+      return dot(inputVector, v) / (inputNorm * norm(v) || 1)
+    }
 
-    // Try HNSW search first for best performance
-    if (useHNSW) {
-      try {
-        // Load HNSW layers
-        const hnswLayers: Map<number, { id: number; vector: Float32Array; neighbors: Map<number, number> }>[] = []
-        await new Promise<void>((resolve, reject) => {
-          const req = hnswStore.openCursor()
-          req.onsuccess = () => {
-            const cursor = req.result
-            if (!cursor) {
-              resolve()
-              return
-            }
-            const { layer, nodes } = cursor.value
-            const layerGraph = new Map<number, { id: number; vector: Float32Array; neighbors: Map<number, number> }>()
-
-            for (const node of nodes) {
-              layerGraph.set(node.id, {
-                id: node.id,
-                vector: new Float32Array(node.vector),
-                neighbors: new Map(node.neighbors)
-              })
-            }
-            hnswLayers[layer] = layerGraph
-            cursor.continue()
-          }
-          req.onerror = () => reject(req.error)
-        })
+    // A filter an index narrows down to a few rows is applied first and its
+    // matches are scored exactly, instead of hoping the graph reaches them
+    const matching = where ? await this.prefilterIds(table, def, where) : null
 
-        // Search from top layer down
-        if (hnswLayers.length > 0) {
-          let entryPoints: number[] = []
-
-          // Start from top layer
-          for (let layer = hnswLayers.length - 1; layer >= 0; layer--) {
-            const layerGraph = hnswLayers[layer]
-            if (layerGraph && layerGraph.size > 0) {
-              if (entryPoints.length === 0) {
-                // Start from random point in top layer
-                const topLayerIds = Array.from(layerGraph.keys())
-                entryPoints = [topLayerIds[Math.floor(Math.random() * topLayerIds.length)]]
-              } else {
-                // Find nearest neighbors in current layer
-                const nearest = this.findHNSWNeighbors(layerGraph, inputVector, Math.min(10, limit * 2))
-                entryPoints = nearest.slice(0, Math.min(5, limit))
-              }
-            }
-          }
+    const tx = this.db!.transaction([table, vectorStoreName(key), ivfStoreName(key), hnswStoreName(key)], "readonly")
+    const vStore = tx.objectStore(vectorStoreName(key))
+    const tStore = tx.objectStore(table)
+    const ivfStore = tx.objectStore(ivfStoreName(key))
+    const hnswStore = tx.objectStore(hnswStoreName(key))
+
+    // Quantized vectors are scored by their codes; the best limit x rerank
+    // of them that pass the filter are then rescored with the originals, or
+    // the decoded codes when the originals were dropped
+    type Candidate = { id: number; score: number; original?: number[]; code?: QuantizedVector }
+    const quantizer = this.quantizers.get(key)
+    const scoreCode = quantizer?.scorer(inputVector, metric)
+    const rerank = quantizer ? quantizationOptions(config.quantization!, config.dims).rerank : 1
+    const candidate = (entry: StoredVector): Candidate | null => {
+      if (mixed && !this.isCurrentVector(slot, entry)) {
+        stale++
+        return null
+      }
+      if (scoreCode && entry.quantized === quantizer!.type) {
+        return { id: entry.id, score: scoreCode(entry as QuantizedVector), original: entry.vector, code: entry as QuantizedVector }
+      }
+      return entry.vector ? { id: entry.id, score: scoreOf(entry.vector) } : null
+    }
+
+    // Rows read while filtering, kept so candidates seen again after an
+    // expansion are not read and matched twice (null: missing or filtered out)
+    const rows = new Map<number, Record<string, unknown> | null>()
+    // Walk candidates best first, keeping those that pass where, until limit
+    const takeTop = async (scored: Candidate[]): Promise<(T & { id: number; score: number })[]> => {
+      const top: (T & { id: number; score: number })[] = []
+      for (const { id, score, original, code } of [...scored].sort((a, b) => b.score - a.score)) {
+        if (top.length >= limit * rerank) break
+        if (!rows.has(id)) {
+          const rec = await requestToPromise<Record<string, unknown> | undefined>(tStore.get(id))
+          const passes = rec !== undefined && (!where || this.matchesWhere(this.decodeRecordFromStorage({ ...rec, id }, def), where))
+          rows.set(id, passes ? rec! : null)
+        }
+        const rec = rows.get(id)
+        if (!rec) continue
+        const rescored = original ?? (rerank > 1 && code ? quantizer!.decode(code) : undefined)
+        top.push({ ...(rec as T), id, score: rescored ? scoreOf(rescored) : score })
+      }
+      return rerank > 1 ? top.sort((a, b) => b.score - a.score).slice(0, limit) : top
+    }
 
-          // Final search in bottom layer
-          const bottomLayer = hnswLayers[0]
-          if (bottomLayer && entryPoints.length > 0) {
-            const finalNeighbors = this.findHNSWNeighbors(bottomLayer, inputVector, limit * 3)
-
-            // Calculate scores for final neighbors
-            for (const id of finalNeighbors) {
-              const vecEntry = await requestToPromise(vStore.get(id))
-              if (vecEntry) {
-                const v = new Float32Array(vecEntry.vector)
-                let score = 0
-                if (metric === "cosine") score = dot(inputVector, v) / (inputNorm * norm(v) || 1)
-                else if (metric === "dot") score = dot(inputVector, v)
-                else if (metric === "euclidean") score = -euclideanDistance(inputVector, v)
-
-                results.push({ id, score })
-              }
+    if (matching) {
+      const scored: Candidate[] = []
+      for (const id of matching) {
+        const vecEntry = await requestToPromise<StoredVector | undefined>(vStore.get(id))
+        const scoredEntry = vecEntry && candidate(vecEntry)
+        if (scoredEntry) scored.push(scoredEntry)
+      }
+      return takeTop(scored)
+    }
+
+    let out: (T & { id: number; score: number })[] = []
+
+    // Try HNSW search first for best performance
+    if (useHNSW && !mixed) {
+      try {
+        const meta = await this.readHNSWMeta(hnswStore)
+        if (meta && meta.entryPoint !== null) {
+          // Widen ef until enough of the neighbors pass the filter or the
+          // search has reached every node
+          const graph = this.hnswGraph(tx, key)
+          for (let ef = limit * 3; ; ef *= 2) {
+            const scored: Candidate[] = []
+            for (const node of await searchGraph(graph, meta, inputVector, ef, ef)) {
+              const vecEntry = await requestToPromise<StoredVector | undefined>(vStore.get(node.key))
+              const scoredEntry = vecEntry && candidate(vecEntry)
+              if (scoredEntry) scored.push(scoredEntry)
             }
+            out = await takeTop(scored)
+            if (out.length >= limit || ef >= meta.nodes) break
           }
         }
       } catch (error) {
@@ -3365,13 +3478,13 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     }
 
     // Fall back to IVF if HNSW is disabled or failed
-    if (results.length === 0 && useIVF) {
+    if (out.length < limit && useIVF && !mixed) {
       // Use IVF index for approximate nearest neighbor search
       try {
         // Find nearest centroids
         const centroidDistances: { centroidId: number; distance: number }[] = []
         await new Promise<void>((resolve, reject) => {
-          const req = ivfStore.openCursor()
+          const req = ivfStore.openCursor<IVFCluster>()
           req.onsuccess = () => {
             const cursor = req.result
             if (!cursor) {
@@ -3386,35 +3499,21 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           }
           req.onerror = () => reject(req.error)
         })
-
-        // Sort centroids by distance and take top 3
         centroidDistances.sort((a, b) => a.distance - b.distance)
-        const nearestCentroids = centroidDistances.slice(0, 3)
-
-        // Search only in nearest clusters
-        for (const { centroidId } of nearestCentroids) {
-          const ivfEntry = await requestToPromise(ivfStore.get(centroidId))
-          if (ivfEntry && ivfEntry.vectorIds) {
-            for (const id of ivfEntry.vectorIds) {
-              const vecEntry = await requestToPromise(vStore.get(id))
-              if (vecEntry) {
-                const v = new Float32Array(vecEntry.vector)
-                let score = 0
-                if (metric === "cosine") score = dot(inputVector, v) / (inputNorm * norm(v) || 1)
-                else if (metric === "dot") score = dot(inputVector, v)
-                else if (metric === "euclidean") score = -euclideanDistance(inputVector, v)
-
-                results.push({ id, score })
-                
-                // Early termination if we have enough candidates
-                if (results.length >= limit * 2) {
-                  break
-                }
-              }
-            }
+
+        // Probe the 3 nearest clusters, then one more at a time until enough
+        // of their vectors pass the filter
+        const scored: Candidate[] = []
+        for (let probe = 0; probe < centroidDistances.length; probe++) {
+          const ivfEntry = await requestToPromise<IVFCluster | undefined>(ivfStore.get(centroidDistances[probe].centroidId))
+          for (const id of ivfEntry?.vectorIds ?? []) {
+            const vecEntry = await requestToPromise<StoredVector | undefined>(vStore.get(id))
+            const scoredEntry = vecEntry && candidate(vecEntry)
+            if (scoredEntry) scored.push(scoredEntry)
           }
-          if (results.length >= limit * 2) {
-            break
+          if (probe >= 2 || probe === centroidDistances.length - 1) {
+            out = await takeTop(scored)
+            if (out.length >= limit) break
           }
         }
       } catch {
@@ -3423,32 +3522,20 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       }
     }
 
-    // Fallback to full scan if both HNSW and IVF are disabled or failed
-    if (results.length === 0 && !useHNSW && !useIVF) {
+    // Score every vector when no index is available, or when the filter left
+    // too few of the approximate neighbors
+    if (out.length < limit) {
+      const scored: Candidate[] = []
       await new Promise<void>((resolve, reject) => {
         const req = vStore.openCursor()
-        req.onsuccess = async () => {
+        req.onsuccess = () => {
           const cursor = req.result
           if (!cursor) {
             resolve()
             return
           }
-          const { id, vector } = cursor.value as { id: number; vector: number[] }
-          const v = new Float32Array(vector)
-          let score = 0
-          if (metric === "cosine") score = dot(inputVector, v) / (inputNorm * norm(v) || 1)
-          else if (metric === "dot") score = dot(inputVector, v)
-          else if (metric === "euclidean") score = -euclideanDistance(inputVector, v)
-
-          results.push({ id, score })
-          
-          // Early termination for large datasets - stop after collecting 2x limit
-          if (results.length >= limit * 3) {
-            console.log("Early termination at", results.length, "vectors")
-            resolve()
-            return
-          }
-          
+          const scoredEntry = candidate(cursor.value as StoredVector)
+          if (scoredEntry) scored.push(scoredEntry)
           cursor.continue()
         }
         req.onerror = () => {
@@ -3456,42 +3543,123 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           reject(req.error)
         }
       })
+      if (stale === 0) this.currentVectors.add(key)
+      out = await takeTop(scored)
     }
 
-    // Fetch records in batches, apply optional where, sort and limit
-    const out: (T & { id: number; score: number })[] = []
+    return out
+  }
 
-    // Process results in batches for better performance
-    const batchSize = 50
-    for (let i = 0; i < results.length; i += batchSize) {
-      const batchResults = results.slice(i, i + batchSize)
+  // Ids of the rows matching where when an index narrows them to at most
+  // PREFILTER_MAX_MATCHES; null when the filter needs a full scan or is not
+  // selective enough to be worth scoring exhaustively
+  private async prefilterIds(table: string, def: TableDefinition, where: WhereCondition): Promise<number[] | null> {
+    const plan = planQuery(table, def, where)
+    if (plan.strategy === "fullScan") return null
 
-      // Use a single transaction for each batch
-      const batchTx = this.db!.transaction([table], "readonly")
-      const batchStore = batchTx.objectStore(table)
+    const ids: number[] = []
+    let selective = true
+    await this.scanPlan(table, def, plan, where, record => {
+      ids.push(record.id as number)
+      selective = ids.length <= PREFILTER_MAX_MATCHES
+      return selective
+    })
+    return selective ? ids : null
+  }
 
-      // Process all records in the current batch
-      for (const { id, score } of batchResults) {
-        const rec: any = await requestToPromise(batchStore.get(id))
-        if (!rec) continue
-        // Optional where filters
-        if (opts?.where && !this.matchesWhere(rec, opts.where)) continue
-        out.push({ ...(rec as T), id, score })
+  /**
+   * Rank records by full-text relevance and vector similarity at once. Both
+   * rankings are filtered by where, cut to the candidates, fused (by rank
+   * with "rrf", by normalized score with "linear") and cut to limit.
+   */
+  async hybridSearch<T = any>(table: string, options: HybridSearchOptions): Promise<HybridHit<T>[]> {
+    this.ensureDb()
+    const def = this.ensureTable(table)
+    const { text, where, fusion = "rrf", weights = {} } = options
+    const limit = options.limit ?? 50
+    const reranking = this.rerankingFor(table, options.rerank, limit, text?.trim() ? text : options.vectorText)
+    if (reranking) {
+      const hits = await this.hybridSearch<T>(table, { ...options, limit: reranking.candidates, rerank: false })
+      return this.rerankHits(reranking, hits, limit)
+    }
+    const candidates = options.candidates ?? limit * 4
+    const queryVector = options.vector ??
+      (options.vectorText !== undefined ? await this.getCachedVector(vectorSlot(table, def, options.field).key, options.vectorText) : undefined)
+    if (!text?.trim() && !queryVector) {
+      throw new Error("hybridSearch needs text, vector or vectorText")
+    }
+
+    const [textHits, vectorHits] = await Promise.all([
+      text?.trim() ? this.searchOptimized<T>(text, { table, limit: candidates }, where) : Promise.resolve([]),
+      queryVector ? this.vectorSearch<T>(table, queryVector, {
+        metric: options.metric,
+        limit: candidates,
+        where,
+        useHNSW: options.useHNSW,
+        useIVF: options.useIVF,
+        field: options.field
+      }) : Promise.resolve([])
+    ])
+
+    const fused = fuseRankings([
+      { hits: textHits, weight: weights.text ?? 1 },
+      { hits: vectorHits, weight: weights.vector ?? 1 }
+    ], fusion, options.rrfK)
+
+    // Text hits come decoded; vectorSearch returns rows as stored
+    const rows = new Map<number, Record<string, unknown>>()
+    for (const hit of vectorHits) {
+      const rec: Record<string, unknown> = { ...hit }
+      for (const [col, type] of Object.entries(def.columns)) {
+        if (typeof type === "string") rec[col] = fromISO(type, rec[col])
       }
-
-      // Wait for batch transaction to complete before starting next
-      await awaitTransaction(batchTx)
-    }
-
+      rows.set(hit.id, rec)
+    }
+    for (const hit of textHits) rows.set(hit.id, hit)
+
+    const textScores = new Map(textHits.map(hit => [hit.id, hit.score]))
+    const vectorScores = new Map(vectorHits.map(hit => [hit.id, hit.score]))
+    const out = Array.from(rows, ([id, row]) => ({
+      ...row,
+      id,
+      score: fused.get(id) ?? 0,
+      textScore: textScores.get(id),
+      vectorScore: vectorScores.get(id)
+    }) as HybridHit<T>)
     out.sort((a, b) => b.score - a.score)
+    if (options.mmr) {
+      const lambda = mmrLambda(options.mmr)
+      const top = out.slice(0, Math.max(options.mmr.fetchK ?? candidates, limit))
+      // Without a vector the hits can't be compared and keep their ranking
+      const vectors = vectorSlots(table, def).length > 0
+        ? await this.readVectors(vectorSlot(table, def, options.field).key, top.map(hit => hit.id))
+        : new Map<number, Float32Array>()
+      // Fused scores relative to the best one stand in for relevance
+      const best = top[0]?.score || 1
+      return selectMMR(top, hit => hit.score / best, hit => vectors.get(hit.id), limit, lambda)
+    }
     return out.slice(0, limit)
   }
 
+  // Stored embeddings of rows of a vector, for those that have one
+  private async readVectors(key: string, ids: number[]): Promise<Map<number, Float32Array>> {
+    const tx = this.db!.transaction([vectorStoreName(key)], "readonly")
+    const store = tx.objectStore(vectorStoreName(key))
+    const vectors = new Map<number, Float32Array>()
+    for (const id of ids) {
+      const entry = await requestToPromise<StoredVector | undefined>(store.get(id))
+      const vector = entry && this.storedVector(key, entry)
+      if (vector) vectors.set(id, vector)
+    }
+    return vectors
+  }
+
   // Auto-build the best available vector index based on dataset size
-  async buildOptimalVectorIndex(table: string): Promise<void> {
+  async buildOptimalVectorIndex(table: string, field?: string): Promise<void> {
     this.ensureDb()
     const def = this.ensureTable(table)
-    if (!def.vector) throw new Error(`Table ${table} has no vector configuration`)
+    // Throws for tables without the vector
+    vectorSlot(table, def, field)
 
     // Check dataset size
     const stats = await this.getStats(table)
@@ -3508,39 +3676,60 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     if (count <= 1000) {
       // Small dataset - use IVF for simplicity
       console.log('Using IVF index for small dataset')
-      await this.buildIVFIndex(table, Math.min(16, Math.ceil(count / 10)))
+      await this.buildIVFIndex(table, Math.min(16, Math.ceil(count / 10)), field)
     } else if (count <= 10000) {
       // Medium dataset - use HNSW for good performance
       console.log('Using HNSW index for medium dataset')
-      await this.buildHNSWIndex(table, Math.min(16, Math.ceil(Math.log2(count))))
+      await this.buildHNSWIndex(table, Math.min(16, Math.ceil(Math.log2(count))), undefined, field)
     } else {
       // Large dataset - use HNSW with optimized parameters
       console.log('Using optimized HNSW index for large dataset')
-      await this.buildHNSWIndex(table, Math.min(32, Math.ceil(Math.log2(count))), 400)
+      await this.buildHNSWIndex(table, Math.min(32, Math.ceil(Math.log2(count))), 400, field)
     }
 
     console.log(`Vector index built successfully for table ${table}`)
   }
 
-  // Get vector search performance statistics
-  async getVectorSearchStats(table: string): Promise<{
+  // Get vector search performance statistics of a table's first vector, or
+  // the one named by field
+  async getVectorSearchStats(table: string, field?: string): Promise<{
     totalVectors: number
     hasIVFIndex: boolean
     hasHNSWIndex: boolean
     indexSize: number
+    quantization: "int8" | "pq" | null
+    // Float32 bytes of the vectors over the bytes stored for them: codes,
+    // kept originals and the copies deleted HNSW nodes keep
+    compressionRatio: number
+    quantizedVectors: number
+    // Model of the registered embedder, when it names one
+    model: string | null
+    // Vectors of another model or dims, left out of searches until reembed()
+    staleVectors: number
+    // Progress of a reembed() that has not finished
+    reembedding: ReembedProgress | null
     recommendation: string
   }> {
     this.ensureDb()
     const def = this.ensureTable(table)
-    if (!def.vector) throw new Error(`Table ${table} has no vector configuration`)
-
-    const tx = this.db!.transaction([vectorStoreName(table), ivfStoreName(table), hnswStoreName(table)], "readonly")
-    const vStore = tx.objectStore(vectorStoreName(table))
-    const ivfStore = tx.objectStore(ivfStoreName(table))
-    const hnswStore = tx.objectStore(hnswStoreName(table))
+    const slot = vectorSlot(table, def, field)
+    const { key, config } = slot
+
+    const tx = this.db!.transaction([vectorStoreName(key), ivfStoreName(key), hnswStoreName(key), META_SCHEMA_STORE], "readonly")
+    const vStore = tx.objectStore(vectorStoreName(key))
+    const ivfStore = tx.objectStore(ivfStoreName(key))
+    const hnswStore = tx.objectStore(hnswStoreName(key))
+    const reembedding = await requestToPromise<{ key: string; value: ReembedProgress } | undefined>(
+      tx.objectStore(META_SCHEMA_STORE).get(reembedKeyFor(key))
+    )
 
-    // Count vectors
+    // Count vectors, those stored as codes and those gone stale, and the
+    // bytes they take
+    const quantizer = this.quantizers.get(key)
     let totalVectors = 0
+    let quantizedVectors = 0
+    let staleVectors = 0
+    let storedBytes = 0
     await new Promise<void>((resolve, reject) => {
       const req = vStore.openCursor()
       req.onsuccess = () => {
@@ -3549,7 +3738,14 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
           resolve()
           return
         }
+        const entry = cursor.value as StoredVector
         totalVectors++
+        if (quantizer && entry.quantized === quantizer.type) {
+          quantizedVectors++
+          storedBytes += quantizer.codeBytes
+        }
+        storedBytes += (entry.vector?.length ?? 0) * 4
+        if (!this.isCurrentVector(slot, entry)) staleVectors++
         cursor.continue()
       }
       req.onerror = () => reject(req.error)
@@ -3564,11 +3760,15 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       hasIVFIndex = false
     }
 
-    // Check for HNSW index
+    // Check for HNSW index. Deleted nodes keep a copy of their vector until
+    // the repair drops them.
     let hasHNSWIndex = false
     try {
-      const hnswCount = await requestToPromise(hnswStore.count())
-      hasHNSWIndex = hnswCount > 0
+      const nodes = await requestToPromise<(HNSWNode | HNSWMeta)[]>(hnswStore.getAll())
+      hasHNSWIndex = nodes.length > 0
+      for (const node of nodes) {
+        if (node.key !== HNSW_META_KEY) storedBytes += ((node as HNSWNode).vector?.length ?? 0) * 4
+      }
     } catch {
       hasHNSWIndex = false
     }
@@ -3595,6 +3795,12 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       hasIVFIndex,
       hasHNSWIndex,
       indexSize,
+      quantization: config.quantization ? quantizationOptions(config.quantization, config.dims).type : null,
+      compressionRatio: storedBytes > 0 ? (totalVectors * config.dims * 4) / storedBytes : 1,
+      quantizedVectors,
+      model: this.embedderModels.get(key) ?? null,
+      staleVectors,
+      reembedding: reembedding?.value ?? null,
       recommendation
     }
   }
@@ -3619,127 +3825,302 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       this.ensureTable(table)
       allStores.add(table)
       allStores.add(indexStoreName(table))
-      if (this.schema[table].vector) allStores.add(vectorStoreName(table))
+      for (const name of vectorStoreNames(table, this.schema[table])) allStores.add(name)
     }
     const tx = this.db!.transaction(Array.from(allStores), "readwrite")
+    // Embeddings of rows that came without a vector, run once committed
+    const embeddings: EmbeddingRequest[] = []
     for (const [table, rows] of Object.entries(data)) {
       const def = this.ensureTable(table)
       const store = tx.objectStore(table)
       const ii = tx.objectStore(indexStoreName(table))
-      const vStore = def.vector ? tx.objectStore(vectorStoreName(table)) : null
+      const slots = vectorSlots(table, def)
 
       if (mode === "replace") {
         await requestToPromise(store.clear())
         await requestToPromise(ii.clear())
-        if (vStore) await requestToPromise(vStore.clear())
+        for (const { key } of slots) {
+          await requestToPromise(tx.objectStore(vectorStoreName(key)).clear())
+          await this.emptyVectorIndexes(tx, key)
+        }
       }
 
       for (const row of rows as any[]) {
         const { id, ...rest } = row
+        const previous = mode === "merge" && id !== undefined && id !== null
+          ? await requestToPromise<Record<string, unknown> | undefined>(store.get(id))
+          : undefined
         const insertRes = await requestToPromise(store.put({ ...rest, id }))
         const assignedId = (insertRes as any) ?? id
         // Rebuild text index
-        const searchable = (def.searchableFields && def.searchableFields.length > 0)
-          ? def.searchableFields
-          : Object.entries(def.columns).filter(([, t]) => t === "string").map(([name]) => name)
-        const tokenSet = new Set<string>()
-        for (const f of searchable) {
-          const raw = (row as any)[f]
-          if (typeof raw === "string") for (const t of tokenize(raw)) tokenSet.add(t)
-        }
-        for (const token of tokenSet) {
-          const existing = await requestToPromise<{ token: string; ids: number[] } | undefined>(ii.get(token))
-          if (existing) {
-            if (!existing.ids.includes(assignedId)) existing.ids.push(assignedId)
-            await requestToPromise(ii.put(existing))
-          } else {
-            await requestToPromise(ii.put({ token, ids: [assignedId] }))
-          }
-        }
-        // Restore vector if present in row
-        if (vStore && (row as any).vector && Array.isArray((row as any).vector)) {
-          await requestToPromise(vStore.put({ id: assignedId, vector: (row as any).vector }))
+        await this.reindexText(tx, table, def, assignedId, previous ?? null, row)
+        // Restore the first vector if present in row, and embed the others
+        const [slot] = slots
+        const restored = slot && (row as any).vector && Array.isArray((row as any).vector)
+        if (restored) {
+          await requestToPromise(tx.objectStore(vectorStoreName(slot.key)).put(this.vectorRecord(slot, assignedId, (row as any).vector)))
+          await this.indexVector(tx, slot.key, assignedId, (row as any).vector)
         }
+        embeddings.push(...await this.planEmbeddings(tx, table, restored ? slots.slice(1) : slots, assignedId, row))
       }
     }
     await awaitTransaction(tx)
+    for (const job of embeddings) this.embeddingQueue.enqueue(job)
   }
 
-  // Keyset pagination returning a cursor
-  async findPage<T = any>(options: FindOptions & { cursor?: string }): Promise<{ data: (T & { id: number })[]; nextCursor: string | null }> {
+  /**
+   * Keyset pagination. Each cursor records the sort value and primary key of
+   * the row a page ended on (and its index key when read from an index), so
+   * pages neither skip nor repeat rows when others are inserted or removed.
+   * Pass nextCursor to continue and prevCursor to page back.
+   */
+  async findPage<T = any>(options: FindPageOptions): Promise<PageResult<T & { id: number }>> {
+    this.ensureDb()
+    const tableName = options.table || DEFAULT_TABLE
+    const def = this.ensureTable(tableName)
+    const pk = def.primaryKey || "id"
     const limit = options.limit || 50
-    let results = await this.find<T>(options)
+    const where = options.where || {}
+
+    let position: PageCursor | null = null
     if (options.cursor) {
-      const cursor = decodeCursor<{ lastId: number; lastValue?: unknown }>(options.cursor)
-      if (cursor) {
-        results = results.filter(r => r.id > cursor.lastId)
+      position = decodeCursor<PageCursor>(options.cursor)
+      if (!position || position.lastId === undefined) {
+        throw new ColumnistDBError("Invalid page cursor", "INVALID_CURSOR")
       }
+      position = {
+        ...position,
+        lastValue: decodeCursorValue(position.lastValue),
+        key: decodeCursorValue(position.key)
+      }
+    }
+    const backward = position?.backward === true
+
+    // Rows are ordered by the sort field with the primary key breaking ties,
+    // so every row has a distinct position
+    const order = parseOrderBy(options.orderBy || pk)
+    const orderField = order.field || pk
+    const plan = planQuery(tableName, def, where, options.orderBy || pk)
+
+    // Read one row beyond the page to learn whether another page follows
+    let rows: { record: T & { id: number }; key?: unknown }[]
+    let facets: FacetResults | undefined
+    if (plan.orderSatisfied && plan.ranges.length <= 1 && (!position || position.key !== undefined)) {
+      rows = await this.scanPage<T>(tableName, def, plan, where, position, backward, limit + 1)
+      // The page scan stops early, so facets take a pass over every match
+      if (options.facets) {
+        const counter = createFacetCounter(options.facets)
+        await this.scanPlan(tableName, def, planQuery(tableName, def, where), where, record => {
+          counter.add(record)
+          return true
+        })
+        facets = counter.results()
+      }
+    } else {
+      const sign = order.direction === "desc" ? -1 : 1
+      const comparePositions = (a: [unknown, unknown], b: [unknown, unknown]) =>
+        sign * (compareValues(a[0], b[0]) || compareValues(a[1], b[1]))
+      const positionOf = (row: Record<string, unknown>): [unknown, unknown] => [getFieldValue(row, orderField), row[pk]]
+
+      const all = await this.find<T>({ table: tableName, where, limit: Number.MAX_SAFE_INTEGER, facets: options.facets })
+      facets = all.facets
+      all.sort((a, b) => comparePositions(positionOf(a), positionOf(b)))
+      let candidates = all
+      if (position) {
+        const at: [unknown, unknown] = [position.lastValue, position.lastId]
+        candidates = all.filter(row => {
+          const comparison = comparePositions(positionOf(row), at)
+          return backward ? comparison < 0 : comparison > 0
+        })
+      }
+      if (backward) candidates = candidates.slice(Math.max(0, candidates.length - limit - 1)).reverse()
+      rows = candidates.slice(0, limit + 1).map(record => ({ record }))
+    }
+
+    const hasMore = rows.length > limit
+    const page = rows.slice(0, limit)
+    if (backward) page.reverse()
+
+    const cursorFor = (row: { record: T & { id: number }; key?: unknown } | undefined, towardsStart: boolean) => {
+      if (!row) return null
+      const record = row.record as Record<string, unknown>
+      return encodeCursor({
+        lastValue: encodeCursorValue(getFieldValue(record, orderField)),
+        lastId: record[pk],
+        key: row.key === undefined ? undefined : encodeCursorValue(row.key),
+        ...(towardsStart ? { backward: true } : {})
+      })
     }
-    const page = results.slice(0, limit)
+
+    // Moving forward there is a previous page whenever we started from a
+    // cursor; moving backward the page we came from is always next
+    const first = page[0]
     const last = page[page.length - 1]
-    const nextCursor = last ? encodeCursor({ lastId: last.id }) : null
-    return { data: page, nextCursor }
+    return {
+      data: page.map(row => row.record),
+      nextCursor: (backward ? page.length > 0 : hasMore) ? cursorFor(last, false) : null,
+      prevCursor: (backward ? hasMore : position !== null) ? cursorFor(first, true) : null,
+      ...(facets ? { facets } : {})
+    }
+  }
+
+  // Read up to `count` rows from the position of a page cursor along an
+  // index whose order satisfies the query (reversed when paging backward)
+  private async scanPage<T>(
+    tableName: string,
+    def: TableDefinition,
+    plan: QueryPlan,
+    where: WhereCondition,
+    position: PageCursor | null,
+    backward: boolean,
+    count: number
+  ): Promise<{ record: T & { id: number }; key?: unknown }[]> {
+    // Check authentication with rate limiting
+    if (!this.checkAuthWithRateLimit('read', tableName)) {
+      throw new Error('Read operation not authorized')
+    }
+
+    const direction = backward ? (plan.direction === "next" ? "prev" : "next") : plan.direction
+    const range = plan.ranges[0] ?? null
+    const ranges = position ? [boundsFrom(range, position.key, direction, (a, b) => this.engine.cmp(a, b))] : plan.ranges
+    const rows: { record: T & { id: number }; key?: unknown }[] = []
+
+    await this.scanPlan(tableName, def, { ...plan, ranges, direction }, where, (record, key, primaryKey) => {
+      // The range starts at the cursor's key inclusively; skip rows sharing
+      // that key up to and including the cursor row itself
+      if (position && this.engine.cmp(key, position.key) === 0) {
+        const byPrimaryKey = this.engine.cmp(primaryKey, position.lastId)
+        if (direction === "next" ? byPrimaryKey <= 0 : byPrimaryKey >= 0) return true
+      }
+      rows.push({ record: record as T & { id: number }, key })
+      return rows.length < count
+    })
+    return rows
   }
 
-  async transaction(work: (tx: { insert: <T extends Record<string, unknown>>(record: T, table?: string) => Promise<InsertResult> }) => Promise<void>): Promise<void> {
+  /**
+   * Run several reads and writes atomically. Writes go through the same
+   * validation, encryption, encoding and indexing as the top-level methods,
+   * everything is rolled back if work throws, and subscribers and sync only
+   * see the changes once they have committed.
+   *
+   * Use only the handle inside work: the storage engine commits a transaction
+   * as soon as it sits idle, so awaiting unrelated async work (or calling the
+   * top-level methods) from the callback is not supported.
+   */
+  async transaction<R = void>(work: (tx: TransactionHandle) => Promise<R>): Promise<R> {
     this.ensureDb()
+    const deferred: PendingChange[] = []
+
     // We open a readwrite transaction across all current stores for simplicity
-    const storeNames = this.allStoreNamesForTx()
-    const tx = this.db!.transaction(storeNames, "readwrite")
-    const insert = async <T extends Record<string, unknown>>(record: T, table?: string) => {
-      // Re-implement insert logic but using provided tx
+    const tx = this.db!.transaction(this.allStoreNamesForTx(), "readwrite")
+    const committed = awaitTransaction(tx)
+    // Failed requests abort the transaction before work has a chance to see it
+    committed.catch(() => undefined)
+
+    let result: R
+    try {
+      result = await work(this.transactionHandle(deferred, tx))
+    } catch (error) {
+      try {
+        tx.abort()
+      } catch {
+        // Already aborted by the failing request
+      }
+      await committed.catch(() => undefined)
+      throw error
+    }
+    await committed
+    this.emitChanges(deferred)
+    return result
+  }
+
+  // Operations for transaction(), all issued on tx
+  private transactionHandle(deferred: PendingChange[], tx: StorageTransaction): TransactionHandle {
+    const get = async <T = unknown>(id: number | string, table?: string): Promise<(T & { id: number }) | undefined> => {
       const tableName = table || DEFAULT_TABLE
       const def = this.ensureTable(tableName)
-      const normalized: Record<string, unknown> = {}
-      for (const [k, v] of Object.entries(record)) {
-        const colType = def.columns[k]
-        normalized[k] = colType === "date" ? toISO(v) : v
+      if (!this.checkAuthWithRateLimit('read', tableName)) {
+        throw new Error('Read operation not authorized')
       }
 
-      const store = tx.objectStore(tableName)
-      const id = await requestToPromise(store.add(normalized as any)) as unknown as number
-
-      // Update inverted index
-      const searchable = (def.searchableFields && def.searchableFields.length > 0)
-        ? def.searchableFields
-        : Object.entries(def.columns).filter(([, t]) => t === "string").map(([name]) => name)
-      const iiStore = tx.objectStore(indexStoreName(tableName))
-      const tokens = new Set<string>()
-      for (const field of searchable) {
-        const raw = (record as any)[field]
-        if (typeof raw === "string") {
-          for (const tok of tokenize(raw)) tokens.add(tok)
-        }
+      const raw = await requestToPromise<any>(tx.objectStore(tableName).get(id))
+      if (!raw) return undefined
+      const record = { ...raw, id: typeof id === "number" ? id : raw.id }
+
+      // Decrypt sensitive fields
+      const decryptedRecord = this.encryptionKey
+        ? await keepTransactionAlive(tx, tableName, this.decryptSensitiveFields(record, def))
+        : await this.decryptSensitiveFields(record, def)
+      // Decode from storage format using codec if available
+      return this.decodeRecordFromStorage(decryptedRecord, def) as T & { id: number }
+    }
+
+    const find = async <T = unknown>(options: FindOptions = {}): Promise<(T & { id: number })[]> => {
+      const tableName = options.table || DEFAULT_TABLE
+      const def = this.ensureTable(tableName)
+      if (!this.checkAuthWithRateLimit('read', tableName)) {
+        throw new Error('Read operation not authorized')
       }
-      for (const token of tokens) {
-        const existing = await requestToPromise<{ token: string; ids: number[] } | undefined>(iiStore.get(token))
-        if (existing) {
-          if (!existing.ids.includes(id)) existing.ids.push(id)
-          await requestToPromise(iiStore.put(existing))
-        } else {
-          await requestToPromise(iiStore.put({ token, ids: [id] }))
-        }
+      return this.findIndexed<T>(options, tableName, def, tx)
+    }
+
+    const insert = async <T extends Record<string, unknown>>(record: T, table?: string): Promise<InsertResult> => {
+      const tableName = table || DEFAULT_TABLE
+      const def = this.ensureTable(tableName)
+      if (!this.checkAuthWithRateLimit('insert', tableName, record)) {
+        throw new Error('Insert operation not authorized')
       }
 
-      // Update stats
-      const statsStore = tx.objectStore(META_STATS_STORE)
-      const key = statsKeyFor(tableName)
-      const prev = await requestToPromise<{ key: string; value: TableStats } | undefined>(statsStore.get(key))
-      const bytes = JSON.stringify(normalized).length
-      const nextStats: TableStats = {
-        count: (prev?.value.count ?? 0) + 1,
-        totalBytes: (prev?.value.totalBytes ?? 0) + bytes,
+      const normalized = await keepTransactionAlive(tx, tableName, this.prepareInsert(record, def))
+      const { id, change } = await this.applyInsert(tx, record, normalized, tableName, def)
+      this.emitChanges([change], deferred)
+      return { id }
+    }
+
+    const update = async <T extends Record<string, unknown>>(id: number, updates: Partial<T>, table?: string): Promise<void> => {
+      const tableName = table || DEFAULT_TABLE
+      const def = this.ensureTable(tableName)
+      if (!this.checkAuthWithRateLimit('update', tableName, { id, ...updates })) {
+        throw new Error('Update operation not authorized')
       }
-      await requestToPromise(statsStore.put({ key, value: nextStats }))
 
-      // Notify subscribers after outer transaction completes
-      queueMicrotask(() => this.notify(tableName, { table: tableName, type: "insert", record: { ...(record as any), id } }))
+      const normalizedUpdates = await keepTransactionAlive(tx, tableName, this.prepareUpdate(updates as Record<string, unknown>, def))
+      const change = await this.applyUpdate(tx, id, updates as Record<string, unknown>, normalizedUpdates, tableName, def)
+      this.emitChanges([change], deferred)
+    }
 
-      return { id }
+    const remove = async (id: number, table?: string): Promise<void> => {
+      const tableName = table || DEFAULT_TABLE
+      const def = this.ensureTable(tableName)
+      if (!this.checkAuthWithRateLimit('delete', tableName, { id })) {
+        throw new Error('Delete operation not authorized')
+      }
+
+      const change = await this.applyDelete(tx, id, tableName, def)
+      this.emitChanges([change], deferred)
     }
 
-    await work({ insert })
-    await awaitTransaction(tx)
+    const upsert = async <T extends Record<string, unknown>>(record: T, table?: string): Promise<InsertResult> => {
+      const tableName = table || DEFAULT_TABLE
+      const def = this.ensureTable(tableName)
+      const pkField = def.primaryKey || "id"
+      const pkValue = (record as any)[pkField]
+
+      // No primary key provided, insert new record
+      if (pkValue === undefined || pkValue === null) return insert(record, tableName)
+
+      const existing = await requestToPromise(tx.objectStore(tableName).get(pkValue))
+      if (!existing) return insert(record, tableName)
+
+      // Remove PK from updates
+      const updates: Record<string, unknown> = { ...record }
+      delete updates[pkField]
+      await update(pkValue, updates as Partial<T>, tableName)
+      return { id: pkValue }
+    }
+
+    return { get, find, insert, update, upsert, delete: remove }
   }
 
   async getStats(table?: string): Promise<
@@ -3909,6 +4290,20 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   }
 
   // Internal helpers
+  // Deliver change notifications, or queue them on `deferred` until the
+  // surrounding transaction has committed
+  private emitChanges(changes: PendingChange[], deferred?: PendingChange[]): void {
+    if (deferred) {
+      deferred.push(...changes)
+      return
+    }
+    for (const { event, syncRecord, embeddings } of changes) {
+      this.notify(event.table, event)
+      this.trackSyncChange(event.table, event.type, syncRecord)
+      for (const job of embeddings ?? []) this.embeddingQueue.enqueue(job)
+    }
+  }
+
   private notify(table: string, event: ChangeEvent): void {
     const subs = this.subscribers.get(table)
     if (!subs) return
@@ -3922,7 +4317,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   }
 
   private ensureDb(): void {
-    if (!this.db && !this.useInMemory) throw new Error("Database not loaded. Call load() first.")
+    if (!this.db) throw new Error("Database not loaded. Call load() first.")
   }
 
   private ensureTable(table: string): TableDefinition {
@@ -3931,10 +4326,9 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     return def
   }
 
-  private async collectAllIds(table: string): Promise<number[]> {
+  private async collectAllIds(table: string, tx?: StorageTransaction): Promise<number[]> {
     this.ensureDb()
-    const tx = this.db!.transaction([table], "readonly")
-    const store = tx.objectStore(table)
+    const store = (tx ?? this.db!.transaction([table], "readonly")).objectStore(table)
     const req = store.openKeyCursor()
     const out: number[] = []
     await new Promise<void>((resolve, reject) => {
@@ -3973,91 +4367,18 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   }
 
   private allStoreNamesForTx(): string[] {
-    // Include all table stores + meta and all inverted indexes
+    // Include all table stores + meta, inverted indexes and vector stores
     const names = new Set<string>([META_SCHEMA_STORE, META_STATS_STORE])
-    for (const table of Object.keys(this.schema)) {
+    for (const [table, def] of Object.entries(this.schema)) {
       names.add(table)
       names.add(indexStoreName(table))
+      for (const name of vectorStoreNames(table, def)) names.add(name)
     }
     return Array.from(names)
   }
 
-  private hasIndex(def: TableDefinition, field: string): boolean {
-    // Primary key is always indexed
-    if (field === (def.primaryKey || "id")) return true
-    // Check secondary indexes
-    return (def.secondaryIndexes || []).includes(field)
-  }
-
-  private buildKeyRange(condition: unknown): IDBKeyRange | undefined {
-    if (condition === null || condition === undefined) return undefined
-    
-    if (typeof condition === "object" && condition !== null && !Array.isArray(condition) && !(condition instanceof Date)) {
-      const cond = condition as Record<string, unknown>
-      
-      // Range queries
-      if ("$gt" in cond || "$gte" in cond || "$lt" in cond || "$lte" in cond) {
-        const lower = cond.$gte !== undefined ? cond.$gte : cond.$gt
-        const upper = cond.$lte !== undefined ? cond.$lte : cond.$lt
-        const lowerOpen = cond.$gte === undefined && cond.$gt !== undefined
-        const upperOpen = cond.$lte === undefined && cond.$lt !== undefined
-        
-        if (lower !== undefined && upper !== undefined) {
-          return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen)
-        } else if (lower !== undefined) {
-          return lowerOpen ? IDBKeyRange.lowerBound(lower, true) : IDBKeyRange.lowerBound(lower)
-        } else if (upper !== undefined) {
-          return upperOpen ? IDBKeyRange.upperBound(upper, true) : IDBKeyRange.upperBound(upper)
-        }
-      }
-      
-      // $in queries - use only() for single values, no direct support for multiple
-      if ("$in" in cond && Array.isArray(cond.$in) && cond.$in.length === 1) {
-        return IDBKeyRange.only(cond.$in[0])
-      }
-    } else {
-      // Equality condition
-      return IDBKeyRange.only(condition)
-    }
-    
-    return undefined
-  }
-
   private matchesWhere(record: Record<string, unknown>, where: WhereCondition): boolean {
-    for (const [field, condition] of Object.entries(where)) {
-      const value = record[field]
-      
-      if (!this.matchesCondition(value, condition)) {
-        return false
-      }
-    }
-    return true
-  }
-
-  private matchesCondition(value: unknown, condition: unknown): boolean {
-    if (condition === null || condition === undefined) {
-      return value === condition
-    }
-    
-    if (typeof condition === "object" && condition !== null && !Array.isArray(condition) && !(condition instanceof Date)) {
-      const cond = condition as Record<string, unknown>
-      
-      // Range conditions
-      if ("$gt" in cond && !(value !== null && value !== undefined && value > cond.$gt!)) return false
-      if ("$gte" in cond && !(value !== null && value !== undefined && value >= cond.$gte!)) return false
-      if ("$lt" in cond && !(value !== null && value !== undefined && value < cond.$lt!)) return false
-      if ("$lte" in cond && !(value !== null && value !== undefined && value <= cond.$lte!)) return false
-      
-      // $in condition
-      if ("$in" in cond && Array.isArray(cond.$in)) {
-        return cond.$in.includes(value)
-      }
-      
-      return true
-    } else {
-      // Equality condition
-      return value === condition
-    }
+    return evaluateWhere(record, where)
   }
 
   // Memory Management Methods
@@ -4139,6 +4460,8 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
     for (const [table] of entriesToRemove) {
       this.vectorEmbedders.delete(table);
+      this.batchEmbedders.delete(table);
+      this.embedderModels.delete(table);
     }
   }
 
@@ -4200,6 +4523,8 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     // Clear all caches
     this.vectorCache.clear();
     this.vectorEmbedders.clear();
+    this.batchEmbedders.clear();
+    this.embedderModels.clear();
     this.authAttempts.clear();
 
     // Clear subscribers (but keep the structure)
@@ -4293,31 +4618,13 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
   // Test database health with basic operations
   private async testDatabaseHealth(): Promise<void> {
-    if (this.useInMemory) {
-      // Test in-memory storage
-      if (!this.inMemoryStorage) {
-        throw new Error('In-memory storage not available');
-      }
-
-      // Test basic operations on a sample table
-      const testTable = Object.keys(this.schema)[0];
-      if (testTable) {
-        const count = this.inMemoryStorage.count(testTable);
-        // If we can count without error, storage is healthy
-        if (count < 0) {
-          throw new Error('Invalid count returned from in-memory storage');
-        }
-      }
-    } else {
-      // Test IndexedDB connection
-      if (!this.db) {
-        throw new Error('Database connection not available');
-      }
-
-      // Test transaction creation
-      const tx = this.db.transaction([META_SCHEMA_STORE], 'readonly');
-      await requestToPromise(tx.objectStore(META_SCHEMA_STORE).count());
+    if (!this.db) {
+      throw new Error('Database connection not available');
     }
+
+    // Test transaction creation
+    const tx = this.db.transaction([META_SCHEMA_STORE], 'readonly');
+    await requestToPromise(tx.objectStore(META_SCHEMA_STORE).count());
   }
 
   // Track and handle errors with retry logic
@@ -4409,13 +4716,11 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
       console.log('[ColumnistDB] Attempting recovery...');
 
       // Strategy 1: Try to reinitialize database
-      if (!this.useInMemory) {
-        try {
-          await this.load();
-          console.log('[ColumnistDB] Database reinitialized successfully');
-        } catch (error) {
-          console.warn('[ColumnistDB] Database reinitialization failed:', error);
-        }
+      try {
+        await this.load();
+        console.log('[ColumnistDB] Database reinitialized successfully');
+      } catch (error) {
+        console.warn('[ColumnistDB] Database reinitialization failed:', error);
       }
 
       // Strategy 2: Clear caches and reset state
@@ -4570,7 +4875,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
     const issues: string[] = []
 
     // Check database connection
-    if (!this.db && !this.useInMemory) {
+    if (!this.db) {
       issues.push('Database connection not established')
     }
 
@@ -4615,7 +4920,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
 
     try {
       // Try to reinitialize database if needed
-      if (!this.db && !this.useInMemory) {
+      if (!this.db) {
         await this.initializeDatabase()
         recoveredOperations.push('database_connection')
       }
@@ -4896,7 +5201,7 @@ export class ColumnistDB<Schema extends SchemaDefinition = SchemaDefinition> {
   async initializeDatabase(): Promise<void> {
     // Initialize database if needed
     // This method can be overridden by subclasses
-    if (!this.db && !this.useInMemory) {
+    if (!this.db) {
       // Call the static init method with default parameters
       await ColumnistDB.init('columnist-db');
     }
@@ -0,0 +1,173 @@
+// Background embedding of written rows
+//
+// Writes only queue the text of each vector source; once they have
+// committed, the queue hands the texts of one vector to a runner in batches,
+// which embeds and stores them. A row queued again before its job ran only
+// keeps the newest text, and jobs that were superseded or cancelled while
+// running are reported stale so their vectors are dropped. Failed jobs are
+// retried with exponential backoff until they run out of attempts.
+
+import type { EmbeddingFailure, EmbeddingOptions, EmbeddingStatus } from "./types"
+
+export interface EmbeddingJob {
+  // Vector the job belongs to, as ColumnistDB keys its stores
+  key: string
+  table: string
+  field: string
+  id: number
+  text: string
+  attempts: number
+  seq: number
+}
+
+// What a write queues: the text to embed for one vector of one row
+export type EmbeddingRequest = Omit<EmbeddingJob, "attempts" | "seq">
+
+// Embeds and stores one batch of jobs of a vector; returns per job null, or
+// the error it failed with
+export type EmbeddingRunner = (key: string, jobs: EmbeddingJob[]) => Promise<(unknown | null)[]>
+
+const DEFAULTS: Required<EmbeddingOptions> = { batchSize: 32, maxAttempts: 3, retryDelay: 100 }
+
+export class EmbeddingQueue {
+  private options: Required<EmbeddingOptions>
+  private run: EmbeddingRunner
+  private seq = 0
+  // Jobs waiting for a batch, by vector and row
+  private queued: Map<string, Map<number, EmbeddingJob>> = new Map()
+  // Jobs being embedded or waiting for a retry, by vector
+  private active: Map<string, Set<EmbeddingJob>> = new Map()
+  // Newest job per "<key>:<id>"; anything older is stale
+  private latest: Map<string, number> = new Map()
+  private failures: Map<string, Map<number, EmbeddingFailure & { job: EmbeddingJob }>> = new Map()
+  private draining: Set<string> = new Set()
+  private waiters: Array<{ key?: string; resolve: () => void }> = []
+
+  constructor(run: EmbeddingRunner, options: EmbeddingOptions = {}) {
+    this.run = run
+    this.options = { ...DEFAULTS, ...options }
+  }
+
+  enqueue(job: EmbeddingRequest): void {
+    const queued: EmbeddingJob = { ...job, attempts: 0, seq: ++this.seq }
+    this.latest.set(`${job.key}:${job.id}`, queued.seq)
+    this.failures.get(job.key)?.delete(job.id)
+    this.queuedFor(job.key).set(job.id, queued)
+    void this.drain(job.key)
+  }
+
+  // Forget a row's queued job; one already running turns stale
+  cancel(key: string, id: number): void {
+    this.latest.delete(`${key}:${id}`)
+    this.queued.get(key)?.delete(id)
+    this.failures.get(key)?.delete(id)
+    this.notify()
+  }
+
+  isCurrent(job: EmbeddingJob): boolean {
+    return this.latest.get(`${job.key}:${job.id}`) === job.seq
+  }
+
+  status(key: string): EmbeddingStatus {
+    const pending = new Set(this.queued.get(key)?.keys())
+    for (const job of this.active.get(key) ?? []) pending.add(job.id)
+    const failed = Array.from(this.failures.get(key)?.values() ?? [], ({ id, error, attempts }) => ({ id, error, attempts }))
+    return { pending: [...pending].sort((a, b) => a - b), failed }
+  }
+
+  // Queue the failed jobs of a vector again, with fresh attempts
+  retryFailed(key: string): void {
+    const failures = this.failures.get(key)
+    if (!failures) return
+    this.failures.delete(key)
+    for (const { job } of failures.values()) this.enqueue(job)
+  }
+
+  // Resolves once nothing of the vector (or of any vector) is pending
+  settled(key?: string): Promise<void> {
+    if (this.isSettled(key)) return Promise.resolve()
+    return new Promise(resolve => this.waiters.push({ key, resolve }))
+  }
+
+  private isSettled(key?: string): boolean {
+    const keys = key === undefined ? [...new Set([...this.queued.keys(), ...this.active.keys()])] : [key]
+    return keys.every(k => (this.queued.get(k)?.size ?? 0) === 0 && (this.active.get(k)?.size ?? 0) === 0)
+  }
+
+  private notify(): void {
+    const waiting = this.waiters
+    this.waiters = []
+    for (const waiter of waiting) {
+      if (this.isSettled(waiter.key)) waiter.resolve()
+      else this.waiters.push(waiter)
+    }
+  }
+
+  private queuedFor(key: string): Map<number, EmbeddingJob> {
+    if (!this.queued.has(key)) this.queued.set(key, new Map())
+    return this.queued.get(key)!
+  }
+
+  private activeFor(key: string): Set<EmbeddingJob> {
+    if (!this.active.has(key)) this.active.set(key, new Set())
+    return this.active.get(key)!
+  }
+
+  // One batch at a time per vector, starting after the current task so the
+  // write that queued the job has committed and later writes join the batch
+  private async drain(key: string): Promise<void> {
+    if (this.draining.has(key)) return
+    this.draining.add(key)
+    try {
+      await new Promise(resolve => setTimeout(resolve, 0))
+      const queued = this.queuedFor(key)
+      while (queued.size > 0) {
+        const batch = [...queued.values()].slice(0, this.options.batchSize)
+        const active = this.activeFor(key)
+        for (const job of batch) {
+          queued.delete(job.id)
+          active.add(job)
+        }
+        const outcomes = await this.run(key, batch).catch(error => batch.map(() => error))
+        batch.forEach((job, i) => this.settle(job, outcomes[i]))
+      }
+    } finally {
+      this.draining.delete(key)
+      this.notify()
+    }
+  }
+
+  private settle(job: EmbeddingJob, error: unknown): void {
+    const active = this.activeFor(job.key)
+    const current = this.isCurrent(job)
+    if (error === null || error === undefined || !current) {
+      active.delete(job)
+      if (current) this.latest.delete(`${job.key}:${job.id}`)
+      return
+    }
+
+    const attempts = job.attempts + 1
+    if (attempts < this.options.maxAttempts) {
+      // Stays active while waiting, so the row still counts as pending
+      setTimeout(() => {
+        active.delete(job)
+        if (this.isCurrent(job)) {
+          this.queuedFor(job.key).set(job.id, { ...job, attempts })
+          void this.drain(job.key)
+        }
+        this.notify()
+      }, this.options.retryDelay * 2 ** job.attempts)
+      return
+    }
+
+    active.delete(job)
+    this.latest.delete(`${job.key}:${job.id}`)
+    if (!this.failures.has(job.key)) this.failures.set(job.key, new Map())
+    this.failures.get(job.key)!.set(job.id, {
+      id: job.id,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      job
+    })
+  }
+}
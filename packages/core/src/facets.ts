@@ -0,0 +1,104 @@
+// Facet counts for search() and find()
+//
+// Like aggregation, matches are fed one record at a time, so every match is
+// counted even when only a page of them is returned. Arrays (json columns
+// such as tags) count once per distinct element.
+
+import type { FacetCount, FacetRange, FacetResults, FacetSpec } from "./types"
+import { getFieldValue } from "./where"
+import { compareValues } from "./query-planner"
+
+interface ValueCounter {
+  field: string
+  add(value: unknown): void
+  results(): FacetCount[]
+}
+
+// Dates count by instant, everything else by its JSON form
+function valueKey(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? { $date: value.getTime() } : value)
+}
+
+function distinctValues(value: unknown): unknown[] {
+  if (!Array.isArray(value)) return value === undefined || value === null ? [] : [value]
+  const seen = new Map<string, unknown>()
+  for (const element of value) {
+    if (element !== undefined && element !== null) seen.set(valueKey(element), element)
+  }
+  return Array.from(seen.values())
+}
+
+function formatBound(bound: FacetRange["from"]): string {
+  if (bound === undefined) return ""
+  return bound instanceof Date ? bound.toISOString() : String(bound)
+}
+
+// Bounds given as strings compare as instants against date values
+function comparable(bound: FacetRange["from"], value: unknown): unknown {
+  return value instanceof Date && typeof bound === "string" ? new Date(bound) : bound
+}
+
+function termsCounter(field: string, size?: number): ValueCounter {
+  const counts = new Map<string, FacetCount>()
+  return {
+    field,
+    add(value) {
+      for (const element of distinctValues(value)) {
+        const key = valueKey(element)
+        const entry = counts.get(key)
+        if (entry) entry.count++
+        else counts.set(key, { value: element, count: 1 })
+      }
+    },
+    results() {
+      const sorted = Array.from(counts.values())
+        .sort((a, b) => b.count - a.count || compareValues(a.value, b.value))
+      return size === undefined ? sorted : sorted.slice(0, size)
+    }
+  }
+}
+
+function rangesCounter(field: string, ranges: FacetRange[]): ValueCounter {
+  const buckets = ranges.map(range => ({
+    range,
+    count: 0,
+    label: range.label ?? `${formatBound(range.from)}..${formatBound(range.to)}`
+  }))
+  return {
+    field,
+    add(value) {
+      const values = distinctValues(value)
+      for (const bucket of buckets) {
+        const { from, to } = bucket.range
+        const inside = values.some(v =>
+          (from === undefined || compareValues(v, comparable(from, v)) >= 0) &&
+          (to === undefined || compareValues(v, comparable(to, v)) < 0)
+        )
+        if (inside) bucket.count++
+      }
+    },
+    results() {
+      return buckets.map(bucket => ({ value: bucket.label, count: bucket.count }))
+    }
+  }
+}
+
+export function createFacetCounter(specs: FacetSpec[]) {
+  const counters = specs.map(spec => {
+    if (typeof spec === "string") return termsCounter(spec)
+    return spec.ranges ? rangesCounter(spec.field, spec.ranges) : termsCounter(spec.field, spec.size)
+  })
+
+  return {
+    add(record: Record<string, unknown>): void {
+      for (const counter of counters) counter.add(getFieldValue(record, counter.field))
+    },
+    results(): FacetResults {
+      const out: FacetResults = {}
+      for (const counter of counters) out[counter.field] = counter.results()
+      return out
+    }
+  }
+}
+
+export type FacetCounter = ReturnType<typeof createFacetCounter>
@@ -0,0 +1,41 @@
+// Rank fusion for hybrid search
+//
+// Text (BM25) and vector (similarity) scores live on unrelated scales, so
+// they are combined either by rank with reciprocal rank fusion, or by score
+// after min-max normalizing each list to [0, 1].
+
+export type FusionMethod = "rrf" | "linear"
+
+export interface RankedList {
+  // Best first
+  hits: Array<{ id: number; score: number }>
+  weight: number
+}
+
+// The k of Cormack et al., which damps the influence of the very first ranks
+export const DEFAULT_RRF_K = 60
+
+// Min-max normalized scores; a list whose scores are all equal maps to 1
+export function normalizeScores(hits: Array<{ id: number; score: number }>): Map<number, number> {
+  const scores = hits.map(hit => hit.score)
+  const min = Math.min(...scores)
+  const range = Math.max(...scores) - min
+  return new Map(hits.map(hit => [hit.id, range > 0 ? (hit.score - min) / range : 1]))
+}
+
+/**
+ * Fuse ranked lists into one score per id. With "rrf" an id scores
+ * weight / (k + rank) in each list it appears in, with "linear" it scores
+ * weight * normalized score; either way the contributions are summed.
+ */
+export function fuseRankings(lists: RankedList[], method: FusionMethod, rrfK = DEFAULT_RRF_K): Map<number, number> {
+  const fused = new Map<number, number>()
+  for (const { hits, weight } of lists) {
+    const normalized = method === "linear" ? normalizeScores(hits) : null
+    hits.forEach((hit, index) => {
+      const contribution = normalized ? normalized.get(hit.id)! : 1 / (rrfK + index + 1)
+      fused.set(hit.id, (fused.get(hit.id) ?? 0) + weight * contribution)
+    })
+  }
+  return fused
+}
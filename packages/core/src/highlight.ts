@@ -0,0 +1,161 @@
+// Highlighted fragments for search results
+//
+// A field value is split into words the way tokenize() splits it, each word
+// goes through the table's analyzer, and words with a token the query looked
+// for are wrapped in tags. So "running" is marked for a query on "run" when
+// the analyzer stems. Fragments of about fragmentSize characters are cut
+// around the matches, in the order they occur.
+
+import type { Analyzer } from "./analyzers"
+import { editDistance, parseSearchQuery, type QueryClause } from "./search-query"
+import { tokenize } from "./text-index"
+import type { HighlightOptions, SearchHighlights } from "./types"
+
+const DEFAULT_FRAGMENT_SIZE = 100
+const DEFAULT_MAX_FRAGMENTS = 3
+const WORD = /[\p{L}\p{N}]+/gu
+
+// Whether an indexed token of a field is one the query looked for
+export type TokenMatcher = (field: string, token: string) => boolean
+
+interface Span {
+  start: number
+  end: number
+}
+
+export function matcherFor(clauses: QueryClause[]): TokenMatcher {
+  // Excluded terms cannot occur in a result, so they need no marking
+  const wanted = clauses.filter(clause => clause.occur !== "mustNot")
+  return (field, token) => wanted.some(clause => {
+    if (clause.field && clause.field !== field) return false
+    switch (clause.kind) {
+      case "term":
+        return clause.token === token
+      case "phrase":
+        return clause.tokens.includes(token)
+      case "prefix":
+        return token.startsWith(clause.prefix)
+      case "fuzzy":
+        return editDistance(clause.token, token, clause.distance) <= clause.distance
+    }
+  })
+}
+
+function occurrences(text: string, part: string): Span[] {
+  const spans: Span[] = []
+  for (let at = text.indexOf(part); at !== -1; at = text.indexOf(part, at + 1)) {
+    spans.push({ start: at, end: at + part.length })
+  }
+  return spans
+}
+
+// Sorted spans with overlapping and touching ones joined
+function mergeSpans(spans: Span[]): Span[] {
+  const merged: Span[] = []
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && span.start <= last.end) last.end = Math.max(last.end, span.end)
+    else merged.push({ ...span })
+  }
+  return merged
+}
+
+function matchedSpans(text: string, field: string, matches: TokenMatcher, analyzer?: Analyzer): Span[] {
+  const spans: Span[] = []
+  for (const word of text.matchAll(WORD)) {
+    const start = word.index ?? 0
+    const tokens = analyzer ? analyzer.analyze(word[0]) : tokenize(word[0])
+    const hits = tokens.filter(token => matches(field, token))
+    if (hits.length === 0) continue
+
+    // A word indexed as several tokens (CJK bigrams, n-grams) marks only the
+    // matched parts, where they can be found in it
+    const lower = word[0].toLowerCase()
+    const parts = tokens.length > 1 && lower.length === word[0].length
+      ? hits.flatMap(hit => occurrences(lower, hit))
+      : []
+    if (parts.length === 0) {
+      spans.push({ start, end: start + word[0].length })
+    } else {
+      for (const part of mergeSpans(parts)) spans.push({ start: start + part.start, end: start + part.end })
+    }
+  }
+  return mergeSpans(spans)
+}
+
+// Move a cut that falls inside a word to the next word, but not past limit
+function snapStart(text: string, start: number, limit: number): number {
+  if (start > 0 && /\S/.test(text[start - 1])) {
+    while (start < limit && /\S/.test(text[start])) start++
+  }
+  while (start < limit && /\s/.test(text[start])) start++
+  return start
+}
+
+function snapEnd(text: string, end: number, limit: number): number {
+  if (end < text.length && /\S/.test(text[end])) {
+    while (end > limit && /\S/.test(text[end - 1])) end--
+  }
+  while (end > limit && /\s/.test(text[end - 1])) end--
+  return end
+}
+
+function fragmentsFor(text: string, spans: Span[], options: HighlightOptions): string[] {
+  const size = options.fragmentSize ?? DEFAULT_FRAGMENT_SIZE
+  const maxFragments = options.maxFragments ?? DEFAULT_MAX_FRAGMENTS
+  const preTag = options.preTag ?? "<mark>"
+  const postTag = options.postTag ?? "</mark>"
+
+  const fragments: string[] = []
+  let next = 0
+  while (next < spans.length && fragments.length < maxFragments) {
+    const first = spans[next]
+    let start = 0
+    let end = text.length
+    if (size > 0 && text.length > size) {
+      // Center the window on its first match
+      const room = Math.max(0, size - (first.end - first.start))
+      start = Math.max(0, Math.min(first.start - Math.floor(room / 2), text.length - size))
+      end = Math.max(Math.min(text.length, start + size), first.end)
+      start = snapStart(text, start, first.start)
+      end = snapEnd(text, end, first.end)
+    }
+
+    let fragment = ""
+    let cursor = start
+    while (next < spans.length && spans[next].end <= end) {
+      const span = spans[next++]
+      fragment += text.slice(cursor, span.start) + preTag + text.slice(span.start, span.end) + postTag
+      cursor = span.end
+    }
+    fragments.push((fragment + text.slice(cursor, end)).trim())
+  }
+  return fragments
+}
+
+/**
+ * Highlighted fragments of the string fields of a record. Fields without a
+ * match are left out.
+ */
+export function highlightRecord(
+  record: Record<string, unknown>,
+  fields: string[],
+  matches: TokenMatcher,
+  options: HighlightOptions = {},
+  analyzer?: Analyzer
+): SearchHighlights {
+  const highlights: SearchHighlights = {}
+  for (const field of fields) {
+    const value = record[field]
+    if (typeof value !== "string") continue
+    const spans = matchedSpans(value, field, matches, analyzer)
+    if (spans.length > 0) highlights[field] = fragmentsFor(value, spans, options)
+  }
+  return highlights
+}
+
+// Highlighted fragments of one text for a query, for callers outside search()
+export function highlightText(text: string, query: string, options: HighlightOptions = {}, analyzer?: Analyzer): string[] {
+  const matches = matcherFor(parseSearchQuery(query, [], analyzer))
+  return fragmentsFor(text, matchedSpans(text, "", matches, analyzer), options)
+}
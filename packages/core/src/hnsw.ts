@@ -0,0 +1,320 @@
+// Hierarchical navigable small world graph for ColumnistDB.vectorSearch
+//
+// Every vector is one node record in the table's _hnsw store, holding its
+// level and its neighbor lists per layer, next to a "meta" record with the
+// entry point. Nodes are inserted one at a time as records are written, so
+// the graph never needs a batch rebuild. Deletes only mark nodes: searches
+// still walk through them but never return them, until repairGraph() links
+// their neighbors to each other and drops them. Nodes refer to their
+// vectors by id, so a quantized table's graph measures distances between
+// decoded codes; a deleted node keeps a copy of its vector, as its row's
+// is gone.
+
+export interface HNSWNode {
+  key: number
+  level: number
+  // Only on deleted nodes
+  vector?: number[]
+  // neighbors[layer] for layers 0..level
+  neighbors: number[][]
+  deleted?: boolean
+}
+
+export interface HNSWMeta {
+  key: typeof HNSW_META_KEY
+  entryPoint: number | null
+  maxLevel: number
+  // Neighbors kept per node on upper layers; layer 0 keeps twice as many
+  m: number
+  efConstruction: number
+  // Levels are capped here
+  levelCap: number
+  // Nodes in the graph, deleted ones included
+  nodes: number
+  tombstones: number
+}
+
+// Read/write access to the node records of one graph, and read access to
+// the stored vectors they refer to
+export interface HNSWStore {
+  get(id: number): Promise<HNSWNode | undefined>
+  put(node: HNSWNode): Promise<void>
+  delete(id: number): Promise<void>
+  vector(id: number): Promise<ArrayLike<number> | undefined>
+}
+
+export const HNSW_META_KEY = "meta"
+
+const DEFAULT_M = 16
+
+// Repair once this share of the nodes is deleted
+const REPAIR_RATIO = 0.1
+
+export function createHNSWMeta(options: { m?: number; efConstruction?: number; levelCap?: number } = {}): HNSWMeta {
+  return {
+    key: HNSW_META_KEY,
+    entryPoint: null,
+    maxLevel: 0,
+    m: options.m ?? DEFAULT_M,
+    efConstruction: options.efConstruction ?? 200,
+    levelCap: options.levelCap ?? 16,
+    nodes: 0,
+    tombstones: 0
+  }
+}
+
+export function needsRepair(meta: HNSWMeta): boolean {
+  return meta.tombstones > 0 && meta.tombstones >= meta.nodes * REPAIR_RATIO
+}
+
+function distance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i]
+    sum += diff * diff
+  }
+  return Math.sqrt(sum)
+}
+
+// Levels follow a geometric distribution with ratio 1/m
+function randomLevel(meta: HNSWMeta): number {
+  const level = Math.floor(-Math.log(1 - Math.random()) / Math.log(meta.m))
+  return Math.min(level, meta.levelCap)
+}
+
+function maxNeighbors(meta: HNSWMeta, layer: number): number {
+  return layer === 0 ? meta.m * 2 : meta.m
+}
+
+// Nodes and vectors read during one operation are kept, and writes go
+// through to the store. known holds vectors not stored yet.
+function cached(store: HNSWStore, known: [number, ArrayLike<number>][] = []): HNSWStore {
+  const nodes = new Map<number, HNSWNode | undefined>()
+  const vectors = new Map<number, ArrayLike<number> | undefined>(known)
+  return {
+    async get(id) {
+      if (!nodes.has(id)) nodes.set(id, await store.get(id))
+      return nodes.get(id)
+    },
+    async put(node) {
+      nodes.set(node.key, node)
+      await store.put(node)
+    },
+    async delete(id) {
+      nodes.set(id, undefined)
+      await store.delete(id)
+    },
+    async vector(id) {
+      if (!vectors.has(id)) vectors.set(id, await store.vector(id))
+      return vectors.get(id)
+    }
+  }
+}
+
+// The copy a deleted node keeps, or else the stored vector
+async function vectorOf(store: HNSWStore, node: HNSWNode): Promise<ArrayLike<number> | undefined> {
+  return node.vector ?? store.vector(node.key)
+}
+
+type Candidate = { id: number; distance: number }
+
+/**
+ * Best-first search of one layer from the entry points, keeping the ef
+ * nodes closest to the query (deleted nodes included, so paths through
+ * them stay open). Closest first.
+ */
+async function searchLayer(
+  store: HNSWStore,
+  query: ArrayLike<number>,
+  entryPoints: number[],
+  ef: number,
+  layer: number
+): Promise<Candidate[]> {
+  const visited = new Set<number>(entryPoints)
+  const candidates: Candidate[] = []
+  const found: Candidate[] = []
+  for (const id of entryPoints) {
+    const node = await store.get(id)
+    const vector = node && await vectorOf(store, node)
+    if (!vector) continue
+    const entry = { id, distance: distance(query, vector) }
+    candidates.push(entry)
+    found.push(entry)
+  }
+  found.sort((a, b) => a.distance - b.distance)
+
+  while (candidates.length > 0) {
+    candidates.sort((a, b) => b.distance - a.distance)
+    const current = candidates.pop()!
+    if (found.length >= ef && current.distance > found[found.length - 1].distance) break
+
+    const node = await store.get(current.id)
+    for (const neighborId of node?.neighbors[layer] ?? []) {
+      if (visited.has(neighborId)) continue
+      visited.add(neighborId)
+      const neighbor = await store.get(neighborId)
+      const vector = neighbor && await vectorOf(store, neighbor)
+      if (!vector) continue
+      const entry = { id: neighborId, distance: distance(query, vector) }
+      if (found.length < ef || entry.distance < found[found.length - 1].distance) {
+        candidates.push(entry)
+        found.push(entry)
+        found.sort((a, b) => a.distance - b.distance)
+        if (found.length > ef) found.pop()
+      }
+    }
+  }
+  return found
+}
+
+// Greedy descent from the entry point to the layer above `layer`
+async function descend(store: HNSWStore, meta: HNSWMeta, query: ArrayLike<number>, layer: number): Promise<number[]> {
+  let entryPoints = [meta.entryPoint!]
+  for (let l = meta.maxLevel; l > layer; l--) {
+    const [closest] = await searchLayer(store, query, entryPoints, 1, l)
+    if (closest) entryPoints = [closest.id]
+  }
+  return entryPoints
+}
+
+// Cut a neighbor list of `node` down to the closest ones, dropping deleted
+// nodes and nodes without a vector
+async function pruneNeighbors(store: HNSWStore, node: HNSWNode, ids: number[], max: number): Promise<number[]> {
+  const vector = await vectorOf(store, node)
+  const scored: Candidate[] = []
+  for (const id of new Set(ids)) {
+    const neighbor = id === node.key ? undefined : await store.get(id)
+    const neighborVector = neighbor && !neighbor.deleted && await vectorOf(store, neighbor)
+    if (vector && neighborVector) scored.push({ id, distance: distance(vector, neighborVector) })
+  }
+  return scored.sort((a, b) => a.distance - b.distance).slice(0, max).map(c => c.id)
+}
+
+// Link node to its closest candidates on each layer, and them back to it
+async function connect(store: HNSWStore, meta: HNSWMeta, node: HNSWNode, vector: ArrayLike<number>): Promise<void> {
+  const top = Math.min(node.level, meta.maxLevel)
+  let entryPoints = await descend(store, meta, vector, top)
+  for (let layer = top; layer >= 0; layer--) {
+    const found = await searchLayer(store, vector, entryPoints, meta.efConstruction, layer)
+    const max = maxNeighbors(meta, layer)
+    node.neighbors[layer] = await pruneNeighbors(store, node, found.map(c => c.id), max)
+
+    for (const neighborId of node.neighbors[layer]) {
+      const neighbor = (await store.get(neighborId))!
+      const links = neighbor.neighbors[layer]
+      if (links.includes(node.key)) continue
+      links.push(node.key)
+      if (links.length > max) neighbor.neighbors[layer] = await pruneNeighbors(store, neighbor, links, max)
+      await store.put(neighbor)
+    }
+    if (found.length > 0) entryPoints = found.map(c => c.id)
+  }
+}
+
+/**
+ * Add a vector to the graph, or move an existing node to a new vector.
+ * Updates meta in place; the caller persists it.
+ */
+export async function insertNode(graph: HNSWStore, meta: HNSWMeta, id: number, vector: ArrayLike<number>): Promise<void> {
+  const store = cached(graph, [[id, vector]])
+  const existing = await store.get(id)
+  // A moved node keeps its level and, until relinked, its neighbors, so
+  // searches starting from it still get anywhere
+  const level = existing ? existing.level : randomLevel(meta)
+  const neighbors = existing ? existing.neighbors.map(links => [...links]) : Array.from({ length: level + 1 }, () => [])
+  const node: HNSWNode = { key: id, level, neighbors }
+
+  if (existing?.deleted) meta.tombstones--
+  if (!existing) meta.nodes++
+
+  if (meta.entryPoint === null || (meta.entryPoint === id && meta.nodes === 1)) {
+    meta.entryPoint = id
+    meta.maxLevel = level
+    await store.put(node)
+    return
+  }
+
+  await store.put(node)
+  await connect(store, meta, node, vector)
+  await store.put(node)
+  if (level > meta.maxLevel) {
+    meta.entryPoint = id
+    meta.maxLevel = level
+  }
+}
+
+// Mark a node deleted, copying its vector before the stored one goes;
+// returns false when it is not in the graph
+export async function markDeleted(store: HNSWStore, meta: HNSWMeta, id: number): Promise<boolean> {
+  const node = await store.get(id)
+  if (!node || node.deleted) return false
+  const vector = await store.vector(id)
+  if (vector) node.vector = Array.from(vector)
+  node.deleted = true
+  await store.put(node)
+  meta.tombstones++
+  return true
+}
+
+/**
+ * The k nodes closest to the query, deleted nodes left out. ef (at least k)
+ * trades speed for recall.
+ */
+export async function searchGraph(graph: HNSWStore, meta: HNSWMeta, query: ArrayLike<number>, k: number, ef: number): Promise<HNSWNode[]> {
+  if (meta.entryPoint === null) return []
+  const store = cached(graph)
+  const entryPoints = await descend(store, meta, query, 0)
+  const found = await searchLayer(store, query, entryPoints, Math.max(ef, k), 0)
+  const nodes: HNSWNode[] = []
+  for (const { id } of found) {
+    const node = (await store.get(id))!
+    if (!node.deleted) nodes.push(node)
+    if (nodes.length >= k) break
+  }
+  return nodes
+}
+
+/**
+ * Remove deleted nodes from the graph. Every node linked to one is relinked
+ * to its closest remaining neighbors and neighbors-of-neighbors, and the
+ * entry point moves to the highest remaining node if it was deleted.
+ * `nodeIds` lists every node in the graph; `tombstones` the deleted ones.
+ */
+export async function repairGraph(graph: HNSWStore, meta: HNSWMeta, nodeIds: number[], tombstones: number[]): Promise<void> {
+  const store = cached(graph)
+  const deleted = new Set(tombstones)
+
+  for (const id of nodeIds) {
+    if (deleted.has(id)) continue
+    const node = await store.get(id)
+    if (!node) continue
+    let changed = false
+    for (let layer = 0; layer <= node.level; layer++) {
+      const links = node.neighbors[layer]
+      if (!links.some(link => deleted.has(link))) continue
+      const candidates = links.filter(link => !deleted.has(link))
+      for (const link of links.filter(link => deleted.has(link))) {
+        candidates.push(...((await store.get(link))?.neighbors[layer] ?? []))
+      }
+      node.neighbors[layer] = await pruneNeighbors(store, node, candidates, maxNeighbors(meta, layer))
+      changed = true
+    }
+    if (changed) await store.put(node)
+  }
+
+  if (meta.entryPoint !== null && deleted.has(meta.entryPoint)) {
+    meta.entryPoint = null
+    meta.maxLevel = 0
+    for (const id of nodeIds) {
+      const node = deleted.has(id) ? undefined : await store.get(id)
+      if (node && (meta.entryPoint === null || node.level > meta.maxLevel)) {
+        meta.entryPoint = id
+        meta.maxLevel = node.level
+      }
+    }
+  }
+
+  for (const id of tombstones) await store.delete(id)
+  meta.nodes -= tombstones.length
+  meta.tombstones = 0
+}
@@ -1,14 +1,87 @@
 export { Columnist, defineTable } from './columnist';
 export type { SchemaDefinition } from './columnist';
+export { defineMigration, MigrationBuilder } from './migrations';
+export { diffSchemas, migrationForDiff, formatSchemaDiff } from './schema-diff';
 export type { 
   TableDefinition, 
+  VectorFieldConfig,
   SearchOptions, 
+  HighlightOptions,
+  SearchHighlights,
+  SearchHit,
+  HybridSearchOptions,
+  MMROptions,
+  Reranker,
+  RerankCandidate,
+  RerankOptions,
+  RerankerOptions,
+  HybridHit,
   FindOptions,
+  FindPageOptions,
+  PageResult,
   InsertResult,
+  TransactionHandle,
   BulkOperationResult,
   WhereCondition,
-  InferTableType
+  FieldOperators,
+  InferTableType,
+  IndexSpec,
+  FieldPath,
+  AggregateFunction,
+  AggregateMetric,
+  AggregateOptions,
+  AggregateRow,
+  FacetSpec,
+  FacetRange,
+  FacetCount,
+  FacetResults,
+  Faceted,
+  QuantizationOptions,
+  EmbeddingOptions,
+  EmbeddingStatus,
+  EmbeddingFailure,
+  EmbedderOptions,
+  ReembedOptions,
+  ReembedProgress,
+  VectorQuantization,
+  Migration,
+  MigrationStep,
+  MigrationDefinition,
+  MigrationCallback,
+  AppliedMigration,
+  SchemaDiff,
+  TableSchemaDiff,
+  ColumnChange,
+  ColumnSpec,
+  PersistenceOptions,
+  AnalyzerOptions,
+  AnalyzerConfig
 } from './types';
+export type { QueryPlan, PlanCandidate, KeyBounds } from './query-planner';
+export { parseSearchQuery } from './search-query';
+export { registerAnalyzer, createAnalyzer, ENGLISH_STOPWORDS } from './analyzers';
+export { highlightText } from './highlight';
+export { createLexicalReranker, createCrossEncoderReranker } from './rerank';
+export type { LexicalRerankerOptions, CrossEncoderRerankerOptions } from './rerank';
+export type { Analyzer } from './analyzers';
+export type { QueryClause, QueryOccur } from './search-query';
+export { IndexedDBEngine, MemoryStorageEngine, isIndexedDBAvailable } from './storage';
+export type {
+  StorageEngine,
+  StorageDatabase,
+  StorageTransaction,
+  StorageObjectStore,
+  StorageIndex,
+  StorageCursor,
+  StorageCursorWithValue,
+  StorageRequest,
+  StorageKey,
+  StorageKeyRange,
+  StoragePersistence,
+  DatabaseState,
+  StorageOp,
+  UpgradeCallback
+} from './storage';
 
 export { SyncManager, BaseSyncAdapter } from './sync';
 export type { 
@@ -31,7 +104,7 @@ export type { SyncOptions, SyncStatus, SyncEvent, ChangeSet } from './sync/base-
 // export { ColumnistMCPServer } from './mcp';
 // export type { MCPConfig, MCPResource, MCPTool } from './mcp';
 
-export { MemoryManager, MemoryScoring, BasicEmbeddingProvider } from './memory';
+export { MemoryManager, MemoryScoring, BasicEmbeddingProvider, HashingEmbeddingProvider } from './memory';
 export type {
   MemoryRecord,
   MemoryQueryOptions,
@@ -45,5 +118,6 @@ export type {
   DocumentSearchOptions,
   DocumentSearchResult,
   EmbeddingProvider,
-  DocumentProcessingOptions
+  DocumentProcessingOptions,
+  HashingEmbeddingOptions
 } from './memory';
\ No newline at end of file
@@ -3,12 +3,13 @@
 
 import { ColumnistDBAdapter } from './types';
 import { Columnist } from '../columnist';
+import { fileStorageFor } from '../storage/file';
 
 export class ColumnistNodeAdapter implements ColumnistDBAdapter {
   private db: any;
   private isInitialized = false;
 
-  constructor(private databaseName: string) {}
+  constructor(private databaseName: string, private dataDir = '.columnist') {}
 
   async init(): Promise<void> {
     if (this.isInitialized) return;
@@ -16,6 +17,8 @@ export class ColumnistNodeAdapter implements ColumnistDBAdapter {
     try {
       this.db = await Columnist.init(this.databaseName, {
         databaseName: this.databaseName,
+        // Persist to disk so the server keeps its data between runs
+        storage: fileStorageFor(this.dataDir),
         schema: {
           // Default schema for MCP operations
           mcp_sessions: {
@@ -47,7 +50,7 @@ export class ColumnistNodeAdapter implements ColumnistDBAdapter {
       });
 
       this.isInitialized = true;
-      console.log(`[MCP Adapter] Database '${this.databaseName}' initialized successfully`);
+      console.log(`[MCP Adapter] Database '${this.databaseName}' initialized successfully in ${this.dataDir}`);
     } catch (error) {
       console.error(`[MCP Adapter] Failed to initialize database:`, error);
       throw new Error(`Database initialization failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -15,7 +15,7 @@ export class ColumnistMCPServer {
 
   constructor(config: MCPConfig) {
     this.config = config;
-    this.adapter = new ColumnistNodeAdapter(config.databaseName);
+    this.adapter = new ColumnistNodeAdapter(config.databaseName, config.dataDir);
     this.authManager = new AuthManager({
       secret: config.authToken || 'default-secret-key',
       requireAuth: !!config.authToken
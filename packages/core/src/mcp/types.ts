@@ -4,6 +4,8 @@
 // MCP Configuration
 export interface MCPConfig {
   databaseName: string;
+  // Directory for the database's storage log; defaults to ./.columnist
+  dataDir?: string;
   authToken?: string;
   enableMemoryAI?: boolean;
   maxConnections?: number;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { HashingEmbeddingProvider } from '../embedding-providers/hashing-embedding-provider'
+
+const dot = (a: Float32Array, b: Float32Array) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider()
+
+  it('embeds into unit vectors of the configured size', async () => {
+    const vector = await provider.generateEmbedding('The quick brown fox')
+
+    expect(vector).toHaveLength(256)
+    expect(dot(vector, vector)).toBeCloseTo(1)
+    expect(new HashingEmbeddingProvider({ dimensions: 64 }).getDimensions()).toBe(64)
+    expect(provider.getModel()).toBe('hashing-ngram-256')
+    expect(() => new HashingEmbeddingProvider({ dimensions: 0 })).toThrow('positive integer')
+  })
+
+  it('scores texts sharing words and stems above unrelated ones', async () => {
+    const [query, related, unrelated] = await provider.generateEmbeddings([
+      'training neural networks',
+      'how to train a neural network',
+      'baking sourdough bread at home'
+    ])
+
+    expect(dot(query, related)).toBeGreaterThan(0.5)
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated) + 0.3)
+  })
+
+  it('matches misspelled words through character trigrams', async () => {
+    const [query, typo, other] = await provider.generateEmbeddings(['database', 'databse', 'keyboard'])
+
+    expect(dot(query, typo)).toBeGreaterThan(dot(query, other))
+  })
+
+  it('embeds a batch the same as one text at a time', async () => {
+    const texts = ['first text', 'second text', '']
+    const batch = await provider.generateEmbeddings(texts)
+
+    expect(batch).toHaveLength(3)
+    for (const [i, text] of texts.entries()) expect(batch[i]).toEqual(await provider.generateEmbedding(text))
+    expect(Array.from(batch[2]).every(value => value === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { MemoryManager } from '../manager'
+import type { EmbeddingProvider } from '../types'
+import type { ReembedProgress } from '../../types'
+
+// Embeds every text as the same unit vector of its model
+function provider(model: string, dims: number, fail = () => false): EmbeddingProvider {
+  const vector = () => {
+    if (fail()) throw new Error('model unavailable')
+    return new Float32Array(dims).fill(1 / Math.sqrt(dims))
+  }
+  return {
+    generateEmbedding: async () => vector(),
+    generateEmbeddings: async texts => texts.map(vector),
+    getDimensions: () => dims,
+    getModel: () => model
+  }
+}
+
+const paragraphs = [
+  'The first paragraph talks about vector databases and how they store embeddings.',
+  'The second paragraph explains why switching models invalidates stored vectors.',
+  'The third paragraph covers re-embedding documents in the background with progress.'
+]
+
+describe('MemoryManager re-embedding', () => {
+  async function seed() {
+    const manager = new MemoryManager(null)
+    manager.registerEmbeddingProvider(provider('small', 4))
+    await manager.addDocument(paragraphs.join('\n\n'))
+    return manager
+  }
+
+  const search = (manager: MemoryManager) =>
+    manager.searchDocuments('stored vectors', { searchStrategy: 'semantic', similarityThreshold: 0.9 })
+
+  it('tags chunks with their model and skips stale ones in semantic search', async () => {
+    const manager = await seed()
+    const [chunk] = await manager.getDocumentChunks((await search(manager))[0].memory.id)
+    expect(chunk).toMatchObject({ embeddingModel: 'small', embeddingDims: 4 })
+
+    manager.registerEmbeddingProvider(provider('large', 8))
+    expect(manager.countStaleChunks()).toBe(3)
+    expect(await search(manager)).toEqual([])
+
+    const events: ReembedProgress[] = []
+    await manager.reembedDocuments({ batchSize: 2, onProgress: progress => events.push(progress) })
+    expect(events.map(({ done, total }) => [done, total])).toEqual([[0, 3], [2, 3], [3, 3]])
+    expect(manager.countStaleChunks()).toBe(0)
+    expect((await search(manager)).length).toBeGreaterThan(0)
+  })
+
+  it('stops when the provider fails and resumes on the next call', async () => {
+    const manager = await seed()
+    // The third text embedded, the first of the second batch, fails once
+    let calls = 0
+    manager.registerEmbeddingProvider(provider('large', 8, () => ++calls === 3))
+
+    expect(await manager.reembedDocuments({ batchSize: 2 })).toEqual({ model: 'large', done: 2, total: 3, failed: 1 })
+    expect(manager.countStaleChunks()).toBe(1)
+    expect(await manager.reembedDocuments({ batchSize: 2 })).toEqual({ model: 'large', done: 3, total: 3, failed: 0 })
+  })
+})
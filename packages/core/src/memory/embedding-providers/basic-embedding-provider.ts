@@ -25,6 +25,10 @@ export class BasicEmbeddingProvider implements EmbeddingProvider {
     return new Float32Array(embedding);
   }
 
+  async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+
   getDimensions(): number {
     return this.dimensions;
   }
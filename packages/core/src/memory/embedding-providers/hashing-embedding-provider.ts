@@ -0,0 +1,97 @@
+// Hashing Embedding Provider
+// An offline embedding provider that hashes word and character n-gram
+// features into a fixed number of dimensions (the "hashing trick")
+
+import { resolveAnalyzer, type Analyzer } from '../../analyzers';
+import type { AnalyzerConfig } from '../../types';
+import { EmbeddingProvider } from '../types';
+
+export interface HashingEmbeddingOptions {
+  // Length of the vectors; more dimensions mean fewer hash collisions
+  dimensions?: number;
+  // Analyzer producing the words; defaults to 'english' (stemmed, no stop words)
+  analyzer?: AnalyzerConfig;
+  // Weights of the feature kinds; set one to 0 to leave it out
+  wordWeight?: number;
+  bigramWeight?: number;
+  trigramWeight?: number;
+}
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  private dimensions: number;
+  private analyzer: Analyzer;
+  private weights: { word: number; bigram: number; trigram: number };
+
+  constructor(options: HashingEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error(`Embedding dimensions must be a positive integer, got ${options.dimensions}`);
+    }
+    this.analyzer = resolveAnalyzer(options.analyzer ?? 'english');
+    this.weights = {
+      word: options.wordWeight ?? 1,
+      bigram: options.bigramWeight ?? 0.5,
+      trigram: options.trigramWeight ?? 0.5
+    };
+  }
+
+  async generateEmbedding(text: string): Promise<Float32Array> {
+    return this.embed(text);
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  getModel(): string {
+    return `hashing-ngram-${this.dimensions}`;
+  }
+
+  private embed(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+    const words = this.analyzer.analyze(text);
+    words.forEach((word, i) => {
+      add(`w:${word}`);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`);
+      // Character trigrams match words the analyzer keeps apart, such as
+      // typos and compounds; the markers tell word edges from the middle
+      const chars = Array.from(`<${word}>`);
+      for (let j = 0; j + 3 <= chars.length; j++) add(`c:${chars.slice(j, j + 3).join('')}`);
+    });
+
+    // Sublinear term frequency, with a hash bit picking the sign so that
+    // collisions cancel out instead of piling up
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, count] of counts) {
+      const weight = feature[0] === 'w' ? this.weights.word : feature[0] === 'b' ? this.weights.bigram : this.weights.trigram;
+      if (weight <= 0) continue;
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    let magnitude = 0;
+    for (const value of vector) magnitude += value * value;
+    magnitude = Math.sqrt(magnitude);
+    if (magnitude > 0) {
+      for (let i = 0; i < vector.length; i++) vector[i] /= magnitude;
+    }
+    return vector;
+  }
+}
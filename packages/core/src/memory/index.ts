@@ -9,6 +9,8 @@ export type {
   MemoryUpdateContext
 } from './scoring';
 export { BasicEmbeddingProvider } from './embedding-providers/basic-embedding-provider';
+export { HashingEmbeddingProvider } from './embedding-providers/hashing-embedding-provider';
+export type { HashingEmbeddingOptions } from './embedding-providers/hashing-embedding-provider';
 
 export type {
   MemoryRecord,
@@ -3,6 +3,9 @@
 
 import * as crypto from 'crypto';
 import { MemoryScoring } from './scoring';
+import { highlightText } from '../highlight';
+import { mmrLambda, selectMMR } from '../mmr';
+import type { ReembedOptions, ReembedProgress } from '../types';
 import {
   MemoryRecord,
   MemoryQueryOptions,
@@ -16,12 +19,17 @@ import {
   DocumentProcessingOptions
 } from './types';
 
+// Model of the built-in character frequency embedding
+const BASIC_EMBEDDING_MODEL = 'basic';
+
 export class MemoryManager {
   private memories = new Map<string, MemoryRecord>();
   private vectorIndex: Map<string, number[]> = new Map();
   private documents = new Map<string, DocumentRecord>();
   private documentChunks = new Map<string, DocumentChunk>();
   private embeddingProvider: EmbeddingProvider | null = null;
+  // Unfinished reembedDocuments() job, continued by the next call
+  private reembedProgress: ReembedProgress | null = null;
   private initialized = false;
   private scoring: MemoryScoring;
 
@@ -192,9 +200,12 @@ export class MemoryManager {
         };
       });
 
-      return scoredMemories
-        .sort((a, b) => b.relevance - a.relevance)
-        .slice(0, limit);
+      scoredMemories.sort((a, b) => b.relevance - a.relevance);
+      if (options.mmr) {
+        const candidates = scoredMemories.slice(0, Math.max(options.mmr.fetchK ?? limit * 4, limit));
+        return selectMMR(candidates, result => result.similarity, result => result.memory.vector, limit, mmrLambda(options.mmr));
+      }
+      return scoredMemories.slice(0, limit);
     }
 
     // Keyword search (fallback)
@@ -425,6 +436,10 @@ export class MemoryManager {
   registerEmbeddingProvider(provider: EmbeddingProvider): void {
     this.embeddingProvider = provider;
     console.log('[MemoryManager] Embedding provider registered:', provider.getModel());
+    const stale = this.countStaleChunks();
+    if (stale > 0) {
+      console.log(`[MemoryManager] ${stale} chunks were embedded by another model; semantic search skips them until reembedDocuments() runs`);
+    }
   }
 
   /**
@@ -496,26 +511,16 @@ export class MemoryManager {
 
     this.documents.set(documentId, document);
 
+    // Embed all chunks up front, in one batch where the provider supports it
+    const embedded = options.generateEmbeddings !== false
+      ? await this.embedChunks(chunks)
+      : { vectors: [], model: undefined };
+
     // Store chunks with embeddings
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
       const chunkId = this.generateChunkId();
-
-      let chunkVector: Float32Array | undefined;
-      if (this.embeddingProvider && options.generateEmbeddings !== false) {
-        try {
-          chunkVector = await this.embeddingProvider.generateEmbedding(chunk);
-        } catch (error) {
-          console.warn('[MemoryManager] Failed to generate embedding for chunk, using fallback:', error);
-          // Fallback to basic embedding
-          const basicEmbedding = await this.generateEmbedding(chunk);
-          chunkVector = new Float32Array(basicEmbedding);
-        }
-      } else if (options.generateEmbeddings !== false) {
-        // Use basic embedding as fallback
-        const basicEmbedding = await this.generateEmbedding(chunk);
-        chunkVector = new Float32Array(basicEmbedding);
-      }
+      const chunkVector: Float32Array | undefined = embedded.vectors[i];
 
       const documentChunk: DocumentChunk = {
         id: chunkId,
@@ -525,10 +530,12 @@ export class MemoryManager {
           ...metadata,
           chunkIndex: i,
           totalChunks: chunks.length,
-          embeddingProvider: this.embeddingProvider ? this.embeddingProvider.getModel() : 'basic'
+          embeddingProvider: embedded.model ?? (this.embeddingProvider ? this.embeddingProvider.getModel() : BASIC_EMBEDDING_MODEL)
         },
         chunkIndex: i,
         vector: chunkVector,
+        embeddingModel: chunkVector ? embedded.model : undefined,
+        embeddingDims: chunkVector?.length,
         createdAt: now,
         importance: this.calculateChunkImportance(chunk, i, chunks.length),
         accessCount: 0,
@@ -550,6 +557,105 @@ export class MemoryManager {
     return documentId;
   }
 
+  /**
+   * Embed document chunks with the provider, falling back to basic
+   * embeddings if it fails; returns the model that embedded them
+   */
+  private async embedChunks(chunks: string[]): Promise<{ vectors: Float32Array[]; model: string }> {
+    const provider = this.embeddingProvider;
+    if (provider) {
+      try {
+        return { vectors: await this.embedWith(provider, chunks), model: provider.getModel() };
+      } catch (error) {
+        console.warn('[MemoryManager] Failed to generate embeddings for chunks, using fallback:', error);
+      }
+    }
+
+    // Use basic embedding as fallback
+    const vectors = await Promise.all(chunks.map(async chunk => new Float32Array(await this.generateEmbedding(chunk))));
+    return { vectors, model: BASIC_EMBEDDING_MODEL };
+  }
+
+  /**
+   * Embed texts in one batch when the provider has generateEmbeddings()
+   */
+  private async embedWith(provider: EmbeddingProvider, texts: string[]): Promise<Float32Array[]> {
+    const vectors = provider.generateEmbeddings
+      ? await provider.generateEmbeddings(texts)
+      : await Promise.all(texts.map(text => provider.generateEmbedding(text)));
+    if (vectors.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+    }
+    return vectors;
+  }
+
+  /**
+   * Whether a chunk's vector comes from the current provider's model, at
+   * its dimensions
+   */
+  private isCurrentChunk(chunk: DocumentChunk): boolean {
+    const provider = this.embeddingProvider;
+    const model = provider ? provider.getModel() : BASIC_EMBEDDING_MODEL;
+    const dims = provider ? provider.getDimensions() : 128;
+    return chunk.embeddingModel === model && chunk.vector?.length === dims;
+  }
+
+  /**
+   * Count the embedded chunks whose vectors are stale
+   */
+  countStaleChunks(): number {
+    let stale = 0;
+    for (const chunk of this.documentChunks.values()) {
+      if (chunk.vector && !this.isCurrentChunk(chunk)) stale++;
+    }
+    return stale;
+  }
+
+  /**
+   * Re-embed the chunks embedded by another model, or at other dimensions,
+   * than the registered provider's; semantic search skips them meanwhile.
+   * If the provider fails the job stops, and the next call continues it.
+   */
+  async reembedDocuments(options: Omit<ReembedOptions, 'field'> = {}): Promise<ReembedProgress> {
+    const provider = this.embeddingProvider;
+    if (!provider) {
+      throw new Error('No embedding provider registered');
+    }
+
+    const model = provider.getModel();
+    const batchSize = options.batchSize ?? 32;
+    const stale = Array.from(this.documentChunks.values()).filter(chunk => chunk.vector && !this.isCurrentChunk(chunk));
+    const done = this.reembedProgress?.model === model ? this.reembedProgress.done : 0;
+    const progress: ReembedProgress = { model, done, total: done + stale.length, failed: 0 };
+    this.reembedProgress = progress;
+    options.onProgress?.({ ...progress });
+
+    for (let start = 0; start < stale.length; start += batchSize) {
+      // A provider registered meanwhile starts its own job
+      if (this.embeddingProvider !== provider) break;
+      const batch = stale.slice(start, start + batchSize);
+      try {
+        const vectors = await this.embedWith(provider, batch.map(chunk => chunk.content));
+        batch.forEach((chunk, i) => {
+          chunk.vector = vectors[i];
+          chunk.embeddingModel = model;
+          chunk.embeddingDims = vectors[i].length;
+          chunk.metadata.embeddingProvider = model;
+        });
+        progress.done += batch.length;
+      } catch (error) {
+        console.warn('[MemoryManager] Re-embedding stopped; call reembedDocuments() again to resume:', error);
+        progress.failed = stale.length - start;
+        options.onProgress?.({ ...progress });
+        return { ...progress };
+      }
+      options.onProgress?.({ ...progress });
+    }
+
+    if (progress.done === progress.total) this.reembedProgress = null;
+    return { ...progress };
+  }
+
   /**
    * Search documents with hybrid search capabilities
    */
@@ -577,12 +683,27 @@ export class MemoryManager {
 
     // Deduplicate and rank results
     const uniqueResults = this.deduplicateDocumentResults(results);
-    const rankedResults = this.rankDocumentResults(uniqueResults, query);
+    let rankedResults = this.rankDocumentResults(uniqueResults, query);
+
+    // Diversify by the vectors of the matched chunks
+    if (options.mmr) {
+      const vectors = new Map<string, Float32Array>();
+      for (const chunk of this.documentChunks.values()) {
+        if (chunk.vector && this.isCurrentChunk(chunk)) vectors.set(`${chunk.documentId}-${chunk.chunkIndex}`, chunk.vector);
+      }
+      rankedResults = selectMMR(
+        rankedResults.slice(0, Math.max(options.mmr.fetchK ?? limit * 4, limit)),
+        result => result.relevance,
+        result => vectors.get(`${result.memory.id}-${result.chunkIndex}`),
+        limit,
+        mmrLambda(options.mmr)
+      );
+    }
 
     // Add highlights if requested
-    if (options.includeHighlights) {
+    if (options.includeHighlights || options.highlight) {
       for (const result of rankedResults) {
-        result.highlights = this.generateHighlights(result.memory.content, query);
+        result.highlights = highlightText(result.memory.content, query, options.highlight);
       }
     }
 
@@ -775,9 +896,10 @@ export class MemoryManager {
 
     const results: DocumentSearchResult[] = [];
 
-    // Search through document chunks
+    // Search through document chunks, leaving out those embedded by another
+    // model until they are re-embedded
     for (const [chunkId, chunk] of this.documentChunks) {
-      if (chunk.vector) {
+      if (chunk.vector && this.isCurrentChunk(chunk)) {
         const similarity = this.cosineSimilarity(Array.from(queryEmbedding), Array.from(chunk.vector));
 
         if (similarity >= threshold) {
@@ -876,24 +998,6 @@ export class MemoryManager {
     return relevance;
   }
 
-  private generateHighlights(content: string, query: string): string[] {
-    const highlights: string[] = [];
-    const queryWords = query.toLowerCase().split(/\s+/);
-
-    for (const word of queryWords) {
-      if (word.length < 3) continue;
-
-      const regex = new RegExp(`\\b${word}\\w*`, 'gi');
-      const matches = content.match(regex);
-
-      if (matches) {
-        highlights.push(...matches.slice(0, 3)); // Limit highlights per word
-      }
-    }
-
-    return [...new Set(highlights)].slice(0, 5); // Unique highlights, max 5
-  }
-
   private calculateChunkImportance(chunk: string, index: number, totalChunks: number): number {
     let importance = 0.5; // Base importance
 
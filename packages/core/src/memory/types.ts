@@ -1,5 +1,7 @@
 // Memory AI Types and Interfaces
 
+import type { HighlightOptions, MMROptions } from '../types';
+
 export interface MemoryRecord {
   id: string;
   content: string;
@@ -24,6 +26,8 @@ export interface MemoryQueryOptions {
   includeRelated?: boolean;
   sortBy?: 'relevance' | 'recency' | 'importance' | 'accessCount';
   tags?: string[];
+  // Diversify semantic results by maximal marginal relevance
+  mmr?: MMROptions;
 }
 
 export interface MemoryImportanceScore {
@@ -84,6 +88,10 @@ export interface DocumentChunk {
   metadata: Record<string, any>;
   chunkIndex: number;
   vector?: Float32Array;
+  // Model and dimensions of the vector, so vectors of an earlier provider
+  // are told apart and re-embedded
+  embeddingModel?: string;
+  embeddingDims?: number;
   createdAt: Date;
   importance?: number;
   accessCount?: number;
@@ -92,6 +100,8 @@ export interface DocumentChunk {
 
 export interface DocumentSearchOptions extends MemoryQueryOptions {
   includeHighlights?: boolean;
+  // Tags and fragment size of the highlights
+  highlight?: HighlightOptions;
   searchStrategy?: 'hybrid' | 'semantic' | 'keyword';
   chunkingStrategy?: 'semantic' | 'fixed' | 'recursive';
   maxChunkSize?: number;
@@ -99,6 +109,7 @@ export interface DocumentSearchOptions extends MemoryQueryOptions {
 }
 
 export interface DocumentSearchResult extends MemorySearchResult {
+  // Fragments of the content with matched words tagged
   highlights?: string[];
   chunkRelevance?: number;
   documentContext?: string;
@@ -108,6 +119,9 @@ export interface DocumentSearchResult extends MemorySearchResult {
 
 export interface EmbeddingProvider {
   generateEmbedding(text: string): Promise<Float32Array>;
+  // Embeds many texts in one call, in order; callers fall back to
+  // generateEmbedding() per text when a provider has no batch support
+  generateEmbeddings?(texts: string[]): Promise<Float32Array[]>;
   getDimensions(): number;
   getModel(): string;
 }
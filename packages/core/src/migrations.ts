@@ -0,0 +1,183 @@
+// Declarative schema migrations
+//
+// A migration is a list of steps built with defineMigration(). ColumnistDB
+// runs the steps for every version between the stored and the requested one:
+// inside onupgradeneeded for IndexedDB and directly against the in-memory
+// fallback. Index steps change IndexedDB indexes; every other step rewrites
+// the rows of its table, after which the table's inverted index, stats and
+// vector entries are rebuilt.
+
+import type {
+  AppliedMigration,
+  ColumnType,
+  IndexSpec,
+  Migration,
+  MigrationDefinition,
+  MigrationStep
+} from "./types"
+
+export const MIGRATION_LOG_KEY = "migrations"
+
+// Fluent builder for a MigrationDefinition
+export class MigrationBuilder {
+  private steps: MigrationStep[] = []
+
+  constructor(private description?: string) {}
+
+  // Fill the column on existing rows that do not have it yet
+  addColumn(table: string, column: string, type: ColumnType, options: { default?: unknown } = {}): this {
+    this.steps.push({ op: "addColumn", table, column, type, default: options.default })
+    return this
+  }
+
+  renameColumn(table: string, from: string, to: string): this {
+    this.steps.push({ op: "renameColumn", table, from, to })
+    return this
+  }
+
+  dropColumn(table: string, column: string): this {
+    this.steps.push({ op: "dropColumn", table, column })
+    return this
+  }
+
+  // Convert stored values to a new type; without convert a best-effort
+  // conversion is used (e.g. "42" -> 42, ISO string -> Date)
+  changeType(table: string, column: string, type: ColumnType, convert?: (value: unknown) => unknown): this {
+    this.steps.push({ op: "changeType", table, column, type, convert })
+    return this
+  }
+
+  addIndex(table: string, index: IndexSpec): this {
+    this.steps.push({ op: "addIndex", table, index })
+    return this
+  }
+
+  dropIndex(table: string, index: IndexSpec): this {
+    this.steps.push({ op: "dropIndex", table, index })
+    return this
+  }
+
+  transformRows(
+    table: string,
+    transform: (row: Record<string, unknown>) => Record<string, unknown> | null | void
+  ): this {
+    this.steps.push({ op: "transformRows", table, transform })
+    return this
+  }
+
+  build(): MigrationDefinition {
+    return { description: this.description, steps: [...this.steps] }
+  }
+}
+
+export function defineMigration(description?: string): MigrationBuilder {
+  return new MigrationBuilder(description)
+}
+
+export function isMigrationDefinition(migration: Migration | undefined): migration is MigrationDefinition {
+  return typeof migration === "object" && migration !== null && Array.isArray(migration.steps)
+}
+
+export function isRowStep(step: MigrationStep): boolean {
+  return step.op !== "addIndex" && step.op !== "dropIndex"
+}
+
+// Tables whose rows a migration rewrites
+export function affectedTables(definition: MigrationDefinition): string[] {
+  return Array.from(new Set(definition.steps.filter(isRowStep).map(step => step.table)))
+}
+
+// Best-effort conversion of a stored value to an application value of type
+export function convertValue(value: unknown, type: ColumnType): unknown {
+  if (value === undefined || value === null) return value
+  switch (type) {
+    case "string":
+      return typeof value === "object" ? JSON.stringify(value) : String(value)
+    case "number": {
+      const n = typeof value === "number" ? value : Number(value)
+      return Number.isNaN(n) ? null : n
+    }
+    case "boolean":
+      if (value === "false" || value === "0") return false
+      return Boolean(value)
+    case "date": {
+      const date = value instanceof Date ? value : new Date(value as string | number)
+      return Number.isNaN(date.getTime()) ? null : date
+    }
+    case "json":
+      if (typeof value !== "string") return value
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value
+      }
+  }
+}
+
+export interface RowCodec {
+  // Storage form -> application form
+  decode(row: Record<string, unknown>): Record<string, unknown>
+  // Application form -> storage form
+  encode(row: Record<string, unknown>): Record<string, unknown>
+  // Storage form of a single value of the given type
+  encodeValue(value: unknown, type: ColumnType): unknown
+}
+
+/**
+ * Apply the row steps of one table to a stored row. Returns the new stored
+ * row, or null when a transformRows step deleted it.
+ */
+export function migrateRow(
+  row: Record<string, unknown>,
+  steps: MigrationStep[],
+  codec: RowCodec
+): Record<string, unknown> | null {
+  let current: Record<string, unknown> = { ...row }
+  for (const step of steps) {
+    switch (step.op) {
+      case "addColumn":
+        if (current[step.column] === undefined && step.default !== undefined) {
+          current[step.column] = codec.encodeValue(step.default, step.type)
+        }
+        break
+      case "renameColumn":
+        if (step.from in current) {
+          current[step.to] = current[step.from]
+          delete current[step.from]
+        }
+        break
+      case "dropColumn":
+        delete current[step.column]
+        break
+      case "changeType": {
+        const converted = step.convert ? step.convert(current[step.column]) : convertValue(current[step.column], step.type)
+        current[step.column] = codec.encodeValue(converted, step.type)
+        break
+      }
+      case "transformRows": {
+        const decoded = codec.decode(current)
+        const result = step.transform(decoded)
+        if (result === null) return null
+        current = codec.encode(result ?? decoded)
+        break
+      }
+    }
+  }
+  return current
+}
+
+// Serializable record of an applied version for the _meta_schema log
+export function describeMigration(version: number, definition: MigrationDefinition): AppliedMigration {
+  return {
+    version,
+    description: definition.description,
+    steps: definition.steps.map(step => {
+      const entry: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(step)) {
+        if (typeof value !== "function" && value !== undefined) entry[key] = value
+      }
+      return entry as AppliedMigration["steps"][number]
+    }),
+    appliedAt: new Date().toISOString()
+  }
+}
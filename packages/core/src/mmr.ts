@@ -0,0 +1,71 @@
+// Maximal marginal relevance
+//
+// The top hits of a similarity search are often near-duplicates, such as
+// neighbouring chunks of one document. MMR (Carbonell and Goldstein) picks
+// hits one at a time, each the one maximizing
+//   lambda * relevance - (1 - lambda) * highest similarity to a picked hit
+// so lambda 1 keeps the ranking and lower values trade relevance for
+// novelty. Relevance should be on the scale of the cosine similarity
+// between hits, such as the cosine similarity to the query.
+
+import type { MMROptions } from "./types"
+
+export const DEFAULT_MMR_LAMBDA = 0.5
+
+export function mmrLambda(options: MMROptions): number {
+  const lambda = options.lambda ?? DEFAULT_MMR_LAMBDA
+  if (!(lambda >= 0 && lambda <= 1)) throw new Error(`mmr.lambda must be between 0 and 1, got ${options.lambda}`)
+  return lambda
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return dot / (Math.sqrt(na * nb) || 1)
+}
+
+/**
+ * Pick limit hits, best first, by maximal marginal relevance. Hits without
+ * a vector count as unlike every other hit.
+ */
+export function selectMMR<T>(
+  hits: T[],
+  relevance: (hit: T) => number,
+  vectorOf: (hit: T) => ArrayLike<number> | undefined,
+  limit: number,
+  lambda = DEFAULT_MMR_LAMBDA
+): T[] {
+  const remaining = hits.map(hit => ({
+    hit,
+    relevance: relevance(hit),
+    vector: vectorOf(hit),
+    // Highest similarity to a picked hit so far
+    redundancy: 0
+  }))
+
+  const picked: T[] = []
+  while (picked.length < limit && remaining.length > 0) {
+    let best = 0
+    let bestScore = -Infinity
+    remaining.forEach((entry, i) => {
+      const score = lambda * entry.relevance - (1 - lambda) * entry.redundancy
+      if (score > bestScore) {
+        best = i
+        bestScore = score
+      }
+    })
+    const [next] = remaining.splice(best, 1)
+    picked.push(next.hit)
+    if (!next.vector) continue
+    for (const entry of remaining) {
+      if (entry.vector) entry.redundancy = Math.max(entry.redundancy, cosineSimilarity(entry.vector, next.vector))
+    }
+  }
+  return picked
+}
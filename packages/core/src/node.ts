@@ -0,0 +1,5 @@
+// Node entry point: everything from the main entry plus engines that depend
+// on Node built-ins, kept out of the main entry so browser bundles stay clean
+export * from './index';
+export { FileStorageEngine, fileStorageFor, encodeValue, decodeValue } from './storage/file';
+export type { FileStorageOptions } from './storage/file';
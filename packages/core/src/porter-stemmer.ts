@@ -0,0 +1,108 @@
+// The Porter stemming algorithm for English
+// (M.F. Porter, "An algorithm for suffix stripping", 1980)
+//
+// Words are reduced to a stem by stripping suffixes in five steps, each
+// guarded by the "measure" m of the remaining stem: the number of
+// vowel-consonant sequences in it. Only lowercase a-z words are stemmed.
+
+const STEP2: Record<string, string> = {
+  ational: "ate",
+  tional: "tion",
+  enci: "ence",
+  anci: "ance",
+  izer: "ize",
+  bli: "ble",
+  alli: "al",
+  entli: "ent",
+  eli: "e",
+  ousli: "ous",
+  ization: "ize",
+  ation: "ate",
+  ator: "ate",
+  alism: "al",
+  iveness: "ive",
+  fulness: "ful",
+  ousness: "ous",
+  aliti: "al",
+  iviti: "ive",
+  biliti: "ble",
+  logi: "log"
+}
+
+const STEP3: Record<string, string> = {
+  icate: "ic",
+  ative: "",
+  alize: "al",
+  iciti: "ic",
+  ical: "ic",
+  ful: "",
+  ness: ""
+}
+
+const consonant = "[^aeiou]"
+const vowel = "[aeiouy]"
+const consonants = consonant + "[^aeiouy]*"
+const vowels = vowel + "[aeiou]*"
+
+// m > 0, m = 1 and m > 1
+const MEASURE_GT0 = new RegExp(`^(${consonants})?${vowels}${consonants}`)
+const MEASURE_EQ1 = new RegExp(`^(${consonants})?${vowels}${consonants}(${vowels})?$`)
+const MEASURE_GT1 = new RegExp(`^(${consonants})?${vowels}${consonants}${vowels}${consonants}`)
+// The stem contains a vowel
+const HAS_VOWEL = new RegExp(`^(${consonants})?${vowel}`)
+// Ends consonant-vowel-consonant, where the last consonant is not w, x or y
+const CVC = new RegExp(`^${consonants}${vowel}[^aeiouwxy]$`)
+
+export function porterStem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word
+
+  // A leading y is a consonant; mark it so the patterns don't read it as a vowel
+  const leadingY = word[0] === "y"
+  let w = leadingY ? "Y" + word.slice(1) : word
+  let match: RegExpExecArray | null
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) w = match[1] + match[2]
+  else if ((match = /^(.+?)([^s])s$/.exec(w))) w = match[1] + match[2]
+
+  // Step 1b: past tense and gerunds
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT0.test(match[1])) w = w.slice(0, -1)
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    const stem = match[1]
+    if (HAS_VOWEL.test(stem)) {
+      w = stem
+      if (/(at|bl|iz)$/.test(w)) w += "e"
+      else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1)
+      else if (CVC.test(w)) w += "e"
+    }
+  }
+
+  // Step 1c: y after a vowel-containing stem becomes i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) w = match[1] + "i"
+
+  // Step 2: double suffixes
+  match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w)
+  if (match && MEASURE_GT0.test(match[1])) w = match[1] + STEP2[match[2]]
+
+  // Step 3: -ic-, -full, -ness etc.
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w)
+  if (match && MEASURE_GT0.test(match[1])) w = match[1] + STEP3[match[2]]
+
+  // Step 4: remaining suffixes of longer stems
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_GT1.test(match[1])) w = match[1]
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    const stem = match[1] + match[2]
+    if (MEASURE_GT1.test(stem)) w = stem
+  }
+
+  // Step 5: a final -e, and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const stem = match[1]
+    if (MEASURE_GT1.test(stem) || (MEASURE_EQ1.test(stem) && !CVC.test(stem))) w = stem
+  }
+  if (/ll$/.test(w) && MEASURE_GT1.test(w)) w = w.slice(0, -1)
+
+  return leadingY ? "y" + w.slice(1) : w
+}
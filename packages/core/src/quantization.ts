@@ -0,0 +1,217 @@
+// Vector quantization for the _vec stores
+//
+// "int8" scales every vector by its largest component into signed bytes.
+// "pq" (product quantization) splits vectors into subvectors and stores, for
+// each, the index of the nearest of up to 256 centroids trained on the
+// table's vectors. Search scores the codes directly: int8 through the scale,
+// pq through per-query lookup tables of subvector-to-centroid scores.
+
+import type { QuantizationOptions, VectorQuantization } from "./types"
+
+export type VectorMetric = "cosine" | "dot" | "euclidean"
+
+// The encoded form kept in a _vec record next to (or instead of) the vector
+export interface QuantizedVector {
+  quantized: "int8" | "pq"
+  code: Int8Array | Uint8Array
+  // int8: value of one step
+  scale?: number
+}
+
+export interface PQCodebook {
+  dims: number
+  // centroids[subvector][centroid] is a vector of dims / subvectors values
+  centroids: number[][][]
+}
+
+export interface Quantizer {
+  type: "int8" | "pq"
+  // Bytes of one code
+  codeBytes: number
+  encode(vector: ArrayLike<number>): QuantizedVector
+  decode(quantized: QuantizedVector): Float32Array
+  // Scores codes against the query like the metric scores vectors
+  scorer(query: ArrayLike<number>, metric: VectorMetric): (quantized: QuantizedVector) => number
+}
+
+const PQ_CENTROIDS = 256
+const DEFAULT_RERANK = 4
+
+// Options with defaults filled in; subvectors default to 8 dimensions each
+export function quantizationOptions(config: VectorQuantization, dims: number): Required<QuantizationOptions> {
+  const options = typeof config === "string" ? { type: config } : config
+  const subvectors = options.subvectors ?? defaultSubvectors(dims)
+  if (options.type === "pq" && (subvectors < 1 || dims % subvectors !== 0)) {
+    throw new Error(`Product quantization needs subvectors that divide the ${dims} dimensions, got ${subvectors}`)
+  }
+  return {
+    type: options.type,
+    subvectors,
+    rerank: options.rerank ?? DEFAULT_RERANK,
+    keepOriginals: options.keepOriginals ?? false
+  }
+}
+
+function defaultSubvectors(dims: number): number {
+  for (let subvectors = Math.floor(dims / 8); subvectors > 1; subvectors--) {
+    if (dims % subvectors === 0) return subvectors
+  }
+  return 1
+}
+
+function score(metric: VectorMetric, query: ArrayLike<number>, vector: ArrayLike<number>): number {
+  let dot = 0
+  let queryNorm = 0
+  let vectorNorm = 0
+  let squared = 0
+  for (let i = 0; i < query.length; i++) {
+    dot += query[i] * vector[i]
+    queryNorm += query[i] * query[i]
+    vectorNorm += vector[i] * vector[i]
+    squared += (query[i] - vector[i]) ** 2
+  }
+  if (metric === "dot") return dot
+  if (metric === "euclidean") return -Math.sqrt(squared)
+  return dot / (Math.sqrt(queryNorm) * Math.sqrt(vectorNorm) || 1)
+}
+
+export function createInt8Quantizer(dims: number): Quantizer {
+  const decode = (quantized: QuantizedVector) => {
+    const vector = new Float32Array(quantized.code.length)
+    for (let i = 0; i < vector.length; i++) vector[i] = quantized.code[i] * quantized.scale!
+    return vector
+  }
+  return {
+    type: "int8",
+    // The scale is stored as a float next to the bytes
+    codeBytes: dims + 4,
+    encode(vector) {
+      let max = 0
+      for (let i = 0; i < vector.length; i++) max = Math.max(max, Math.abs(vector[i]))
+      const scale = max > 0 ? max / 127 : 1
+      const code = new Int8Array(vector.length)
+      for (let i = 0; i < vector.length; i++) code[i] = Math.round(vector[i] / scale)
+      return { quantized: "int8", code, scale }
+    },
+    decode,
+    scorer(query, metric) {
+      return quantized => score(metric, query, decode(quantized))
+    }
+  }
+}
+
+function nearestCentroid(centroids: ArrayLike<number>[], vector: ArrayLike<number>, offset: number): number {
+  let best = 0
+  let bestDistance = Infinity
+  for (let c = 0; c < centroids.length; c++) {
+    const centroid = centroids[c]
+    let distance = 0
+    for (let i = 0; i < centroid.length; i++) distance += (vector[offset + i] - centroid[i]) ** 2
+    if (distance < bestDistance) {
+      best = c
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * Train product quantization centroids with k-means, separately for each
+ * subvector. Up to 256 centroids per subvector, fewer with fewer samples.
+ */
+export function trainPQ(samples: ArrayLike<number>[], dims: number, subvectors: number, iterations = 10): PQCodebook {
+  const width = dims / subvectors
+  const k = Math.min(PQ_CENTROIDS, samples.length)
+  const centroids: number[][][] = []
+
+  for (let s = 0; s < subvectors; s++) {
+    const offset = s * width
+    const slice = (vector: ArrayLike<number>) => Array.from({ length: width }, (_, i) => vector[offset + i])
+
+    // Start from k distinct random samples
+    const order = samples.map((_, i) => i)
+    for (let i = 0; i < k; i++) {
+      const j = i + Math.floor(Math.random() * (order.length - i))
+      const picked = order[j]
+      order[j] = order[i]
+      order[i] = picked
+    }
+    let means = order.slice(0, k).map(i => slice(samples[i]))
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const sums = means.map(() => new Array<number>(width).fill(0))
+      const counts = new Array<number>(k).fill(0)
+      for (const sample of samples) {
+        const c = nearestCentroid(means, sample, offset)
+        counts[c]++
+        for (let i = 0; i < width; i++) sums[c][i] += sample[offset + i]
+      }
+      // Empty clusters keep their centroid
+      means = means.map((mean, c) => (counts[c] > 0 ? sums[c].map(sum => sum / counts[c]) : mean))
+    }
+    centroids.push(means)
+  }
+  return { dims, centroids }
+}
+
+export function createPQQuantizer(codebook: PQCodebook): Quantizer {
+  const subvectors = codebook.centroids.length
+  const width = codebook.dims / subvectors
+  return {
+    type: "pq",
+    codeBytes: subvectors,
+    encode(vector) {
+      const code = new Uint8Array(subvectors)
+      for (let s = 0; s < subvectors; s++) code[s] = nearestCentroid(codebook.centroids[s], vector, s * width)
+      return { quantized: "pq", code }
+    },
+    decode(quantized) {
+      const vector = new Float32Array(codebook.dims)
+      for (let s = 0; s < subvectors; s++) vector.set(codebook.centroids[s][quantized.code[s]], s * width)
+      return vector
+    },
+    scorer(query, metric) {
+      // Per subvector and centroid: dot product with the query's subvector,
+      // squared distance to it, and squared norm of the centroid
+      const dots: number[][] = []
+      const distances: number[][] = []
+      const norms: number[][] = []
+      let queryNorm = 0
+      for (let i = 0; i < query.length; i++) queryNorm += query[i] * query[i]
+      for (let s = 0; s < subvectors; s++) {
+        const offset = s * width
+        dots.push([])
+        distances.push([])
+        norms.push([])
+        for (const centroid of codebook.centroids[s]) {
+          let dot = 0
+          let distance = 0
+          let norm = 0
+          for (let i = 0; i < width; i++) {
+            dot += query[offset + i] * centroid[i]
+            distance += (query[offset + i] - centroid[i]) ** 2
+            norm += centroid[i] * centroid[i]
+          }
+          dots[s].push(dot)
+          distances[s].push(distance)
+          norms[s].push(norm)
+        }
+      }
+
+      return quantized => {
+        let dot = 0
+        let distance = 0
+        let norm = 0
+        for (let s = 0; s < subvectors; s++) {
+          const c = quantized.code[s]
+          dot += dots[s][c]
+          distance += distances[s][c]
+          norm += norms[s][c]
+        }
+        if (metric === "dot") return dot
+        if (metric === "euclidean") return -Math.sqrt(distance)
+        return dot / (Math.sqrt(queryNorm) * Math.sqrt(norm) || 1)
+      }
+    }
+  }
+}
@@ -0,0 +1,388 @@
+// Query planner for ColumnistDB.find
+//
+// Scores every index available on a table (primary key, single-field and
+// compound secondary indexes) against the where/orderBy of a query and picks
+// the cheapest access path. The resulting plan is what find() executes and
+// what explain() returns.
+
+import type { TableDefinition, WhereCondition, IndexSpec } from "./types"
+import { isOperatorObject, literalRegexPrefix, requiredFieldConditions } from "./where"
+import type { KeyRangeFactory, StorageKeyRange } from "./storage"
+
+export interface IndexDescriptor {
+  name: string
+  keyPath: string[]
+  primary: boolean
+}
+
+export interface KeyBounds {
+  lower?: unknown
+  upper?: unknown
+  lowerOpen: boolean
+  upperOpen: boolean
+}
+
+export interface PlanCandidate {
+  index: string
+  keyPath: string[]
+  score: number
+  equalityFields: string[]
+  rangeField: string | null
+  orderSatisfied: boolean
+}
+
+export interface QueryPlan {
+  table: string
+  strategy: "primaryKey" | "index" | "fullScan"
+  // IndexedDB index name, null when the object store itself is scanned
+  index: string | null
+  keyPath: string[]
+  equalityFields: string[]
+  rangeField: string | null
+  // Key ranges scanned in order; several when $in expands into multiple
+  // lookups, empty when the whole index or store is walked
+  ranges: KeyBounds[]
+  // True when the cursor already yields rows in the requested order, so the
+  // scan can stop as soon as offset + limit rows have matched
+  orderSatisfied: boolean
+  direction: "next" | "prev"
+  // Where fields that are not covered by the key ranges. Every row is still
+  // checked against the full where clause.
+  residualFields: string[]
+  score: number
+  candidates: PlanCandidate[]
+}
+
+export interface ParsedOrderBy {
+  field: string | null
+  direction: "asc" | "desc"
+}
+
+// Upper sentinel for compound prefixes: arrays sort after every other key type
+const MAX_KEY_SUFFIX: unknown[] = []
+
+export function indexName(spec: IndexSpec): string {
+  return Array.isArray(spec) ? spec.join("+") : spec
+}
+
+export function indexKeyPath(spec: IndexSpec): string[] {
+  return Array.isArray(spec) ? [...spec] : [spec]
+}
+
+export function describeIndexes(def: TableDefinition): IndexDescriptor[] {
+  const pk = def.primaryKey || "id"
+  const out: IndexDescriptor[] = [{ name: pk, keyPath: [pk], primary: true }]
+  for (const spec of def.secondaryIndexes || []) {
+    out.push({ name: indexName(spec), keyPath: indexKeyPath(spec), primary: false })
+  }
+  return out
+}
+
+export function parseOrderBy(orderBy: string | { field: string; direction?: "asc" | "desc" } | undefined): ParsedOrderBy {
+  if (!orderBy) return { field: null, direction: "asc" }
+  if (typeof orderBy === "string") return { field: orderBy, direction: "asc" }
+  return { field: orderBy.field, direction: orderBy.direction || "asc" }
+}
+
+// Convert an application value to the representation stored in IndexedDB.
+// Returns undefined when the value cannot be used as an index key.
+export function toIndexKey(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "number") return Number.isNaN(value) ? undefined : value
+  if (typeof value === "string") return value
+  return undefined
+}
+
+// Multi-value $in conditions expand into one key range per value (and per
+// combination across compound key parts); beyond this we scan instead
+const MAX_INDEX_LOOKUPS = 64
+
+// Order of index keys as IndexedDB compares them (number < date < string)
+function keyTypeRank(key: unknown): number {
+  return typeof key === "number" ? 0 : key instanceof Date ? 1 : 2
+}
+
+function compareKeys(a: unknown, b: unknown): number {
+  const rank = keyTypeRank(a) - keyTypeRank(b)
+  if (rank !== 0) return rank
+  return compareValues(a, b)
+}
+
+// Top-level date columns are stored as ISO strings, but values nested inside
+// json columns keep their structured-clone type, so Dates stay Date keys
+function fieldKey(field: string, value: unknown): unknown {
+  if (value instanceof Date && isNestedPath(field)) return Number.isNaN(value.getTime()) ? undefined : value
+  return toIndexKey(value)
+}
+
+// Keys a condition pins the field to ($in yields several), or null
+function equalityKeys(field: string, condition: unknown): unknown[] | null {
+  if (!isOperatorObject(condition)) {
+    const key = fieldKey(field, condition)
+    return key === undefined ? null : [key]
+  }
+  if ("$eq" in condition) {
+    const key = fieldKey(field, condition.$eq)
+    return key === undefined ? null : [key]
+  }
+  if (Array.isArray(condition.$in) && condition.$in.length > 0) {
+    const keys = condition.$in.map(value => fieldKey(field, value))
+    if (keys.some(key => key === undefined)) return null
+    return keys
+      .sort(compareKeys)
+      .filter((key, i, sorted) => i === 0 || compareKeys(sorted[i - 1], key) !== 0)
+  }
+  return null
+}
+
+function rangeBounds(field: string, condition: unknown): KeyBounds | null {
+  if (!isOperatorObject(condition)) return null
+  const bounds: KeyBounds = { lowerOpen: false, upperOpen: false }
+  if (condition.$gte !== undefined) {
+    bounds.lower = fieldKey(field, condition.$gte)
+  } else if (condition.$gt !== undefined) {
+    bounds.lower = fieldKey(field, condition.$gt)
+    bounds.lowerOpen = true
+  }
+  if (condition.$lte !== undefined) {
+    bounds.upper = fieldKey(field, condition.$lte)
+  } else if (condition.$lt !== undefined) {
+    bounds.upper = fieldKey(field, condition.$lt)
+    bounds.upperOpen = true
+  }
+  if (bounds.lower === undefined && bounds.upper === undefined) {
+    // String prefixes ($prefix or an anchored literal $regex) become [p, p + U+FFFF]
+    const prefix = typeof condition.$prefix === "string"
+      ? condition.$prefix
+      : condition.$regex !== undefined ? literalRegexPrefix(condition.$regex, condition.$options) : null
+    if (!prefix) return null
+    return { lower: prefix, upper: prefix + "\uffff", lowerOpen: false, upperOpen: false }
+  }
+  return bounds
+}
+
+function isNestedPath(field: string): boolean {
+  return field.includes(".")
+}
+
+// Whole json values are not usable as keys, so only dotted paths into them
+// ("metadata.documentId") are answered from an index
+function isIndexableField(def: TableDefinition, field: string): boolean {
+  return isNestedPath(field) || def.columns[field] !== "json"
+}
+
+function compoundBounds(prefix: unknown[], range: KeyBounds | null): KeyBounds {
+  // Compound keys compare element-wise and a shorter array sorts before any
+  // longer array sharing its prefix, so prefixes bound the scanned slice
+  let lower: unknown[] | undefined = prefix.length > 0 ? [...prefix] : undefined
+  let upper: unknown[] | undefined = prefix.length > 0 ? [...prefix, MAX_KEY_SUFFIX] : undefined
+  if (range?.lower !== undefined) {
+    lower = range.lowerOpen ? [...prefix, range.lower, MAX_KEY_SUFFIX] : [...prefix, range.lower]
+  }
+  if (range?.upper !== undefined) {
+    upper = range.upperOpen ? [...prefix, range.upper] : [...prefix, range.upper, MAX_KEY_SUFFIX]
+  }
+  return {
+    lower,
+    upper,
+    lowerOpen: false,
+    upperOpen: range?.upper !== undefined && range.upperOpen
+  }
+}
+
+function scoreIndex(
+  index: IndexDescriptor,
+  def: TableDefinition,
+  conditions: Record<string, unknown>,
+  order: ParsedOrderBy,
+  pk: string
+): PlanCandidate & { ranges: KeyBounds[] } {
+  const equalityFields: string[] = []
+  // Every combination of equality keys across the bound key parts
+  let prefixes: unknown[][] = [[]]
+  let multiValueFields = 0
+  let multiValueField: string | null = null
+  let rangeField: string | null = null
+  let range: KeyBounds | null = null
+
+  for (const field of index.keyPath) {
+    if (!(field in conditions) || !isIndexableField(def, field)) break
+    const keys = equalityKeys(field, conditions[field])
+    if (keys && prefixes.length * keys.length <= MAX_INDEX_LOOKUPS) {
+      equalityFields.push(field)
+      prefixes = prefixes.flatMap(prefix => keys.map(key => [...prefix, key]))
+      if (keys.length > 1) {
+        multiValueFields++
+        multiValueField = field
+      }
+      continue
+    }
+    range = rangeBounds(field, conditions[field])
+    if (range) rangeField = field
+    break
+  }
+
+  // The cursor walks (key..., primaryKey) in order, so the next unbound key
+  // part (or the primary key once every part is bound) defines row order.
+  // Several lookups only stay in order when they split on the sort field itself.
+  const nextField = index.keyPath[equalityFields.length] ?? pk
+  const orderedWithinRange = !order.field ||
+    order.field === nextField ||
+    (equalityFields.includes(order.field) && order.field !== pk)
+  const orderSatisfied = multiValueFields === 0
+    ? orderedWithinRange
+    : !order.field || (multiValueFields === 1 && order.field === multiValueField)
+
+  let ranges: KeyBounds[] = []
+  if (index.keyPath.length === 1) {
+    if (equalityFields.length === 1) {
+      ranges = prefixes.map(([key]) => ({ lower: key, upper: key, lowerOpen: false, upperOpen: false }))
+    } else if (range) {
+      ranges = [range]
+    }
+  } else if (equalityFields.length > 0 || range) {
+    ranges = prefixes.map(prefix => compoundBounds(prefix, range))
+  }
+
+  let score = equalityFields.length * 10 + (rangeField ? 5 : 0)
+  if (order.field && orderSatisfied && (score > 0 || nextField === order.field)) score += 4
+  if (score > 0) {
+    // Prefer the tighter index when two candidates bind the same fields, and
+    // a single lookup over several
+    score -= (index.keyPath.length - equalityFields.length - (rangeField ? 1 : 0)) * 0.1
+    if (ranges.length > 1) score -= 0.5
+  }
+
+  if (order.direction === "desc") ranges.reverse()
+
+  return {
+    index: index.name,
+    keyPath: index.keyPath,
+    score,
+    equalityFields,
+    rangeField,
+    orderSatisfied,
+    ranges
+  }
+}
+
+/**
+ * Choose an access path for a find() query.
+ *
+ * Only conditions every match must satisfy (top-level fields and $and
+ * clauses) drive the key ranges; $or / $not and any other operators are
+ * evaluated per row. `useIndexes: false` plans a full scan.
+ */
+export function planQuery(
+  table: string,
+  def: TableDefinition,
+  where: WhereCondition = {},
+  orderBy?: string | { field: string; direction?: "asc" | "desc" },
+  opts: { useIndexes?: boolean } = {}
+): QueryPlan {
+  const order = parseOrderBy(orderBy)
+  const pk = def.primaryKey || "id"
+  const whereFields = Object.keys(where)
+  const conditions = requiredFieldConditions(where)
+  const useIndexes = opts.useIndexes !== false
+
+  const candidates = useIndexes
+    ? describeIndexes(def).map(index => ({ index, scored: scoreIndex(index, def, conditions, order, pk) }))
+    : []
+
+  let best: (typeof candidates)[number] | null = null
+  for (const candidate of candidates) {
+    if (candidate.scored.score <= 0) continue
+    if (!best || candidate.scored.score > best.scored.score) best = candidate
+  }
+
+  const direction = order.direction === "desc" ? "prev" : "next"
+  const publicCandidates: PlanCandidate[] = candidates.map(({ scored }) => ({
+    index: scored.index,
+    keyPath: scored.keyPath,
+    score: scored.score,
+    equalityFields: scored.equalityFields,
+    rangeField: scored.rangeField,
+    orderSatisfied: scored.orderSatisfied
+  }))
+
+  if (!best) {
+    // A store scan yields rows in primary key order
+    const orderSatisfied = useIndexes && (!order.field || order.field === pk)
+    return {
+      table,
+      strategy: "fullScan",
+      index: null,
+      keyPath: [pk],
+      equalityFields: [],
+      rangeField: null,
+      ranges: [],
+      orderSatisfied: !order.field || orderSatisfied,
+      direction: orderSatisfied ? direction : "next",
+      residualFields: whereFields,
+      score: 0,
+      candidates: publicCandidates
+    }
+  }
+
+  const { index, scored } = best
+  const covered = new Set([...scored.equalityFields, ...(scored.rangeField ? [scored.rangeField] : [])])
+  return {
+    table,
+    strategy: index.primary ? "primaryKey" : "index",
+    index: index.primary ? null : index.name,
+    keyPath: index.keyPath,
+    equalityFields: scored.equalityFields,
+    rangeField: scored.rangeField,
+    ranges: scored.ranges,
+    orderSatisfied: scored.orderSatisfied,
+    direction: scored.orderSatisfied ? direction : "next",
+    residualFields: whereFields.filter(field => !covered.has(field)),
+    score: scored.score,
+    candidates: publicCandidates
+  }
+}
+
+export function keyRangeForBounds(bounds: KeyBounds | null, keyRange: KeyRangeFactory): StorageKeyRange | undefined {
+  if (!bounds) return undefined
+  const { lower, upper, lowerOpen, upperOpen } = bounds
+  if (lower !== undefined && upper !== undefined) {
+    if (!lowerOpen && !upperOpen && lower === upper) return keyRange.only(lower)
+    return keyRange.bound(lower, upper, lowerOpen, upperOpen)
+  }
+  if (lower !== undefined) return keyRange.lowerBound(lower, lowerOpen)
+  if (upper !== undefined) return keyRange.upperBound(upper, upperOpen)
+  return undefined
+}
+
+// Tighten bounds so a scan in the given direction starts at key (inclusive);
+// used to resume keyset pagination from a cursor position
+export function boundsFrom(
+  bounds: KeyBounds | null,
+  key: unknown,
+  direction: "next" | "prev",
+  cmp: (a: unknown, b: unknown) => number
+): KeyBounds {
+  const out: KeyBounds = bounds ? { ...bounds } : { lowerOpen: false, upperOpen: false }
+  if (direction === "next") {
+    if (out.lower === undefined || cmp(key, out.lower) >= 0) {
+      out.lower = key
+      out.lowerOpen = false
+    }
+  } else if (out.upper === undefined || cmp(key, out.upper) <= 0) {
+    out.upper = key
+    out.upperOpen = false
+  }
+  return out
+}
+
+// Ordering used for in-memory sorts; mirrors IndexedDB's treatment of
+// missing values by sorting them first
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+  const av = (a instanceof Date ? a.getTime() : a) as number | string
+  const bv = (b instanceof Date ? b.getTime() : b) as number | string
+  return av < bv ? -1 : av > bv ? 1 : 0
+}
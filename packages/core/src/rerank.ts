@@ -0,0 +1,97 @@
+// Rerankers
+//
+// Retrieval ranks by what an index can score quickly: BM25 or the distance
+// between embeddings. A reranker rescores a short list of the best hits with
+// a slower, better scorer and the list is reordered by those scores.
+// ColumnistDB.registerReranker attaches one to a table; search, vectorSearch
+// and hybridSearch then fetch more hits than asked for and rerank them.
+
+import { resolveAnalyzer } from "./analyzers"
+import type { AnalyzerConfig, RerankCandidate, Reranker } from "./types"
+
+const DEFAULT_BATCH_SIZE = 32
+
+export interface LexicalRerankerOptions {
+  // Analyzer applied to the query and the candidate text (default "english")
+  analyzer?: AnalyzerConfig
+}
+
+/**
+ * Score each candidate by the share of the query's distinct terms its text
+ * contains, from 0 to 1. Candidates with the same share keep their order.
+ */
+export function createLexicalReranker(options: LexicalRerankerOptions = {}): Reranker {
+  const analyzer = resolveAnalyzer(options.analyzer ?? "english")
+  return {
+    rerank(query, candidates) {
+      const terms = new Set(analyzer.analyze(query))
+      if (terms.size === 0) return candidates.map(() => 0)
+      return candidates.map(candidate => {
+        const tokens = new Set(analyzer.analyze(candidate.text))
+        let matched = 0
+        for (const term of terms) if (tokens.has(term)) matched++
+        return matched / terms.size
+      })
+    }
+  }
+}
+
+export interface CrossEncoderRerankerOptions {
+  // Texts scored per call (default 32)
+  batchSize?: number
+  // Candidate text is cut to this many characters before scoring
+  maxLength?: number
+}
+
+/**
+ * Rerank with a cross-encoder, a model that reads the query and a text
+ * together and scores how well the text answers it. The model is supplied
+ * as scorePairs, which returns one score per text, so any runtime works:
+ * an in-browser model, a worker or a remote endpoint.
+ */
+export function createCrossEncoderReranker(
+  scorePairs: (query: string, texts: string[]) => Promise<number[]>,
+  options: CrossEncoderRerankerOptions = {}
+): Reranker {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE)
+  return {
+    async rerank(query: string, candidates: RerankCandidate[]) {
+      const texts = candidates.map(candidate =>
+        options.maxLength !== undefined ? candidate.text.slice(0, options.maxLength) : candidate.text
+      )
+      const scores: number[] = []
+      for (let i = 0; i < texts.length; i += batchSize) {
+        const batch = texts.slice(i, i + batchSize)
+        const batchScores = await scorePairs(query, batch)
+        if (batchScores.length !== batch.length) {
+          throw new Error(`Cross-encoder returned ${batchScores.length} scores for ${batch.length} texts`)
+        }
+        scores.push(...batchScores)
+      }
+      return scores
+    }
+  }
+}
+
+/**
+ * Reorder hits by the reranker's scores, which replace their retrieval
+ * scores, and cut them to limit. Hits scored alike keep their order.
+ */
+export async function rerankHits<T extends { id: number | string; score: number }>(
+  reranker: Reranker,
+  query: string,
+  hits: T[],
+  textOf: (hit: T) => string,
+  limit: number
+): Promise<T[]> {
+  if (hits.length === 0) return hits
+  const candidates = hits.map(hit => ({ id: hit.id, text: textOf(hit), score: hit.score, record: hit as Record<string, unknown> }))
+  const scores = await reranker.rerank(query, candidates)
+  if (scores.length !== hits.length) {
+    throw new Error(`Reranker returned ${scores.length} scores for ${hits.length} candidates`)
+  }
+  return hits
+    .map((hit, i) => ({ ...hit, score: scores[i] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
@@ -0,0 +1,170 @@
+// Schema drift detection
+//
+// load() persists every table definition in _meta_schema. When the database
+// is opened again without a version bump, the persisted definitions are
+// compared with the code schema so that edits to defineTable() which were
+// never migrated do not go unnoticed.
+
+import type {
+  ColumnSpec,
+  IndexSpec,
+  MigrationDefinition,
+  SchemaDiff,
+  TableDefinition,
+  TableSchemaDiff,
+  VectorFieldConfig
+} from "./types"
+import { indexName } from "./query-planner"
+import { defineMigration } from "./migrations"
+
+function describeColumn(spec: ColumnSpec | undefined): string {
+  if (spec === undefined) return "none"
+  return typeof spec === "string" ? spec : `vector(${spec.dimension})`
+}
+
+function sameColumn(a: ColumnSpec, b: ColumnSpec): boolean {
+  return describeColumn(a) === describeColumn(b)
+}
+
+function describeVector(config: VectorFieldConfig | null | undefined): string {
+  return config ? `${config.field}(${config.dims})` : "none"
+}
+
+// Vectors differ when they are embedded from another field or into other dims
+function sameVector(a: VectorFieldConfig | null, b: VectorFieldConfig | null): boolean {
+  return a?.field === b?.field && a?.dims === b?.dims
+}
+
+function searchableFieldsOf(def: TableDefinition): string[] {
+  if (def.searchableFields && def.searchableFields.length > 0) return def.searchableFields
+  return Object.entries(def.columns)
+    .filter(([, type]) => type === "string")
+    .map(([name]) => name)
+}
+
+function difference<T>(items: T[], others: T[], key: (item: T) => string = String): T[] {
+  const seen = new Set(others.map(key))
+  return items.filter(item => !seen.has(key(item)))
+}
+
+export function diffTable(table: string, persisted: TableDefinition, current: TableDefinition): TableSchemaDiff | null {
+  const before = persisted.columns || {}
+  const after = current.columns || {}
+  const beforeSearchable = searchableFieldsOf(persisted)
+  const afterSearchable = searchableFieldsOf(current)
+  const beforeIndexes = persisted.secondaryIndexes || []
+  const afterIndexes = current.secondaryIndexes || []
+
+  const diff: TableSchemaDiff = {
+    table,
+    addedColumns: difference(Object.keys(after), Object.keys(before)).map(column => ({ column, type: after[column] })),
+    removedColumns: difference(Object.keys(before), Object.keys(after)).map(column => ({ column, type: before[column] })),
+    changedColumns: Object.keys(after)
+      .filter(column => column in before && !sameColumn(before[column], after[column]))
+      .map(column => ({ column, from: before[column], to: after[column] })),
+    addedIndexes: difference<IndexSpec>(afterIndexes, beforeIndexes, indexName),
+    removedIndexes: difference<IndexSpec>(beforeIndexes, afterIndexes, indexName),
+    addedSearchableFields: difference(afterSearchable, beforeSearchable),
+    removedSearchableFields: difference(beforeSearchable, afterSearchable)
+  }
+
+  const beforeVector = persisted.vector ?? null
+  const afterVector = current.vector ?? null
+  if (!sameVector(beforeVector, afterVector)) {
+    diff.vector = { from: beforeVector, to: afterVector }
+  }
+
+  const beforeVectors = persisted.vectors ?? {}
+  const afterVectors = current.vectors ?? {}
+  const vectors = [...new Set([...Object.keys(beforeVectors), ...Object.keys(afterVectors)])]
+    .filter(name => !sameVector(beforeVectors[name] ?? null, afterVectors[name] ?? null))
+    .map(name => ({ name, from: beforeVectors[name] ?? null, to: afterVectors[name] ?? null }))
+  if (vectors.length > 0) diff.vectors = vectors
+
+  const changed = diff.addedColumns.length > 0 || diff.removedColumns.length > 0 ||
+    diff.changedColumns.length > 0 || diff.addedIndexes.length > 0 || diff.removedIndexes.length > 0 ||
+    diff.addedSearchableFields.length > 0 || diff.removedSearchableFields.length > 0 || diff.vector !== undefined ||
+    diff.vectors !== undefined
+  return changed ? diff : null
+}
+
+/**
+ * Compare persisted table definitions with the code schema. Renamed columns
+ * show up as one removed and one added column.
+ */
+export function diffSchemas(
+  persisted: Record<string, TableDefinition>,
+  current: Record<string, TableDefinition>
+): SchemaDiff {
+  const tables: TableSchemaDiff[] = []
+  for (const [table, def] of Object.entries(current)) {
+    const stored = persisted[table]
+    if (!stored) continue
+    const diff = diffTable(table, stored, def)
+    if (diff) tables.push(diff)
+  }
+  return {
+    addedTables: difference(Object.keys(current), Object.keys(persisted)),
+    removedTables: difference(Object.keys(persisted), Object.keys(current)),
+    tables
+  }
+}
+
+export function isSchemaDiffEmpty(diff: SchemaDiff): boolean {
+  return diff.addedTables.length === 0 && diff.removedTables.length === 0 && diff.tables.length === 0
+}
+
+/**
+ * Build the migration for a diff: columns are added (without a default),
+ * dropped or converted, indexes follow the schema, and a changed set of
+ * searchable fields rewrites the rows so the inverted index is rebuilt.
+ * New tables need no step since bumping the version creates their stores.
+ * Embeddings of a table whose vector dims changed must be regenerated.
+ */
+export function migrationForDiff(diff: SchemaDiff, description = "Reconcile schema drift"): MigrationDefinition {
+  const migration = defineMigration(description)
+  for (const table of diff.tables) {
+    for (const { column } of table.removedColumns) migration.dropColumn(table.table, column)
+    for (const { column, type } of table.addedColumns) {
+      // Vector columns hold embeddings and have nothing to backfill
+      if (typeof type === "string") migration.addColumn(table.table, column, type)
+    }
+    for (const change of table.changedColumns) {
+      if (typeof change.to === "string") migration.changeType(table.table, change.column, change.to)
+    }
+    for (const index of table.removedIndexes) migration.dropIndex(table.table, index)
+    for (const index of table.addedIndexes) migration.addIndex(table.table, index)
+
+    const rewritesRows = table.removedColumns.length > 0 ||
+      table.addedColumns.some(added => typeof added.type === "string") ||
+      table.changedColumns.some(change => typeof change.to === "string")
+    if (!rewritesRows && (table.addedSearchableFields.length > 0 || table.removedSearchableFields.length > 0)) {
+      migration.transformRows(table.table, row => row)
+    }
+  }
+  return migration.build()
+}
+
+// One line per changed table, for warnings and errors
+export function formatSchemaDiff(diff: SchemaDiff): string {
+  const lines: string[] = []
+  if (diff.addedTables.length > 0) lines.push(`new tables: ${diff.addedTables.join(", ")}`)
+  if (diff.removedTables.length > 0) lines.push(`removed tables: ${diff.removedTables.join(", ")}`)
+  for (const table of diff.tables) {
+    const parts = [
+      ...table.addedColumns.map(added => `+column ${added.column} ${describeColumn(added.type)}`),
+      ...table.removedColumns.map(removed => `-column ${removed.column}`),
+      ...table.changedColumns.map(change => `column ${change.column} ${describeColumn(change.from)} -> ${describeColumn(change.to)}`),
+      ...table.addedIndexes.map(index => `+index ${indexName(index)}`),
+      ...table.removedIndexes.map(index => `-index ${indexName(index)}`),
+      ...table.addedSearchableFields.map(field => `+searchable ${field}`),
+      ...table.removedSearchableFields.map(field => `-searchable ${field}`)
+    ]
+    if (table.vector) parts.push(`vector ${describeVector(table.vector.from)} -> ${describeVector(table.vector.to)}`)
+    for (const { name, from, to } of table.vectors ?? []) {
+      parts.push(`vector ${name} ${describeVector(from)} -> ${describeVector(to)}`)
+    }
+    lines.push(`${table.table}: ${parts.join(", ")}`)
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,269 @@
+// Query syntax for ColumnistDB.search
+//
+//   word            records containing the word
+//   "some phrase"   the words next to each other, in order
+//   pre*            words starting with "pre"
+//   word~  word~2   words within 2 (or the given number of) edits of "word";
+//                   a bare ~ allows 0, 1 or 2 edits depending on its length
+//   +clause         the clause must match
+//   -clause         the clause must not match
+//   field:clause    the clause only looks at one searchable field
+//
+// Clauses without + or - are optional. A record has to match at least one of
+// them unless the query has required clauses, and every one it matches adds
+// to its score.
+
+import type { Analyzer } from "./analyzers"
+import { scoreBM25, tokenize, type BM25Context, type InvertedIndexEntry } from "./text-index"
+
+export type QueryOccur = "should" | "must" | "mustNot"
+
+export type QueryClause =
+  | { kind: "term"; occur: QueryOccur; field?: string; token: string }
+  | { kind: "phrase"; occur: QueryOccur; field?: string; tokens: string[] }
+  | { kind: "prefix"; occur: QueryOccur; field?: string; prefix: string }
+  | { kind: "fuzzy"; occur: QueryOccur; field?: string; token: string; distance: number }
+
+// Read access to the inverted index of one table
+export interface TokenSource {
+  get(token: string): Promise<InvertedIndexEntry | undefined>
+  // Entries whose token starts with the prefix
+  withPrefix(prefix: string): Promise<InvertedIndexEntry[]>
+  // Every indexed token, in key order
+  tokens(): Promise<string[]>
+}
+
+export interface QueryMatch {
+  // Record id -> score; only records that satisfy the query
+  scores: Map<number, number>
+  // The query has no clause that selects records (it is empty or only
+  // excludes), so every record not in `excluded` matches with score 0
+  matchAll: boolean
+  excluded: Set<number>
+}
+
+// Fuzzy expansions score below exact matches, by this factor per edit
+const FUZZY_PENALTY = 0.5
+const MAX_EDITS = 2
+
+const FIELD_PREFIX = /^([A-Za-z_][\w.]*):(?=\S)/
+
+/**
+ * Split a query into clauses. `fields` lists the fields `field:` may name;
+ * anything else before a colon is searched as ordinary text. Words go through
+ * the analyzer of the table, so they match what was indexed.
+ */
+export function parseSearchQuery(query: string, fields: string[] = [], analyzer?: Analyzer): QueryClause[] {
+  const analyze = (text: string) => (analyzer ? analyzer.analyze(text) : tokenize(text))
+  const normalize = (text: string) => (analyzer?.normalize ? analyzer.normalize(text) : analyze(text))
+  const clauses: QueryClause[] = []
+  let i = 0
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    let occur: QueryOccur = "should"
+    if ((query[i] === "+" || query[i] === "-") && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      occur = query[i] === "+" ? "must" : "mustNot"
+      i++
+    }
+
+    let field: string | undefined
+    const fieldMatch = FIELD_PREFIX.exec(query.slice(i))
+    if (fieldMatch && fields.includes(fieldMatch[1])) {
+      field = fieldMatch[1]
+      i += fieldMatch[0].length
+    }
+
+    if (query[i] === "\"") {
+      const close = query.indexOf("\"", i + 1)
+      const end = close === -1 ? query.length : close
+      const tokens = analyze(query.slice(i + 1, end))
+      i = end + 1
+      if (tokens.length > 1) clauses.push({ kind: "phrase", occur, field, tokens })
+      else if (tokens.length === 1) clauses.push({ kind: "term", occur, field, token: tokens[0] })
+      continue
+    }
+
+    let end = i
+    while (end < query.length && !/\s/.test(query[end])) end++
+    const word = query.slice(i, end)
+    i = end
+
+    const fuzzy = /~(\d)?$/.exec(word)
+    const isPrefix = !fuzzy && word.endsWith("*")
+    const text = fuzzy ? word.slice(0, fuzzy.index) : word
+    const tokens = fuzzy || isPrefix ? normalize(text) : analyze(text)
+    if (tokens.length === 0) continue
+    // A word can analyze to several tokens, e.g. e-mail or CJK bigrams; keep
+    // them together
+    if (tokens.length > 1) {
+      clauses.push({ kind: "phrase", occur, field, tokens })
+      continue
+    }
+
+    const token = tokens[0]
+    if (isPrefix) {
+      clauses.push({ kind: "prefix", occur, field, prefix: token })
+    } else if (fuzzy) {
+      const distance = fuzzy[1] !== undefined ? Math.min(Number(fuzzy[1]), MAX_EDITS) : autoDistance(token)
+      clauses.push(distance > 0 ? { kind: "fuzzy", occur, field, token, distance } : { kind: "term", occur, field, token })
+    } else {
+      clauses.push({ kind: "term", occur, field, token })
+    }
+  }
+  return clauses
+}
+
+// Edits allowed for a bare ~: none for short words, where one typo is
+// already a different word
+function autoDistance(token: string): number {
+  if (token.length < 3) return 0
+  return token.length < 6 ? 1 : 2
+}
+
+// Levenshtein distance, or max + 1 as soon as it is known to exceed max
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Narrow an entry to some records and, optionally, to one field. Entries
+// written before postings were stored cannot tell fields apart and keep
+// every record.
+function restrictEntry(entry: InvertedIndexEntry, ids: Set<number> | null, field?: string): InvertedIndexEntry {
+  const keep = entry.ids.filter(id => {
+    if (ids && !ids.has(id)) return false
+    if (!field || !entry.postings) return true
+    return entry.postings[id]?.[field] !== undefined
+  })
+  if (!entry.postings) return { ...entry, ids: keep }
+
+  const postings: NonNullable<InvertedIndexEntry["postings"]> = {}
+  for (const id of keep) {
+    const fields = entry.postings[id]
+    if (!fields) continue
+    postings[id] = field ? { [field]: fields[field] } : fields
+  }
+  return { token: entry.token, ids: keep, postings }
+}
+
+// Whether the tokens of the entries occur one after another in a field of
+// the record. Postings without positions only tell that the tokens co-occur,
+// which has to do.
+function hasPhrase(entries: InvertedIndexEntry[], id: number, field?: string): boolean {
+  const postings = entries.map(entry => entry.postings?.[id])
+  if (postings.some(fields => fields === undefined)) return true
+
+  const candidates = field ? [field] : Object.keys(postings[0]!)
+  for (const name of candidates) {
+    const positions = postings.map(fields => fields![name]?.positions)
+    if (postings.some(fields => fields![name] === undefined)) continue
+    if (positions.some(list => list === undefined)) return true
+
+    const following = positions.slice(1).map(list => new Set(list))
+    if (positions[0]!.some(start => following.every((set, offset) => set.has(start + offset + 1)))) return true
+  }
+  return false
+}
+
+interface ClauseResult {
+  ids: Set<number>
+  // Restricted entries with the weight they score at
+  scored: Array<{ entries: InvertedIndexEntry[]; weight: number }>
+}
+
+async function resolveClause(clause: QueryClause, source: TokenSource): Promise<ClauseResult> {
+  const collect = (scored: ClauseResult["scored"]): ClauseResult => {
+    const ids = new Set<number>()
+    for (const { entries } of scored) for (const entry of entries) for (const id of entry.ids) ids.add(id)
+    return { ids, scored }
+  }
+
+  switch (clause.kind) {
+    case "term": {
+      const entry = await source.get(clause.token)
+      return collect(entry ? [{ entries: [restrictEntry(entry, null, clause.field)], weight: 1 }] : [])
+    }
+    case "prefix": {
+      const entries = await source.withPrefix(clause.prefix)
+      return collect([{ entries: entries.map(entry => restrictEntry(entry, null, clause.field)), weight: 1 }])
+    }
+    case "fuzzy": {
+      const scored: ClauseResult["scored"] = []
+      for (const token of await source.tokens()) {
+        const distance = editDistance(clause.token, token, clause.distance)
+        if (distance > clause.distance) continue
+        const entry = await source.get(token)
+        if (entry) scored.push({ entries: [restrictEntry(entry, null, clause.field)], weight: FUZZY_PENALTY ** distance })
+      }
+      return collect(scored)
+    }
+    case "phrase": {
+      const entries: InvertedIndexEntry[] = []
+      for (const token of clause.tokens) {
+        const entry = await source.get(token)
+        if (!entry) return { ids: new Set(), scored: [] }
+        entries.push(restrictEntry(entry, null, clause.field))
+      }
+      const shared = entries.slice(1).reduce(
+        (ids, entry) => ids.filter(id => entry.ids.includes(id)),
+        entries[0].ids
+      )
+      const ids = new Set(shared.filter(id => hasPhrase(entries, id, clause.field)))
+      return collect([{ entries: entries.map(entry => restrictEntry(entry, ids)), weight: 1 }])
+    }
+  }
+}
+
+/**
+ * Find and BM25-score the records matching parsed clauses. Required clauses
+ * intersect, optional ones union (unless something is required), excluded
+ * ones subtract; matched required and optional clauses add up to the score.
+ */
+export async function matchQuery(clauses: QueryClause[], source: TokenSource, context: BM25Context): Promise<QueryMatch> {
+  const excluded = new Set<number>()
+  const required: Set<number>[] = []
+  const optional: Set<number>[] = []
+  const scored: ClauseResult["scored"] = []
+
+  for (const clause of clauses) {
+    const result = await resolveClause(clause, source)
+    if (clause.occur === "mustNot") {
+      for (const id of result.ids) excluded.add(id)
+      continue
+    }
+    scored.push(...result.scored)
+    if (clause.occur === "must") required.push(result.ids)
+    else optional.push(result.ids)
+  }
+
+  const scores = new Map<number, number>()
+  if (required.length === 0 && optional.length === 0) return { scores, matchAll: true, excluded }
+
+  const selected = required.length > 0
+    ? [...required[0]].filter(id => required.every(ids => ids.has(id)))
+    : optional.flatMap(ids => [...ids])
+  for (const id of selected) if (!excluded.has(id)) scores.set(id, 0)
+  for (const { entries, weight } of scored) {
+    for (const [id, score] of scoreBM25(entries, context)) {
+      if (scores.has(id)) scores.set(id, scores.get(id)! + weight * score)
+    }
+  }
+  return { scores, matchAll: false, excluded }
+}
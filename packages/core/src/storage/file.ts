@@ -0,0 +1,314 @@
+// File-backed storage engine for Node
+//
+// Databases live in memory with the semantics of MemoryStorageEngine and are
+// made durable with a snapshot plus a write-ahead log in the directory:
+//
+//   <name>.snapshot  every committed store and record, as of one commit
+//   <name>.log       one JSON line per commit after that, flushed to disk
+//                    before the commit completes
+//
+// Compaction writes a new snapshot next to the old one, renames it into place
+// and empties the log. Each log line carries a sequence number, so lines a
+// crash left behind after the rename are skipped on reload.
+
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, rmSync, statSync, writeFileSync, writeSync } from "node:fs"
+import { join, resolve } from "node:path"
+import { applyOp, MemoryStorageEngine, type DatabaseState, type IndexState, type StorageOp, type StoragePersistence } from "./memory"
+import type { StorageKey } from "./types"
+
+const TYPED_ARRAYS = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array
+} as const
+
+type TypedArrayName = keyof typeof TYPED_ARRAYS
+
+// JSON with Dates, typed arrays and ArrayBuffers tagged so they survive a round trip
+export function encodeValue(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, json) {
+    const raw = this[key]
+    if (raw instanceof Date) return { $date: raw.toISOString() }
+    if (raw instanceof ArrayBuffer) return { $buffer: Array.from(new Uint8Array(raw)) }
+    if (ArrayBuffer.isView(raw) && raw.constructor.name in TYPED_ARRAYS) {
+      return { $typed: raw.constructor.name, data: Array.from(raw as Float64Array) }
+    }
+    return json
+  })
+}
+
+export function decodeValue(text: string): unknown {
+  return JSON.parse(text, (_key, json) => {
+    if (json === null || typeof json !== "object" || Array.isArray(json)) return json
+    if (typeof json.$date === "string") return new Date(json.$date)
+    if (Array.isArray(json.$buffer)) return Uint8Array.from(json.$buffer).buffer
+    if (typeof json.$typed === "string" && json.$typed in TYPED_ARRAYS && Array.isArray(json.data)) {
+      return TYPED_ARRAYS[json.$typed as TypedArrayName].from(json.data)
+    }
+    return json
+  })
+}
+
+export interface FileStorageOptions {
+  // Compact once the log of a database grows past this many bytes (default 4 MiB)
+  maxLogBytes?: number
+  // Also compact every database with a non-empty log on this interval in
+  // milliseconds; 0 disables it (default 60000)
+  compactionInterval?: number
+  // Flush every commit to disk before it completes (default true). Turning
+  // this off trades crash safety for write throughput.
+  fsync?: boolean
+}
+
+interface SnapshotStore {
+  name: string
+  keyPath: string | string[] | null
+  autoIncrement: boolean
+  nextKey: number
+  indexes: IndexState[]
+  records: Array<[StorageKey, unknown]>
+}
+
+interface Snapshot {
+  // Sequence number of the last commit included
+  seq: number
+  version: number
+  stores: SnapshotStore[]
+}
+
+type LogEntry = { seq: number; ops: StorageOp[] }
+
+// What is on disk for one database: the committed state (which excludes
+// writes of transactions still running) and the open log
+interface DurableDatabase {
+  state: DatabaseState
+  seq: number
+  logBytes: number
+  fd: number | null
+}
+
+function toSnapshot(state: DatabaseState, seq: number): Snapshot {
+  return {
+    seq,
+    version: state.version,
+    stores: Array.from(state.stores.values(), store => ({
+      name: store.name,
+      keyPath: store.keyPath,
+      autoIncrement: store.autoIncrement,
+      nextKey: store.nextKey,
+      indexes: Array.from(store.indexes.values()),
+      records: store.records.map(record => [record.key, record.value] as [StorageKey, unknown])
+    }))
+  }
+}
+
+function fromSnapshot(name: string, snapshot: Snapshot): DatabaseState {
+  const state: DatabaseState = { name, version: snapshot.version, stores: new Map() }
+  for (const store of snapshot.stores) {
+    applyOp(state, { op: "createStore", store: store.name, keyPath: store.keyPath, autoIncrement: store.autoIncrement })
+    for (const { name: index, keyPath, unique, multiEntry } of store.indexes) {
+      applyOp(state, { op: "createIndex", store: store.name, index, keyPath, unique, multiEntry })
+    }
+    for (const [key, value] of store.records) applyOp(state, { op: "put", store: store.name, key, value })
+    // Generated keys are never reused, even after the highest one is deleted
+    state.stores.get(store.name)!.nextKey = store.nextKey
+  }
+  return state
+}
+
+class DurableLog implements StoragePersistence {
+  private databases = new Map<string, DurableDatabase>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private maxLogBytes: number
+  private fsync: boolean
+
+  constructor(private directory: string, options: FileStorageOptions = {}) {
+    this.maxLogBytes = options.maxLogBytes ?? 4 * 1024 * 1024
+    this.fsync = options.fsync ?? true
+    const interval = options.compactionInterval ?? 60_000
+    if (interval > 0) {
+      this.timer = setInterval(() => this.compactAll(), interval)
+      // Compaction alone should not keep the process running
+      this.timer.unref?.()
+    }
+  }
+
+  private pathFor(name: string, extension: string): string {
+    return join(this.directory, `${encodeURIComponent(name)}.${extension}`)
+  }
+
+  async load(name: string): Promise<DatabaseState | null> {
+    const snapshotPath = this.pathFor(name, "snapshot")
+    const logPath = this.pathFor(name, "log")
+    // Left behind by a compaction that did not finish; the old snapshot stands
+    rmSync(this.pathFor(name, "snapshot.tmp"), { force: true })
+    if (!existsSync(snapshotPath) && !existsSync(logPath)) return null
+
+    let state: DatabaseState = { name, version: 0, stores: new Map() }
+    let seq = 0
+    if (existsSync(snapshotPath)) {
+      const snapshot = decodeValue(readFileSync(snapshotPath, "utf8")) as Snapshot
+      state = fromSnapshot(name, snapshot)
+      seq = snapshot.seq
+    }
+
+    let logBytes = 0
+    if (existsSync(logPath)) {
+      const lines = readFileSync(logPath, "utf8").split("\n").filter(line => line.trim() !== "")
+      for (const [i, line] of lines.entries()) {
+        let entry: LogEntry
+        try {
+          entry = decodeValue(line) as LogEntry
+        } catch (error) {
+          if (i < lines.length - 1) {
+            throw new Error(`Corrupt storage log ${logPath} at line ${i + 1}: ${(error as Error).message}`)
+          }
+          // A crash left the last append incomplete: that transaction never
+          // committed, so drop it before anything is appended after it
+          writeFileSync(logPath, lines.slice(0, i).map(valid => valid + "\n").join(""))
+          break
+        }
+        const { seq: entrySeq, ops } = entry
+        if (entrySeq <= seq) continue
+        for (const op of ops) applyOp(state, op)
+        seq = entrySeq
+      }
+      logBytes = statSync(logPath).size
+    }
+
+    this.databases.set(name, { state, seq, logBytes, fd: null })
+    // The engine mutates the state it is handed, so keep a separate replica
+    // of what is on disk
+    return fromSnapshot(name, toSnapshot(state, seq))
+  }
+
+  commit(state: DatabaseState, ops: StorageOp[]): void {
+    let database = this.databases.get(state.name)
+    if (!database) {
+      database = { state: { name: state.name, version: 0, stores: new Map() }, seq: 0, logBytes: 0, fd: null }
+      this.databases.set(state.name, database)
+    }
+
+    const line = encodeValue({ seq: database.seq + 1, ops }) + "\n"
+    if (database.fd === null) {
+      mkdirSync(this.directory, { recursive: true })
+      database.fd = openSync(this.pathFor(state.name, "log"), "a")
+    }
+    writeSync(database.fd, line)
+    if (this.fsync) fsyncSync(database.fd)
+
+    database.seq++
+    database.logBytes += Buffer.byteLength(line)
+    for (const op of ops) applyOp(database.state, op)
+
+    if (database.logBytes > this.maxLogBytes) this.compact(state.name)
+  }
+
+  // Fold the log of one database into a fresh snapshot
+  compact(name: string): void {
+    const database = this.databases.get(name)
+    if (!database || database.logBytes === 0) return
+
+    mkdirSync(this.directory, { recursive: true })
+    const snapshotPath = this.pathFor(name, "snapshot")
+    const tmpPath = this.pathFor(name, "snapshot.tmp")
+    const fd = openSync(tmpPath, "w")
+    try {
+      writeSync(fd, encodeValue(toSnapshot(database.state, database.seq)))
+      fsyncSync(fd)
+    } finally {
+      closeSync(fd)
+    }
+    renameSync(tmpPath, snapshotPath)
+    this.syncDirectory()
+
+    // Every line is in the snapshot now; a crash before this truncation only
+    // leaves lines that the next load skips
+    if (database.fd !== null) closeSync(database.fd)
+    database.fd = openSync(this.pathFor(name, "log"), "w")
+    if (this.fsync) fsyncSync(database.fd)
+    database.logBytes = 0
+  }
+
+  compactAll(): void {
+    for (const name of this.databases.keys()) this.compact(name)
+  }
+
+  async remove(name: string): Promise<void> {
+    const database = this.databases.get(name)
+    if (database?.fd != null) closeSync(database.fd)
+    this.databases.delete(name)
+    for (const extension of ["snapshot", "snapshot.tmp", "log"]) {
+      rmSync(this.pathFor(name, extension), { force: true })
+    }
+  }
+
+  close(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    for (const database of this.databases.values()) {
+      if (database.fd !== null) closeSync(database.fd)
+      database.fd = null
+    }
+  }
+
+  // Make the rename itself durable; not every platform can open a directory
+  private syncDirectory(): void {
+    if (!this.fsync) return
+    try {
+      const fd = openSync(this.directory, "r")
+      try {
+        fsyncSync(fd)
+      } finally {
+        closeSync(fd)
+      }
+    } catch {
+      // Best effort
+    }
+  }
+}
+
+export class FileStorageEngine extends MemoryStorageEngine {
+  readonly kind = "file"
+  private log: DurableLog
+
+  constructor(directory: string, options?: FileStorageOptions) {
+    const log = new DurableLog(directory, options)
+    super(log)
+    this.log = log
+  }
+
+  // Write a snapshot of every open database and empty their logs
+  compact(): void {
+    this.log.compactAll()
+  }
+
+  // Stop periodic compaction and release open log files
+  close(): void {
+    this.log.close()
+  }
+}
+
+const engines = new Map<string, FileStorageEngine>()
+
+/**
+ * The engine for a directory, shared within the process. Two engines on the
+ * same directory would each replay and append to the same logs, so prefer
+ * this over constructing FileStorageEngine directly. Options apply when the
+ * engine is first created.
+ */
+export function fileStorageFor(directory: string, options?: FileStorageOptions): FileStorageEngine {
+  const path = resolve(directory)
+  let engine = engines.get(path)
+  if (!engine) {
+    engine = new FileStorageEngine(path, options)
+    engines.set(path, engine)
+  }
+  return engine
+}
@@ -0,0 +1,25 @@
+export { IndexedDBEngine, isIndexedDBAvailable } from "./indexeddb"
+export { MemoryStorageEngine, applyOp } from "./memory"
+export { keyRanges, compareKeys } from "./keys"
+export type { DatabaseState, StoreState, IndexState, StoredEntry, StorageOp, StoragePersistence } from "./memory"
+export type {
+  StorageEngine,
+  StorageDatabase,
+  StorageTransaction,
+  StorageObjectStore,
+  StorageIndex,
+  StorageSource,
+  StorageCursor,
+  StorageCursorWithValue,
+  StorageRequest,
+  StorageEvent,
+  StorageEventHandler,
+  StorageKey,
+  StorageKeyRange,
+  StorageQuery,
+  StorageNameList,
+  KeyRangeFactory,
+  TransactionMode,
+  CursorDirection,
+  UpgradeCallback
+} from "./types"
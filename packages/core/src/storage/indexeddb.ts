@@ -0,0 +1,65 @@
+// Storage engine backed by the browser's IndexedDB (or any global indexedDB,
+// such as fake-indexeddb in tests)
+
+import type { KeyRangeFactory, StorageDatabase, StorageEngine, StorageTransaction, UpgradeCallback } from "./types"
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined"
+}
+
+const idbKeyRange: KeyRangeFactory = {
+  only: value => IDBKeyRange.only(value),
+  bound: (lower, upper, lowerOpen, upperOpen) => IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen),
+  lowerBound: (lower, open) => IDBKeyRange.lowerBound(lower, open),
+  upperBound: (upper, open) => IDBKeyRange.upperBound(upper, open)
+}
+
+export class IndexedDBEngine implements StorageEngine {
+  readonly kind = "indexeddb"
+  readonly persistent = true
+  readonly keyRange = idbKeyRange
+
+  cmp(a: unknown, b: unknown): number {
+    return indexedDB.cmp(a, b)
+  }
+
+  open(name: string, version: number, upgrade: UpgradeCallback): Promise<StorageDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version)
+      let upgradeError: unknown = null
+
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction as IDBTransaction
+        const fail = (error: unknown) => {
+          upgradeError = error
+          try {
+            tx.abort()
+          } catch {
+            // The transaction already failed
+          }
+        }
+        try {
+          const pending = upgrade(
+            request.result as unknown as StorageDatabase,
+            tx as unknown as StorageTransaction,
+            event.oldVersion || 0
+          )
+          if (pending) pending.catch(fail)
+        } catch (error) {
+          fail(error)
+        }
+      }
+      request.onsuccess = () => resolve(request.result as unknown as StorageDatabase)
+      // Surface the failing upgrade step rather than the resulting AbortError
+      request.onerror = () => reject(upgradeError ?? request.error)
+    })
+  }
+
+  deleteDatabase(name: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(name)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
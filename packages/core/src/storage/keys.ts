@@ -0,0 +1,149 @@
+// IndexedDB key semantics for engines that do not sit on IndexedDB
+
+import type { KeyRangeFactory, StorageKey, StorageKeyRange, StorageQuery } from "./types"
+
+// Key types in IndexedDB order; 0 is not a valid key
+function keyRank(key: unknown): number {
+  if (typeof key === "number") return Number.isNaN(key) ? 0 : 1
+  if (key instanceof Date) return Number.isNaN(key.getTime()) ? 0 : 2
+  if (typeof key === "string") return 3
+  if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) return 4
+  if (Array.isArray(key)) return 5
+  return 0
+}
+
+function bytesOf(key: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return key instanceof ArrayBuffer
+    ? new Uint8Array(key)
+    : new Uint8Array(key.buffer, key.byteOffset, key.byteLength)
+}
+
+export function isValidKey(key: unknown): key is StorageKey {
+  const rank = keyRank(key)
+  if (rank === 5) return (key as unknown[]).every(isValidKey)
+  return rank !== 0
+}
+
+export function compareKeys(a: unknown, b: unknown): number {
+  const rankA = keyRank(a)
+  const rankB = keyRank(b)
+  if (rankA === 0 || rankB === 0) throw storageError("DataError", "The parameter is not a valid key")
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1
+
+  switch (rankA) {
+    case 1:
+    case 3: {
+      const x = a as number | string
+      const y = b as number | string
+      return x < y ? -1 : x > y ? 1 : 0
+    }
+    case 2:
+      return compareKeys((a as Date).getTime(), (b as Date).getTime())
+    case 4: {
+      const x = bytesOf(a as ArrayBuffer)
+      const y = bytesOf(b as ArrayBuffer)
+      for (let i = 0; i < Math.min(x.length, y.length); i++) {
+        if (x[i] !== y[i]) return x[i] < y[i] ? -1 : 1
+      }
+      return compareKeys(x.length, y.length)
+    }
+    default: {
+      const x = a as unknown[]
+      const y = b as unknown[]
+      for (let i = 0; i < Math.min(x.length, y.length); i++) {
+        const c = compareKeys(x[i], y[i])
+        if (c !== 0) return c
+      }
+      return compareKeys(x.length, y.length)
+    }
+  }
+}
+
+// Resolve a key path against a value; undefined when any part is missing or
+// not a valid key (such values are left out of indexes)
+export function extractKey(value: unknown, keyPath: string | string[]): StorageKey | undefined {
+  if (Array.isArray(keyPath)) {
+    const parts: StorageKey[] = []
+    for (const path of keyPath) {
+      const part = extractKey(value, path)
+      if (part === undefined) return undefined
+      parts.push(part)
+    }
+    return parts
+  }
+
+  let current: unknown = value
+  if (keyPath !== "") {
+    for (const segment of keyPath.split(".")) {
+      if (current === null || typeof current !== "object") return undefined
+      current = (current as Record<string, unknown>)[segment]
+    }
+  }
+  return isValidKey(current) ? current : undefined
+}
+
+// Set a generated key on a value whose key path points at a missing property
+export function injectKey(value: unknown, keyPath: string, key: StorageKey): void {
+  const segments = keyPath.split(".")
+  let current = value as Record<string, unknown>
+  for (const segment of segments.slice(0, -1)) {
+    if (current[segment] === undefined) current[segment] = {}
+    current = current[segment] as Record<string, unknown>
+  }
+  current[segments[segments.length - 1]] = key
+}
+
+export function storageError(name: string, message: string): Error {
+  if (typeof DOMException === "function") return new DOMException(message, name)
+  const error = new Error(message)
+  error.name = name
+  return error
+}
+
+export class KeyRange implements StorageKeyRange {
+  constructor(
+    readonly lower: unknown,
+    readonly upper: unknown,
+    readonly lowerOpen: boolean,
+    readonly upperOpen: boolean
+  ) {
+    if (lower !== undefined && !isValidKey(lower)) throw storageError("DataError", "Invalid lower bound")
+    if (upper !== undefined && !isValidKey(upper)) throw storageError("DataError", "Invalid upper bound")
+    if (lower !== undefined && upper !== undefined) {
+      const c = compareKeys(lower, upper)
+      if (c > 0 || (c === 0 && (lowerOpen || upperOpen))) throw storageError("DataError", "Empty key range")
+    }
+  }
+
+  includes(key: unknown): boolean {
+    if (this.lower !== undefined) {
+      const c = compareKeys(key, this.lower)
+      if (c < 0 || (c === 0 && this.lowerOpen)) return false
+    }
+    if (this.upper !== undefined) {
+      const c = compareKeys(key, this.upper)
+      if (c > 0 || (c === 0 && this.upperOpen)) return false
+    }
+    return true
+  }
+}
+
+export const keyRanges: KeyRangeFactory = {
+  only: value => new KeyRange(value, value, false, false),
+  bound: (lower, upper, lowerOpen = false, upperOpen = false) => new KeyRange(lower, upper, lowerOpen, upperOpen),
+  lowerBound: (lower, open = false) => new KeyRange(lower, undefined, open, false),
+  upperBound: (upper, open = false) => new KeyRange(undefined, upper, false, open)
+}
+
+export function isKeyRange(query: unknown): query is StorageKeyRange {
+  return typeof query === "object" && query !== null && "lowerOpen" in query && "upperOpen" in query
+}
+
+// Normalize a query to a range; null and undefined match everything
+export function toKeyRange(query: StorageQuery): KeyRange | null {
+  if (query === null || query === undefined) return null
+  if (query instanceof KeyRange) return query
+  if (isKeyRange(query)) return new KeyRange(query.lower, query.upper, query.lowerOpen, query.upperOpen)
+  if (!isValidKey(query)) throw storageError("DataError", "The parameter is not a valid key")
+  return new KeyRange(query, query, false, false)
+}
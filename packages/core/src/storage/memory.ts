@@ -0,0 +1,931 @@
+// In-memory storage engine with IndexedDB semantics
+//
+// Requests run one per macrotask in the order they were placed, so code that
+// awaits a request keeps its transaction alive exactly as with IndexedDB.
+// Writes are applied to copy-on-write store states and undone on abort.
+// Committed writes are also handed to an optional StoragePersistence as a
+// list of operations, which is how file-backed engines build on this one.
+
+import { compareKeys, extractKey, injectKey, isValidKey, keyRanges, KeyRange, storageError, toKeyRange } from "./keys"
+import type {
+  CursorDirection,
+  StorageCursorWithValue,
+  StorageDatabase,
+  StorageEngine,
+  StorageEvent,
+  StorageEventHandler,
+  StorageIndex,
+  StorageKey,
+  StorageKeyRange,
+  StorageNameList,
+  StorageObjectStore,
+  StorageQuery,
+  StorageRequest,
+  StorageTransaction,
+  TransactionMode,
+  UpgradeCallback
+} from "./types"
+
+// One stored record, or one index entry pointing at a record
+export interface StoredEntry {
+  key: StorageKey
+  primaryKey: StorageKey
+  value: unknown
+}
+
+export interface IndexState {
+  name: string
+  keyPath: string | string[]
+  unique: boolean
+  multiEntry: boolean
+}
+
+export interface StoreState {
+  name: string
+  keyPath: string | string[] | null
+  autoIncrement: boolean
+  // Next generated key for autoIncrement stores
+  nextKey: number
+  // Sorted by key; key and primaryKey are the same
+  records: StoredEntry[]
+  indexes: Map<string, IndexState>
+  // Bumped on every write, invalidates cached index entries
+  revision: number
+  indexCache: Map<string, { revision: number; entries: StoredEntry[] }>
+}
+
+export interface DatabaseState {
+  name: string
+  version: number
+  stores: Map<string, StoreState>
+}
+
+// A committed change, in the order it was applied
+export type StorageOp =
+  | { op: "version"; version: number }
+  | { op: "createStore"; store: string; keyPath: string | string[] | null; autoIncrement: boolean }
+  | { op: "deleteStore"; store: string }
+  | { op: "createIndex"; store: string; index: string; keyPath: string | string[]; unique: boolean; multiEntry: boolean }
+  | { op: "deleteIndex"; store: string; index: string }
+  | { op: "put"; store: string; key: StorageKey; value: unknown }
+  | { op: "delete"; store: string; key: StorageKey }
+  | { op: "clear"; store: string }
+
+const schedule: (task: () => void) => void = typeof setImmediate === "function"
+  ? task => { setImmediate(task) }
+  : task => { setTimeout(task, 0) }
+
+function event(type: string, onPreventDefault?: () => void): StorageEvent {
+  return { type, preventDefault: () => onPreventDefault?.() }
+}
+
+// Index of the first item for which the monotonic predicate holds
+function firstIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  let low = 0
+  let high = items.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (predicate(items[mid])) high = mid
+    else low = mid + 1
+  }
+  return low
+}
+
+function belowLower(key: StorageKey, range: KeyRange | null): boolean {
+  if (!range || range.lower === undefined) return false
+  const c = compareKeys(key, range.lower)
+  return c < 0 || (c === 0 && range.lowerOpen)
+}
+
+function aboveUpper(key: StorageKey, range: KeyRange | null): boolean {
+  if (!range || range.upper === undefined) return false
+  const c = compareKeys(key, range.upper)
+  return c > 0 || (c === 0 && range.upperOpen)
+}
+
+function entriesInRange(entries: StoredEntry[], range: KeyRange | null): StoredEntry[] {
+  const start = firstIndex(entries, entry => !belowLower(entry.key, range))
+  const end = firstIndex(entries, entry => aboveUpper(entry.key, range))
+  return entries.slice(start, Math.max(start, end))
+}
+
+/**
+ * Position a cursor: the first entry in direction order that lies in range,
+ * comes after `from` (the current position) and is not before `target`
+ * (the key passed to continue()).
+ */
+function seek(
+  entries: StoredEntry[],
+  range: KeyRange | null,
+  direction: CursorDirection,
+  byPrimaryKey: boolean,
+  from?: StoredEntry,
+  target?: StorageKey
+): StoredEntry | null {
+  const unique = direction === "nextunique" || direction === "prevunique"
+  let i: number
+
+  if (direction === "next" || direction === "nextunique") {
+    i = firstIndex(entries, entry => {
+      if (belowLower(entry.key, range)) return false
+      if (target !== undefined && compareKeys(entry.key, target) < 0) return false
+      if (from) {
+        const c = compareKeys(entry.key, from.key)
+        if (c !== 0) return c > 0
+        return byPrimaryKey && !unique && compareKeys(entry.primaryKey, from.primaryKey) > 0
+      }
+      return true
+    })
+    if (i >= entries.length) return null
+  } else {
+    i = firstIndex(entries, entry => {
+      if (aboveUpper(entry.key, range)) return true
+      if (target !== undefined && compareKeys(entry.key, target) > 0) return true
+      if (from) {
+        const c = compareKeys(entry.key, from.key)
+        if (c !== 0) return c > 0
+        return !byPrimaryKey || unique || compareKeys(entry.primaryKey, from.primaryKey) >= 0
+      }
+      return false
+    }) - 1
+    if (i < 0) return null
+    // prevunique visits the lowest primary key of each key
+    if (unique) {
+      while (i > 0 && compareKeys(entries[i - 1].key, entries[i].key) === 0) i--
+    }
+  }
+
+  const entry = entries[i]
+  return belowLower(entry.key, range) || aboveUpper(entry.key, range) ? null : entry
+}
+
+function createStoreState(name: string, keyPath: string | string[] | null, autoIncrement: boolean): StoreState {
+  return { name, keyPath, autoIncrement, nextKey: 1, records: [], indexes: new Map(), revision: 0, indexCache: new Map() }
+}
+
+function cloneStoreState(store: StoreState): StoreState {
+  return {
+    ...store,
+    records: store.records.slice(),
+    indexes: new Map(store.indexes),
+    revision: store.revision + 1,
+    indexCache: new Map()
+  }
+}
+
+function storeFor(state: DatabaseState, name: string): StoreState {
+  const store = state.stores.get(name)
+  if (!store) throw storageError("NotFoundError", `Object store "${name}" not found`)
+  return store
+}
+
+function indexKeys(value: unknown, index: IndexState): StorageKey[] {
+  if (index.multiEntry && typeof index.keyPath === "string") {
+    let raw: unknown = value
+    for (const segment of index.keyPath.split(".")) {
+      if (raw === null || typeof raw !== "object") return []
+      raw = (raw as Record<string, unknown>)[segment]
+    }
+    if (Array.isArray(raw)) {
+      const keys: StorageKey[] = []
+      for (const item of raw) {
+        if (isValidKey(item) && !keys.some(key => compareKeys(key, item) === 0)) keys.push(item)
+      }
+      return keys
+    }
+  }
+  const key = extractKey(value, index.keyPath)
+  return key === undefined ? [] : [key]
+}
+
+// Index entries sorted by (key, primaryKey), rebuilt after writes
+export function indexEntries(store: StoreState, index: IndexState): StoredEntry[] {
+  const cached = store.indexCache.get(index.name)
+  if (cached && cached.revision === store.revision) return cached.entries
+
+  const entries: StoredEntry[] = []
+  for (const record of store.records) {
+    for (const key of indexKeys(record.value, index)) {
+      entries.push({ key, primaryKey: record.key, value: record.value })
+    }
+  }
+  // Records are already in primary key order and the sort is stable
+  entries.sort((a, b) => compareKeys(a.key, b.key))
+  store.indexCache.set(index.name, { revision: store.revision, entries })
+  return entries
+}
+
+function putRecord(store: StoreState, key: StorageKey, value: unknown): void {
+  const i = firstIndex(store.records, record => compareKeys(record.key, key) >= 0)
+  const entry = { key, primaryKey: key, value }
+  if (i < store.records.length && compareKeys(store.records[i].key, key) === 0) store.records[i] = entry
+  else store.records.splice(i, 0, entry)
+  if (store.autoIncrement && typeof key === "number" && key >= store.nextKey) {
+    store.nextKey = Math.floor(key) + 1
+  }
+  store.revision++
+}
+
+function deleteRecord(store: StoreState, key: StorageKey): void {
+  const i = firstIndex(store.records, record => compareKeys(record.key, key) >= 0)
+  if (i < store.records.length && compareKeys(store.records[i].key, key) === 0) {
+    store.records.splice(i, 1)
+    store.revision++
+  }
+}
+
+// Apply a committed operation, e.g. while replaying a log
+export function applyOp(state: DatabaseState, op: StorageOp): void {
+  switch (op.op) {
+    case "version":
+      state.version = op.version
+      break
+    case "createStore":
+      state.stores.set(op.store, createStoreState(op.store, op.keyPath, op.autoIncrement))
+      break
+    case "deleteStore":
+      state.stores.delete(op.store)
+      break
+    case "createIndex": {
+      const store = storeFor(state, op.store)
+      store.indexes.set(op.index, { name: op.index, keyPath: op.keyPath, unique: op.unique, multiEntry: op.multiEntry })
+      store.revision++
+      break
+    }
+    case "deleteIndex": {
+      const store = storeFor(state, op.store)
+      store.indexes.delete(op.index)
+      store.indexCache.delete(op.index)
+      break
+    }
+    case "put":
+      putRecord(storeFor(state, op.store), op.key, op.value)
+      break
+    case "delete":
+      deleteRecord(storeFor(state, op.store), op.key)
+      break
+    case "clear": {
+      const store = storeFor(state, op.store)
+      store.records = []
+      store.revision++
+      break
+    }
+  }
+}
+
+class NameList implements StorageNameList {
+  constructor(private names: string[]) {}
+
+  get length(): number {
+    return this.names.length
+  }
+
+  contains(name: string): boolean {
+    return this.names.includes(name)
+  }
+
+  item(index: number): string | null {
+    return this.names[index] ?? null
+  }
+
+  [Symbol.iterator](): Iterator<string> {
+    return this.names[Symbol.iterator]()
+  }
+}
+
+class MemoryRequest<T = unknown> implements StorageRequest<T> {
+  result = undefined as T
+  error: Error | null = null
+  onsuccess: StorageEventHandler = null
+  onerror: StorageEventHandler = null
+}
+
+interface QueuedRequest {
+  request: MemoryRequest
+  run: () => unknown
+}
+
+// Coordinates transactions of all connections to one database
+class DatabaseHandle {
+  readonly connections = new Set<MemoryConnection>()
+  private transactions: MemoryTransaction[] = []
+
+  constructor(public state: DatabaseState) {}
+
+  enqueue(tx: MemoryTransaction): void {
+    this.transactions.push(tx)
+    this.startReady()
+  }
+
+  finished(tx: MemoryTransaction): void {
+    this.transactions = this.transactions.filter(other => other !== tx)
+    this.startReady()
+  }
+
+  // Start every transaction that no earlier unfinished transaction conflicts with
+  private startReady(): void {
+    this.transactions.forEach((tx, i) => {
+      if (tx.started) return
+      const blocked = this.transactions.slice(0, i).some(earlier => earlier.conflictsWith(tx))
+      if (!blocked) tx.start()
+    })
+  }
+}
+
+class MemoryTransaction implements StorageTransaction {
+  oncomplete: StorageEventHandler = null
+  onerror: StorageEventHandler = null
+  onabort: StorageEventHandler = null
+  error: Error | null = null
+  started = false
+  finished = false
+  // Set by the engine for the versionchange transaction
+  onStart: (() => void) | null = null
+  onDone: ((error: Error | null) => void) | null = null
+
+  private queue: QueuedRequest[] = []
+  private ops: StorageOp[] = []
+  // Store states as they were before this transaction changed them
+  private originals = new Map<string, StoreState | null>()
+  private originalVersion: number
+
+  constructor(
+    private connection: MemoryConnection,
+    // null for versionchange, which covers every store
+    private scope: string[] | null,
+    readonly mode: TransactionMode
+  ) {
+    this.originalVersion = connection.handle.state.version
+  }
+
+  get objectStoreNames(): StorageNameList {
+    return new NameList(this.scope ?? this.connection.storeNames())
+  }
+
+  get state(): DatabaseState {
+    return this.connection.handle.state
+  }
+
+  conflictsWith(other: MemoryTransaction): boolean {
+    if (!this.scope || !other.scope) return true
+    if (this.mode === "readonly" && other.mode === "readonly") return false
+    return this.scope.some(name => other.scope!.includes(name))
+  }
+
+  objectStore(name: string): StorageObjectStore {
+    if (this.finished) throw storageError("InvalidStateError", "The transaction has finished")
+    if ((this.scope && !this.scope.includes(name)) || !this.state.stores.has(name)) {
+      throw storageError("NotFoundError", `Object store "${name}" is not in the transaction scope`)
+    }
+    return new MemoryObjectStore(this, name)
+  }
+
+  start(): void {
+    this.started = true
+    this.onStart?.()
+    schedule(this.step)
+  }
+
+  request<T>(run: () => T, request: MemoryRequest = new MemoryRequest()): MemoryRequest<T> {
+    if (this.finished) throw storageError("TransactionInactiveError", "The transaction has finished")
+    this.queue.push({ request, run })
+    return request as MemoryRequest<T>
+  }
+
+  assertWritable(): void {
+    if (this.mode === "readonly") throw storageError("ReadOnlyError", "The transaction is read-only")
+  }
+
+  // Apply a change, remembering what to restore on abort
+  apply(op: StorageOp): void {
+    if (op.op !== "version" && op.op !== "createStore" && !this.originals.has(op.store)) {
+      const original = storeFor(this.state, op.store)
+      this.originals.set(op.store, original)
+      this.state.stores.set(op.store, cloneStoreState(original))
+    } else if (op.op === "createStore" && !this.originals.has(op.store)) {
+      this.originals.set(op.store, this.state.stores.get(op.store) ?? null)
+    }
+    applyOp(this.state, op)
+    this.ops.push(op)
+  }
+
+  abort(error: Error | null = null): void {
+    if (this.finished) throw storageError("InvalidStateError", "The transaction has finished")
+    this.finished = true
+    this.error = error
+    this.rollback()
+
+    const pending = this.queue
+    this.queue = []
+    schedule(() => {
+      const abortError = storageError("AbortError", "The transaction was aborted")
+      for (const { request } of pending) {
+        request.error = abortError
+        try {
+          request.onerror?.(event("error"))
+        } catch {
+          // Nothing left to abort
+        }
+      }
+      this.onabort?.(event("abort"))
+      this.onDone?.(this.error ?? abortError)
+      this.connection.handle.finished(this)
+    })
+  }
+
+  private rollback(): void {
+    for (const [name, original] of this.originals) {
+      if (original) this.state.stores.set(name, original)
+      else this.state.stores.delete(name)
+    }
+    this.state.version = this.originalVersion
+    this.originals.clear()
+    this.ops = []
+  }
+
+  private step = (): void => {
+    if (this.finished) return
+    const next = this.queue.shift()
+    if (!next) {
+      this.commit()
+      return
+    }
+    this.execute(next)
+    if (!this.finished) schedule(this.step)
+  }
+
+  private execute({ request, run }: QueuedRequest): void {
+    let result: unknown
+    try {
+      result = run()
+    } catch (error) {
+      this.fail(request, error as Error)
+      return
+    }
+    request.result = result
+    request.error = null
+    try {
+      request.onsuccess?.(event("success"))
+    } catch (error) {
+      if (!this.finished) this.abort(error as Error)
+    }
+  }
+
+  // A failed request aborts the transaction unless its handler prevents it
+  private fail(request: MemoryRequest, error: Error): void {
+    request.result = undefined
+    request.error = error
+    let prevented = false
+    const errorEvent = event("error", () => { prevented = true })
+    try {
+      request.onerror?.(errorEvent)
+    } catch {
+      prevented = false
+    }
+    if (prevented || this.finished) return
+    this.error = error
+    this.onerror?.(errorEvent)
+    if (!this.finished) this.abort(error)
+  }
+
+  private commit(): void {
+    this.finished = true
+    if (this.ops.length > 0) {
+      try {
+        this.connection.engine.commitOps(this.state, this.ops)
+      } catch (error) {
+        this.rollback()
+        this.error = error as Error
+        this.onabort?.(event("abort"))
+        this.onDone?.(this.error)
+        this.connection.handle.finished(this)
+        return
+      }
+    }
+    this.originals.clear()
+    this.oncomplete?.(event("complete"))
+    this.onDone?.(null)
+    this.connection.handle.finished(this)
+  }
+}
+
+type CursorSource = {
+  tx: MemoryTransaction
+  storeName: string
+  // Entries to iterate in key order
+  entries(): StoredEntry[]
+  // Index cursors order equal keys by primary key
+  byPrimaryKey: boolean
+}
+
+class MemoryCursor<T = unknown> implements StorageCursorWithValue<T> {
+  key!: StorageKey
+  primaryKey!: StorageKey
+  value!: T
+
+  constructor(
+    private source: CursorSource,
+    private request: MemoryRequest<MemoryCursor<T> | null>,
+    private range: KeyRange | null,
+    private direction: CursorDirection,
+    private withValue: boolean
+  ) {}
+
+  // Move to the next entry; used as the result of the cursor request
+  advance(target?: StorageKey): MemoryCursor<T> | null {
+    const from = this.key === undefined ? undefined : { key: this.key, primaryKey: this.primaryKey, value: undefined }
+    const entry = seek(this.source.entries(), this.range, this.direction, this.source.byPrimaryKey, from, target)
+    if (!entry) return null
+    this.key = structuredClone(entry.key)
+    this.primaryKey = structuredClone(entry.primaryKey)
+    // Key cursors have no value
+    this.value = (this.withValue ? structuredClone(entry.value) : undefined) as T
+    return this
+  }
+
+  continue(key?: StorageKey): void {
+    if (key !== undefined && !isValidKey(key)) throw storageError("DataError", "The parameter is not a valid key")
+    this.source.tx.request(() => this.advance(key), this.request)
+  }
+
+  update(value: unknown): StorageRequest<StorageKey> {
+    return new MemoryObjectStore(this.source.tx, this.source.storeName).write(value, this.primaryKey, false, true)
+  }
+
+  delete(): StorageRequest<undefined> {
+    return new MemoryObjectStore(this.source.tx, this.source.storeName).delete(this.primaryKey)
+  }
+}
+
+// Reads shared by object stores and indexes over a list of sorted entries
+abstract class MemorySource {
+  constructor(protected tx: MemoryTransaction, protected storeName: string) {}
+
+  protected abstract entries(): StoredEntry[]
+  protected abstract readonly byPrimaryKey: boolean
+
+  protected get store(): StoreState {
+    return storeFor(this.tx.state, this.storeName)
+  }
+
+  get<T = unknown>(query: StorageKey | StorageKeyRange): StorageRequest<T> {
+    const range = toKeyRange(query)
+    return this.tx.request(() => {
+      const entry = seek(this.entries(), range, "next", this.byPrimaryKey)
+      return (entry ? structuredClone(entry.value) : undefined) as T
+    })
+  }
+
+  getAll<T = unknown>(query?: StorageQuery, count?: number): StorageRequest<T[]> {
+    const range = toKeyRange(query)
+    return this.tx.request(() => {
+      const entries = entriesInRange(this.entries(), range)
+      return (count ? entries.slice(0, count) : entries).map(entry => structuredClone(entry.value) as T)
+    })
+  }
+
+  count(query?: StorageQuery): StorageRequest<number> {
+    const range = toKeyRange(query)
+    return this.tx.request(() => entriesInRange(this.entries(), range).length)
+  }
+
+  openCursor<T = unknown>(query?: StorageQuery, direction: CursorDirection = "next"): StorageRequest<MemoryCursor<T> | null> {
+    return this.cursor<T>(query, direction, true)
+  }
+
+  openKeyCursor(query?: StorageQuery, direction: CursorDirection = "next"): StorageRequest<MemoryCursor | null> {
+    return this.cursor(query, direction, false)
+  }
+
+  private cursor<T = unknown>(query: StorageQuery, direction: CursorDirection, withValue: boolean): StorageRequest<MemoryCursor<T> | null> {
+    const range = toKeyRange(query)
+    const request = new MemoryRequest<MemoryCursor<T> | null>()
+    const source: CursorSource = {
+      tx: this.tx,
+      storeName: this.storeName,
+      entries: () => this.entries(),
+      byPrimaryKey: this.byPrimaryKey
+    }
+    const cursor = new MemoryCursor(source, request, range, direction, withValue)
+    return this.tx.request(() => cursor.advance(), request)
+  }
+}
+
+class MemoryIndex extends MemorySource implements StorageIndex {
+  protected readonly byPrimaryKey = true
+
+  constructor(tx: MemoryTransaction, storeName: string, readonly name: string) {
+    super(tx, storeName)
+  }
+
+  private get definition(): IndexState {
+    const index = this.store.indexes.get(this.name)
+    if (!index) throw storageError("NotFoundError", `Index "${this.name}" not found`)
+    return index
+  }
+
+  get keyPath(): string | string[] {
+    return this.definition.keyPath
+  }
+
+  get unique(): boolean {
+    return this.definition.unique
+  }
+
+  protected entries(): StoredEntry[] {
+    return indexEntries(this.store, this.definition)
+  }
+}
+
+class MemoryObjectStore extends MemorySource implements StorageObjectStore {
+  protected readonly byPrimaryKey = false
+
+  constructor(tx: MemoryTransaction, readonly name: string) {
+    super(tx, name)
+  }
+
+  get keyPath(): string | string[] | null {
+    return this.store.keyPath
+  }
+
+  get autoIncrement(): boolean {
+    return this.store.autoIncrement
+  }
+
+  get indexNames(): StorageNameList {
+    return new NameList(Array.from(this.store.indexes.keys()).sort())
+  }
+
+  protected entries(): StoredEntry[] {
+    return this.store.records
+  }
+
+  put(value: unknown, key?: StorageKey): StorageRequest<StorageKey> {
+    return this.write(value, key, false)
+  }
+
+  add(value: unknown, key?: StorageKey): StorageRequest<StorageKey> {
+    return this.write(value, key, true)
+  }
+
+  // Keys are resolved when the request is placed, like IndexedDB; a cursor
+  // update passes its primary key, which must match an inline key
+  write(value: unknown, key: StorageKey | undefined, noOverwrite: boolean, fromCursor = false): StorageRequest<StorageKey> {
+    this.tx.assertWritable()
+    const store = this.store
+    const copy = structuredClone(value)
+    let resolved: StorageKey | undefined
+
+    if (store.keyPath !== null) {
+      if (key !== undefined && !fromCursor) throw storageError("DataError", "The object store uses in-line keys")
+      resolved = extractKey(copy, store.keyPath)
+      if (fromCursor && (resolved === undefined || compareKeys(resolved, key) !== 0)) {
+        throw storageError("DataError", "The record key does not match the cursor position")
+      }
+      if (resolved === undefined) {
+        if (!store.autoIncrement || Array.isArray(store.keyPath) || copy === null || typeof copy !== "object") {
+          throw storageError("DataError", "The value does not provide a valid key")
+        }
+      }
+    } else {
+      if (key !== undefined && !isValidKey(key)) throw storageError("DataError", "The parameter is not a valid key")
+      if (key === undefined && !store.autoIncrement) throw storageError("DataError", "A key is required")
+      resolved = key === undefined ? undefined : structuredClone(key)
+    }
+
+    return this.tx.request(() => {
+      const current = this.store
+      let recordKey = resolved
+      if (recordKey === undefined) {
+        recordKey = current.nextKey
+        if (typeof current.keyPath === "string") injectKey(copy, current.keyPath, recordKey)
+      }
+      const exists = seek(current.records, keyRanges.only(recordKey) as KeyRange, "next", false) !== null
+      if (noOverwrite && exists) throw storageError("ConstraintError", "A record with this key already exists")
+      for (const index of current.indexes.values()) {
+        if (!index.unique) continue
+        for (const indexKey of indexKeys(copy, index)) {
+          const clash = entriesInRange(indexEntries(current, index), keyRanges.only(indexKey) as KeyRange)
+            .some(entry => compareKeys(entry.primaryKey, recordKey!) !== 0)
+          if (clash) throw storageError("ConstraintError", `Unique index "${index.name}" already has this key`)
+        }
+      }
+      this.tx.apply({ op: "put", store: this.name, key: recordKey, value: copy })
+      return recordKey
+    })
+  }
+
+  delete(query: StorageKey | StorageKeyRange): StorageRequest<undefined> {
+    this.tx.assertWritable()
+    const range = toKeyRange(query)
+    return this.tx.request(() => {
+      for (const entry of entriesInRange(this.store.records, range)) {
+        this.tx.apply({ op: "delete", store: this.name, key: entry.key })
+      }
+      return undefined
+    })
+  }
+
+  clear(): StorageRequest<undefined> {
+    this.tx.assertWritable()
+    return this.tx.request(() => {
+      this.tx.apply({ op: "clear", store: this.name })
+      return undefined
+    })
+  }
+
+  index(name: string): StorageIndex {
+    if (!this.store.indexes.has(name)) throw storageError("NotFoundError", `Index "${name}" not found`)
+    return new MemoryIndex(this.tx, this.name, name)
+  }
+
+  createIndex(name: string, keyPath: string | string[], options: { unique?: boolean; multiEntry?: boolean } = {}): StorageIndex {
+    if (this.tx.mode !== "versionchange") throw storageError("InvalidStateError", "Indexes can only be created during an upgrade")
+    if (this.store.indexes.has(name)) throw storageError("ConstraintError", `Index "${name}" already exists`)
+    this.tx.apply({
+      op: "createIndex",
+      store: this.name,
+      index: name,
+      keyPath,
+      unique: options.unique ?? false,
+      multiEntry: options.multiEntry ?? false
+    })
+    return new MemoryIndex(this.tx, this.name, name)
+  }
+
+  deleteIndex(name: string): void {
+    if (this.tx.mode !== "versionchange") throw storageError("InvalidStateError", "Indexes can only be deleted during an upgrade")
+    if (!this.store.indexes.has(name)) throw storageError("NotFoundError", `Index "${name}" not found`)
+    this.tx.apply({ op: "deleteIndex", store: this.name, index: name })
+  }
+}
+
+class MemoryConnection implements StorageDatabase {
+  onversionchange: StorageEventHandler = null
+  closed = false
+  // Set while this connection runs its upgrade
+  upgrade: MemoryTransaction | null = null
+
+  constructor(readonly engine: MemoryStorageEngine, readonly handle: DatabaseHandle) {}
+
+  get name(): string {
+    return this.handle.state.name
+  }
+
+  get version(): number {
+    return this.handle.state.version
+  }
+
+  get objectStoreNames(): StorageNameList {
+    return new NameList(this.storeNames())
+  }
+
+  storeNames(): string[] {
+    return Array.from(this.handle.state.stores.keys()).sort()
+  }
+
+  transaction(storeNames: string | string[], mode: "readonly" | "readwrite" = "readonly"): StorageTransaction {
+    if (this.closed) throw storageError("InvalidStateError", "The database connection is closed")
+    if (this.upgrade) throw storageError("InvalidStateError", "An upgrade is in progress")
+    const scope = Array.from(new Set(Array.isArray(storeNames) ? storeNames : [storeNames]))
+    if (scope.length === 0) throw storageError("InvalidAccessError", "No object stores were given")
+    for (const name of scope) {
+      if (!this.handle.state.stores.has(name)) throw storageError("NotFoundError", `Object store "${name}" not found`)
+    }
+    const tx = new MemoryTransaction(this, scope, mode)
+    this.handle.enqueue(tx)
+    return tx
+  }
+
+  createObjectStore(name: string, options: { keyPath?: string | string[] | null; autoIncrement?: boolean } = {}): StorageObjectStore {
+    const tx = this.requireUpgrade()
+    if (this.handle.state.stores.has(name)) throw storageError("ConstraintError", `Object store "${name}" already exists`)
+    const keyPath = options.keyPath ?? null
+    if (options.autoIncrement && (Array.isArray(keyPath) || keyPath === "")) {
+      throw storageError("InvalidAccessError", "autoIncrement requires a non-empty, single key path")
+    }
+    tx.apply({ op: "createStore", store: name, keyPath, autoIncrement: options.autoIncrement ?? false })
+    return tx.objectStore(name)
+  }
+
+  deleteObjectStore(name: string): void {
+    const tx = this.requireUpgrade()
+    storeFor(this.handle.state, name)
+    tx.apply({ op: "deleteStore", store: name })
+  }
+
+  close(): void {
+    this.closed = true
+    this.handle.connections.delete(this)
+  }
+
+  private requireUpgrade(): MemoryTransaction {
+    if (!this.upgrade || this.upgrade.finished) {
+      throw storageError("InvalidStateError", "Object stores can only be changed during an upgrade")
+    }
+    return this.upgrade
+  }
+}
+
+// Where a persistent engine keeps committed state
+export interface StoragePersistence {
+  // State of a database that is not open yet; null starts an empty one
+  load(name: string): Promise<DatabaseState | null>
+  // Operations of a committed transaction that wrote something, in order.
+  // Throwing aborts the transaction.
+  commit(state: DatabaseState, ops: StorageOp[]): void
+  remove(name: string): Promise<void>
+}
+
+export class MemoryStorageEngine implements StorageEngine {
+  readonly kind: string = "memory"
+  readonly persistent: boolean
+  readonly keyRange = keyRanges
+  private handles = new Map<string, Promise<DatabaseHandle>>()
+
+  constructor(private persistence?: StoragePersistence) {
+    this.persistent = persistence !== undefined
+  }
+
+  cmp(a: unknown, b: unknown): number {
+    return compareKeys(a, b)
+  }
+
+  async open(name: string, version: number, upgrade: UpgradeCallback): Promise<StorageDatabase> {
+    if (!Number.isInteger(version) || version < 1) throw new TypeError(`Invalid database version: ${version}`)
+    const handle = await this.handleFor(name)
+    const oldVersion = handle.state.version
+    if (version < oldVersion) {
+      throw storageError("VersionError", `Requested version ${version} is lower than the current version ${oldVersion}`)
+    }
+
+    const connection = new MemoryConnection(this, handle)
+    if (version > oldVersion) {
+      // Other connections are asked to close; the upgrade still waits for
+      // their running transactions
+      for (const other of handle.connections) other.onversionchange?.(event("versionchange"))
+      await this.upgrade(connection, version, upgrade)
+    }
+    handle.connections.add(connection)
+    return connection
+  }
+
+  async deleteDatabase(name: string): Promise<void> {
+    const handle = this.handles.get(name)
+    this.handles.delete(name)
+    if (handle) {
+      for (const connection of (await handle).connections) {
+        connection.onversionchange?.(event("versionchange"))
+        connection.close()
+      }
+    }
+    await this.persistence?.remove(name)
+  }
+
+  commitOps(state: DatabaseState, ops: StorageOp[]): void {
+    this.persistence?.commit(state, ops)
+  }
+
+  private handleFor(name: string): Promise<DatabaseHandle> {
+    let handle = this.handles.get(name)
+    if (!handle) {
+      const loaded = this.persistence ? this.persistence.load(name) : Promise.resolve(null)
+      handle = loaded.then(state => new DatabaseHandle(state ?? { name, version: 0, stores: new Map() }))
+      this.handles.set(name, handle)
+      handle.catch(() => this.handles.delete(name))
+    }
+    return handle
+  }
+
+  private upgrade(connection: MemoryConnection, version: number, callback: UpgradeCallback): Promise<void> {
+    const handle = connection.handle
+    const oldVersion = handle.state.version
+    const tx = new MemoryTransaction(connection, null, "versionchange")
+    let upgradeError: unknown = null
+
+    return new Promise((resolve, reject) => {
+      tx.onStart = () => {
+        connection.upgrade = tx
+        tx.apply({ op: "version", version })
+        try {
+          const pending = callback(connection, tx, oldVersion)
+          if (pending) {
+            pending.catch(error => {
+              upgradeError = error
+              if (!tx.finished) tx.abort(error as Error)
+            })
+          }
+        } catch (error) {
+          upgradeError = error
+          tx.abort(error as Error)
+        }
+      }
+      tx.onDone = error => {
+        connection.upgrade = null
+        if (error) reject(upgradeError ?? error)
+        else resolve()
+      }
+      handle.enqueue(tx)
+    })
+  }
+}
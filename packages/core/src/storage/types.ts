@@ -0,0 +1,135 @@
+// Storage engine contract
+//
+// ColumnistDB talks to its backend through the subset of the IndexedDB API
+// described here. IndexedDB objects satisfy it as they are; other engines
+// reproduce the same semantics: requests complete asynchronously, a
+// transaction commits once no request is pending, an aborted transaction
+// rolls back, and keys order as number < Date < string < binary < array.
+
+export type StorageKey = number | string | Date | ArrayBuffer | ArrayBufferView | StorageKey[]
+
+export type StorageQuery = StorageKey | StorageKeyRange | null | undefined
+
+export type TransactionMode = "readonly" | "readwrite" | "versionchange"
+
+export type CursorDirection = "next" | "nextunique" | "prev" | "prevunique"
+
+export interface StorageEvent {
+  readonly type: string
+  // On a request error, keeps the transaction from aborting
+  preventDefault(): void
+}
+
+export type StorageEventHandler = ((event: StorageEvent) => unknown) | null
+
+export interface StorageKeyRange {
+  readonly lower: unknown
+  readonly upper: unknown
+  readonly lowerOpen: boolean
+  readonly upperOpen: boolean
+}
+
+export interface KeyRangeFactory {
+  only(value: unknown): StorageKeyRange
+  bound(lower: unknown, upper: unknown, lowerOpen?: boolean, upperOpen?: boolean): StorageKeyRange
+  lowerBound(lower: unknown, open?: boolean): StorageKeyRange
+  upperBound(upper: unknown, open?: boolean): StorageKeyRange
+}
+
+export interface StorageNameList extends Iterable<string> {
+  readonly length: number
+  contains(name: string): boolean
+  item(index: number): string | null
+}
+
+export interface StorageRequest<T = unknown> {
+  readonly result: T
+  readonly error: Error | null
+  onsuccess: StorageEventHandler
+  onerror: StorageEventHandler
+}
+
+export interface StorageCursor {
+  readonly key: StorageKey
+  readonly primaryKey: StorageKey
+  continue(key?: StorageKey): void
+  update(value: unknown): StorageRequest<StorageKey>
+  delete(): StorageRequest<undefined>
+}
+
+export interface StorageCursorWithValue<T = unknown> extends StorageCursor {
+  readonly value: T
+}
+
+// Reads shared by object stores and indexes. T is the record type the
+// caller expects; stores don't check it.
+export interface StorageSource {
+  readonly name: string
+  get<T = unknown>(query: StorageKey | StorageKeyRange): StorageRequest<T>
+  getAll<T = unknown>(query?: StorageQuery, count?: number): StorageRequest<T[]>
+  count(query?: StorageQuery): StorageRequest<number>
+  openCursor<T = unknown>(query?: StorageQuery, direction?: CursorDirection): StorageRequest<StorageCursorWithValue<T> | null>
+  openKeyCursor(query?: StorageQuery, direction?: CursorDirection): StorageRequest<StorageCursor | null>
+}
+
+export interface StorageIndex extends StorageSource {
+  readonly keyPath: string | string[]
+  readonly unique: boolean
+}
+
+export interface StorageObjectStore extends StorageSource {
+  readonly keyPath: string | string[] | null
+  readonly autoIncrement: boolean
+  readonly indexNames: StorageNameList
+  put(value: unknown, key?: StorageKey): StorageRequest<StorageKey>
+  add(value: unknown, key?: StorageKey): StorageRequest<StorageKey>
+  delete(query: StorageKey | StorageKeyRange): StorageRequest<undefined>
+  clear(): StorageRequest<undefined>
+  index(name: string): StorageIndex
+  // Only inside the versionchange transaction
+  createIndex(name: string, keyPath: string | string[], options?: { unique?: boolean; multiEntry?: boolean }): StorageIndex
+  deleteIndex(name: string): void
+}
+
+export interface StorageTransaction {
+  readonly mode: TransactionMode
+  readonly objectStoreNames: StorageNameList
+  readonly error: Error | null
+  objectStore(name: string): StorageObjectStore
+  abort(): void
+  oncomplete: StorageEventHandler
+  onerror: StorageEventHandler
+  onabort: StorageEventHandler
+}
+
+export interface StorageDatabase {
+  readonly name: string
+  readonly version: number
+  readonly objectStoreNames: StorageNameList
+  transaction(storeNames: string | string[], mode?: "readonly" | "readwrite"): StorageTransaction
+  // Only inside the versionchange transaction
+  createObjectStore(name: string, options?: { keyPath?: string | string[] | null; autoIncrement?: boolean }): StorageObjectStore
+  deleteObjectStore(name: string): void
+  close(): void
+  // Another connection wants to upgrade; close to let it proceed
+  onversionchange: StorageEventHandler
+}
+
+/**
+ * Creates and migrates stores inside the versionchange transaction. A
+ * returned promise keeps the upgrade open while it chains requests on tx;
+ * rejecting it aborts the upgrade and fails open() with the same error.
+ */
+export type UpgradeCallback = (db: StorageDatabase, tx: StorageTransaction, oldVersion: number) => void | Promise<void>
+
+export interface StorageEngine {
+  // "indexeddb", "memory", "file", ...
+  readonly kind: string
+  // Whether data outlives the current process or page
+  readonly persistent: boolean
+  readonly keyRange: KeyRangeFactory
+  // Key order used by indexes and cursors
+  cmp(a: unknown, b: unknown): number
+  open(name: string, version: number, upgrade: UpgradeCallback): Promise<StorageDatabase>
+  deleteDatabase(name: string): Promise<void>
+}
@@ -0,0 +1,158 @@
+// Inverted index and BM25 ranking for ColumnistDB.search
+//
+// Each _ii_<table> entry lists the records containing a token and, per
+// record, how often and where the token occurs in each searchable field
+// together with that field's length in tokens. Total field lengths per table
+// are kept in _meta_stats, which gives the average lengths BM25 normalizes
+// against.
+// Field boosts are applied at query time, so changing them needs no reindex.
+
+import type { Analyzer } from "./analyzers"
+import type { TableDefinition } from "./types"
+
+// Term frequency of a token in one field of one record, and the field's length
+export interface FieldPosting {
+  tf: number
+  length: number
+  // Token offsets within the field, for phrase queries; absent in postings
+  // written before phrases were supported
+  positions?: number[]
+}
+
+export interface InvertedIndexEntry {
+  token: string
+  ids: number[]
+  // Record id -> field -> posting; absent in entries written before BM25
+  postings?: Record<string, Record<string, FieldPosting>>
+}
+
+export interface AnalyzedDocument {
+  // Token -> field -> posting
+  terms: Map<string, Record<string, FieldPosting>>
+  // Field -> length in tokens
+  lengths: Record<string, number>
+}
+
+// Okapi BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2
+const B = 0.75
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+// Explicit searchable fields, or every string column
+export function searchableFieldsOf(def: TableDefinition): string[] {
+  return (def.searchableFields && def.searchableFields.length > 0)
+    ? def.searchableFields
+    : Object.entries(def.columns)
+        .filter(([, t]) => t === "string")
+        .map(([name]) => name)
+}
+
+export function analyzeDocument(record: Record<string, unknown>, fields: string[], analyzer?: Analyzer): AnalyzedDocument {
+  const terms = new Map<string, Record<string, FieldPosting>>()
+  const lengths: Record<string, number> = {}
+  for (const field of fields) {
+    const raw = record[field]
+    if (typeof raw !== "string") continue
+    const tokens = analyzer ? analyzer.analyze(raw) : tokenize(raw)
+    if (tokens.length === 0) continue
+    lengths[field] = tokens.length
+    for (const [position, token] of tokens.entries()) {
+      const byField = terms.get(token) ?? {}
+      const posting = byField[field] ?? { tf: 0, length: tokens.length, positions: [] }
+      posting.tf++
+      posting.positions!.push(position)
+      byField[field] = posting
+      terms.set(token, byField)
+    }
+  }
+  return { terms, lengths }
+}
+
+// Add (sign 1) or remove (sign -1) a document's field lengths from totals
+export function addFieldLengths(
+  totals: Record<string, number> | undefined,
+  lengths: Record<string, number>,
+  sign: 1 | -1 = 1
+): Record<string, number> {
+  const out = { ...totals }
+  for (const [field, length] of Object.entries(lengths)) {
+    out[field] = Math.max(0, (out[field] ?? 0) + sign * length)
+  }
+  return out
+}
+
+// Put or replace the postings of one record in an index entry
+export function addPosting(
+  entry: InvertedIndexEntry | undefined,
+  token: string,
+  id: number,
+  fields: Record<string, FieldPosting>
+): InvertedIndexEntry {
+  const next: InvertedIndexEntry = entry ?? { token, ids: [] }
+  if (!next.ids.includes(id)) next.ids.push(id)
+  next.postings = { ...next.postings, [id]: fields }
+  return next
+}
+
+// Drop a record from an index entry; null when no record is left
+export function removePosting(entry: InvertedIndexEntry, id: number): InvertedIndexEntry | null {
+  const ids = entry.ids.filter(recordId => recordId !== id)
+  if (ids.length === 0) return null
+  const postings = { ...entry.postings }
+  delete postings[id]
+  return { ...entry, ids, postings }
+}
+
+export interface BM25Context {
+  // Records in the table
+  totalDocs: number
+  // Field -> summed length over all records
+  fieldLengths: Record<string, number>
+  // Field -> weight; fields without one weigh 1
+  boosts?: Record<string, number>
+}
+
+/**
+ * Score the records of the given index entries with BM25F: per-field term
+ * frequencies are length-normalized, weighted by the field boosts and summed
+ * before saturation, and each query token contributes its IDF times that.
+ */
+export function scoreBM25(entries: InvertedIndexEntry[], context: BM25Context): Map<number, number> {
+  const { totalDocs, fieldLengths, boosts = {} } = context
+  const scores = new Map<number, number>()
+  const averageLength = (field: string) => {
+    const total = fieldLengths[field]
+    return total && totalDocs > 0 ? total / totalDocs : 0
+  }
+
+  for (const entry of entries) {
+    const df = entry.ids.length
+    if (df === 0) continue
+    const idf = Math.log(1 + (Math.max(totalDocs, df) - df + 0.5) / (df + 0.5))
+
+    for (const id of entry.ids) {
+      const fields = entry.postings?.[id]
+      let tf = 0
+      if (!fields) {
+        // Entry from before postings were stored: one unnormalized occurrence
+        tf = 1
+      } else {
+        for (const [field, posting] of Object.entries(fields)) {
+          const average = averageLength(field)
+          const norm = average > 0 ? 1 - B + B * (posting.length / average) : 1
+          tf += (boosts[field] ?? 1) * posting.tf / norm
+        }
+      }
+      const score = idf * (tf * (K1 + 1)) / (tf + K1)
+      scores.set(id, (scores.get(id) ?? 0) + score)
+    }
+  }
+  return scores
+}
@@ -1,19 +1,83 @@
 import { z } from "zod"
+import type { StorageDatabase, StorageEngine, StorageTransaction } from "./storage"
+import type { FileStorageOptions } from "./storage/file"
 
 export type ColumnType = "string" | "number" | "boolean" | "date" | "json"
 
+// A secondary index: a single field, or an ordered list of fields for a
+// compound index (e.g. ["status", "dueDate"]). Fields may be dotted paths
+// into json columns such as "metadata.documentId".
+export type IndexSpec = string | string[]
+
+// A column name or a dotted path below a json column
+export type FieldPath<K extends string = string> = K | `${K}.${string}`
+
 export interface TableDefinition {
   columns: Record<string, ColumnType | { type: 'vector'; dimension: number }>
   primaryKey?: string
   searchableFields?: string[]
-  secondaryIndexes?: string[]
+  // Weight of matches per searchable field in search() ranking (default 1)
+  fieldBoosts?: Record<string, number>
+  // How searchable fields and queries are split into tokens (default "standard")
+  analyzer?: AnalyzerConfig
+  secondaryIndexes?: IndexSpec[]
   validation?: z.ZodSchema
-  vector?: {
-    field: string
-    dims: number
-  }
+  vector?: VectorFieldConfig
+  // Further embeddings by name, e.g. { title: {...}, abstract: {...} }, each
+  // with its own stores, indexes and embedder. vectorSearch() picks one with
+  // its field option; the `vector` one is named after its source field.
+  vectors?: Record<string, VectorFieldConfig>
 }
 
+// An embedding of a table, computed from one string column
+export interface VectorFieldConfig {
+  field: string
+  dims: number
+  // Default metric of vectorSearch() on this embedding (default "cosine")
+  metric?: "cosine" | "dot" | "euclidean"
+  quantization?: VectorQuantization
+}
+
+// Compressed embeddings, which vector search scans before re-ranking the
+// best candidates. Only the _vec store is compressed: HNSW nodes keep full
+// float vectors, and graph search does not use the codes.
+export interface QuantizationOptions {
+  // "int8" scales each vector into signed bytes (about 4x smaller); "pq"
+  // stores each subvector as the index of the nearest of 256 centroids
+  // trained by quantizeVectors()
+  type: "int8" | "pq"
+  // pq: subvectors per vector, dividing dims (default 8 dimensions each)
+  subvectors?: number
+  // Candidates re-ranked with the original vectors, or the decoded codes
+  // without them, as a multiple of the limit (default 4)
+  rerank?: number
+  // true stores the original vectors next to their codes, for exact
+  // re-ranking at the cost of more space than no quantization (default false)
+  keepOriginals?: boolean
+}
+
+export type VectorQuantization = "int8" | "pq" | QuantizationOptions
+
+// Options for the built-in analysis pipeline: a tokenizer followed by
+// optional ASCII folding, stop word removal and stemming
+export interface AnalyzerOptions {
+  // "standard" splits on anything but letters and digits, "cjk" also splits
+  // runs of Chinese, Japanese and Korean characters into overlapping bigrams,
+  // and "ngram" indexes every n-gram of each word (default "standard")
+  tokenizer?: "standard" | "cjk" | "ngram"
+  // Gram lengths for the ngram tokenizer (default 2 to 3)
+  ngram?: { min: number; max: number }
+  // Strip diacritics from Latin letters, e.g. café -> cafe
+  asciiFolding?: boolean
+  // true drops common English words; a list drops those words instead
+  stopwords?: boolean | string[]
+  stemmer?: "english"
+}
+
+// The name of a built-in ("standard", "english", "cjk", "ngram") or
+// registered analyzer, or options for the built-in pipeline
+export type AnalyzerConfig = string | AnalyzerOptions
+
 export type InferTableType<T extends TableDefinition> = {
   [K in keyof T["columns"]]: T["columns"][K] extends "string"
     ? string
@@ -34,11 +98,136 @@ export interface SearchOptions {
   table?: string
   limit?: number
   timeRange?: [Date | string, Date | string]
+  // Return highlighted fragments of the matched fields with each result
+  highlight?: HighlightOptions
+  // Count values of these fields over every match, not just the first limit
+  facets?: FacetSpec[]
+  // Reorder the best hits with the table's registered reranker, or false to
+  // skip it
+  rerank?: false | RerankOptions
+  // Any additional key:value provided here is treated as an equality filter on records
+  // (except the reserved keys above)
   [key: string]: unknown
 }
 
+export interface HighlightOptions {
+  // Fields to highlight (default: the searchable fields)
+  fields?: string[]
+  // Put around each matched word (default "<mark>" and "</mark>")
+  preTag?: string
+  postTag?: string
+  // Approximate fragment length in characters; 0 returns whole field values
+  // (default 100)
+  fragmentSize?: number
+  // Fragments per field (default 3)
+  maxFragments?: number
+}
+
+// Field -> highlighted fragments
+export type SearchHighlights = Record<string, string[]>
+
+export type SearchHit<T> = T & { id: number; score: number; highlights?: SearchHighlights }
+
+export interface HybridSearchOptions {
+  // Full-text query, in the syntax of search()
+  text?: string
+  // Query embedding, or text to embed with the table's registered embedder
+  vector?: Float32Array
+  vectorText?: string
+  // Named vector to rank by (default the table's first)
+  field?: string
+  // Weight of the text and the vector ranking (default 1 each)
+  weights?: { text?: number; vector?: number }
+  // "rrf" fuses ranks, "linear" fuses min-max normalized scores (default "rrf")
+  fusion?: "rrf" | "linear"
+  // The k of reciprocal rank fusion (default 60)
+  rrfK?: number
+  metric?: "cosine" | "dot" | "euclidean"
+  // Passed to vectorSearch
+  useHNSW?: boolean
+  useIVF?: boolean
+  // Applied to both rankings before anything is cut
+  where?: WhereCondition
+  limit?: number
+  // Results taken from each ranking before fusion (default 4 x limit)
+  candidates?: number
+  // Diversify the fused results by maximal marginal relevance
+  mmr?: MMROptions
+  rerank?: false | RerankOptions
+}
+
+export interface MMROptions {
+  // Weight of relevance against novelty, from 0 (most diverse) to 1 (plain
+  // ranking); default 0.5
+  lambda?: number
+  // Hits ranked before picking limit of them (default 4 x limit; for
+  // hybridSearch, the candidates)
+  fetchK?: number
+}
+
+// A hit handed to a reranker
+export interface RerankCandidate {
+  id: number | string
+  // The record's text fields the reranker reads
+  text: string
+  // Score from retrieval
+  score: number
+  record: Record<string, unknown>
+}
+
+// Scores candidates against the query, one score per candidate in order;
+// higher is better
+export interface Reranker {
+  rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> | number[]
+}
+
+export interface RerankOptions {
+  // Hits retrieved and handed to the reranker before cutting to limit
+  // (default 4 x limit)
+  candidates?: number
+  // Query text to rerank against; vectorSearch takes no text of its own.
+  // Defaults to the query of search, vectorSearchText and hybridSearch
+  query?: string
+}
+
+export interface RerankerOptions {
+  // Fields joined into the candidate text (default the searchable fields,
+  // or the source fields of the table's vectors)
+  fields?: string[]
+}
+
+// score is the fused score; textScore and vectorScore are the raw scores of
+// the rankings the record appeared in
+export type HybridHit<T> = T & { id: number; score: number; textScore?: number; vectorScore?: number }
+
+// Operators accepted for a single field in a where clause. A bare value (or a
+// RegExp) in place of an operator object means equality (or a regex match).
+export interface FieldOperators {
+  $eq?: unknown
+  $ne?: unknown
+  $gt?: unknown
+  $gte?: unknown
+  $lt?: unknown
+  $lte?: unknown
+  // Matches any listed value; on array values, any listed element
+  $in?: unknown[]
+  $nin?: unknown[]
+  // true: value is neither null nor undefined
+  $exists?: boolean
+  $prefix?: string
+  $regex?: string | RegExp
+  $options?: string
+  // Array (json) values contain the element, or all elements when given an array;
+  // string values contain the substring
+  $contains?: unknown
+  $not?: FieldOperators | RegExp | unknown
+}
+
 export interface WhereCondition {
-  [field: string]: unknown | { $gt?: unknown; $gte?: unknown; $lt?: unknown; $lte?: unknown; $in?: unknown[] }
+  $and?: WhereCondition[]
+  $or?: WhereCondition[]
+  $not?: WhereCondition
+  [field: string]: unknown | FieldOperators
 }
 
 export interface FindOptions {
@@ -47,12 +236,155 @@ export interface FindOptions {
   orderBy?: string | { field: string; direction?: "asc" | "desc" }
   limit?: number
   offset?: number
+  // Count values of these fields over every match, not just the page
+  facets?: FacetSpec[]
+}
+
+export interface FindPageOptions extends FindOptions {
+  // Opaque cursor from a previous page's nextCursor or prevCursor
+  cursor?: string
+}
+
+export interface PageResult<T> {
+  data: T[]
+  // Resume after the last row; null when there are no further rows
+  nextCursor: string | null
+  // Page backwards from the first row; null on the first page
+  prevCursor: string | null
+  // Counts over every row matching where, when facets were requested
+  facets?: FacetResults
+}
+
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max"
+
+// "count" counts matching rows; { fn, field } reduces a field (count with a
+// field counts rows where it is present). Fields may be dotted json paths.
+export type AggregateMetric = "count" | { fn: AggregateFunction; field?: string }
+
+export interface AggregateOptions {
+  table?: string
+  where?: WhereCondition
+  // One or more fields to group by; omitted means a single group over all matches
+  groupBy?: string | string[]
+  // Named metrics, defaults to { count: "count" }
+  metrics?: Record<string, AggregateMetric>
+}
+
+export interface AggregateRow {
+  // Values of the groupBy fields for this group ({} without groupBy)
+  group: Record<string, unknown>
+  // sum/count are numbers; avg/min/max are null when no value was seen
+  metrics: Record<string, unknown>
 }
 
+// A bucket of a range facet: from is inclusive, to exclusive, either may be
+// left open. Without a label the bucket is named "from..to".
+export interface FacetRange {
+  label?: string
+  from?: number | string | Date
+  to?: number | string | Date
+}
+
+// A field (or dotted json path) counted per distinct value, optionally only
+// the size most frequent ones, or counted per range
+export type FacetSpec = string | { field: string; size?: number; ranges?: FacetRange[] }
+
+export interface FacetCount {
+  value: unknown
+  count: number
+}
+
+// Field -> counts, most frequent first (range facets keep the bucket order)
+export type FacetResults = Record<string, FacetCount[]>
+
+// Results of a query that asked for facets carry them alongside the rows
+export type Faceted<R> = R & { facets?: FacetResults }
+
 export interface InsertResult {
   id: number
 }
 
+// A single declarative migration step. Steps that rewrite rows see them in
+// storage form, except transformRows which receives decoded rows (dates as
+// Date objects; encrypted fields stay encrypted).
+export type MigrationStep =
+  | { op: "addColumn"; table: string; column: string; type: ColumnType; default?: unknown }
+  | { op: "renameColumn"; table: string; from: string; to: string }
+  | { op: "dropColumn"; table: string; column: string }
+  | { op: "changeType"; table: string; column: string; type: ColumnType; convert?: (value: unknown) => unknown }
+  | { op: "addIndex"; table: string; index: IndexSpec }
+  | { op: "dropIndex"; table: string; index: IndexSpec }
+  | {
+      op: "transformRows"
+      table: string
+      // Return the new row, nothing to keep in-place changes, or null to delete it.
+      // Runs inside the upgrade transaction, so it must be synchronous.
+      transform: (row: Record<string, unknown>) => Record<string, unknown> | null | void
+    }
+
+export interface MigrationDefinition {
+  description?: string
+  steps: MigrationStep[]
+}
+
+// Raw upgrade callback, run inside the storage engine's versionchange transaction
+export type MigrationCallback = (db: StorageDatabase, tx: StorageTransaction, oldVersion: number) => void
+
+export type Migration = MigrationCallback | MigrationDefinition
+
+// Entry appended to the migration log in _meta_schema for every applied version
+export interface AppliedMigration {
+  version: number
+  description?: string
+  // Steps without their functions
+  steps: Array<{ op: MigrationStep["op"]; table: string; [key: string]: unknown }>
+  appliedAt: string
+}
+
+export type ColumnSpec = TableDefinition["columns"][string]
+
+export interface ColumnChange {
+  column: string
+  from: ColumnSpec
+  to: ColumnSpec
+}
+
+// Differences between the persisted definition of one table and the code schema
+export interface TableSchemaDiff {
+  table: string
+  addedColumns: Array<{ column: string; type: ColumnSpec }>
+  removedColumns: Array<{ column: string; type: ColumnSpec }>
+  changedColumns: ColumnChange[]
+  addedIndexes: IndexSpec[]
+  removedIndexes: IndexSpec[]
+  // Effective searchable fields (string columns when none are declared)
+  addedSearchableFields: string[]
+  removedSearchableFields: string[]
+  // Present when the vector field or its dims changed
+  vector?: { from: TableDefinition["vector"] | null; to: TableDefinition["vector"] | null }
+  // Named vectors that were added, removed or changed field or dims
+  vectors?: Array<{ name: string; from: VectorFieldConfig | null; to: VectorFieldConfig | null }>
+}
+
+export interface SchemaDiff {
+  // Tables in the code schema that were never persisted, and the reverse
+  addedTables: string[]
+  removedTables: string[]
+  // Only tables with at least one difference
+  tables: TableSchemaDiff[]
+}
+
+// Operations available inside ColumnistDB.transaction(). They behave like the
+// top-level methods but share one transaction.
+export interface TransactionHandle {
+  get<T = unknown>(id: number | string, table?: string): Promise<(T & { id: number }) | undefined>
+  find<T = unknown>(options?: FindOptions): Promise<(T & { id: number })[]>
+  insert<T extends Record<string, unknown>>(record: T, table?: string): Promise<InsertResult>
+  update<T extends Record<string, unknown>>(id: number, updates: Partial<T>, table?: string): Promise<void>
+  upsert<T extends Record<string, unknown>>(record: T, table?: string): Promise<InsertResult>
+  delete(id: number, table?: string): Promise<void>
+}
+
 export interface ColumnistDBOptions {
   databaseName: string
   autoInitialize?: boolean
@@ -66,8 +398,73 @@ export interface ColumnistDBOptions {
   }
   tables?: Record<string, TableDefinition>
   version?: number
-  migrations?: Record<number, (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void>
+  migrations?: Record<number, Migration>
   encryptionKey?: string
+  // Refuse to open when the persisted table definitions differ from the
+  // schema without a version bump, instead of warning
+  strictSchema?: boolean
+  // Called instead of the default warning when schema drift is detected,
+  // with a migration that would bring the stored data in line
+  onSchemaDrift?: (diff: SchemaDiff, migration: MigrationDefinition) => void
+  // Backend for tables and indexes. Defaults to IndexedDB when available,
+  // otherwise a process-wide in-memory engine
+  storage?: StorageEngine
+  // Where IndexedDB is unavailable (Node), keep the in-memory fallback in
+  // this directory as a snapshot plus write-ahead log, reloaded by the next
+  // init(). Ignored when storage is given.
+  persistence?: PersistenceOptions
+  // Background embedding of vector sources on insert, update and import
+  embedding?: EmbeddingOptions
+}
+
+export interface EmbeddingOptions {
+  // Rows embedded and stored together (default 32)
+  batchSize?: number
+  // Attempts per row before it is reported as failed (default 3)
+  maxAttempts?: number
+  // Milliseconds before the first retry, doubling with each one (default 100)
+  retryDelay?: number
+}
+
+export interface EmbeddingFailure {
+  id: number
+  error: string
+  attempts: number
+}
+
+export interface EmbeddingStatus {
+  // Rows whose embedding is queued, running or waiting for a retry
+  pending: number[]
+  // Rows that ran out of attempts; retryFailedEmbeddings() queues them again
+  failed: EmbeddingFailure[]
+}
+
+export interface EmbedderOptions {
+  // Vector the embedder fills, by name; the table's first vector by default
+  field?: string
+  // Model the embedder runs. Stored with every vector it embeds, so vectors
+  // of an earlier model are told apart, left out of searches and re-embedded
+  model?: string
+}
+
+export interface ReembedOptions {
+  field?: string
+  // Rows handed to the embedder at a time; progress is saved after each batch
+  batchSize?: number
+  onProgress?: (progress: ReembedProgress) => void
+}
+
+export interface ReembedProgress {
+  // Model the vectors are re-embedded with; null when it has no name
+  model: string | null
+  // Stale vectors re-embedded or failed so far, of all stale when the job began
+  done: number
+  total: number
+  failed: number
+}
+
+export interface PersistenceOptions extends FileStorageOptions {
+  directory: string
 }
 
 export interface BulkOperationResult {
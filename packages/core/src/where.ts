@@ -0,0 +1,172 @@
+// Where-clause evaluation shared by the IndexedDB and in-memory find paths.
+//
+// A WhereCondition maps field names to either a literal (equality) or an
+// operator object, and may combine clauses with $and / $or / $not. Field
+// names may be dotted paths into json columns, e.g. "metadata.documentId".
+
+import type { WhereCondition, FieldOperators } from "./types"
+
+const LOGICAL_KEYS = new Set(["$and", "$or", "$not"])
+
+export function isLogicalKey(key: string): boolean {
+  return LOGICAL_KEYS.has(key)
+}
+
+export function isOperatorObject(condition: unknown): condition is FieldOperators & Record<string, unknown> {
+  return typeof condition === "object" &&
+    condition !== null &&
+    !Array.isArray(condition) &&
+    !(condition instanceof Date) &&
+    !(condition instanceof RegExp)
+}
+
+// Resolve a column name or a dotted path such as "settings.theme.mode".
+// A key that literally contains the dots wins over walking nested objects.
+export function getFieldValue(record: Record<string, unknown>, path: string): unknown {
+  if (path in record || !path.includes(".")) return record[path]
+  let value: unknown = record
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  return a === b
+}
+
+export function toRegExp(pattern: string | RegExp, flags?: string): RegExp {
+  if (pattern instanceof RegExp) return flags ? new RegExp(pattern.source, flags) : pattern
+  return new RegExp(pattern, flags)
+}
+
+// Extract the literal prefix of an anchored pattern such as /^draft-/ so it can
+// be served by a key range. Returns null when the pattern is not a plain prefix.
+export function literalRegexPrefix(pattern: string | RegExp, flags?: string): string | null {
+  const source = pattern instanceof RegExp ? pattern.source : pattern
+  const allFlags = (pattern instanceof RegExp ? pattern.flags : "") + (flags || "")
+  if (allFlags.includes("i") || allFlags.includes("m")) return null
+  // ^a|b also matches strings that don't start with a
+  if (hasTopLevelAlternation(source)) return null
+  const match = /^\^((?:[^\\^$.|?*+()[\]{}]|\\[\\^$.|?*+()[\]{}/-])+)/.exec(source)
+  if (!match) return null
+  const chars = (match[1].match(/\\.|./g) ?? []).map(atom => atom.replace(/^\\/, ""))
+  // The last literal is optional when ?, * or {0,n} follows it; it is also
+  // dropped before {m,n} and a lazy +?
+  const next = source.slice(match[0].length)
+  if (/^(?:[?*{]|\+\?)/.test(next)) chars.pop()
+  return chars.length > 0 ? chars.join("") : null
+}
+
+function hasTopLevelAlternation(source: string): boolean {
+  let depth = 0
+  let inClass = false
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (char === "\\") i++
+    else if (inClass) inClass = char !== "]"
+    else if (char === "[") inClass = true
+    else if (char === "(") depth++
+    else if (char === ")") depth--
+    else if (char === "|" && depth === 0) return true
+  }
+  return false
+}
+
+function containsValue(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(haystack)) return haystack.some(item => valuesEqual(item, needle))
+  if (typeof haystack === "string" && typeof needle === "string") return haystack.includes(needle)
+  return false
+}
+
+function matchesIn(value: unknown, list: unknown[]): boolean {
+  // For array values (json columns such as tags) $in matches when any element is listed
+  if (Array.isArray(value)) return value.some(item => list.some(candidate => valuesEqual(item, candidate)))
+  return list.some(candidate => valuesEqual(value, candidate))
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null
+}
+
+export function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (condition === null || condition === undefined) {
+    return value === condition
+  }
+
+  if (condition instanceof RegExp) {
+    return typeof value === "string" && condition.test(value)
+  }
+
+  if (!isOperatorObject(condition)) {
+    // Equality condition
+    return valuesEqual(value, condition)
+  }
+
+  const cond = condition
+  if ("$eq" in cond && !valuesEqual(value, cond.$eq)) return false
+  if ("$ne" in cond && valuesEqual(value, cond.$ne)) return false
+
+  // Range conditions
+  if ("$gt" in cond && !(isPresent(value) && (value as number) > (cond.$gt as number))) return false
+  if ("$gte" in cond && !(isPresent(value) && (value as number) >= (cond.$gte as number))) return false
+  if ("$lt" in cond && !(isPresent(value) && (value as number) < (cond.$lt as number))) return false
+  if ("$lte" in cond && !(isPresent(value) && (value as number) <= (cond.$lte as number))) return false
+
+  if ("$in" in cond && Array.isArray(cond.$in) && !matchesIn(value, cond.$in)) return false
+  if ("$nin" in cond && Array.isArray(cond.$nin) && matchesIn(value, cond.$nin)) return false
+
+  if ("$exists" in cond && isPresent(value) !== Boolean(cond.$exists)) return false
+
+  if ("$prefix" in cond && !(typeof value === "string" && typeof cond.$prefix === "string" && value.startsWith(cond.$prefix))) {
+    return false
+  }
+  if ("$regex" in cond && cond.$regex !== undefined) {
+    if (typeof value !== "string" || !toRegExp(cond.$regex, cond.$options).test(value)) return false
+  }
+
+  if ("$contains" in cond) {
+    const needles = Array.isArray(cond.$contains) ? cond.$contains : [cond.$contains]
+    if (!needles.every(needle => containsValue(value, needle))) return false
+  }
+
+  if ("$not" in cond && matchesCondition(value, cond.$not)) return false
+
+  return true
+}
+
+export function matchesWhere(record: Record<string, unknown>, where: WhereCondition): boolean {
+  for (const [key, condition] of Object.entries(where)) {
+    if (key === "$and") {
+      if (!(condition as WhereCondition[]).every(clause => matchesWhere(record, clause))) return false
+    } else if (key === "$or") {
+      const clauses = condition as WhereCondition[]
+      if (clauses.length > 0 && !clauses.some(clause => matchesWhere(record, clause))) return false
+    } else if (key === "$not") {
+      if (matchesWhere(record, condition as WhereCondition)) return false
+    } else if (!matchesCondition(getFieldValue(record, key), condition)) {
+      return false
+    }
+  }
+  return true
+}
+
+// Field conditions that must hold for every match: top-level fields plus
+// those reached through $and. Used by the planner to pick key ranges.
+export function requiredFieldConditions(where: WhereCondition): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  for (const [key, condition] of Object.entries(where)) {
+    if (key === "$and") {
+      for (const clause of condition as WhereCondition[]) {
+        for (const [field, nested] of Object.entries(requiredFieldConditions(clause))) {
+          if (!(field in out)) out[field] = nested
+        }
+      }
+    } else if (!isLogicalKey(key) && !(key in out)) {
+      out[key] = condition
+    }
+  }
+  return out
+}
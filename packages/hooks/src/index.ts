@@ -11,6 +11,11 @@ export {
   type TableStats,
   type OverallStats
 } from "./use-stats"
+export {
+  useAggregate,
+  type UseAggregateOptions,
+  type UseAggregateResult
+} from "./use-aggregate"
 
 // Document processing hooks
 export {
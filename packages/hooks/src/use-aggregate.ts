@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useState, useCallback, useMemo } from "react"
+import { Columnist, type AggregateOptions, type AggregateRow } from "columnist-db-core"
+
+export interface UseAggregateOptions extends AggregateOptions {
+  // Override table to be required for clarity
+  table: string
+  // Dependencies that should trigger re-aggregation
+  deps?: unknown[]
+  // Whether to re-aggregate when the table changes (default: true)
+  subscribe?: boolean
+}
+
+export interface UseAggregateResult {
+  data: AggregateRow[]
+  isLoading: boolean
+  error: Error | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * React hook for reactive aggregates (count, sum, avg, min, max) computed
+ * inside the database instead of over rows pulled with getAll
+ *
+ * @example
+ * ```tsx
+ * const { data: byStatus } = useAggregate({
+ *   table: "tasks",
+ *   groupBy: "status",
+ *   metrics: { tasks: "count", estimate: { fn: "sum", field: "estimate" } }
+ * })
+ * ```
+ */
+export function useAggregate(options: UseAggregateOptions): UseAggregateResult {
+  const [data, setData] = useState<AggregateRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const { table, where, groupBy, metrics, deps = [], subscribe = true } = options
+
+  // Create stable aggregate options object
+  const aggregateOptions = useMemo((): AggregateOptions => ({
+    table,
+    where,
+    groupBy,
+    metrics
+  }), [table, where, groupBy, metrics])
+
+  // Execute aggregation
+  const executeQuery = useCallback(async () => {
+    try {
+      setError(null)
+      const db = Columnist.getDB()
+      const rows = await db.aggregate(aggregateOptions)
+      setData(rows)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error("Aggregation failed"))
+      setData([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [aggregateOptions])
+
+  // Refetch function for manual updates
+  const refetch = useCallback(async () => {
+    setIsLoading(true)
+    await executeQuery()
+  }, [executeQuery])
+
+  // Initial query and dependency updates
+  useEffect(() => {
+    setIsLoading(true)
+    executeQuery()
+  }, [executeQuery, ...deps])
+
+  // Subscription for reactive updates
+  useEffect(() => {
+    if (!subscribe) return
+
+    try {
+      const db = Columnist.getDB()
+      const unsubscribe = db.subscribe(table, () => {
+        executeQuery()
+      })
+
+      return unsubscribe
+    } catch {
+      // Database might not be initialized yet, ignore
+      return undefined
+    }
+  }, [table, subscribe, executeQuery])
+
+  return useMemo(() => ({
+    data,
+    isLoading,
+    error,
+    refetch
+  }), [data, isLoading, error, refetch])
+}
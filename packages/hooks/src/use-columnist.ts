@@ -1,7 +1,7 @@
 "use client"
 
 import { useEffect, useState, useCallback, useMemo } from "react"
-import { Columnist, type SchemaDefinition, type FindOptions, type SearchOptions, type InsertResult, type WhereCondition } from "columnist-db-core"
+import { Columnist, type SchemaDefinition, type FindOptions, type SearchHit, type SearchOptions, type InsertResult, type WhereCondition, type TransactionHandle } from "columnist-db-core"
 import { MemoryManager, type DocumentSearchOptions, type DocumentSearchResult, type DocumentProcessingOptions, type EmbeddingProvider } from "columnist-db-core"
 
 export interface UseColumnistOptions {
@@ -20,11 +20,11 @@ export interface UseColumnistResult<Schema extends SchemaDefinition = SchemaDefi
   delete: (id: number, table?: string) => Promise<void>
   upsert: <T extends Record<string, unknown>>(record: T, table?: string) => Promise<InsertResult>
   find: <T = any>(options?: FindOptions) => Promise<(T & { id: number })[]>
-  search: <T = any>(query: string, options?: SearchOptions) => Promise<(T & { id: number; score: number })[]>
+  search: <T = any>(query: string, options?: SearchOptions) => Promise<SearchHit<T>[]>
   getAll: <T = unknown>(table: string, limit?: number) => Promise<(T & { id: number })[]>
   getStats: (table?: string) => Promise<any>
   subscribe: (table: string, fn: (event: any) => void) => () => void
-  transaction: (work: (tx: any) => Promise<void>) => Promise<void>
+  transaction: (work: (tx: TransactionHandle) => Promise<void>) => Promise<void>
   // Document processing methods
   addDocument: (content: string, metadata?: Record<string, any>, options?: DocumentProcessingOptions) => Promise<string>
   searchDocuments: (query: string, options?: DocumentSearchOptions) => Promise<DocumentSearchResult[]>
@@ -166,7 +166,7 @@ export function useColumnist<Schema extends SchemaDefinition = SchemaDefinition>
     return db.subscribe(table, fn)
   }, [db])
 
-  const transaction = useCallback(async (work: (tx: any) => Promise<void>): Promise<void> => {
+  const transaction = useCallback(async (work: (tx: TransactionHandle) => Promise<void>): Promise<void> => {
     if (!db) throw new Error("Database not initialized")
     return await db.transaction(work)
   }, [db])
@@ -28,7 +28,7 @@ interface UseDocumentSearchResult {
  * const { results, isLoading, search, hasResults } = useDocumentSearch({
  *   memoryManager: memoryManager,
  *   searchStrategy: 'hybrid',
- *   includeHighlights: true,
+ *   highlight: { preTag: "<b>", postTag: "</b>", fragmentSize: 120 },
  *   autoSearch: true
  * })
  *
@@ -40,6 +40,7 @@ interface UseDocumentSearchResult {
  *   <div key={result.memory.id}>
  *     <h3>{result.memory.content.slice(0, 100)}...</h3>
  *     <p>Relevance: {(result.relevance * 100).toFixed(1)}%</p>
+ *     {result.highlights?.map(fragment => <p key={fragment}>{fragment}</p>)}
  *   </div>
  * ))}
  * ```
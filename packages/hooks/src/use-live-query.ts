@@ -1,7 +1,7 @@
 "use client"
 
 import { useEffect, useState, useCallback, useMemo } from "react"
-import { Columnist, type FindOptions, type SearchOptions } from "columnist-db-core"
+import { Columnist, type FindOptions, type SearchHit, type SearchOptions } from "columnist-db-core"
 
 export interface UseLiveQueryOptions extends FindOptions {
   // Override table to be required for clarity
@@ -119,7 +119,8 @@ export interface UseSearchOptions extends Omit<SearchOptions, "table"> {
 }
 
 export interface UseSearchResult<T = any> {
-  data: (T & { id: number; score: number })[]
+  // Results carry highlights when the highlight option is set
+  data: SearchHit<T>[]
   isLoading: boolean
   error: Error | null
   refetch: () => Promise<void>
@@ -134,24 +135,28 @@ export interface UseSearchResult<T = any> {
  *   table: "messages",
  *   query: searchTerm,
  *   limit: 20,
+ *   highlight: { fields: ["message"], fragmentSize: 80 },
  *   deps: [searchTerm]
  * })
+ *
+ * // searchResults[0].highlights?.message -> ["... <mark>term</mark> ..."]
  * ```
  */
 export function useSearch<T = any>(options: UseSearchOptions): UseSearchResult<T> {
-  const [data, setData] = useState<(T & { id: number; score: number })[]>([])
+  const [data, setData] = useState<SearchHit<T>[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
 
-  const { table, query, limit, timeRange, deps = [], subscribe = true, ...filters } = options
+  const { table, query, limit, timeRange, highlight, deps = [], subscribe = true, ...filters } = options
 
   // Create stable search options object
   const searchOptions = useMemo((): SearchOptions => ({
     table,
     limit: limit as number,
     timeRange: timeRange as [Date | string, Date | string] | undefined,
+    highlight,
     ...filters
-  }), [table, limit, timeRange, filters])
+  }), [table, limit, timeRange, highlight, filters])
 
   // Execute search
   const executeSearch = useCallback(async () => {
@@ -43,6 +43,31 @@ export class OpenAIEmbeddingProvider {
     }
   }
 
+  async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    try {
+      const response = await this.openai.embeddings.create({
+        model: this.model,
+        input: texts,
+        encoding_format: 'float'
+      });
+
+      // Results carry the index of their input; don't rely on their order
+      const embeddings: Float32Array[] = new Array(texts.length);
+      for (const item of response.data) {
+        embeddings[item.index] = new Float32Array(item.embedding);
+      }
+      if (embeddings.some(embedding => !embedding) || response.data.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings from OpenAI, got ${response.data.length}`);
+      }
+
+      return embeddings;
+    } catch (error) {
+      console.error('OpenAI embedding error:', error);
+      throw error;
+    }
+  }
+
   getDimensions(): number {
     return this.dimensions;
   }
@@ -25,6 +25,7 @@ describe('RAGDatabase caching behaviour', () => {
     (ragDb as any).db = {
       vectorSearchText: vi.fn().mockImplementation(async (_table: string, query: string) => [createResult(query)]),
       search: vi.fn().mockResolvedValue([]),
+      getEmbeddingStatus: vi.fn().mockReturnValue({ pending: [], failed: [] }),
     };
 
     await ragDb.search('alpha', { limit: 1 });
@@ -76,6 +77,6 @@ describe('RAGDatabase caching behaviour', () => {
     const [, options] = initMock.mock.calls[0];
     expect(options?.schema?.chunks?.vector?.dims).toBe(42);
     expect((ragDb as any).embeddingProvider).toBe(customProvider);
-    expect(registerEmbedder).toHaveBeenCalledWith('chunks', expect.any(Function));
+    expect(registerEmbedder).toHaveBeenCalledWith('chunks', expect.any(Function), { model: 'custom-model' });
   });
 });
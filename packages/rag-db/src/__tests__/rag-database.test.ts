@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Columnist, Reranker } from 'columnist-db-core'
+import { RAGDatabase } from '../rag-database'
+
+const FRUITS = ['apple', 'banana', 'cherry']
+
+// Counts the fruits a text mentions, so texts about the same fruit are close
+function fruitVector(text: string): Float32Array {
+  const lower = text.toLowerCase()
+  return new Float32Array(FRUITS.map(fruit => lower.split(fruit).length - 1 + 0.01))
+}
+
+function fruitProvider(model = 'fruits-v1') {
+  const provider = {
+    generateEmbedding: vi.fn(async (text: string) => fruitVector(text)),
+    generateEmbeddings: vi.fn(async (texts: string[]) => texts.map(fruitVector)),
+    getDimensions: () => FRUITS.length,
+    getModel: () => model
+  }
+  return provider
+}
+
+describe('RAGDatabase', () => {
+  let name = ''
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(name)
+      request.onsuccess = () => resolve()
+      request.onerror = () => resolve()
+      request.onblocked = () => resolve()
+    })
+  })
+
+  function open(dbName: string, provider = fruitProvider(), reranker?: Reranker) {
+    name = dbName
+    return new RAGDatabase({
+      name,
+      embeddingProvider: provider,
+      reranker,
+      chunkingStrategy: 'recursive',
+      searchStrategy: 'semantic'
+    })
+  }
+
+  it('embeds the chunks of a document in one batch', async () => {
+    const provider = fruitProvider()
+    const rag = open('rag-batch-test', provider)
+
+    await rag.addDocument('An apple a day.\n\nBananas are yellow.\n\nCherries are red.')
+    await rag.flushEmbeddings()
+
+    expect(provider.generateEmbeddings).toHaveBeenCalledTimes(1)
+    expect(provider.generateEmbeddings).toHaveBeenCalledWith(['An apple a day.', 'Bananas are yellow.', 'Cherries are red.'])
+    expect(provider.generateEmbedding).not.toHaveBeenCalled()
+    expect(await rag.getStats()).toMatchObject({ totalDocuments: 1, totalChunks: 3, embeddingModel: 'fruits-v1' })
+  })
+
+  it('writes nothing when a chunk fails to be written', async () => {
+    const rag = open('rag-atomic-test')
+    await rag.initialize()
+    const db = (rag as unknown as { db: Awaited<ReturnType<typeof Columnist.init>> }).db
+    const transaction = db.transaction.bind(db)
+    vi.spyOn(db, 'transaction').mockImplementation(work => transaction(tx => work({
+      ...tx,
+      insert: (record, table) => (table === 'chunks' ? Promise.reject(new Error('disk full')) : tx.insert(record, table))
+    })))
+
+    await expect(rag.addDocument('An apple a day.')).rejects.toThrow('disk full')
+    expect(await rag.getStats()).toMatchObject({ totalDocuments: 0, totalChunks: 0 })
+  })
+
+  it('returns one chunk per document unless maxResultsPerDocument allows more', async () => {
+    const rag = open('rag-grouping-test')
+    await rag.addDocument('Apple pie.\n\nApple juice.\n\nApple tart.')
+    await rag.addDocument('Apple and banana smoothie.')
+    await rag.flushEmbeddings()
+
+    const best = await rag.search('apple', { limit: 5 })
+    expect(best.map(result => result.document.content)).toEqual(['Apple pie.', 'Apple and banana smoothie.'])
+
+    const more = await rag.search('apple', { limit: 5, maxResultsPerDocument: 2 })
+    expect(more.map(result => result.document.content)).toEqual(['Apple pie.', 'Apple juice.', 'Apple and banana smoothie.'])
+  })
+
+  it('reorders matches with a registered reranker', async () => {
+    const rerank = vi.fn((_query: string, candidates: { text: string }[]) =>
+      candidates.map(candidate => (candidate.text.includes('smoothie') ? 1 : 0)))
+    const rag = open('rag-reranker-test')
+    await rag.addDocument('Apple pie.')
+    await rag.addDocument('Apple and banana smoothie.')
+    await rag.flushEmbeddings()
+
+    expect((await rag.search('apple', { limit: 1 }))[0].document.content).toBe('Apple pie.')
+
+    rag.registerReranker({ rerank })
+    const reranked = await rag.search('apple', { limit: 1 })
+    expect(reranked.map(result => [result.document.content, result.score])).toEqual([['Apple and banana smoothie.', 1]])
+    expect(rerank).toHaveBeenCalledWith('apple', expect.arrayContaining([expect.objectContaining({ text: 'Apple pie.' })]))
+
+    // Opting out, or removing the reranker, keeps the retrieval ranking
+    expect((await rag.search('apple', { limit: 1, rerank: false }))[0].document.content).toBe('Apple pie.')
+    rag.registerReranker(null)
+    expect((await rag.search('apple', { limit: 1 }))[0].document.content).toBe('Apple pie.')
+  })
+
+  it('reports chunks of a previous model as stale until reembed replaces them', async () => {
+    const before = open('rag-reembed-test')
+    await before.addDocument('An apple a day.\n\nBananas are yellow.')
+    await before.flushEmbeddings()
+    expect(await before.getStats()).toMatchObject({ staleEmbeddings: 0 })
+
+    const provider = fruitProvider('fruits-v2')
+    const rag = open('rag-reembed-test', provider)
+    expect(await rag.getStats()).toMatchObject({ embeddingModel: 'fruits-v2', staleEmbeddings: 2 })
+    // Stale vectors are left out of searches
+    expect(await rag.search('apple')).toEqual([])
+
+    const progress = await rag.reembed()
+    expect(progress).toEqual({ model: 'fruits-v2', done: 2, total: 2, failed: 0 })
+    expect(provider.generateEmbeddings).toHaveBeenCalledWith(['An apple a day.', 'Bananas are yellow.'])
+    expect(await rag.getStats()).toMatchObject({ staleEmbeddings: 0 })
+    expect((await rag.search('apple')).map(result => result.document.content)).toEqual(['An apple a day.'])
+  })
+})
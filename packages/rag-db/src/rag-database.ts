@@ -1,6 +1,6 @@
 import { performance } from 'node:perf_hooks';
 
-import { Columnist, BasicEmbeddingProvider } from 'columnist-db-core';
+import { Columnist, BasicEmbeddingProvider, type MMROptions, type ReembedProgress, type Reranker } from 'columnist-db-core';
 import { OpenAIEmbeddingProvider } from 'columnist-db-plugin-openai-embedding';
 import {
   RAGDatabaseOptions,
@@ -19,6 +19,7 @@ type EmbeddingEngine = EmbeddingProviderLike;
 export class RAGDatabase {
   private db: any = null;
   private embeddingProvider: EmbeddingEngine | null = null;
+  private reranker: Reranker | null = null;
   private options: RAGDatabaseOptions;
   private isInitialized = false;
   private initializationPromise: Promise<void> | null = null;
@@ -33,13 +34,15 @@ export class RAGDatabase {
   };
 
   constructor(options: RAGDatabaseInitOptions = {}) {
-    const { embeddingProvider, ...config } = options;
+    const { embeddingProvider, reranker, ...config } = options;
     const parsed = RAGDatabaseOptionsSchema.parse(config);
 
     this.options = {
       ...parsed,
       embeddingProvider,
+      reranker,
     };
+    this.reranker = reranker ?? null;
 
     this.cacheDurationMs = this.options.cacheDurationMs;
     this.cacheMaxEntries = this.options.cacheMaxEntries;
@@ -119,10 +122,19 @@ export class RAGDatabase {
 
     this.db = await Columnist.init(this.options.name, initOptions);
 
-    if (this.embeddingProvider) {
+    // Vectors are tagged with the model, so those of a previous model are
+    // left out of searches until reembed() replaces them
+    const provider = this.embeddingProvider;
+    if (provider?.generateEmbeddings) {
+      // Chunks are embedded in the background in batches; hand each batch
+      // to the provider in one call
+      this.db.registerBatchEmbedder('chunks', async (texts: string[]) => {
+        return provider.generateEmbeddings!(texts);
+      }, { model: provider.getModel() });
+    } else if (provider) {
       this.db.registerEmbedder('chunks', async (text: string) => {
-        return this.embeddingProvider!.generateEmbedding(text);
-      });
+        return provider.generateEmbedding(text);
+      }, { model: provider.getModel() });
     }
 
     if (this.options.syncEnabled && this.options.syncAdapter) {
@@ -177,28 +189,32 @@ export class RAGDatabase {
       chunks.push(content);
     }
 
-    const { id: insertedId } = await db.insert(
-      {
-        content,
-        metadata,
-        createdAt: now,
-        updatedAt: now
-      },
-      'documents'
-    );
-
-    for (const [index, chunk] of chunks.entries()) {
-      await db.insert(
+    // The document and its chunks are written together or not at all; the
+    // chunks' embeddings are queued together once the transaction commits
+    const insertedId = await db.transaction(async tx => {
+      const { id } = await tx.insert(
         {
-          documentId: insertedId,
-          content: chunk,
-          metadata: { ...metadata, documentId: insertedId, chunkIndex: index },
+          content,
+          metadata,
           createdAt: now,
           updatedAt: now
         },
-        'chunks'
+        'documents'
       );
-    }
+      for (const [index, chunk] of chunks.entries()) {
+        await tx.insert(
+          {
+            documentId: id,
+            content: chunk,
+            metadata: { ...metadata, documentId: id, chunkIndex: index },
+            createdAt: now,
+            updatedAt: now
+          },
+          'chunks'
+        );
+      }
+      return id;
+    });
 
     this.queryCache.clear();
     return insertedId.toString();
@@ -225,30 +241,41 @@ export class RAGDatabase {
     const start = performance.now();
     let results: SearchResult[] = [];
 
+    // With a reranker more matches are retrieved than returned
+    const reranker = options.rerank === false ? null : this.reranker;
+    const candidates = options.rerank === false || !reranker
+      ? limit
+      : Math.max(options.rerank?.candidates ?? limit * 4, limit);
+
     if (this.options.searchStrategy === 'hybrid' || this.options.searchStrategy === 'semantic') {
-      const semanticResults = await this.semanticSearch(query, limit, threshold);
+      const semanticResults = await this.semanticSearch(query, candidates, threshold, options.mmr);
       results.push(...semanticResults);
     }
 
     if (this.options.searchStrategy === 'hybrid' || this.options.searchStrategy === 'keyword') {
-      const keywordResults = await this.keywordSearch(query, limit, threshold);
+      const keywordResults = await this.keywordSearch(query, candidates, threshold);
       results.push(...keywordResults);
     }
 
-    const uniqueResults = this.deduplicateResults(results);
-    const rankedResults = this.rankResults(uniqueResults, query);
-    const limited = rankedResults.slice(0, limit);
+    const rankedResults = this.rankResults(results, query);
+    const grouped = this.groupByDocument(rankedResults, options.maxResultsPerDocument ?? 1);
+    const limited = reranker
+      ? await this.rerankResults(reranker, query, grouped.slice(0, candidates), limit)
+      : grouped.slice(0, limit);
 
     const duration = performance.now() - start;
     this.metrics.totalQueries += 1;
     this.metrics.totalDurationMs += duration;
-    this.queryCache.set(cacheKey, { timestamp: now, results: this.cloneResults(limited) });
-    this.enforceCacheLimit();
+    // Chunks still being embedded would be missing from cached results
+    if (this.db.getEmbeddingStatus('chunks').pending.length === 0) {
+      this.queryCache.set(cacheKey, { timestamp: now, results: this.cloneResults(limited) });
+      this.enforceCacheLimit();
+    }
 
     return this.cloneResults(limited);
   }
 
-  private async semanticSearch(query: string, limit: number, threshold: number): Promise<SearchResult[]> {
+  private async semanticSearch(query: string, limit: number, threshold: number, mmr?: MMROptions): Promise<SearchResult[]> {
     if (!this.embeddingProvider) {
       return [];
     }
@@ -260,7 +287,8 @@ export class RAGDatabase {
 
     const results = await db.vectorSearchText('chunks', query, {
       limit: limit * 2,
-      metric: 'cosine'
+      metric: 'cosine',
+      mmr
     });
 
     return results
@@ -340,17 +368,45 @@ export class RAGDatabase {
     }
   }
 
-  private deduplicateResults(results: SearchResult[]): SearchResult[] {
-    const seen = new Set<string>();
+  // Drop repeated chunks (matched both semantically and by keyword) and keep
+  // the best maxPerDocument chunks of each document
+  private groupByDocument(results: SearchResult[], maxPerDocument: number): SearchResult[] {
+    const seenChunks = new Set<string>();
+    const perDocument = new Map<string, number>();
     return results.filter(result => {
+      if (seenChunks.has(result.document.id)) return false;
+      seenChunks.add(result.document.id);
       const metaId = (result.document.metadata && (result.document.metadata as any).documentId) ?? result.document.id;
       const key = metaId != null ? metaId.toString() : result.document.id;
-      if (seen.has(key)) return false;
-      seen.add(key);
+      const count = perDocument.get(key) ?? 0;
+      if (count >= maxPerDocument) return false;
+      perDocument.set(key, count + 1);
       return true;
     });
   }
 
+  // Rescore the matches with the reranker; relevance stays that of retrieval
+  private async rerankResults(reranker: Reranker, query: string, results: SearchResult[], limit: number): Promise<SearchResult[]> {
+    if (results.length === 0) {
+      return results;
+    }
+
+    const scores = await reranker.rerank(query, results.map(result => ({
+      id: result.document.chunkId ?? result.document.id,
+      text: result.document.content,
+      score: result.score,
+      record: { ...result.document }
+    })));
+    if (scores.length !== results.length) {
+      throw new Error(`Reranker returned ${scores.length} scores for ${results.length} candidates`);
+    }
+
+    return results
+      .map((result, index) => ({ ...result, score: scores[index] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
   private rankResults(results: SearchResult[], query: string): SearchResult[] {
     return results.sort((a, b) => {
       // Combine score with additional ranking factors
@@ -484,6 +540,43 @@ export class RAGDatabase {
     return [...new Set(highlights)].slice(0, 5); // Unique highlights, max 5
   }
 
+  /**
+   * Wait until the chunks of added documents are embedded. Chunks are
+   * embedded in the background, and semantic search only finds those that
+   * are.
+   */
+  async flushEmbeddings(): Promise<void> {
+    await this.initialize();
+    await this.db?.flushEmbeddings();
+  }
+
+  /**
+   * Set the reranker that reorders the best matches of every search, or
+   * remove it with null.
+   */
+  registerReranker(reranker: Reranker | null): void {
+    this.reranker = reranker;
+    this.options.reranker = reranker ?? undefined;
+    this.queryCache.clear();
+  }
+
+  /**
+   * Re-embed the chunks embedded by a previous embedding model, after
+   * embeddingModel or the provider changed. Resumes an interrupted run.
+   */
+  async reembed(options: { batchSize?: number; onProgress?: (progress: ReembedProgress) => void } = {}): Promise<ReembedProgress> {
+    await this.initialize();
+
+    const db = this.db;
+    if (!db) {
+      throw new Error('RAG database has not been initialized');
+    }
+
+    const progress = await db.reembed('chunks', options);
+    this.queryCache.clear();
+    return progress;
+  }
+
   async getStats(): Promise<RAGStats> {
     await this.initialize();
 
@@ -494,11 +587,13 @@ export class RAGDatabase {
 
     const documents = await db.getAll('documents', Number.MAX_SAFE_INTEGER);
     const chunks = await db.getAll('chunks', Number.MAX_SAFE_INTEGER);
+    const { staleVectors } = await db.getVectorSearchStats('chunks');
 
     return {
       totalDocuments: documents.length,
       totalChunks: chunks.length,
       embeddingModel: this.embeddingProvider?.getModel() || 'none',
+      staleEmbeddings: staleVectors,
       searchPerformance: {
         avgResponseTime: this.metrics.totalQueries
           ? this.metrics.totalDurationMs / this.metrics.totalQueries
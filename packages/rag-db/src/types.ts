@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { MMROptions, Reranker, RerankOptions } from 'columnist-db-core';
 
 export const RAGDatabaseOptionsSchema = z
   .object({
@@ -19,6 +20,7 @@ export const RAGDatabaseOptionsSchema = z
 
 export interface EmbeddingProviderLike {
   generateEmbedding(text: string): Promise<Float32Array>;
+  generateEmbeddings?(texts: string[]): Promise<Float32Array[]>;
   getDimensions(): number;
   getModel(): string;
 }
@@ -27,10 +29,13 @@ type BaseRAGDatabaseOptions = z.infer<typeof RAGDatabaseOptionsSchema>;
 
 export type RAGDatabaseOptions = BaseRAGDatabaseOptions & {
   embeddingProvider?: EmbeddingProviderLike;
+  // Reorders the best matches of every search
+  reranker?: Reranker;
 };
 
-export type RAGDatabaseInitOptions = Partial<Omit<RAGDatabaseOptions, 'embeddingProvider'>> & {
+export type RAGDatabaseInitOptions = Partial<Omit<RAGDatabaseOptions, 'embeddingProvider' | 'reranker'>> & {
   embeddingProvider?: EmbeddingProviderLike;
+  reranker?: Reranker;
 };
 
 export interface Document {
@@ -55,6 +60,12 @@ export interface SearchOptions {
   threshold?: number;
   includeHighlights?: boolean;
   filters?: Record<string, any>;
+  // Diversify the semantic matches by maximal marginal relevance
+  mmr?: MMROptions;
+  // Chunks returned per document, best first (default 1)
+  maxResultsPerDocument?: number;
+  // Matches handed to the reranker (default 4 x limit), or false to skip it
+  rerank?: false | Omit<RerankOptions, 'query'>;
 }
 
 export interface ChunkingResult {
@@ -66,6 +77,8 @@ export interface RAGStats {
   totalDocuments: number;
   totalChunks: number;
   embeddingModel: string;
+  // Chunks embedded by a previous model, until reembed() runs
+  staleEmbeddings: number;
   searchPerformance: {
     avgResponseTime: number;
     totalQueries: number;
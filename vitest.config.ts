@@ -22,7 +22,11 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': '/src',
-      '@lib': '/lib'
+      '@lib': '/lib',
+      // Workspace packages resolve to their sources
+      'columnist-db-core': '/packages/core/src',
+      'columnist-db-hooks': '/packages/hooks/src',
+      'columnist-db-plugin-openai-embedding': '/packages/plugins/openai-embedding/src'
     }
   }
 })
\ No newline at end of file